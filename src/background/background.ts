@@ -12,23 +12,71 @@ import {
  * no per-type gating is currently enforced.
  */
 import type {
+  CancelJobRequest,
+  CancelJobResponse,
+  ExportTranslationPackRequest,
+  ExportTranslationPackResponse,
+  ImportTranslationPackRequest,
+  ImportTranslationPackResponse,
+  JobInterruptedMessage,
+  ContentState,
+  ContextMenuActionMessage,
   QueryJobStatusRequest,
+  ReprioritizeJobsRequest,
+  ReprioritizeJobsResponse,
+  SaveTranslationCorrectionRequest,
+  SaveTranslationCorrectionResponse,
   TranslateImageJobRequest,
   TranslateImageJobResponse,
   RequestedExecutionPath,
+  TabFramesDispatchRequest,
+  TabFramesDispatchResponse,
+  TabStateUpdateMessage,
 } from '@/shared/runtime-contracts';
 import type { TranslationTransportRequest } from '@/services/translation-transport';
+import { isProviderType, type ProviderType } from '@/providers/base';
 import {
   DEFAULT_CONFIG,
+  normalizePerceptualHashThreshold,
   normalizeRuntimeAppConfig,
   APP_CONFIG_STORAGE_KEY,
   isProviderSettingsComplete,
+  type ProviderSettings,
 } from '@/shared/app-config';
 import { getErrorMessage } from '@/utils/error-message';
+import { CANCELLED_ERROR_MESSAGE, isAbortError, throwIfAborted } from '@/utils/abort';
 import { obfuscateAllApiKeys, deobfuscateAllApiKeys } from '@/utils/crypto';
 
-import { translateImageViaProviderDirect } from './provider-direct-client';
+import {
+  translateImageWithFallback,
+  type ProviderFallbackTarget,
+} from './provider-direct-client';
 import { BackgroundJobQueue, createJobStatus } from './job-queue';
+import { getCommandMessage } from './commands';
+import {
+  TRANSLATE_PAGE_MENU_ID,
+  getContextMenuAction,
+  registerContextMenus,
+} from './context-menus';
+import {
+  TOP_FRAME_ID,
+  TabFrameStates,
+  getTabFrameIds,
+  sendToFrames,
+  shouldAutoTranslateFrame,
+} from './frame-router';
+import { JobQueueCheckpointer, loadJobQueueCheckpoint } from './job-checkpoint';
+import {
+  LEGACY_CACHE_STORAGE_KEY,
+  createTranslationCache,
+  retagLegacyCacheEntries,
+  type TranslationCacheKeyParts,
+} from './translation-cache';
+import { createTranslationPack, parseTranslationPack } from './translation-pack';
+import {
+  calculateHash,
+  calculatePerceptualHash,
+} from '@/services/image-processor';
 import { deriveRequestedPath } from '@/shared/runtime-contracts';
 
 interface MessageRequest {
@@ -53,6 +101,52 @@ const CONFIG_STORAGE_KEY = 'manga-translator-config-v2';
 // 默认并发度使用 DEFAULT_CONFIG.parallelLimit 
 const translationJobQueue = new BackgroundJobQueue(DEFAULT_CONFIG.parallelLimit, 500);
 
+// jobId → 提交任务的标签页，随队列快照一起持久化，用于 worker 重启后通知页面
+const jobTabIds = new Map<string, number>();
+/** Latest ContentState of each frame, aggregated for the popup and the top-frame HUD */
+const tabFrameStates = new TabFrameStates();
+const jobQueueCheckpointer = new JobQueueCheckpointer(translationJobQueue, jobTabIds);
+const jobQueueRestored = restoreJobQueue();
+
+// 译文缓存由 background 持有（IndexedDB），所有标签页共享，浏览器重启后仍然有效
+const translationCache = createTranslationCache();
+
+/**
+ * MV3 service worker 随时可能被回收。每次 worker 启动时从 storage.session
+ * 读回上一个 worker 的队列快照：未完成的任务已无法继续执行（run 闭包随旧
+ * worker 消失），标记为失败并通知所属标签页，由页面侧重新提交。
+ */
+async function restoreJobQueue(): Promise<void> {
+  try {
+    const checkpoint = await loadJobQueueCheckpoint();
+    jobQueueCheckpointer.attach();
+    if (!checkpoint) {
+      return;
+    }
+
+    for (const [jobId, tabId] of Object.entries(checkpoint.tabIds)) {
+      if (!jobTabIds.has(jobId)) {
+        jobTabIds.set(jobId, tabId);
+      }
+    }
+
+    const interruptedByTab = new Map<number, string[]>();
+    for (const job of translationJobQueue.restore(checkpoint.jobs)) {
+      const tabId = jobTabIds.get(job.jobId);
+      if (tabId === undefined) continue;
+      interruptedByTab.set(tabId, [...(interruptedByTab.get(tabId) ?? []), job.jobId]);
+    }
+
+    for (const [tabId, jobIds] of interruptedByTab) {
+      const message: JobInterruptedMessage = { type: 'JOB_INTERRUPTED', jobIds };
+      void sendToTab(tabId, { ...message }).catch(() => undefined);
+    }
+  } catch (error) {
+    console.warn('[Background] 恢复任务队列失败:', getErrorMessage(error));
+    jobQueueCheckpointer.attach();
+  }
+}
+
 // 同步并发度配置
 function syncQueueLimit(config: Record<string, unknown>): void {
   const state = (config['state'] || config) as Record<string, unknown>;
@@ -106,6 +200,14 @@ function normalizeStoredConfigSnapshot(value: unknown): Record<string, unknown>
         ...DEFAULT_CONFIG.providers['openai-compatible'],
         ...normalizedRuntime.openaiCompatible,
       },
+      anthropic: {
+        ...DEFAULT_CONFIG.providers.anthropic,
+        ...normalizedRuntime.anthropic,
+      },
+      gemini: {
+        ...DEFAULT_CONFIG.providers.gemini,
+        ...normalizedRuntime.gemini,
+      },
       ollama: {
         ...DEFAULT_CONFIG.providers.ollama,
         ...normalizedRuntime.ollama,
@@ -114,16 +216,16 @@ function normalizeStoredConfigSnapshot(value: unknown): Record<string, unknown>
         ...DEFAULT_CONFIG.providers['lm-studio'],
         ...normalizedRuntime.lmStudio,
       },
+      'sidecar-server': {
+        ...DEFAULT_CONFIG.providers['sidecar-server'],
+        ...normalizedRuntime.sidecarServer,
+      },
     },
   };
 }
 
 chrome.runtime.onInstalled.addListener(details => {
-  chrome.contextMenus.create({
-    id: 'translatePage',
-    title: '翻译当前页面',
-    contexts: ['page'],
-  });
+  registerContextMenus();
 
   if (details.reason === 'install') {
     void initializeDefaultSettings();
@@ -132,17 +234,56 @@ chrome.runtime.onInstalled.addListener(details => {
   }
 });
 
-// 右键菜单"翻译当前页面" → 转发 TRANSLATE_PAGE 到当前 tab 的 content script。
+// 右键菜单"翻译当前页面" → 转发 TRANSLATE_PAGE 到当前 tab 的 content script；
+// 单图菜单项只发给被右键的 frame，由页面定位右键命中的图片。
 chrome.contextMenus.onClicked.addListener((info, tab) => {
-  if (info.menuItemId !== 'translatePage' || !tab?.id) {
+  if (!tab?.id) {
     return;
   }
-  void sendToTab(tab.id, { type: 'TRANSLATE_PAGE' }).catch(() => undefined);
+  if (info.menuItemId === TRANSLATE_PAGE_MENU_ID) {
+    void sendToTab(tab.id, { type: 'TRANSLATE_PAGE' }).catch(() => undefined);
+    return;
+  }
+
+  const action = getContextMenuAction(info.menuItemId);
+  if (!action) {
+    return;
+  }
+  const message: ContextMenuActionMessage = {
+    type: 'CONTEXT_MENU_ACTION',
+    action,
+    srcUrl: info.srcUrl,
+  };
+  void sendToTab(tab.id, { ...message }, info.frameId ?? TOP_FRAME_ID).catch(() => undefined);
 });
 
+// 快捷键 → 发给当前活动 tab 的所有 frame，与 popup 的命令一致
+chrome.commands.onCommand.addListener((command, tab) => {
+  const message = getCommandMessage(command);
+  if (!message) {
+    return;
+  }
+  void resolveCommandTabId(tab)
+    .then(async tabId => {
+      if (tabId !== undefined) {
+        await sendToFrames(tabId, message, await getTabFrameIds(tabId));
+      }
+    })
+    .catch(() => undefined);
+});
+
+async function resolveCommandTabId(tab?: chrome.tabs.Tab): Promise<number | undefined> {
+  if (tab?.id !== undefined) {
+    return tab.id;
+  }
+  const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return activeTab?.id;
+}
+
 chrome.runtime.onStartup.addListener(() => {
   void migrateConfigFromSyncToLocal();
   void checkAndSetDefaultConfig();
+  void translationCache.prune().catch(() => undefined);
 });
 
 async function initializeDefaultSettings(): Promise<void> {
@@ -177,8 +318,28 @@ async function migrateConfigFromSyncToLocal(): Promise<void> {
   }
 }
 
+/**
+ * 早期版本的译文缓存存在 content script 的 Zustand store（chrome.storage.local），
+ * 现在由 background 的 IndexedDB 缓存接管。能解析出 provider / 模型 / 语言 / 风格的
+ * 旧条目重新打标签后导入，其余（只有图片 hash 的旧 key）直接丢弃，最后删除旧存储。
+ */
+async function migrateLegacyTranslationCache(): Promise<void> {
+  try {
+    const result = await chrome.storage.local.get([LEGACY_CACHE_STORAGE_KEY]);
+    const legacy = result[LEGACY_CACHE_STORAGE_KEY];
+    if (!legacy) {
+      return;
+    }
+    await translationCache.importRecords(retagLegacyCacheEntries(legacy));
+    await chrome.storage.local.remove([LEGACY_CACHE_STORAGE_KEY]);
+  } catch (error) {
+    console.warn('[Background] Legacy cache migration failed:', error);
+  }
+}
+
 async function migrateSettings(): Promise<void> {
   await migrateConfigFromSyncToLocal();
+  await migrateLegacyTranslationCache();
   const result = await chrome.storage.local.get([CONFIG_STORAGE_KEY]);
   const currentConfig = result[CONFIG_STORAGE_KEY];
   if (!currentConfig) {
@@ -210,9 +371,10 @@ async function setConfig(config: Record<string, unknown>): Promise<void> {
   syncQueueLimit(cloned);
 }
 
-async function requestAutoTranslateForTab(tabId?: number): Promise<void> {
+async function requestAutoTranslateForTab(tabId?: number, frameId?: number): Promise<void> {
   if (!tabId) return;
-  await sendToTab(tabId, { type: 'TRANSLATE_PAGE' });
+  // 每个 frame 就绪时各自上报 READY，只回给上报的 frame，避免整页重复广播
+  await sendToTab(tabId, { type: 'TRANSLATE_PAGE' }, frameId);
 }
 
 chrome.runtime.onMessage.addListener(
@@ -244,31 +406,60 @@ async function handleMessage(
       case 'JOB_TRANSLATE_IMAGE':
         sendResponse(
           (await enqueueTranslationJob(
-            request as unknown as TranslateImageJobRequest
+            request as unknown as TranslateImageJobRequest,
+            sender.tab?.id
           )) as unknown as MessageResponse
         );
         return;
       case 'JOB_QUERY_STATUS': {
         const statusRequest = request as unknown as QueryJobStatusRequest;
+        await jobQueueRestored;
         const job = translationJobQueue.getJob(statusRequest.jobId);
         sendResponse(job ? { success: true, job } : { success: false, error: 'Job not found' });
         return;
       }
+      case 'JOB_CANCEL':
+        sendResponse(
+          cancelJobs(request as unknown as CancelJobRequest) as unknown as MessageResponse
+        );
+        return;
+      case 'JOB_REPRIORITIZE':
+        sendResponse(
+          reprioritizeJobs(
+            request as unknown as ReprioritizeJobsRequest
+          ) as unknown as MessageResponse
+        );
+        return;
+      case 'TAB_FRAMES_DISPATCH':
+        sendResponse(
+          (await dispatchToTabFrames(
+            request as unknown as TabFramesDispatchRequest
+          )) as unknown as MessageResponse
+        );
+        return;
       case 'STATE_UPDATE':
-        void chrome.runtime.sendMessage(request).catch(() => undefined);
+        forwardFrameState(request['state'] as ContentState, sender);
+        sendResponse({ received: true });
+        return;
+      case 'HUD_RETRY_FAILED': {
+        // 顶层 HUD 的“重试失败项”同样作用于 iframe 里的阅读器
+        const tabId = sender.tab?.id;
+        if (tabId !== undefined) {
+          void sendToOtherFrames(tabId, sender.frameId, { type: 'RETRY_FAILED' });
+        }
         sendResponse({ received: true });
         return;
+      }
       case 'READY': {
+        if (sender.tab?.id !== undefined && (sender.frameId ?? TOP_FRAME_ID) === TOP_FRAME_ID) {
+          tabFrameStates.clear(sender.tab.id);
+        }
         const config = await getConfig();
         // Gate auto-translate on the provider being usable, not just
         // on `enabled` — otherwise the first-time user sees an
         // init-failure error storm before the onboarding corner card
         // can show up.
-        const provider = config['provider'] as
-          | 'openai-compatible'
-          | 'ollama'
-          | 'lm-studio'
-          | undefined;
+        const provider = config['provider'] as ProviderType | undefined;
         const providers = config['providers'] as
           | Record<string, { apiKey: string; baseUrl: string; model: string }>
           | undefined;
@@ -282,9 +473,10 @@ async function handleMessage(
         if (
           sender.tab?.id &&
           isTranslationEnabled(config) &&
-          providerReady
+          providerReady &&
+          shouldAutoTranslateFrame(sender.frameId, request['hasPages'] === true)
         ) {
-          await requestAutoTranslateForTab(sender.tab.id);
+          await requestAutoTranslateForTab(sender.tab.id, sender.frameId);
         }
         sendResponse({ received: true });
         return;
@@ -298,10 +490,44 @@ async function handleMessage(
         sendResponse(await fetchImageBytesResponse(imageUrl));
         return;
       }
-      case 'HUD_CANCELLED':
+      case 'CACHE_CLEAR':
+        await translationCache.clear();
+        sendResponse({ success: true });
+        return;
+      case 'CACHE_EXPORT_PACK':
+        sendResponse(
+          (await exportTranslationPack(
+            request as unknown as ExportTranslationPackRequest
+          )) as unknown as MessageResponse
+        );
+        return;
+      case 'CACHE_IMPORT_PACK':
+        sendResponse(
+          (await importTranslationPack(
+            request as unknown as ImportTranslationPackRequest
+          )) as unknown as MessageResponse
+        );
+        return;
+      case 'CACHE_SAVE_CORRECTION':
+        sendResponse(
+          (await saveTranslationCorrection(
+            request as unknown as SaveTranslationCorrectionRequest
+          )) as unknown as MessageResponse
+        );
+        return;
+      case 'HUD_CANCELLED': {
+        // HUD 上的“取消”同时终止该标签页仍在排队或执行的任务
+        const tabId = sender.tab?.id;
+        if (tabId !== undefined) {
+          translationJobQueue.cancel(job => jobTabIds.get(job.jobId) === tabId);
+          if ((sender.frameId ?? TOP_FRAME_ID) === TOP_FRAME_ID) {
+            void sendToOtherFrames(tabId, sender.frameId, { type: 'CANCEL_TRANSLATION' });
+          }
+        }
         void chrome.runtime.sendMessage(request).catch(() => undefined);
         sendResponse({ received: true });
         return;
+      }
       default:
         sendResponse({ received: true });
         return;
@@ -314,15 +540,55 @@ async function handleMessage(
   }
 }
 
-function deriveActualPath(
-  request: TranslateImageJobRequest
-): RequestedExecutionPath {
-  return deriveRequestedPath(request.provider);
+function deriveActualPath(provider: string): RequestedExecutionPath {
+  return deriveRequestedPath(provider);
+}
+
+/**
+ * 读取用户配置的回退链，跳过当前 Provider 和未配置完整的 Provider。
+ * 设置取自存储中的 providers 映射，而不是请求体（请求只携带主 Provider 的设置）。
+ */
+function resolveFallbackTargets(
+  config: Record<string, unknown>,
+  primaryProvider: string
+): ProviderFallbackTarget[] {
+  const fallbackProviders = Array.isArray(config['fallbackProviders'])
+    ? (config['fallbackProviders'] as unknown[])
+    : [];
+  const providers = (config['providers'] ?? {}) as Partial<
+    Record<ProviderType, ProviderSettings>
+  >;
+
+  return fallbackProviders.reduce<ProviderFallbackTarget[]>((targets, provider) => {
+    if (
+      !isProviderType(provider) ||
+      provider === primaryProvider ||
+      targets.some(target => target.provider === provider)
+    ) {
+      return targets;
+    }
+    const settings = providers[provider];
+    if (!settings || !isProviderSettingsComplete(provider, settings)) {
+      return targets;
+    }
+    targets.push({
+      provider,
+      apiKey: settings.apiKey || undefined,
+      baseUrl: settings.baseUrl,
+      model: settings.model || undefined,
+    });
+    return targets;
+  }, []);
 }
 
 async function enqueueTranslationJob(
-  request: TranslateImageJobRequest
+  request: TranslateImageJobRequest,
+  tabId?: number
 ): Promise<TranslateImageJobResponse> {
+  if (tabId !== undefined) {
+    jobTabIds.set(request.jobId, tabId);
+  }
+
   const job = createJobStatus({
     jobId: request.jobId,
     pageKey: request.pageKey,
@@ -331,22 +597,100 @@ async function enqueueTranslationJob(
     scope: request.scope,
   });
 
-  return translationJobQueue.enqueue({
+  const running = translationJobQueue.enqueue({
     job,
-    run: async () => {
-      const actualCapabilityUsed = deriveActualPath(request);
+    run: async signal => {
       translationJobQueue.updateJob(request.jobId, {
-        actualCapabilityUsed,
+        actualCapabilityUsed: deriveActualPath(request.provider),
+        actualProvider: request.provider,
         state: 'running',
       });
 
-      const response = await translateImageViaProviderDirect(
-        request as TranslationTransportRequest
+      const config = await getConfig();
+      const cacheEnabled = config['cacheEnabled'] !== false;
+      const cacheKeyParts: TranslationCacheKeyParts = {
+        imageHash: request.imageHash || (await calculateHash(request.imageBase64)),
+        provider: request.provider,
+        model: request.model,
+        targetLanguage: request.targetLanguage,
+        translationStylePreset: request.translationStylePreset,
+      };
+      const cacheStatus =
+        cacheEnabled && !request.forceRefresh ? 'miss' : 'bypass';
+      const cacheKey = cacheEnabled ? cacheKeyParts : undefined;
+      // 始终随记录保存感知哈希，切换到相似命中模式后旧记录也能匹配
+      const perceptualHash = cacheEnabled
+        ? await calculatePerceptualHash(request.imageBase64, request.mimeType)
+        : null;
+
+      // 强制重翻只跳过机器译文：用户修正过的记录照常返回，除非明确要求放弃修正
+      const lookupCorrectionsOnly =
+        cacheEnabled && !!request.forceRefresh && !request.discardCorrections;
+      if (cacheStatus === 'miss' || lookupCorrectionsOnly) {
+        let cachedRecord = await translationCache.get(cacheKeyParts);
+        let hitStatus: 'hit' | 'similar' = 'hit';
+        if (lookupCorrectionsOnly && cachedRecord?.revision !== 'user-corrected') {
+          cachedRecord = null;
+        }
+        if (
+          !cachedRecord &&
+          !lookupCorrectionsOnly &&
+          perceptualHash &&
+          config['cacheMatchMode'] === 'perceptual'
+        ) {
+          cachedRecord = await translationCache.findSimilar(
+            cacheKeyParts,
+            perceptualHash,
+            normalizePerceptualHashThreshold(config['perceptualHashThreshold'])
+          );
+          hitStatus = 'similar';
+        }
+        if (cachedRecord) {
+          const hitJob = translationJobQueue.updateJob(request.jobId, {
+            actualCapabilityUsed: deriveActualPath(request.provider),
+            actualProvider: request.provider,
+            state: 'succeeded',
+            diagnostics: {
+              detectedRegions: cachedRecord.textAreas.length,
+              fallbackRegions: 0,
+              ocrMs: 0,
+              translateMs: 0,
+              totalMs: 0,
+              retryCount: 0,
+              cacheStatus: hitStatus,
+            },
+          });
+
+          if (!hitJob) {
+            throw new Error('Background job state missing during cache hit update');
+          }
+
+          return {
+            success: true,
+            job: hitJob,
+            textAreas: cachedRecord.textAreas,
+            pipeline: cachedRecord.pipeline,
+            cached: true,
+            corrected: cachedRecord.revision === 'user-corrected',
+            cacheKey,
+            usage: null,
+          };
+        }
+      }
+
+      throwIfAborted(signal);
+      const response = await translateImageWithFallback(
+        request as TranslationTransportRequest,
+        resolveFallbackTargets(config, request.provider),
+        signal
       );
+      const actualCapabilityUsed = deriveActualPath(response.provider);
 
       if (!response.success) {
         const failureJob = translationJobQueue.updateJob(request.jobId, {
           actualCapabilityUsed,
+          actualProvider: response.provider,
+          fallbackReason: response.fallbackReason,
           state: 'failed',
         });
 
@@ -367,15 +711,17 @@ async function enqueueTranslationJob(
 
       const successJob = translationJobQueue.updateJob(request.jobId, {
         actualCapabilityUsed,
+        actualProvider: response.provider,
+        fallbackReason: response.fallbackReason,
         state: 'succeeded',
         diagnostics: {
-          detectedRegions: 0,
-          fallbackRegions: 0,
-          ocrMs: 0,
-          translateMs: 0,
-          totalMs: 0,
+          detectedRegions: response.diagnostics?.detectedRegions ?? 0,
+          fallbackRegions: response.diagnostics?.fallbackRegions ?? 0,
+          ocrMs: response.diagnostics?.ocrMs ?? 0,
+          translateMs: response.diagnostics?.translateMs ?? 0,
+          totalMs: response.diagnostics?.totalMs ?? 0,
           retryCount: 0,
-          cacheStatus: response.cached ? 'hit' : 'miss',
+          cacheStatus,
         },
       });
 
@@ -383,23 +729,183 @@ async function enqueueTranslationJob(
         throw new Error('Background job state missing during success update');
       }
 
+      // 强制重翻（bypass）的结果同样写回，覆盖旧译文（修正版本只在放弃修正时走到这里）
+      if (cacheEnabled) {
+        await translationCache.set(cacheKeyParts, {
+          textAreas: response.textAreas ?? [],
+          pipeline: response.pipeline,
+          servedBy: response.provider,
+          perceptualHash: perceptualHash ?? undefined,
+          pageUrl: request.sourcePageUrl,
+          chapterId: request.chapterId,
+        });
+      }
+
       return {
         success: true,
         job: successJob,
         textAreas: response.textAreas ?? [],
         pipeline: response.pipeline,
         cached: response.cached,
+        cacheKey,
         usage: response.usage ?? null,
       };
     },
   });
+
+  return running.catch((error: unknown) => {
+    if (!isAbortError(error)) {
+      throw error;
+    }
+    return {
+      success: false,
+      job: translationJobQueue.getJob(request.jobId) ?? { ...job, state: 'cancelled' },
+      textAreas: [],
+      error: CANCELLED_ERROR_MESSAGE,
+    };
+  });
+}
+
+function cancelJobs(request: CancelJobRequest): CancelJobResponse {
+  const { jobId, pageKey } = request;
+  if (!jobId && !pageKey) {
+    return { success: false, cancelledJobIds: [], error: 'jobId or pageKey is required' };
+  }
+
+  const cancelled = translationJobQueue.cancel(
+    job => job.jobId === jobId || (!!pageKey && job.pageKey === pageKey)
+  );
+  return { success: true, cancelledJobIds: cancelled.map(job => job.jobId) };
+}
+
+function reprioritizeJobs(request: ReprioritizeJobsRequest): ReprioritizeJobsResponse {
+  if (!Array.isArray(request.jobs)) {
+    return { success: false, updatedJobIds: [], error: 'jobs is required' };
+  }
+
+  const updatedJobIds = request.jobs
+    .filter(({ jobId, priorityClass }) =>
+      translationJobQueue.reprioritize(jobId, priorityClass) !== undefined
+    )
+    .map(({ jobId }) => jobId);
+  return { success: true, updatedJobIds };
+}
+
+async function exportTranslationPack(
+  request: ExportTranslationPackRequest
+): Promise<ExportTranslationPackResponse> {
+  const filter = {
+    chapterId: request.filter?.chapterId?.trim() || undefined,
+    site: request.filter?.site?.trim() || undefined,
+  };
+  const records = await translationCache.query(filter);
+  return {
+    success: true,
+    pack: createTranslationPack(records, filter),
+    recordCount: records.length,
+  };
+}
+
+async function importTranslationPack(
+  request: ImportTranslationPackRequest
+): Promise<ImportTranslationPackResponse> {
+  const { records, rejected } = parseTranslationPack(request.pack);
+  const { imported, skipped } = await translationCache.importRecords(
+    records,
+    request.strategy,
+    { overwriteCorrections: request.overwriteCorrections === true }
+  );
+  return { success: true, imported, skipped, rejected };
+}
+
+async function saveTranslationCorrection(
+  request: SaveTranslationCorrectionRequest
+): Promise<SaveTranslationCorrectionResponse> {
+  if (!request.cacheKey?.imageHash || !Array.isArray(request.textAreas)) {
+    return { success: false, error: 'cacheKey and textAreas are required' };
+  }
+  const config = await getConfig();
+  if (config['cacheEnabled'] === false) {
+    return { success: false, error: '翻译缓存已关闭，修改仅在当前页面生效' };
+  }
+
+  const saved = await translationCache.saveCorrection(request.cacheKey, request.textAreas, {
+    pageUrl: request.pageUrl,
+    chapterId: request.chapterId,
+  });
+  return saved ? { success: true } : { success: false, error: '写入翻译缓存失败' };
 }
 
 async function sendToTab(
   tabId: number,
-  message: Record<string, unknown>
+  message: Record<string, unknown>,
+  frameId?: number
 ): Promise<unknown> {
-  return chrome.tabs.sendMessage(tabId, message);
+  return frameId === undefined
+    ? chrome.tabs.sendMessage(tabId, message)
+    : chrome.tabs.sendMessage(tabId, message, { frameId });
+}
+
+async function dispatchToTabFrames(
+  request: TabFramesDispatchRequest
+): Promise<TabFramesDispatchResponse> {
+  const { tabId, message } = request;
+  if (typeof tabId !== 'number' || typeof message?.type !== 'string') {
+    return { success: false, frameIds: [], error: 'tabId and message are required' };
+  }
+
+  const responses = await sendToFrames<{ success?: boolean; error?: string; state?: ContentState }>(
+    tabId,
+    message,
+    await getTabFrameIds(tabId)
+  );
+  const frameIds = responses.map(({ frameId }) => frameId);
+  if (responses.length === 0) {
+    return { success: false, frameIds, error: 'Content script 未注入' };
+  }
+
+  const states = responses.flatMap(({ frameId, response }) =>
+    response.state ? [{ frameId, response: response.state }] : []
+  );
+  const failure = responses.find(({ response }) => response.success === false);
+  return {
+    success: !failure,
+    frameIds,
+    state: states.length > 0 ? tabFrameStates.replace(tabId, states) : undefined,
+    error: failure?.response.error,
+  };
+}
+
+/**
+ * 记录 frame 上报的状态并把整个标签页的聚合状态转发给 popup；
+ * 标签页内有多个 frame 上报过状态时同步给顶层 frame 的 HUD。
+ */
+function forwardFrameState(state: ContentState, sender: chrome.runtime.MessageSender): void {
+  const tabId = sender.tab?.id;
+  if (tabId === undefined || !state) {
+    void chrome.runtime.sendMessage({ type: 'STATE_UPDATE', state }).catch(() => undefined);
+    return;
+  }
+
+  const aggregated = tabFrameStates.set(tabId, sender.frameId ?? TOP_FRAME_ID, state);
+  void chrome.runtime
+    .sendMessage({ type: 'STATE_UPDATE', state: aggregated, tabId })
+    .catch(() => undefined);
+  if (tabFrameStates.frameCount(tabId) > 1) {
+    const message: TabStateUpdateMessage = { type: 'TAB_STATE_UPDATE', state: aggregated };
+    void sendToTab(tabId, { ...message }, TOP_FRAME_ID).catch(() => undefined);
+  }
+}
+
+async function sendToOtherFrames(
+  tabId: number,
+  senderFrameId: number | undefined,
+  message: { type: string }
+): Promise<void> {
+  const frameIds = (await getTabFrameIds(tabId)).filter(
+    frameId => frameId !== (senderFrameId ?? TOP_FRAME_ID)
+  );
+  await sendToFrames(tabId, message, frameIds);
 }
 
 function isValidImageUrl(url: string): boolean {
@@ -0,0 +1,31 @@
+/**
+ * Keyboard shortcuts.
+ *
+ * `manifest.json` declares the commands (Chrome allows suggested keys for at
+ * most four; the user can bind the rest at chrome://extensions/shortcuts).
+ * Each command maps to the content-script message sent to every frame of
+ * the active tab.
+ */
+
+export type ShortcutCommand =
+  | 'translate-page'
+  | 'force-retranslate-page'
+  | 'toggle-overlays'
+  | 'retry-failed'
+  | 'clear-all';
+
+const COMMAND_MESSAGES: Record<ShortcutCommand, { type: string }> = {
+  'translate-page': { type: 'TRANSLATE_PAGE' },
+  'force-retranslate-page': { type: 'FORCE_RETRANSLATE_PAGE' },
+  'toggle-overlays': { type: 'TOGGLE_OVERLAYS' },
+  'retry-failed': { type: 'RETRY_FAILED' },
+  'clear-all': { type: 'CLEAR_ALL' },
+};
+
+function isShortcutCommand(command: string): command is ShortcutCommand {
+  return Object.prototype.hasOwnProperty.call(COMMAND_MESSAGES, command);
+}
+
+export function getCommandMessage(command: string): { type: string } | null {
+  return isShortcutCommand(command) ? { ...COMMAND_MESSAGES[command] } : null;
+}
@@ -0,0 +1,37 @@
+/**
+ * Context menu entries.
+ *
+ * Besides "翻译当前页面", right-clicking a page image offers single-image
+ * actions. Canvas and background-image pages have no menu context of their
+ * own, so those entries are offered on the page too; the content script of
+ * the clicked frame works out which page element was under the pointer.
+ */
+
+import type { ContextMenuAction } from '@/shared/runtime-contracts';
+
+export const TRANSLATE_PAGE_MENU_ID = 'translatePage';
+
+const IMAGE_MENU_ITEMS: Array<{ id: ContextMenuAction; title: string }> = [
+  { id: 'translate-image', title: '翻译这张图片' },
+  { id: 'retranslate-image', title: '重新翻译（忽略缓存）' },
+  { id: 'discard-corrections', title: '放弃手动修改并重新翻译' },
+  { id: 'remove-translation', title: '移除译文' },
+];
+
+const IMAGE_MENU_CONTEXTS: chrome.contextMenus.ContextType[] = ['image', 'page', 'frame'];
+
+export function registerContextMenus(): void {
+  chrome.contextMenus.create({
+    id: TRANSLATE_PAGE_MENU_ID,
+    title: '翻译当前页面',
+    contexts: ['page'],
+  });
+
+  for (const item of IMAGE_MENU_ITEMS) {
+    chrome.contextMenus.create({ id: item.id, title: item.title, contexts: IMAGE_MENU_CONTEXTS });
+  }
+}
+
+export function getContextMenuAction(menuItemId: string | number): ContextMenuAction | null {
+  return IMAGE_MENU_ITEMS.find(item => item.id === menuItemId)?.id ?? null;
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  TabFrameStates,
+  aggregateContentStates,
+  getTabFrameIds,
+  sendToFrames,
+  shouldAutoTranslateFrame,
+} from './frame-router';
+
+const getAllFrames = vi.fn();
+const sendMessage = vi.fn();
+
+describe('frame-router', () => {
+  beforeEach(() => {
+    Object.assign(chrome, {
+      webNavigation: { getAllFrames },
+      tabs: { sendMessage },
+    });
+  });
+
+  it('lists frames top first and falls back to the top frame', async () => {
+    getAllFrames.mockResolvedValueOnce([
+      { frameId: 7, errorOccurred: false },
+      { frameId: 0, errorOccurred: false },
+      { frameId: 3, errorOccurred: true },
+    ]);
+    expect(await getTabFrameIds(1)).toEqual([0, 7]);
+
+    getAllFrames.mockRejectedValueOnce(new Error('No tab with id: 1'));
+    expect(await getTabFrameIds(1)).toEqual([0]);
+  });
+
+  it('sends to each frame by frameId and skips frames without a content script', async () => {
+    sendMessage.mockImplementation(
+      async (_tabId: number, _message: object, options: { frameId: number }) => {
+        if (options.frameId === 4) {
+          throw new Error('Could not establish connection. Receiving end does not exist.');
+        }
+        return { success: true, frame: options.frameId };
+      }
+    );
+
+    const responses = await sendToFrames(1, { type: 'GET_STATE' }, [0, 4, 9]);
+
+    expect(sendMessage).toHaveBeenCalledWith(1, { type: 'GET_STATE' }, { frameId: 9 });
+    expect(responses).toEqual([
+      { frameId: 0, response: { success: true, frame: 0 } },
+      { frameId: 9, response: { success: true, frame: 9 } },
+    ]);
+  });
+
+  it('auto-translates subframes only when they report pages', () => {
+    expect(shouldAutoTranslateFrame(0, false)).toBe(true);
+    expect(shouldAutoTranslateFrame(undefined, false)).toBe(true);
+    expect(shouldAutoTranslateFrame(3, false)).toBe(false);
+    expect(shouldAutoTranslateFrame(3, true)).toBe(true);
+  });
+
+  it('aggregates frame states with work in progress first', () => {
+    expect(
+      aggregateContentStates([
+        { status: 'complete', count: 0 },
+        { status: 'translating', current: 2, total: 5, currentImageIndex: 3 },
+        { status: 'translating', current: 1, total: 4 },
+      ])
+    ).toEqual({ status: 'translating', current: 3, total: 9, currentImageIndex: 3 });
+
+    expect(
+      aggregateContentStates([
+        { status: 'complete', count: 4, failedCount: 1 },
+        { status: 'idle' },
+        { status: 'complete', count: 2, cachedCount: 2 },
+      ])
+    ).toEqual({ status: 'complete', count: 6, failedCount: 1, cachedCount: 2 });
+
+    expect(aggregateContentStates([])).toEqual({ status: 'idle' });
+  });
+
+  it('keeps the latest state per frame until the top frame navigates', () => {
+    const states = new TabFrameStates();
+
+    states.set(1, 0, { status: 'complete', count: 0 });
+    expect(states.set(1, 5, { status: 'scanning' })).toEqual({ status: 'scanning' });
+    expect(states.set(1, 5, { status: 'complete', count: 8 })).toMatchObject({
+      status: 'complete',
+      count: 8,
+    });
+    expect(states.frameCount(1)).toBe(2);
+
+    states.clear(1);
+    expect(states.get(1)).toEqual({ status: 'idle' });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Frame routing.
+ *
+ * The content script runs in every frame (`all_frames`), because some
+ * aggregator sites embed the reader in an iframe. Popup commands are sent
+ * to each frame by `frameId`, and the per-frame `ContentState`s are merged
+ * into one tab state for the popup and the top-frame HUD.
+ */
+
+import type { ContentState } from '@/shared/runtime-contracts';
+
+export const TOP_FRAME_ID = 0;
+
+export interface FrameResponse<T> {
+  frameId: number;
+  response: T;
+}
+
+/**
+ * Whether a frame that just became ready is auto-translated. Every frame
+ * runs the content script, so subframes (ads, comments, embeds) only are
+ * when they report pages: a matching site adapter or page-sized images.
+ * Manual translation from the popup or context menu still reaches them.
+ */
+export function shouldAutoTranslateFrame(frameId: number | undefined, hasPages: boolean): boolean {
+  return (frameId ?? TOP_FRAME_ID) === TOP_FRAME_ID || hasPages;
+}
+
+/**
+ * Ids of the frames in a tab, top frame first. Falls back to the top frame
+ * when the frame list is unavailable.
+ */
+export async function getTabFrameIds(tabId: number): Promise<number[]> {
+  try {
+    const frames = await chrome.webNavigation.getAllFrames({ tabId });
+    const frameIds = (frames ?? [])
+      .filter(frame => !frame.errorOccurred)
+      .map(frame => frame.frameId)
+      .sort((a, b) => a - b);
+    return frameIds.length > 0 ? frameIds : [TOP_FRAME_ID];
+  } catch {
+    return [TOP_FRAME_ID];
+  }
+}
+
+/**
+ * Sends `message` to each frame separately. Frames without a content script
+ * (about:blank, blocked or still loading) reject and are left out.
+ */
+export async function sendToFrames<T>(
+  tabId: number,
+  message: object,
+  frameIds: number[]
+): Promise<Array<FrameResponse<T>>> {
+  const results = await Promise.allSettled(
+    frameIds.map(async frameId => ({
+      frameId,
+      response: (await chrome.tabs.sendMessage(tabId, message, { frameId })) as T,
+    }))
+  );
+
+  return results.flatMap(result =>
+    result.status === 'fulfilled' && result.value.response !== undefined ? [result.value] : []
+  );
+}
+
+/**
+ * Merges frame states into one tab state. Work in progress wins, then
+ * errors, then finished results (counts summed); onboarding and idle last.
+ */
+export function aggregateContentStates(states: ContentState[]): ContentState {
+  const translating = states.filter(
+    (state): state is Extract<ContentState, { status: 'translating' }> =>
+      state.status === 'translating'
+  );
+  if (translating.length > 0) {
+    return {
+      status: 'translating',
+      current: translating.reduce((sum, state) => sum + state.current, 0),
+      total: translating.reduce((sum, state) => sum + state.total, 0),
+      currentImageIndex: translating.find(state => state.currentImageIndex !== undefined)
+        ?.currentImageIndex,
+    };
+  }
+  if (states.some(state => state.status === 'scanning')) {
+    return { status: 'scanning' };
+  }
+
+  const error = states.find(state => state.status === 'error');
+  if (error) {
+    return error;
+  }
+
+  const complete = states.filter(
+    (state): state is Extract<ContentState, { status: 'complete' }> =>
+      state.status === 'complete'
+  );
+  if (complete.length > 0) {
+    return {
+      status: 'complete',
+      count: complete.reduce((sum, state) => sum + state.count, 0),
+      failedCount: complete.reduce((sum, state) => sum + (state.failedCount ?? 0), 0),
+      cachedCount: complete.reduce((sum, state) => sum + (state.cachedCount ?? 0), 0),
+    };
+  }
+
+  return states.find(state => state.status === 'onboarding') ?? { status: 'idle' };
+}
+
+/**
+ * Latest state reported by each frame, per tab. Lives in memory only:
+ * after a worker restart `GET_STATE` rebuilds it from the frames.
+ */
+export class TabFrameStates {
+  private readonly tabs = new Map<number, Map<number, ContentState>>();
+
+  set(tabId: number, frameId: number, state: ContentState): ContentState {
+    const frames = this.tabs.get(tabId) ?? new Map<number, ContentState>();
+    frames.set(frameId, state);
+    this.tabs.set(tabId, frames);
+    return this.get(tabId);
+  }
+
+  /** Replaces a tab's states with the ones the frames just answered */
+  replace(tabId: number, states: Array<FrameResponse<ContentState>>): ContentState {
+    this.tabs.set(tabId, new Map(states.map(({ frameId, response }) => [frameId, response])));
+    return this.get(tabId);
+  }
+
+  get(tabId: number): ContentState {
+    return aggregateContentStates(Array.from(this.tabs.get(tabId)?.values() ?? []));
+  }
+
+  frameCount(tabId: number): number {
+    return this.tabs.get(tabId)?.size ?? 0;
+  }
+
+  /** The top frame navigated: states from the previous document are gone */
+  clear(tabId: number): void {
+    this.tabs.delete(tabId);
+  }
+}
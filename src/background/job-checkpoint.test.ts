@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  JOB_QUEUE_CHECKPOINT_KEY,
+  JobQueueCheckpointer,
+  loadJobQueueCheckpoint,
+} from './job-checkpoint';
+import { BackgroundJobQueue, createJobStatus } from './job-queue';
+
+function createMemoryStorage() {
+  const items: Record<string, unknown> = {};
+  return {
+    items,
+    get: async (keys: string[]) =>
+      Object.fromEntries(keys.filter(key => key in items).map(key => [key, items[key]])),
+    set: async (values: Record<string, unknown>) => {
+      Object.assign(items, values);
+    },
+  } as unknown as Pick<chrome.storage.StorageArea, 'get' | 'set'> & {
+    items: Record<string, unknown>;
+  };
+}
+
+describe('job queue checkpoints', () => {
+  it('round-trips job statuses with their owning tabs', async () => {
+    const storage = createMemoryStorage();
+    const queue = new BackgroundJobQueue(1);
+    const tabIds = new Map([
+      ['job-1', 7],
+      ['evicted', 9],
+    ]);
+    queue.upsertJob(
+      createJobStatus({
+        jobId: 'job-1',
+        pageKey: 'page-1',
+        priorityClass: 'visible-now',
+        requestedPath: 'plugin-direct',
+        scope: 'page',
+      })
+    );
+
+    await new JobQueueCheckpointer(queue, tabIds, storage).flush();
+    const checkpoint = await loadJobQueueCheckpoint(storage);
+
+    expect(checkpoint?.jobs.map(job => job.jobId)).toEqual(['job-1']);
+    expect(checkpoint?.tabIds).toEqual({ 'job-1': 7 });
+    expect(tabIds.has('evicted')).toBe(false);
+  });
+
+  it('ignores missing or malformed checkpoints', async () => {
+    const storage = createMemoryStorage();
+    expect(await loadJobQueueCheckpoint(storage)).toBeNull();
+
+    storage.items[JOB_QUEUE_CHECKPOINT_KEY] = {
+      jobs: [{ jobId: 'ok', pageKey: 'p', state: 'queued' }, { jobId: 3 }],
+      tabIds: { ok: 'not-a-tab' },
+    };
+    const checkpoint = await loadJobQueueCheckpoint(storage);
+
+    expect(checkpoint?.jobs).toHaveLength(1);
+    expect(checkpoint?.tabIds).toEqual({});
+  });
+});
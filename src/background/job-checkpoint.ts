@@ -0,0 +1,119 @@
+/**
+ * Job queue checkpoints.
+ *
+ * Chrome stops the MV3 service worker whenever it is idle, including in the
+ * middle of a chapter. The queue's statuses (and which tab owns each job) are
+ * written to `chrome.storage.session` after every change, debounced, so the
+ * next worker can answer JOB_QUERY_STATUS and tell tabs which jobs died.
+ * Session storage is cleared when the browser exits, which matches the
+ * lifetime of the tabs that submitted the jobs.
+ */
+
+import type { JobStatusPayload } from '@/shared/runtime-contracts';
+
+import type { BackgroundJobQueue } from './job-queue';
+
+export const JOB_QUEUE_CHECKPOINT_KEY = 'manga-translator-job-queue';
+
+export interface JobQueueCheckpoint {
+  jobs: JobStatusPayload[];
+  /** jobId → id of the tab that submitted it */
+  tabIds: Record<string, number>;
+  savedAt: number;
+}
+
+type CheckpointStorage = Pick<chrome.storage.StorageArea, 'get' | 'set'>;
+
+function getCheckpointStorage(): CheckpointStorage {
+  // storage.session 需要 Chrome 102+，旧版本退回 local
+  return chrome.storage.session ?? chrome.storage.local;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isJobStatus(value: unknown): value is JobStatusPayload {
+  return (
+    isRecord(value) &&
+    typeof value['jobId'] === 'string' &&
+    typeof value['pageKey'] === 'string' &&
+    typeof value['state'] === 'string'
+  );
+}
+
+export async function loadJobQueueCheckpoint(
+  storage: CheckpointStorage = getCheckpointStorage()
+): Promise<JobQueueCheckpoint | null> {
+  const result = await storage.get([JOB_QUEUE_CHECKPOINT_KEY]);
+  const value: unknown = result[JOB_QUEUE_CHECKPOINT_KEY];
+  if (!isRecord(value) || !Array.isArray(value['jobs'])) {
+    return null;
+  }
+
+  const tabIds: Record<string, number> = {};
+  if (isRecord(value['tabIds'])) {
+    for (const [jobId, tabId] of Object.entries(value['tabIds'])) {
+      if (typeof tabId === 'number') {
+        tabIds[jobId] = tabId;
+      }
+    }
+  }
+
+  return {
+    jobs: value['jobs'].filter(isJobStatus),
+    tabIds,
+    savedAt: typeof value['savedAt'] === 'number' ? value['savedAt'] : 0,
+  };
+}
+
+/**
+ * Writes `queue.snapshot()` on every queue change, at most once per
+ * `delayMs`. `tabIds` is read at write time and trimmed to the jobs in the
+ * snapshot.
+ */
+export class JobQueueCheckpointer {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly queue: BackgroundJobQueue,
+    private readonly tabIds: Map<string, number>,
+    private readonly storage: CheckpointStorage = getCheckpointStorage(),
+    private readonly delayMs = 250
+  ) {}
+
+  attach(): void {
+    this.queue.setChangeListener(() => this.schedule());
+  }
+
+  schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush().catch(error => {
+        console.warn('[JobCheckpoint] save failed:', error);
+      });
+    }, this.delayMs);
+  }
+
+  async flush(): Promise<void> {
+    const jobs = this.queue.snapshot();
+    const tabIds: Record<string, number> = {};
+    for (const job of jobs) {
+      const tabId = this.tabIds.get(job.jobId);
+      if (tabId !== undefined) {
+        tabIds[job.jobId] = tabId;
+      }
+    }
+    for (const jobId of this.tabIds.keys()) {
+      if (!(jobId in tabIds)) {
+        this.tabIds.delete(jobId);
+      }
+    }
+
+    const checkpoint: JobQueueCheckpoint = { jobs, tabIds, savedAt: Date.now() };
+    await this.storage.set({ [JOB_QUEUE_CHECKPOINT_KEY]: checkpoint });
+  }
+}
@@ -1,6 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { BackgroundJobQueue, createJobStatus } from './job-queue';
+import {
+  BackgroundJobQueue,
+  INTERRUPTED_JOB_REASON,
+  createJobStatus,
+} from './job-queue';
 
 describe('BackgroundJobQueue', () => {
   beforeEach(() => {
@@ -299,4 +303,145 @@ describe('BackgroundJobQueue', () => {
     }
     await Promise.all([first, second]);
   });
+
+  it('marks unfinished jobs from a previous worker as deferred failures', () => {
+    const queue = new BackgroundJobQueue(1);
+    const onChange = vi.fn();
+    queue.setChangeListener(onChange);
+    const base = {
+      pageKey: 'page',
+      priorityClass: 'visible-now' as const,
+      requestedPath: 'plugin-direct' as const,
+      scope: 'page' as const,
+    };
+    queue.upsertJob(createJobStatus({ ...base, jobId: 'resubmitted' }));
+
+    const interrupted = queue.restore([
+      { ...base, jobId: 'running', state: 'running' },
+      { ...base, jobId: 'queued', state: 'queued' },
+      { ...base, jobId: 'done', state: 'succeeded' },
+      { ...base, jobId: 'resubmitted', state: 'running' },
+    ]);
+
+    expect(interrupted.map(job => job.jobId)).toEqual(['running', 'queued']);
+    expect(queue.getJob('running')).toMatchObject({
+      state: 'failed',
+      priorityClass: 'deferred-failure',
+      fallbackReason: INTERRUPTED_JOB_REASON,
+    });
+    expect(queue.getJob('done')?.state).toBe('succeeded');
+    expect(queue.getJob('resubmitted')?.state).toBe('queued');
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(queue.snapshot().map(job => job.jobId)).toEqual([
+      'running',
+      'queued',
+      'done',
+      'resubmitted',
+    ]);
+  });
+
+  it('cancels queued jobs and aborts running ones', async () => {
+    const queue = new BackgroundJobQueue(1);
+    let runningSignal: AbortSignal | undefined;
+    const queuedRun = vi.fn(async () => 'queued');
+
+    const running = queue.enqueue({
+      job: createJobStatus({
+        jobId: 'running',
+        pageKey: 'page-a',
+        priorityClass: 'visible-now',
+        requestedPath: 'plugin-direct',
+        scope: 'page',
+      }),
+      run: signal => {
+        runningSignal = signal;
+        return new Promise<string>((_, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      },
+    });
+    const queued = queue.enqueue({
+      job: createJobStatus({
+        jobId: 'queued',
+        pageKey: 'page-b',
+        priorityClass: 'visible-now',
+        requestedPath: 'plugin-direct',
+        scope: 'page',
+      }),
+      run: queuedRun,
+    });
+
+    const cancelled = queue.cancel(job => job.jobId === 'queued');
+    expect(cancelled.map(job => job.jobId)).toEqual(['queued']);
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    expect(queue.getJob('queued')?.state).toBe('cancelled');
+
+    queue.cancel(job => job.pageKey === 'page-a');
+    expect(runningSignal?.aborted).toBe(true);
+    await expect(running).rejects.toThrow('aborted');
+    expect(queue.getJob('running')?.state).toBe('cancelled');
+    expect(queuedRun).not.toHaveBeenCalled();
+  });
+
+  it('keeps separate jobs for images of the same page and dedupes by jobId', async () => {
+    const queue = new BackgroundJobQueue(2);
+    const job = (jobId: string) =>
+      createJobStatus({
+        jobId,
+        pageKey: 'https://example.com/chapter-1',
+        priorityClass: 'visible-now',
+        requestedPath: 'plugin-direct',
+        scope: 'page',
+      });
+    const secondRun = vi.fn(async () => 'second');
+
+    const first = queue.enqueue({ job: job('first'), run: async () => 'first' });
+    const resubmitted = queue.enqueue({ job: job('first'), run: async () => 'duplicate' });
+    const second = queue.enqueue({ job: job('second'), run: secondRun });
+
+    await expect(first).resolves.toBe('first');
+    await expect(resubmitted).resolves.toBe('first');
+    await expect(second).resolves.toBe('second');
+    expect(secondRun).toHaveBeenCalledTimes(1);
+  });
+
+  it('reprioritizes queued jobs when the viewport moves', async () => {
+    const queue = new BackgroundJobQueue(1);
+    const order: string[] = [];
+    let releaseBlocker: (() => void) | undefined;
+    const enqueue = (jobId: string, priorityClass: 'visible-now' | 'next-up') =>
+      queue.enqueue({
+        job: createJobStatus({
+          jobId,
+          pageKey: 'page',
+          priorityClass,
+          requestedPath: 'plugin-direct',
+          scope: 'page',
+        }),
+        run: async () => {
+          order.push(jobId);
+          if (jobId === 'blocker') {
+            await new Promise<void>(resolve => {
+              releaseBlocker = resolve;
+            });
+          }
+          return jobId;
+        },
+      });
+
+    const jobs = [
+      enqueue('blocker', 'visible-now'),
+      enqueue('page-2', 'visible-now'),
+      enqueue('page-9', 'next-up'),
+    ];
+
+    expect(queue.reprioritize('page-2', 'warm-cache')?.priorityClass).toBe('warm-cache');
+    expect(queue.reprioritize('page-9', 'visible-now')?.priorityClass).toBe('visible-now');
+    expect(queue.reprioritize('blocker', 'warm-cache')).toBeUndefined();
+    expect(queue.getJob('blocker')?.priorityClass).toBe('visible-now');
+
+    releaseBlocker?.();
+    await Promise.all(jobs);
+    expect(order).toEqual(['blocker', 'page-9', 'page-2']);
+  });
 });
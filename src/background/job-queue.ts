@@ -1,3 +1,4 @@
+import { createAbortError } from '@/utils/abort';
 import type {
   JobPriorityClass,
   JobStatusPayload,
@@ -8,7 +9,8 @@ type QueueState = JobStatusPayload['state'];
 
 interface EnqueueJobArgs<T> {
   job: JobStatusPayload;
-  run: () => Promise<T>;
+  /** `signal` aborts when the job is cancelled while running */
+  run: (signal: AbortSignal) => Promise<T>;
 }
 
 const PRIORITY_ORDER: Record<JobPriorityClass, number> = {
@@ -19,26 +21,37 @@ const PRIORITY_ORDER: Record<JobPriorityClass, number> = {
   'deferred-failure': 4,
 };
 
+/** Terminal job statuses kept in a snapshot, so JOB_QUERY_STATUS survives a restart */
+const MAX_SNAPSHOT_FINISHED_JOBS = 100;
+
+export const INTERRUPTED_JOB_REASON = 'service worker restarted';
+
+function isActiveState(state: QueueState): boolean {
+  return state === 'queued' || state === 'running';
+}
+
 interface PendingJob<T> extends EnqueueJobArgs<T> {
   resolve: (value: unknown) => void;
   reject: (error: Error) => void;
+  controller: AbortController;
 }
 
 export class BackgroundJobQueue {
   private activeCount = 0;
   private maxConcurrent: number;
   private readonly pending: Array<PendingJob<unknown>> = [];
+  private readonly running = new Map<string, PendingJob<unknown>>();
   private readonly jobs = new Map<string, JobStatusPayload>();
-  // Deduplication map: pageKey -> pending job promise resolvers
-  private readonly pendingJobs = new Map<
-    string,
-    { resolve: (value: unknown) => void; reject: (error: Error) => void; job: JobStatusPayload }
-  >();
+  // Deduplication map: jobId -> promise of the queued / running submission.
+  // The transport re-sends the same jobId after a worker restart; several
+  // images of one page share a pageKey and must stay separate jobs.
+  private readonly pendingJobs = new Map<string, Promise<unknown>>();
   
   // Rate limiting variables
   private lastRequestTime = 0;
   private readonly minIntervalMs: number;
   private drainTimeout: NodeJS.Timeout | null = null;
+  private changeListener: (() => void) | null = null;
 
   constructor(maxConcurrent = 2, minIntervalMs = 0) {
     this.maxConcurrent = maxConcurrent;
@@ -50,6 +63,55 @@ export class BackgroundJobQueue {
     this.drain();
   }
 
+  /** Called after every job status change; used to checkpoint the queue */
+  setChangeListener(listener: (() => void) | null): void {
+    this.changeListener = listener;
+  }
+
+  /**
+   * Job statuses worth persisting: every queued / running job plus the most
+   * recently finished ones.
+   */
+  snapshot(): JobStatusPayload[] {
+    const jobs = Array.from(this.jobs.values());
+    const active = jobs.filter(job => isActiveState(job.state));
+    const finished = jobs
+      .filter(job => !isActiveState(job.state))
+      .slice(-MAX_SNAPSHOT_FINISHED_JOBS);
+    return [...finished, ...active].map(job => ({ ...job }));
+  }
+
+  /**
+   * Loads statuses from a snapshot taken by a previous worker. Their `run`
+   * closures died with that worker, so queued / running jobs are marked as
+   * failed `deferred-failure` jobs and returned for the caller to report.
+   * Jobs already known to this worker (re-submitted meanwhile) win.
+   */
+  restore(jobs: JobStatusPayload[]): JobStatusPayload[] {
+    const interrupted: JobStatusPayload[] = [];
+    for (const job of jobs) {
+      if (this.jobs.has(job.jobId)) {
+        continue;
+      }
+      if (isActiveState(job.state)) {
+        const failed: JobStatusPayload = {
+          ...job,
+          state: 'failed',
+          priorityClass: 'deferred-failure',
+          fallbackReason: INTERRUPTED_JOB_REASON,
+        };
+        this.jobs.set(job.jobId, failed);
+        interrupted.push({ ...failed });
+      } else {
+        this.jobs.set(job.jobId, { ...job });
+      }
+    }
+    if (jobs.length > 0) {
+      this.changeListener?.();
+    }
+    return interrupted;
+  }
+
   getJob(jobId: string): JobStatusPayload | undefined {
     const job = this.jobs.get(jobId);
     return job ? { ...job } : undefined;
@@ -57,6 +119,7 @@ export class BackgroundJobQueue {
 
   upsertJob(job: JobStatusPayload): void {
     this.jobs.set(job.jobId, { ...job });
+    this.changeListener?.();
   }
 
   updateJob(
@@ -68,8 +131,14 @@ export class BackgroundJobQueue {
       return undefined;
     }
 
+    // cancelled 是终态：被取消任务的 run 之后仍可能回写状态
+    if (current.state === 'cancelled') {
+      return { ...current };
+    }
+
     const next = { ...current, ...patch };
     this.jobs.set(jobId, next);
+    this.changeListener?.();
     return next;
   }
 
@@ -99,32 +168,85 @@ export class BackgroundJobQueue {
   }
 
   enqueue<T>({ job, run }: EnqueueJobArgs<T>): Promise<T> {
-    // Deduplication: check if a job with the same pageKey is already pending
-    const existing = this.pendingJobs.get(job.pageKey);
+    // Deduplication: a job with the same jobId is still queued or running
+    const existing = this.pendingJobs.get(job.jobId);
     if (existing) {
-      // Return the existing job's promise
-      return existing.resolve as unknown as Promise<T>;
+      return existing as Promise<T>;
     }
 
     this.upsertJob(job);
 
-    return new Promise<T>((resolve, reject) => {
-      // Store the pending job entry for deduplication
-      this.pendingJobs.set(job.pageKey, {
-        resolve: resolve as (value: unknown) => void,
-        reject,
-        job,
-      });
-
+    const promise = new Promise<T>((resolve, reject) => {
       const insertIndex = this.findInsertionIndex(job.priorityClass);
       this.pending.splice(insertIndex, 0, {
         job,
-        run: run as () => Promise<unknown>,
+        run: run as (signal: AbortSignal) => Promise<unknown>,
         resolve: resolve as (value: unknown) => void,
         reject,
+        controller: new AbortController(),
       });
       this.drain();
     });
+    this.pendingJobs.set(job.jobId, promise);
+    return promise;
+  }
+
+  /**
+   * Moves a queued job to another priority class, e.g. when the user scrolls
+   * its page into or out of view. Running and finished jobs keep their
+   * class. Returns the updated job, or undefined when it is not queued.
+   */
+  reprioritize(jobId: string, priorityClass: JobPriorityClass): JobStatusPayload | undefined {
+    const index = this.pending.findIndex(entry => entry.job.jobId === jobId);
+    const entry = this.pending[index];
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.job.priorityClass === priorityClass) {
+      return this.getJob(jobId);
+    }
+
+    this.pending.splice(index, 1);
+    entry.job = { ...entry.job, priorityClass };
+    this.pending.splice(this.findInsertionIndex(priorityClass), 0, entry);
+    const job = this.updateJob(jobId, { priorityClass });
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Cancels every queued or running job that matches. Queued jobs are
+   * dropped and their promise rejects with an `AbortError`; running jobs
+   * have their signal aborted so the in-flight request stops. Both end in
+   * the `cancelled` state. Returns the cancelled jobs.
+   */
+  cancel(matches: (job: JobStatusPayload) => boolean): JobStatusPayload[] {
+    const cancelled: JobStatusPayload[] = [];
+
+    for (let index = this.pending.length - 1; index >= 0; index--) {
+      const entry = this.pending[index];
+      if (!entry || !matches(entry.job)) continue;
+
+      this.pending.splice(index, 1);
+      this.releaseDedupSlot(entry);
+      const job = this.updateJob(entry.job.jobId, { state: 'cancelled' });
+      if (job) cancelled.push(job);
+      entry.reject(createAbortError());
+    }
+
+    for (const entry of this.running.values()) {
+      if (!matches(entry.job) || entry.controller.signal.aborted) continue;
+
+      const job = this.updateJob(entry.job.jobId, { state: 'cancelled' });
+      if (job) cancelled.push(job);
+      entry.controller.abort();
+    }
+
+    return cancelled;
+  }
+
+  private releaseDedupSlot(entry: PendingJob<unknown>): void {
+    this.pendingJobs.delete(entry.job.jobId);
   }
 
   private getCurrentLimit(): number {
@@ -162,10 +284,11 @@ export class BackgroundJobQueue {
   private startJob(next: PendingJob<unknown>): void {
     this.lastRequestTime = Date.now();
     this.activeCount += 1;
+    this.running.set(next.job.jobId, next);
     this.updateJob(next.job.jobId, { state: 'running' });
 
     void next
-      .run()
+      .run(next.controller.signal)
       .then(result => {
         next.resolve(result);
       })
@@ -174,8 +297,9 @@ export class BackgroundJobQueue {
       })
       .finally(() => {
         this.activeCount -= 1;
+        this.running.delete(next.job.jobId);
         // Remove from pendingJobs deduplication map
-        this.pendingJobs.delete(next.job.pageKey);
+        this.releaseDedupSlot(next);
         // If external hasn't set a final state (e.g., in unit tests), auto-set to succeeded
         const job = this.jobs.get(next.job.jobId);
         if (job && job.state === 'running') {
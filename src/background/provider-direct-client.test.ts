@@ -5,8 +5,12 @@ vi.mock('@/providers', () => ({
 }));
 
 import { createProvider } from '@/providers';
+import { createAbortError } from '@/utils/abort';
 
-import { translateImageViaProviderDirect } from './provider-direct-client';
+import {
+  translateImageViaProviderDirect,
+  translateImageWithFallback,
+} from './provider-direct-client';
 
 describe('provider-direct-client', () => {
   beforeEach(() => {
@@ -36,6 +40,29 @@ describe('provider-direct-client', () => {
     });
   });
 
+  it('passes the image key and forced refresh to the provider', async () => {
+    const analyzeAndTranslate = vi.fn().mockResolvedValue({ textAreas: [] });
+    vi.mocked(createProvider).mockResolvedValue({ analyzeAndTranslate } as never);
+
+    await translateImageViaProviderDirect({
+      imageBase64: 'base64-data',
+      mimeType: 'image/png',
+      targetLanguage: 'zh-CN',
+      provider: 'sidecar-server',
+      translationStylePreset: 'natural-zh',
+      imageKey: 'chapter-7::3',
+      forceRefresh: true,
+    });
+
+    expect(analyzeAndTranslate).toHaveBeenCalledWith(
+      'base64-data',
+      'zh-CN',
+      'natural-zh',
+      undefined,
+      { imageKey: 'chapter-7::3', forceRefresh: true }
+    );
+  });
+
   it('creates the lm-studio provider with direct settings', async () => {
     vi.mocked(createProvider).mockResolvedValue({
       analyzeAndTranslate: vi.fn().mockResolvedValue({ textAreas: [] }),
@@ -102,6 +129,43 @@ describe('provider-direct-client', () => {
     });
   });
 
+  it('passes through sidecar pipeline, cache flag and diagnostics', async () => {
+    vi.mocked(createProvider).mockResolvedValue({
+      analyzeAndTranslate: vi.fn().mockResolvedValue({
+        textAreas: [],
+        pipeline: 'ocr-first',
+        cached: true,
+        diagnostics: {
+          detectedRegions: 3,
+          fallbackRegions: 0,
+          ocrMs: 80,
+          translateMs: 200,
+          totalMs: 300,
+        },
+      }),
+    } as never);
+
+    const result = await translateImageViaProviderDirect({
+      imageBase64: 'base64-data',
+      mimeType: 'image/png',
+      targetLanguage: 'zh-CN',
+      provider: 'sidecar-server',
+      apiKey: 'server-token',
+      baseUrl: 'http://127.0.0.1:8000',
+      translationStylePreset: 'natural-zh',
+    });
+
+    expect(createProvider).toHaveBeenCalledWith('sidecar-server', {
+      apiKey: 'server-token',
+      baseUrl: 'http://127.0.0.1:8000',
+      model: undefined,
+    });
+    expect(result.success).toBe(true);
+    expect(result.pipeline).toBe('ocr-first');
+    expect(result.cached).toBe(true);
+    expect(result.diagnostics?.detectedRegions).toBe(3);
+  });
+
   it('rejects unknown provider types without calling createProvider', async () => {
     const result = await translateImageViaProviderDirect({
       imageBase64: 'base64-data',
@@ -130,4 +194,90 @@ describe('provider-direct-client', () => {
     expect(result.error).toContain('翻译风格');
     expect(createProvider).not.toHaveBeenCalled();
   });
+
+  describe('translateImageWithFallback', () => {
+    const request = {
+      imageBase64: 'base64-data',
+      mimeType: 'image/png',
+      targetLanguage: 'zh-CN',
+      provider: 'lm-studio',
+      baseUrl: 'http://localhost:1234/v1',
+      model: 'qwen',
+      translationStylePreset: 'natural-zh' as const,
+    };
+    const fallbacks = [
+      {
+        provider: 'openai-compatible' as const,
+        apiKey: 'sk-test',
+        baseUrl: 'https://api.openai.com/v1',
+        model: 'gpt-4o',
+      },
+    ];
+
+    function providerThatThrows(message: string) {
+      return {
+        analyzeAndTranslate: vi.fn().mockRejectedValue(new Error(message)),
+      } as never;
+    }
+
+    it('moves to the next provider on a connection error and records the reason', async () => {
+      vi.mocked(createProvider)
+        .mockResolvedValueOnce(providerThatThrows('connect ECONNREFUSED 127.0.0.1:1234'))
+        .mockResolvedValueOnce({
+          analyzeAndTranslate: vi.fn().mockResolvedValue({ textAreas: [] }),
+        } as never);
+
+      const result = await translateImageWithFallback(request, fallbacks);
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('openai-compatible');
+      expect(result.fallbackReason).toBe('lm-studio: CONNECTION_REFUSED');
+      expect(createProvider).toHaveBeenLastCalledWith('openai-compatible', {
+        apiKey: 'sk-test',
+        baseUrl: 'https://api.openai.com/v1',
+        model: 'gpt-4o',
+      });
+    });
+
+    it('does not fall back on auth errors', async () => {
+      vi.mocked(createProvider).mockResolvedValueOnce(
+        providerThatThrows('API error: 401 Unauthorized')
+      );
+
+      const result = await translateImageWithFallback(request, fallbacks);
+
+      expect(result.success).toBe(false);
+      expect(result.provider).toBe('lm-studio');
+      expect(result.fallbackReason).toBeUndefined();
+      expect(createProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('rethrows cancellation instead of falling back', async () => {
+      const controller = new AbortController();
+      vi.mocked(createProvider).mockResolvedValueOnce({
+        analyzeAndTranslate: vi.fn().mockImplementation(() => {
+          controller.abort();
+          return Promise.reject(createAbortError());
+        }),
+      } as never);
+
+      await expect(
+        translateImageWithFallback(request, fallbacks, controller.signal)
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(createProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns the last failure once the chain is exhausted', async () => {
+      vi.mocked(createProvider)
+        .mockResolvedValueOnce(providerThatThrows('Failed to fetch'))
+        .mockResolvedValueOnce(providerThatThrows('request timed out'));
+
+      const result = await translateImageWithFallback(request, fallbacks);
+
+      expect(result.success).toBe(false);
+      expect(result.provider).toBe('openai-compatible');
+      expect(result.error).toBe('request timed out');
+      expect(result.fallbackReason).toBe('lm-studio: NETWORK_ERROR');
+    });
+  });
 });
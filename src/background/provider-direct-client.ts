@@ -1,15 +1,22 @@
 import { createProvider } from '@/providers';
-import type { ProviderType, TextArea } from '@/providers/base';
+import { isProviderType, type ProviderType, type TextArea } from '@/providers/base';
+import type { TranslationDiagnostics } from '@/shared/runtime-contracts';
 import type { TranslationTransportRequest } from '@/services/translation-transport';
 import type { TranslationStylePreset } from '@/utils/translation-style';
 import { getErrorMessage } from '@/utils/error-message';
+import { isAbortError, throwIfAborted } from '@/utils/abort';
+import {
+  TranslationErrorCode,
+  TranslationErrorHandler,
+} from '@/utils/error-handler';
 
 interface ProviderDirectTranslationResponse {
   success: boolean;
   error?: string;
   textAreas?: TextArea[];
-  pipeline?: 'full-image-fallback';
+  pipeline?: 'ocr-first' | 'region-fallback' | 'full-image-fallback';
   cached?: boolean;
+  diagnostics?: TranslationDiagnostics;
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -17,8 +24,21 @@ interface ProviderDirectTranslationResponse {
   } | null;
 }
 
-function isProviderType(value: unknown): value is ProviderType {
-  return value === 'openai-compatible' || value === 'ollama' || value === 'lm-studio';
+/**
+ * Provider connection settings for one entry of the fallback chain. The
+ * image / language / style fields are always taken from the primary request.
+ */
+export interface ProviderFallbackTarget {
+  provider: ProviderType;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+interface ProviderChainTranslationResponse extends ProviderDirectTranslationResponse {
+  /** The provider that served the job, or the last one attempted on failure */
+  provider: string;
+  fallbackReason?: string;
 }
 
 function isTranslationStylePreset(
@@ -32,8 +52,13 @@ function isTranslationStylePreset(
   );
 }
 
+/**
+ * Provider errors are returned as `{ success: false }`; cancellation through
+ * `signal` is the exception and rejects with an `AbortError`.
+ */
 export async function translateImageViaProviderDirect(
-  request: TranslationTransportRequest
+  request: TranslationTransportRequest,
+  signal?: AbortSignal
 ): Promise<ProviderDirectTranslationResponse> {
   if (!isProviderType(request.provider)) {
     return {
@@ -50,6 +75,7 @@ export async function translateImageViaProviderDirect(
   }
 
   try {
+    throwIfAborted(signal);
     const provider = await createProvider(request.provider, {
       apiKey: request.apiKey,
       baseUrl: request.baseUrl,
@@ -58,20 +84,88 @@ export async function translateImageViaProviderDirect(
     const result = await provider.analyzeAndTranslate(
       request.imageBase64,
       request.targetLanguage,
-      request.translationStylePreset
+      request.translationStylePreset,
+      signal,
+      { imageKey: request.imageKey, forceRefresh: request.forceRefresh }
     );
 
     return {
       success: true,
       textAreas: result.textAreas,
-      pipeline: 'full-image-fallback',
-      cached: false,
+      pipeline: result.pipeline ?? 'full-image-fallback',
+      cached: result.cached ?? false,
+      diagnostics: result.diagnostics,
       usage: result.usage ?? null,
     };
   } catch (error) {
+    if (isAbortError(error) && signal?.aborted) {
+      throw error;
+    }
     return {
       success: false,
       error: getErrorMessage(error),
     };
   }
 }
+
+/**
+ * Only errors that another provider could plausibly avoid advance the chain:
+ * retryable failures (network / timeout / 5xx / parse) and an unreachable
+ * local server. Auth, quota and content errors are returned as-is so the
+ * user sees the real cause instead of a silent provider switch.
+ */
+export function shouldFallbackToNextProvider(error: string | undefined): boolean {
+  const friendlyError = TranslationErrorHandler.parseError(error ?? '');
+  return (
+    friendlyError.retryable ||
+    friendlyError.code === TranslationErrorCode.CONNECTION_REFUSED ||
+    friendlyError.code === TranslationErrorCode.OLLAMA_NOT_RUNNING
+  );
+}
+
+/**
+ * Runs the request on its own provider first, then on each fallback target
+ * in order until one succeeds or a non-fallback error stops the walk.
+ * `fallbackReason` lists every provider that was skipped and why.
+ */
+export async function translateImageWithFallback(
+  request: TranslationTransportRequest,
+  fallbacks: readonly ProviderFallbackTarget[],
+  signal?: AbortSignal
+): Promise<ProviderChainTranslationResponse> {
+  const targets: Array<Omit<ProviderFallbackTarget, 'provider'> & { provider: string }> = [
+    {
+      provider: request.provider,
+      apiKey: request.apiKey,
+      baseUrl: request.baseUrl,
+      model: request.model,
+    },
+    ...fallbacks.filter(target => target.provider !== request.provider),
+  ];
+  const reasons: string[] = [];
+
+  for (const [index, target] of targets.entries()) {
+    const response = await translateImageViaProviderDirect({
+      ...request,
+      provider: target.provider,
+      apiKey: target.apiKey,
+      baseUrl: target.baseUrl,
+      model: target.model,
+    }, signal);
+
+    const isLast = index === targets.length - 1;
+    if (response.success || isLast || !shouldFallbackToNextProvider(response.error)) {
+      return {
+        ...response,
+        provider: target.provider,
+        fallbackReason: reasons.length > 0 ? reasons.join('; ') : undefined,
+      };
+    }
+
+    const { code } = TranslationErrorHandler.parseError(response.error ?? '');
+    reasons.push(`${target.provider}: ${code}`);
+  }
+
+  // targets always contains the primary provider, so the loop returns
+  return { success: false, error: '没有可用的 Provider', provider: request.provider };
+}
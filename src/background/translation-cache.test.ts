@@ -0,0 +1,318 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { MANGA_TRANSLATION_PROMPT_VERSION } from '@/providers/base';
+
+import {
+  BackgroundTranslationCache,
+  MemoryTranslationCacheBackend,
+  TRANSLATION_CACHE_KEY_VERSION,
+  buildTranslationCacheKey,
+  retagLegacyCacheEntries,
+  retagTranslationCacheRecord,
+  type TranslationCacheKeyParts,
+} from './translation-cache';
+
+const parts: TranslationCacheKeyParts = {
+  imageHash: 'hash-1',
+  provider: 'openai-compatible',
+  model: 'gpt-4o',
+  targetLanguage: 'zh-CN',
+  translationStylePreset: 'natural-zh',
+};
+
+const textAreas = [
+  {
+    x: 0.1,
+    y: 0.1,
+    width: 0.2,
+    height: 0.1,
+    originalText: 'こんにちは',
+    translatedText: '你好',
+  },
+];
+
+function createCache(options: { maxEntries?: number; maxAgeMs?: number } = {}) {
+  let now = 1_000;
+  const backend = new MemoryTranslationCacheBackend();
+  const cache = new BackgroundTranslationCache(backend, {
+    ...options,
+    now: () => now,
+  });
+  return {
+    backend,
+    cache,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('buildTranslationCacheKey', () => {
+  it('changes when the model, language or style changes', () => {
+    const base = buildTranslationCacheKey(parts);
+
+    expect(buildTranslationCacheKey({ ...parts, model: 'gpt-4o-mini' })).not.toBe(base);
+    expect(buildTranslationCacheKey({ ...parts, targetLanguage: 'en' })).not.toBe(base);
+    expect(
+      buildTranslationCacheKey({ ...parts, translationStylePreset: 'faithful' })
+    ).not.toBe(base);
+  });
+
+  it('is prefixed with the key scheme and prompt versions', () => {
+    expect(buildTranslationCacheKey(parts)).toBe(
+      `v${TRANSLATION_CACHE_KEY_VERSION}::p${MANGA_TRANSLATION_PROMPT_VERSION}::hash-1::openai-compatible::gpt-4o::zh-CN::natural-zh`
+    );
+    expect(buildTranslationCacheKey(parts, 99)).not.toBe(buildTranslationCacheKey(parts));
+  });
+});
+
+describe('cache migrations', () => {
+  it('re-keys v1 records and drops records missing key parts', () => {
+    const v1Record = {
+      ...parts,
+      key: 'hash-1::openai-compatible::gpt-4o::zh-CN::natural-zh',
+      textAreas,
+      createdAt: 10,
+      lastAccessedAt: 20,
+    };
+
+    const retagged = retagTranslationCacheRecord(v1Record);
+
+    expect(retagged?.key).toBe(buildTranslationCacheKey(parts, 1));
+    expect(retagged?.keyVersion).toBe(TRANSLATION_CACHE_KEY_VERSION);
+    expect(retagged?.promptVersion).toBe(1);
+    expect(retagged?.lastAccessedAt).toBe(20);
+    expect(retagTranslationCacheRecord({ key: 'hash-only', textAreas })).toBeNull();
+  });
+
+  it('imports content-script CacheEntry records whose key carries the execution scope', () => {
+    const records = retagLegacyCacheEntries({
+      state: {
+        entries: {
+          'hash-1::provider::plugin-direct::openai-compatible::gpt-4o::zh-CN::natural-zh::strong-overlay-compat':
+            {
+              imageHash: 'hash-1',
+              result: { success: true, textAreas },
+              timestamp: 42,
+              provider: 'openai-compatible',
+            },
+          'bare-hash': {
+            imageHash: 'bare-hash',
+            result: { success: true, textAreas },
+            timestamp: 43,
+            provider: 'openai-compatible',
+          },
+        },
+        maxEntries: 100,
+      },
+      version: 0,
+    });
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      ...parts,
+      key: buildTranslationCacheKey(parts, 1),
+      textAreas,
+      createdAt: 42,
+    });
+  });
+});
+
+describe('BackgroundTranslationCache', () => {
+  it('returns a stored record and refreshes its access time', async () => {
+    const { cache, advance } = createCache();
+    await cache.set(parts, { textAreas, pipeline: 'full-image-fallback' });
+    advance(500);
+
+    const record = await cache.get(parts);
+
+    expect(record?.textAreas).toEqual(textAreas);
+    expect(record?.createdAt).toBe(1_000);
+    expect(record?.lastAccessedAt).toBe(1_500);
+    expect(await cache.get({ ...parts, imageHash: 'other' })).toBeNull();
+  });
+
+  it('drops records older than maxAgeMs on read', async () => {
+    const { cache, backend, advance } = createCache({ maxAgeMs: 1_000 });
+    await cache.set(parts, { textAreas });
+    advance(1_001);
+
+    expect(await cache.get(parts)).toBeNull();
+    expect(await backend.count()).toBe(0);
+  });
+
+  it('evicts the least recently read records beyond maxEntries', async () => {
+    const { cache, advance } = createCache({ maxEntries: 2 });
+    await cache.set({ ...parts, imageHash: 'a' }, { textAreas });
+    advance(10);
+    await cache.set({ ...parts, imageHash: 'b' }, { textAreas });
+    advance(10);
+    await cache.get({ ...parts, imageHash: 'a' });
+    advance(10);
+    await cache.set({ ...parts, imageHash: 'c' }, { textAreas });
+
+    expect(await cache.get({ ...parts, imageHash: 'a' })).not.toBeNull();
+    expect(await cache.get({ ...parts, imageHash: 'b' })).toBeNull();
+    expect(await cache.get({ ...parts, imageHash: 'c' })).not.toBeNull();
+  });
+
+  it('prunes records produced by another prompt version', async () => {
+    const { cache, backend } = createCache();
+    await cache.set(parts, { textAreas });
+    await backend.put({
+      ...parts,
+      imageHash: 'old-prompt',
+      key: buildTranslationCacheKey({ ...parts, imageHash: 'old-prompt' }, 0),
+      keyVersion: TRANSLATION_CACHE_KEY_VERSION,
+      promptVersion: 0,
+      textAreas,
+      createdAt: 1_000,
+      lastAccessedAt: 1_000,
+    });
+
+    expect(await cache.prune()).toBe(1);
+    expect(await cache.get(parts)).not.toBeNull();
+  });
+
+  it('keeps newer entries when importing older records', async () => {
+    const { cache, advance } = createCache();
+    await cache.set(parts, { textAreas: [] });
+    advance(10);
+
+    const [legacy] = retagLegacyCacheEntries({
+      entries: {
+        'hash-1::provider::plugin-direct::openai-compatible::gpt-4o::zh-CN::natural-zh::anchors-only':
+          { result: { success: true, textAreas }, timestamp: 1 },
+      },
+    });
+
+    expect(await cache.importRecords(legacy ? [legacy] : [])).toEqual({
+      imported: 0,
+      skipped: 1,
+    });
+    expect((await cache.get(parts))?.textAreas).toEqual([]);
+  });
+
+  it('filters records by chapter and site', async () => {
+    const { cache } = createCache();
+    await cache.set(parts, {
+      textAreas,
+      pageUrl: 'https://manhwaread.com/manhwa/demo/chapter-1/',
+      chapterId: 'chapter-1',
+    });
+    await cache.set(
+      { ...parts, imageHash: 'hash-2' },
+      { textAreas, pageUrl: 'https://example.org/read/2', chapterId: 'chapter-2' }
+    );
+
+    expect(await cache.query()).toHaveLength(2);
+    expect((await cache.query({ chapterId: 'chapter-1' })).map(r => r.imageHash)).toEqual([
+      'hash-1',
+    ]);
+    expect((await cache.query({ site: 'example.org' })).map(r => r.imageHash)).toEqual([
+      'hash-2',
+    ]);
+  });
+
+  it('resolves import conflicts with the requested strategy', async () => {
+    const { cache, advance } = createCache();
+    await cache.set(parts, { textAreas: [] });
+    advance(10);
+    const [existing] = await cache.query();
+    const incoming = existing && { ...existing, textAreas, createdAt: 500 };
+    const records = incoming ? [incoming] : [];
+
+    expect(await cache.importRecords(records, 'keep-existing')).toEqual({
+      imported: 0,
+      skipped: 1,
+    });
+    expect(await cache.importRecords(records, 'overwrite')).toEqual({
+      imported: 1,
+      skipped: 0,
+    });
+    expect((await cache.get(parts))?.textAreas).toEqual(textAreas);
+  });
+
+  it('matches the closest record by perceptual hash within the threshold', async () => {
+    const { cache } = createCache();
+    await cache.set(
+      { ...parts, imageHash: 'jpeg-1024' },
+      { textAreas, perceptualHash: 'ffffffffffffff00' }
+    );
+    await cache.set(
+      { ...parts, imageHash: 'jpeg-800' },
+      { textAreas: [], perceptualHash: 'fffffffffffffff0' }
+    );
+    await cache.set(
+      { ...parts, imageHash: 'other-model', model: 'gpt-4o-mini' },
+      { textAreas: [], perceptualHash: 'ffffffffffffffff' }
+    );
+
+    const webp = { ...parts, imageHash: 'webp-1200' };
+
+    expect((await cache.findSimilar(webp, 'fffffffffffffff8', 4))?.imageHash).toBe(
+      'jpeg-800'
+    );
+    expect((await cache.findSimilar(webp, 'ffffffffffffff0f', 4))?.imageHash).toBe(
+      'jpeg-1024'
+    );
+    expect(await cache.findSimilar(webp, '0fffffffffffffff', 3)).toBeNull();
+  });
+
+  it('saves corrections as a user-corrected revision of the record', async () => {
+    const { cache, advance } = createCache();
+    await cache.set(parts, { textAreas, pageUrl: 'https://reader.example/ch1', chapterId: 'ch1' });
+    advance(500);
+    const corrected = textAreas.map(area => ({ ...area, x: 0.15, translatedText: '您好' }));
+
+    expect(await cache.saveCorrection(parts, corrected)).toBe(true);
+
+    const record = await cache.get(parts);
+    expect(record?.revision).toBe('user-corrected');
+    expect(record?.textAreas).toEqual(corrected);
+    expect(record?.createdAt).toBe(1_500);
+    expect(record?.chapterId).toBe('ch1');
+
+    // 相似图命中或从未缓存的图片：按请求的 key 新建记录
+    const other = { ...parts, imageHash: 'hash-2' };
+    await cache.saveCorrection(other, [], { pageUrl: 'https://reader.example/ch1' });
+    expect(await cache.get(other)).toMatchObject({
+      textAreas: [],
+      revision: 'user-corrected',
+      site: 'reader.example',
+    });
+  });
+
+  it('keeps local corrections on import unless told to overwrite them', async () => {
+    const { cache, advance } = createCache();
+    await cache.set(parts, { textAreas });
+    await cache.saveCorrection(parts, []);
+    advance(1_000);
+    const [corrected] = await cache.query();
+    const incoming = corrected && {
+      ...corrected,
+      textAreas,
+      revision: undefined,
+      createdAt: 5_000,
+    };
+    const records = incoming ? [incoming] : [];
+
+    expect(await cache.importRecords(records, 'newer')).toEqual({ imported: 0, skipped: 1 });
+    expect(await cache.importRecords(records, 'overwrite')).toEqual({ imported: 0, skipped: 1 });
+    expect((await cache.get(parts))?.revision).toBe('user-corrected');
+
+    expect(
+      await cache.importRecords(records, 'overwrite', { overwriteCorrections: true })
+    ).toEqual({ imported: 1, skipped: 0 });
+    expect((await cache.get(parts))?.textAreas).toEqual(textAreas);
+  });
+
+  it('treats storage errors as a miss', async () => {
+    const { cache, backend } = createCache();
+    vi.spyOn(backend, 'get').mockRejectedValue(new Error('QuotaExceededError'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await cache.get(parts)).toBeNull();
+    warn.mockRestore();
+  });
+});
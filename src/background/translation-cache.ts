@@ -0,0 +1,668 @@
+/**
+ * Background translation cache.
+ *
+ * Owned by the service worker so every tab (and every browser session)
+ * shares one cache. Records live in IndexedDB; when IndexedDB is not
+ * available (tests, locked-down profiles) an in-memory backend keeps the
+ * same semantics for the lifetime of the worker.
+ *
+ * Eviction:
+ * - age: records older than `maxAgeMs` are dropped on read and on prune
+ * - size: once the store holds more than `maxEntries` records, the least
+ *   recently read ones are dropped
+ * - version: records written under another key scheme or prompt version are
+ *   never matched and are dropped on prune
+ *
+ * Lookups are exact on the image content hash. `findSimilar` additionally
+ * matches records whose perceptual hash is within a Hamming distance, so a
+ * page re-served at another quality, width or format can reuse its (0-1
+ * normalized) text areas.
+ *
+ * Revisions: areas the user edited in place are saved with
+ * `saveCorrection` as a `user-corrected` revision; forced re-translation
+ * keeps serving them unless the user explicitly discards the corrections.
+ */
+
+import {
+  MANGA_TRANSLATION_PROMPT_VERSION,
+  type TextArea,
+} from '@/providers/base';
+import { hammingDistance } from '@/services/image-processor';
+import type { TranslationStylePreset } from '@/utils/translation-style';
+
+export interface TranslationCacheKeyParts {
+  imageHash: string;
+  provider: string;
+  model?: string;
+  targetLanguage: string;
+  translationStylePreset: TranslationStylePreset;
+}
+
+/**
+ * Origin of a record's text areas. Records written before revisions existed
+ * carry none and count as `machine`.
+ */
+export type TranslationRevision = 'machine' | 'user-corrected';
+
+export interface TranslationCacheRecord extends TranslationCacheKeyParts {
+  key: string;
+  keyVersion: number;
+  promptVersion: number;
+  textAreas: TextArea[];
+  pipeline?: 'ocr-first' | 'region-fallback' | 'full-image-fallback';
+  /** Provider that produced the result; differs from `provider` after fallback */
+  servedBy?: string;
+  /** dHash of the image; absent when it could not be decoded */
+  perceptualHash?: string;
+  /** Page the image was translated on; used to filter translation packs */
+  pageUrl?: string;
+  /** Hostname of `pageUrl` */
+  site?: string;
+  /** `ChapterBootstrap.chapterId` when a site adapter recognised the page */
+  chapterId?: string;
+  revision?: TranslationRevision;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export interface TranslationCacheBackend {
+  get(key: string): Promise<TranslationCacheRecord | undefined>;
+  put(record: TranslationCacheRecord): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  getAll(): Promise<TranslationCacheRecord[]>;
+  count(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export interface TranslationCacheFilter {
+  chapterId?: string;
+  site?: string;
+}
+
+/**
+ * How imported records that collide with an existing key are resolved:
+ * - newer: keep whichever record was created later
+ * - keep-existing: never overwrite local records
+ * - overwrite: imported records always win
+ */
+export type TranslationConflictStrategy = 'newer' | 'keep-existing' | 'overwrite';
+
+export interface TranslationImportResult {
+  imported: number;
+  skipped: number;
+}
+
+export interface TranslationImportOptions {
+  /** Replace local `user-corrected` records too; off by default */
+  overwriteCorrections?: boolean;
+}
+
+export interface TranslationCacheOptions {
+  maxEntries: number;
+  maxAgeMs: number;
+  now?: () => number;
+}
+
+export const DEFAULT_TRANSLATION_CACHE_OPTIONS: TranslationCacheOptions = {
+  maxEntries: 2000,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Layout of the cache key itself. v1 keys (the first IndexedDB release) had
+ * no version / prompt segments; they are re-tagged by the DB upgrade.
+ */
+export const TRANSLATION_CACHE_KEY_VERSION = 2;
+
+/** v1 records and content-script CacheEntry records predate prompt versioning */
+const LEGACY_PROMPT_VERSION = 1;
+
+/** Content-script `useTranslationCacheStore` persistence key (pre-IndexedDB) */
+export const LEGACY_CACHE_STORAGE_KEY = 'manga-translator-cache-v2';
+
+const DB_NAME = 'manga-translator-cache';
+const DB_VERSION = 2;
+const STORE_NAME = 'translations';
+
+export function buildTranslationCacheKey(
+  parts: TranslationCacheKeyParts,
+  promptVersion: number = MANGA_TRANSLATION_PROMPT_VERSION
+): string {
+  return [
+    `v${TRANSLATION_CACHE_KEY_VERSION}`,
+    `p${promptVersion}`,
+    parts.imageHash,
+    parts.provider,
+    parts.model || 'default',
+    parts.targetLanguage,
+    parts.translationStylePreset,
+  ].join('::');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isTranslationStylePreset(
+  value: unknown
+): value is TranslationStylePreset {
+  return (
+    value === 'faithful' ||
+    value === 'natural-zh' ||
+    value === 'concise-bubble' ||
+    value === 'preserve-original'
+  );
+}
+
+function withKey(
+  parts: TranslationCacheKeyParts,
+  value: Omit<TranslationCacheRecord, keyof TranslationCacheKeyParts | 'key' | 'keyVersion'>
+): TranslationCacheRecord {
+  return {
+    ...value,
+    ...parts,
+    key: buildTranslationCacheKey(parts, value.promptVersion),
+    keyVersion: TRANSLATION_CACHE_KEY_VERSION,
+  };
+}
+
+/**
+ * Upgrades a stored record to the current key scheme. Records that already
+ * carry the current `keyVersion` pass through; v1 records are re-keyed with
+ * the legacy prompt version; anything else is unusable and returns null.
+ */
+export function retagTranslationCacheRecord(
+  value: unknown
+): TranslationCacheRecord | null {
+  if (!isRecord(value)) return null;
+  if (value['keyVersion'] === TRANSLATION_CACHE_KEY_VERSION) {
+    return value as unknown as TranslationCacheRecord;
+  }
+
+  const {
+    imageHash,
+    provider,
+    model,
+    targetLanguage,
+    translationStylePreset,
+    textAreas,
+    createdAt,
+    lastAccessedAt,
+  } = value;
+  if (
+    typeof imageHash !== 'string' ||
+    typeof provider !== 'string' ||
+    typeof targetLanguage !== 'string' ||
+    !isTranslationStylePreset(translationStylePreset) ||
+    !Array.isArray(textAreas) ||
+    typeof createdAt !== 'number'
+  ) {
+    return null;
+  }
+
+  return withKey(
+    {
+      imageHash,
+      provider,
+      model: typeof model === 'string' ? model : undefined,
+      targetLanguage,
+      translationStylePreset,
+    },
+    {
+      textAreas: textAreas as TextArea[],
+      pipeline: value['pipeline'] as TranslationCacheRecord['pipeline'],
+      servedBy: typeof value['servedBy'] === 'string' ? value['servedBy'] : undefined,
+      pageUrl: typeof value['pageUrl'] === 'string' ? value['pageUrl'] : undefined,
+      site: typeof value['site'] === 'string' ? value['site'] : undefined,
+      chapterId: typeof value['chapterId'] === 'string' ? value['chapterId'] : undefined,
+      promptVersion: LEGACY_PROMPT_VERSION,
+      createdAt,
+      lastAccessedAt: typeof lastAccessedAt === 'number' ? lastAccessedAt : createdAt,
+    }
+  );
+}
+
+/** Hostname of the page a record was translated on, used to filter by site */
+export function getSiteFromUrl(pageUrl: string | undefined): string | undefined {
+  if (!pageUrl) return undefined;
+  try {
+    return new URL(pageUrl).hostname || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Converts the content-script cache (`{ state: { entries: Record<key, CacheEntry> } }`)
+ * into background records. Only entries whose key follows the
+ * `hash::provider::<path>::<provider>::<model>::<lang>::<style>::<renderMode>`
+ * layout can be re-tagged; bare image-hash keys carry no provider / model /
+ * language and are dropped.
+ */
+export function retagLegacyCacheEntries(persisted: unknown): TranslationCacheRecord[] {
+  const state = isRecord(persisted) && isRecord(persisted['state'])
+    ? persisted['state']
+    : persisted;
+  const entries = isRecord(state) && isRecord(state['entries']) ? state['entries'] : {};
+
+  return Object.entries(entries).flatMap(([key, entry]) => {
+    const [imageHash, scope, , provider, model, targetLanguage, style] = key.split('::');
+    if (
+      !imageHash ||
+      scope !== 'provider' ||
+      !provider ||
+      !targetLanguage ||
+      !isTranslationStylePreset(style) ||
+      !isRecord(entry) ||
+      !isRecord(entry['result']) ||
+      !Array.isArray(entry['result']['textAreas']) ||
+      typeof entry['timestamp'] !== 'number'
+    ) {
+      return [];
+    }
+
+    return [
+      withKey(
+        {
+          imageHash,
+          provider,
+          model: model && model !== 'default' ? model : undefined,
+          targetLanguage,
+          translationStylePreset: style,
+        },
+        {
+          textAreas: entry['result']['textAreas'] as TextArea[],
+          promptVersion: LEGACY_PROMPT_VERSION,
+          createdAt: entry['timestamp'],
+          lastAccessedAt: entry['timestamp'],
+        }
+      ),
+    ];
+  });
+}
+
+// ==================== Backends ====================
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+export class IndexedDbTranslationCacheBackend implements TranslationCacheBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory = indexedDB) {}
+
+  async get(key: string): Promise<TranslationCacheRecord | undefined> {
+    const store = await this.getStore('readonly');
+    return promisifyRequest(
+      store.get(key) as IDBRequest<TranslationCacheRecord | undefined>
+    );
+  }
+
+  async put(record: TranslationCacheRecord): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.put(record));
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const store = await this.getStore('readwrite');
+    await Promise.all(keys.map(key => promisifyRequest(store.delete(key))));
+  }
+
+  async getAll(): Promise<TranslationCacheRecord[]> {
+    const store = await this.getStore('readonly');
+    return promisifyRequest(store.getAll() as IDBRequest<TranslationCacheRecord[]>);
+  }
+
+  async count(): Promise<number> {
+    const store = await this.getStore('readonly');
+    return promisifyRequest(store.count());
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.clear());
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = this.factory.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = event => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            return;
+          }
+          if (event.oldVersion < 2 && request.transaction) {
+            retagStoredRecords(request.transaction.objectStore(STORE_NAME));
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          // 允许下次调用重试打开
+          this.dbPromise = null;
+          reject(request.error ?? new Error('Failed to open translation cache'));
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+/**
+ * v1 → v2: rewrite every record under the versioned key, dropping the ones
+ * that cannot be re-tagged. Runs inside the upgrade transaction.
+ */
+function retagStoredRecords(store: IDBObjectStore): void {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+
+    const retagged = retagTranslationCacheRecord(cursor.value);
+    if (!retagged) {
+      cursor.delete();
+    } else if (retagged.key !== cursor.primaryKey) {
+      cursor.delete();
+      store.put(retagged);
+    }
+    cursor.continue();
+  };
+}
+
+export class MemoryTranslationCacheBackend implements TranslationCacheBackend {
+  private readonly records = new Map<string, TranslationCacheRecord>();
+
+  async get(key: string): Promise<TranslationCacheRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async put(record: TranslationCacheRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.records.delete(key));
+  }
+
+  async getAll(): Promise<TranslationCacheRecord[]> {
+    return Array.from(this.records.values());
+  }
+
+  async count(): Promise<number> {
+    return this.records.size;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+// ==================== Cache ====================
+
+export class BackgroundTranslationCache {
+  private readonly options: TranslationCacheOptions;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly backend: TranslationCacheBackend,
+    options: Partial<TranslationCacheOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_TRANSLATION_CACHE_OPTIONS, ...options };
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Returns the cached record and refreshes its access time. Expired records
+   * are deleted and reported as a miss. Storage errors are logged and also
+   * treated as a miss so a broken cache never blocks translation.
+   */
+  async get(parts: TranslationCacheKeyParts): Promise<TranslationCacheRecord | null> {
+    const key = buildTranslationCacheKey(parts);
+    try {
+      const record = await this.backend.get(key);
+      if (!record) {
+        return null;
+      }
+
+      const now = this.now();
+      if (this.isExpired(record, now)) {
+        await this.backend.delete([key]);
+        return null;
+      }
+
+      const touched = { ...record, lastAccessedAt: now };
+      await this.backend.put(touched);
+      return touched;
+    } catch (error) {
+      console.warn('[TranslationCache] get error:', error);
+      return null;
+    }
+  }
+
+  async set(
+    parts: TranslationCacheKeyParts,
+    value: Pick<
+      TranslationCacheRecord,
+      | 'textAreas'
+      | 'pipeline'
+      | 'servedBy'
+      | 'perceptualHash'
+      | 'pageUrl'
+      | 'chapterId'
+    >
+  ): Promise<void> {
+    const now = this.now();
+    try {
+      await this.backend.put(
+        withKey(parts, {
+          ...value,
+          site: getSiteFromUrl(value.pageUrl),
+          promptVersion: MANGA_TRANSLATION_PROMPT_VERSION,
+          createdAt: now,
+          lastAccessedAt: now,
+        })
+      );
+
+      if ((await this.backend.count()) > this.options.maxEntries) {
+        await this.prune();
+      }
+    } catch (error) {
+      console.warn('[TranslationCache] set error:', error);
+    }
+  }
+
+  /**
+   * Stores the user's in-place edits as the `user-corrected` revision of the
+   * record, creating it when the image was never cached (or was served by a
+   * similar-image match under another key). Saving restarts the record's
+   * age, so corrections outlive the machine translation they replaced.
+   * Returns whether the record was written.
+   */
+  async saveCorrection(
+    parts: TranslationCacheKeyParts,
+    textAreas: TextArea[],
+    context: Pick<TranslationCacheRecord, 'pageUrl' | 'chapterId'> = {}
+  ): Promise<boolean> {
+    const now = this.now();
+    try {
+      const existing = await this.backend.get(buildTranslationCacheKey(parts));
+      const pageUrl = existing?.pageUrl ?? context.pageUrl;
+      await this.backend.put({
+        ...(existing ??
+          withKey(parts, {
+            textAreas,
+            pageUrl,
+            site: getSiteFromUrl(pageUrl),
+            chapterId: context.chapterId,
+            promptVersion: MANGA_TRANSLATION_PROMPT_VERSION,
+            createdAt: now,
+            lastAccessedAt: now,
+          })),
+        textAreas,
+        revision: 'user-corrected',
+        createdAt: now,
+        lastAccessedAt: now,
+      });
+      return true;
+    } catch (error) {
+      console.warn('[TranslationCache] saveCorrection error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Closest current-version record for the same provider / model / language
+   * / style whose perceptual hash is within `maxDistance` bits. Touches the
+   * match like `get`; errors are treated as a miss.
+   */
+  async findSimilar(
+    parts: TranslationCacheKeyParts,
+    perceptualHash: string,
+    maxDistance: number
+  ): Promise<TranslationCacheRecord | null> {
+    try {
+      const now = this.now();
+      let best: { record: TranslationCacheRecord; distance: number } | null = null;
+
+      for (const record of await this.backend.getAll()) {
+        if (
+          !record.perceptualHash ||
+          record.provider !== parts.provider ||
+          (record.model || '') !== (parts.model || '') ||
+          record.targetLanguage !== parts.targetLanguage ||
+          record.translationStylePreset !== parts.translationStylePreset ||
+          !isCurrentVersion(record) ||
+          this.isExpired(record, now)
+        ) {
+          continue;
+        }
+
+        const distance = hammingDistance(record.perceptualHash, perceptualHash);
+        if (distance <= maxDistance && (!best || distance < best.distance)) {
+          best = { record, distance };
+        }
+      }
+
+      if (!best) {
+        return null;
+      }
+
+      const touched = { ...best.record, lastAccessedAt: now };
+      await this.backend.put(touched);
+      return touched;
+    } catch (error) {
+      console.warn('[TranslationCache] findSimilar error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Current-version, unexpired records, optionally narrowed to one chapter
+   * or site. Used to build translation packs.
+   */
+  async query(filter: TranslationCacheFilter = {}): Promise<TranslationCacheRecord[]> {
+    const now = this.now();
+    const records = await this.backend.getAll();
+    return records.filter(
+      record =>
+        !this.isExpired(record, now) &&
+        isCurrentVersion(record) &&
+        (!filter.chapterId || record.chapterId === filter.chapterId) &&
+        (!filter.site || record.site === filter.site)
+    );
+  }
+
+  /**
+   * Imports records from another source (legacy cache, translation packs).
+   * Key collisions are resolved with `strategy`; the user's own corrections
+   * are kept whatever the strategy unless `overwriteCorrections` is set.
+   */
+  async importRecords(
+    records: TranslationCacheRecord[],
+    strategy: TranslationConflictStrategy = 'newer',
+    options: TranslationImportOptions = {}
+  ): Promise<TranslationImportResult> {
+    const result: TranslationImportResult = { imported: 0, skipped: 0 };
+    for (const record of records) {
+      const existing = await this.backend.get(record.key);
+      const keepExisting =
+        existing !== undefined &&
+        (strategy === 'keep-existing' ||
+          (existing.revision === 'user-corrected' && !options.overwriteCorrections) ||
+          (strategy === 'newer' && existing.createdAt >= record.createdAt));
+      if (keepExisting) {
+        result.skipped += 1;
+        continue;
+      }
+      await this.backend.put(record);
+      result.imported += 1;
+    }
+    if ((await this.backend.count()) > this.options.maxEntries) {
+      await this.prune();
+    }
+    return result;
+  }
+
+  /**
+   * Drops expired and stale-version records, then the least recently read
+   * records beyond `maxEntries`. Returns the number of records removed.
+   */
+  async prune(): Promise<number> {
+    const now = this.now();
+    const records = await this.backend.getAll();
+    const isStale = (record: TranslationCacheRecord) =>
+      this.isExpired(record, now) || !isCurrentVersion(record);
+    const expired = records.filter(isStale);
+    const overflow = records
+      .filter(record => !isStale(record))
+      .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt)
+      .slice(this.options.maxEntries);
+    const keys = [...expired, ...overflow].map(record => record.key);
+
+    await this.backend.delete(keys);
+    return keys.length;
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+
+  async getStats(): Promise<{ entryCount: number; maxEntries: number }> {
+    return {
+      entryCount: await this.backend.count(),
+      maxEntries: this.options.maxEntries,
+    };
+  }
+
+  private isExpired(record: TranslationCacheRecord, now: number): boolean {
+    return now - record.createdAt > this.options.maxAgeMs;
+  }
+}
+
+function isCurrentVersion(record: TranslationCacheRecord): boolean {
+  return (
+    record.keyVersion === TRANSLATION_CACHE_KEY_VERSION &&
+    record.promptVersion === MANGA_TRANSLATION_PROMPT_VERSION
+  );
+}
+
+export function createTranslationCache(
+  options: Partial<TranslationCacheOptions> = {}
+): BackgroundTranslationCache {
+  const backend =
+    typeof indexedDB !== 'undefined'
+      ? new IndexedDbTranslationCacheBackend(indexedDB)
+      : new MemoryTranslationCacheBackend();
+  return new BackgroundTranslationCache(backend, options);
+}
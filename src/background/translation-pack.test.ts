@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+
+import { MANGA_TRANSLATION_PROMPT_VERSION } from '@/providers/base';
+
+import {
+  BackgroundTranslationCache,
+  MemoryTranslationCacheBackend,
+  buildTranslationCacheKey,
+  type TranslationCacheKeyParts,
+} from './translation-cache';
+import {
+  TRANSLATION_PACK_FORMAT,
+  TRANSLATION_PACK_VERSION,
+  createTranslationPack,
+  parseTranslationPack,
+} from './translation-pack';
+
+const parts: TranslationCacheKeyParts = {
+  imageHash: 'hash-1',
+  provider: 'openai-compatible',
+  model: 'gpt-4o',
+  targetLanguage: 'zh-CN',
+  translationStylePreset: 'natural-zh',
+};
+
+const textAreas = [
+  {
+    x: 0.1,
+    y: 0.1,
+    width: 0.2,
+    height: 0.1,
+    originalText: 'こんにちは',
+    translatedText: '你好',
+  },
+];
+
+describe('translation packs', () => {
+  it('round-trips cache records without storage-only fields', async () => {
+    const cache = new BackgroundTranslationCache(new MemoryTranslationCacheBackend(), {
+      now: () => 1_000,
+    });
+    await cache.set(parts, {
+      textAreas,
+      pageUrl: 'https://manhwaread.com/manhwa/demo/chapter-1/',
+      chapterId: '/manhwa/demo/chapter-1/',
+    });
+
+    const pack = createTranslationPack(await cache.query({}), {}, 5_000);
+    const serialized = JSON.parse(JSON.stringify(pack)) as unknown;
+
+    expect(pack.records[0]).not.toHaveProperty('key');
+    expect(pack.records[0]).not.toHaveProperty('lastAccessedAt');
+
+    const parsed = parseTranslationPack(serialized, 9_000);
+    expect(parsed.rejected).toBe(0);
+    expect(parsed.records[0]).toMatchObject({
+      ...parts,
+      key: buildTranslationCacheKey(parts),
+      site: 'manhwaread.com',
+      chapterId: '/manhwa/demo/chapter-1/',
+      createdAt: 1_000,
+      lastAccessedAt: 9_000,
+      textAreas,
+    });
+  });
+
+  it('rejects files that are not packs of a supported version', () => {
+    expect(() => parseTranslationPack({ records: [] })).toThrow('不是有效的翻译包文件');
+    expect(() =>
+      parseTranslationPack({ format: TRANSLATION_PACK_FORMAT, version: 99, records: [] })
+    ).toThrow('不支持的翻译包版本: 99');
+    expect(() =>
+      parseTranslationPack({
+        format: TRANSLATION_PACK_FORMAT,
+        version: TRANSLATION_PACK_VERSION,
+      })
+    ).toThrow('records');
+  });
+
+  it('counts malformed records and records from another prompt version', () => {
+    const valid = {
+      ...parts,
+      promptVersion: MANGA_TRANSLATION_PROMPT_VERSION,
+      textAreas,
+      createdAt: 1,
+    };
+
+    const parsed = parseTranslationPack({
+      format: TRANSLATION_PACK_FORMAT,
+      version: TRANSLATION_PACK_VERSION,
+      records: [
+        valid,
+        { ...valid, promptVersion: MANGA_TRANSLATION_PROMPT_VERSION + 1 },
+        { ...valid, textAreas: [{ x: 0 }] },
+        { ...valid, translationStylePreset: 'unknown' },
+        'garbage',
+      ],
+    });
+
+    expect(parsed.records).toHaveLength(1);
+    expect(parsed.rejected).toBe(4);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Translation packs: portable JSON exports of background cache records, so
+ * one reader can translate a chapter and share the result with others.
+ *
+ * Pack records omit the storage-only fields (`key`, `keyVersion`,
+ * `lastAccessedAt`); keys are rebuilt on import so a pack stays valid across
+ * cache key scheme changes as long as its prompt version matches.
+ */
+
+import { MANGA_TRANSLATION_PROMPT_VERSION, type TextArea } from '@/providers/base';
+import type { TranslationStylePreset } from '@/utils/translation-style';
+
+import {
+  TRANSLATION_CACHE_KEY_VERSION,
+  buildTranslationCacheKey,
+  type TranslationCacheFilter,
+  type TranslationCacheRecord,
+} from './translation-cache';
+
+export const TRANSLATION_PACK_FORMAT = 'manga-translator-pack';
+export const TRANSLATION_PACK_VERSION = 1;
+
+export type TranslationPackRecord = Omit<
+  TranslationCacheRecord,
+  'key' | 'keyVersion' | 'lastAccessedAt'
+>;
+
+export interface TranslationPack {
+  format: typeof TRANSLATION_PACK_FORMAT;
+  version: number;
+  exportedAt: number;
+  filter: TranslationCacheFilter;
+  records: TranslationPackRecord[];
+}
+
+export interface ParsedTranslationPack {
+  records: TranslationCacheRecord[];
+  /** Records that were malformed or produced by another prompt version */
+  rejected: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isTranslationStylePreset(
+  value: unknown
+): value is TranslationStylePreset {
+  return (
+    value === 'faithful' ||
+    value === 'natural-zh' ||
+    value === 'concise-bubble' ||
+    value === 'preserve-original'
+  );
+}
+
+function isTextArea(value: unknown): value is TextArea {
+  return (
+    isRecord(value) &&
+    typeof value['x'] === 'number' &&
+    typeof value['y'] === 'number' &&
+    typeof value['width'] === 'number' &&
+    typeof value['height'] === 'number' &&
+    typeof value['originalText'] === 'string' &&
+    typeof value['translatedText'] === 'string'
+  );
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+export function createTranslationPack(
+  records: TranslationCacheRecord[],
+  filter: TranslationCacheFilter = {},
+  exportedAt: number = Date.now()
+): TranslationPack {
+  return {
+    format: TRANSLATION_PACK_FORMAT,
+    version: TRANSLATION_PACK_VERSION,
+    exportedAt,
+    filter,
+    records: records.map(
+      ({ key: _key, keyVersion: _keyVersion, lastAccessedAt: _lastAccessedAt, ...record }) =>
+        record
+    ),
+  };
+}
+
+function parsePackRecord(value: unknown, now: number): TranslationCacheRecord | null {
+  if (!isRecord(value)) return null;
+
+  const {
+    imageHash,
+    provider,
+    targetLanguage,
+    translationStylePreset,
+    textAreas,
+    promptVersion,
+    createdAt,
+  } = value;
+  if (
+    typeof imageHash !== 'string' ||
+    !imageHash ||
+    typeof provider !== 'string' ||
+    !provider ||
+    typeof targetLanguage !== 'string' ||
+    !isTranslationStylePreset(translationStylePreset) ||
+    !Array.isArray(textAreas) ||
+    !textAreas.every(isTextArea) ||
+    promptVersion !== MANGA_TRANSLATION_PROMPT_VERSION ||
+    typeof createdAt !== 'number'
+  ) {
+    return null;
+  }
+
+  const parts = {
+    imageHash,
+    provider,
+    model: optionalString(value['model']),
+    targetLanguage,
+    translationStylePreset,
+  };
+
+  return {
+    ...parts,
+    key: buildTranslationCacheKey(parts, promptVersion),
+    keyVersion: TRANSLATION_CACHE_KEY_VERSION,
+    promptVersion,
+    textAreas,
+    pipeline: value['pipeline'] as TranslationCacheRecord['pipeline'],
+    servedBy: optionalString(value['servedBy']),
+    perceptualHash: optionalString(value['perceptualHash']),
+    pageUrl: optionalString(value['pageUrl']),
+    site: optionalString(value['site']),
+    chapterId: optionalString(value['chapterId']),
+    revision: value['revision'] === 'user-corrected' ? 'user-corrected' : undefined,
+    createdAt,
+    lastAccessedAt: now,
+  };
+}
+
+/**
+ * Validates a pack read from disk. Throws on a file that is not a pack at
+ * all; individual bad records are counted in `rejected` instead.
+ */
+export function parseTranslationPack(
+  value: unknown,
+  now: number = Date.now()
+): ParsedTranslationPack {
+  if (!isRecord(value) || value['format'] !== TRANSLATION_PACK_FORMAT) {
+    throw new Error('不是有效的翻译包文件');
+  }
+  if (value['version'] !== TRANSLATION_PACK_VERSION) {
+    throw new Error(`不支持的翻译包版本: ${String(value['version'])}`);
+  }
+  if (!Array.isArray(value['records'])) {
+    throw new Error('翻译包缺少 records 字段');
+  }
+
+  const records: TranslationCacheRecord[] = [];
+  let rejected = 0;
+  for (const entry of value['records']) {
+    const record = parsePackRecord(entry, now);
+    if (record) {
+      records.push(record);
+    } else {
+      rejected += 1;
+    }
+  }
+
+  return { records, rejected };
+}
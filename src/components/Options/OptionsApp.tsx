@@ -3,6 +3,7 @@ import {
   AlertCircle,
   CheckCircle2,
   ChevronDown,
+  ChevronUp,
   Circle,
   Eye,
   EyeOff,
@@ -13,9 +14,11 @@ import {
   Server,
   Sparkles,
   Info,
+  X,
 } from 'lucide-react';
 
 import { createProvider } from '@/providers';
+import { SidecarServerProvider } from '@/providers/sidecar-server';
 import { useAppConfigStore } from '@/stores/config-v2';
 import type { ProviderType } from '@/providers/base';
 import { cn } from '@/lib/utils';
@@ -31,6 +34,18 @@ import {
 import { Button } from '@/components/ui/button';
 import { getErrorStats, clearErrorStats, type ErrorStats } from '@/utils/error-stats';
 import { readAndClearFocusSignal } from '@/utils/onboarding';
+import {
+  MAX_PERCEPTUAL_HASH_THRESHOLD,
+  MAX_PREFETCH_PAGE_BUDGET,
+  normalizeCustomSiteAdapters,
+  type CustomSiteAdapterDefinition,
+} from '@/shared/app-config';
+import type { SiteAdapterTestReport } from '@/content/custom-site-adapter';
+import type {
+  ExportTranslationPackResponse,
+  ImportTranslationPackRequest,
+  ImportTranslationPackResponse,
+} from '@/shared/runtime-contracts';
 
 interface TestResult {
   success: boolean;
@@ -50,6 +65,10 @@ const PROVIDERS: Array<{
   name: string;
   description: string;
   requiresApiKey: boolean;
+  /** Shows the key input with this label even when the key is optional */
+  apiKeyLabel?: string;
+  /** Providers that pick their own models hide the Model input */
+  hideModel?: boolean;
   helpUrl: string;
   modelPlaceholder: string;
 }> = [
@@ -61,6 +80,22 @@ const PROVIDERS: Array<{
     helpUrl: 'https://platform.openai.com/api-keys',
     modelPlaceholder: '例如: gpt-4o, qwen-vl-max, custom-vlm',
   },
+  {
+    type: 'anthropic',
+    name: 'Anthropic',
+    description: '原生 Anthropic Messages API（x-api-key 鉴权），支持 Claude 视觉模型。',
+    requiresApiKey: true,
+    helpUrl: 'https://console.anthropic.com/settings/keys',
+    modelPlaceholder: '例如: claude-sonnet-4-5, claude-haiku-4-5',
+  },
+  {
+    type: 'gemini',
+    name: 'Google Gemini',
+    description: '原生 Gemini generateContent API，JSON Schema 结构化输出，速度快、成本低。',
+    requiresApiKey: true,
+    helpUrl: 'https://aistudio.google.com/apikey',
+    modelPlaceholder: '例如: gemini-2.5-flash, gemini-2.5-pro',
+  },
   {
     type: 'ollama',
     name: 'Ollama',
@@ -77,6 +112,16 @@ const PROVIDERS: Array<{
     helpUrl: 'https://lmstudio.ai/download',
     modelPlaceholder: '在 LM Studio 中加载模型后自动检测',
   },
+  {
+    type: 'sidecar-server',
+    name: 'Sidecar Server',
+    description: '自建 OCR-first 服务（server/），OCR + 文本翻译，必要时区域级 VLM 兜底。',
+    requiresApiKey: false,
+    apiKeyLabel: 'Bearer Token（可选，对应 SERVER_AUTH_TOKEN）',
+    hideModel: true,
+    helpUrl: 'https://github.com/hibernate-pano/chrome-plugin-manga-translator/tree/main/server',
+    modelPlaceholder: '',
+  },
 ];
 
 const API_PRESETS: Array<{
@@ -172,6 +217,600 @@ function ErrorStatsCard() {
   );
 }
 
+type PackConflictStrategy = ImportTranslationPackRequest['strategy'];
+
+function downloadJson(fileName: string, value: unknown): void {
+  const blob = new Blob([JSON.stringify(value, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+function TranslationPackCard() {
+  const [chapterId, setChapterId] = useState('');
+  const [site, setSite] = useState('');
+  const [strategy, setStrategy] = useState<PackConflictStrategy>('newer');
+  const [overwriteCorrections, setOverwriteCorrections] = useState(false);
+  const [status, setStatus] = useState<TestResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleExport = async () => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const response = (await chrome.runtime.sendMessage({
+        type: 'CACHE_EXPORT_PACK',
+        filter: { chapterId, site },
+      })) as ExportTranslationPackResponse | undefined;
+      if (!response?.success || !response.pack) {
+        throw new Error(response?.error || '导出失败');
+      }
+      if (!response.recordCount) {
+        setStatus({ success: false, message: '没有符合条件的缓存译文' });
+        return;
+      }
+      const date = new Date().toISOString().slice(0, 10);
+      downloadJson(`manga-translation-pack-${date}.json`, response.pack);
+      setStatus({ success: true, message: `已导出 ${response.recordCount} 条译文` });
+    } catch (error) {
+      setStatus({ success: false, message: error instanceof Error ? error.message : '操作失败' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const pack = JSON.parse(await file.text()) as unknown;
+      const response = (await chrome.runtime.sendMessage({
+        type: 'CACHE_IMPORT_PACK',
+        pack,
+        strategy,
+        overwriteCorrections,
+      } satisfies ImportTranslationPackRequest)) as
+        | ImportTranslationPackResponse
+        | undefined;
+      if (!response?.success) {
+        throw new Error(response?.error || '导入失败');
+      }
+      const rejected = response.rejected
+        ? `，${response.rejected} 条无效或提示词版本不符`
+        : '';
+      setStatus({
+        success: true,
+        message: `已导入 ${response.imported ?? 0} 条，跳过 ${response.skipped ?? 0} 条冲突${rejected}`,
+      });
+    } catch (error) {
+      setStatus({
+        success: false,
+        message:
+          error instanceof SyntaxError ? '文件不是有效的 JSON' : error instanceof Error ? error.message : '操作失败',
+      });
+    } finally {
+      setBusy(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <Card className='mt-6'>
+      <CardHeader>
+        <CardTitle>翻译包</CardTitle>
+        <CardDescription>
+          导出缓存中的译文分享给同好，或导入他人的翻译包，阅读相同章节时不再消耗 Token
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <div className='grid gap-3 sm:grid-cols-2'>
+          <label className='block'>
+            <div className='mb-1.5 text-xs text-slate-400'>章节 ID（可选）</div>
+            <input
+              value={chapterId}
+              onChange={e => setChapterId(e.target.value)}
+              placeholder='例如: /manhwa/series/chapter-12'
+              className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
+            />
+          </label>
+          <label className='block'>
+            <div className='mb-1.5 text-xs text-slate-400'>站点（可选）</div>
+            <input
+              value={site}
+              onChange={e => setSite(e.target.value)}
+              placeholder='例如: manhwaread.com'
+              className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
+            />
+          </label>
+        </div>
+
+        <label className='block'>
+          <div className='mb-1.5 text-xs text-slate-400'>导入冲突处理</div>
+          <select
+            value={strategy}
+            onChange={e => setStrategy(e.target.value as PackConflictStrategy)}
+            className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
+          >
+            <option value='newer'>保留较新的译文</option>
+            <option value='keep-existing'>保留本地译文</option>
+            <option value='overwrite'>使用导入的译文</option>
+          </select>
+        </label>
+
+        <label className='flex items-center gap-3 text-sm text-slate-200'>
+          <input
+            type='checkbox'
+            checked={overwriteCorrections}
+            onChange={e => setOverwriteCorrections(e.target.checked)}
+          />
+          覆盖我手动修改过的译文
+        </label>
+
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept='application/json,.json'
+          className='hidden'
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) {
+              void handleImport(file);
+            }
+          }}
+        />
+
+        {status && (
+          <div
+            className={cn(
+              'text-sm',
+              status.success ? 'text-emerald-400' : 'text-rose-400'
+            )}
+          >
+            {status.message}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className='gap-2'>
+        <Button variant='outline' disabled={busy} onClick={() => void handleExport()}>
+          导出翻译包
+        </Button>
+        <Button
+          variant='outline'
+          disabled={busy}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          导入翻译包
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+interface SiteAdapterDraft {
+  id: string;
+  name: string;
+  urlPattern: string;
+  chapterIdPattern: string;
+  pageImageSelector: string;
+  lazySrcAttributes: string;
+  excludeSelectors: string;
+  nextChapterSelector: string;
+}
+
+const EMPTY_SITE_ADAPTER_DRAFT: SiteAdapterDraft = {
+  id: '',
+  name: '',
+  urlPattern: '',
+  chapterIdPattern: '',
+  pageImageSelector: '',
+  lazySrcAttributes: 'data-src, data-original',
+  excludeSelectors: '',
+  nextChapterSelector: '',
+};
+
+const SITE_ADAPTER_FIELDS: Array<{
+  key: Exclude<keyof SiteAdapterDraft, 'id'>;
+  label: string;
+  placeholder: string;
+}> = [
+  { key: 'name', label: '名称', placeholder: '例如: 某漫画站' },
+  { key: 'urlPattern', label: '章节页 URL 正则', placeholder: '^https://example\\.com/comic/[^/]+/\\d+' },
+  { key: 'chapterIdPattern', label: '章节 ID 正则（取第一个捕获组，可选）', placeholder: '/comic/([^/]+/\\d+)' },
+  { key: 'pageImageSelector', label: '页面图片选择器', placeholder: '#reader img.page' },
+  { key: 'lazySrcAttributes', label: '懒加载地址属性（逗号分隔）', placeholder: 'data-src, data-original' },
+  { key: 'excludeSelectors', label: '排除选择器（逗号分隔，可选）', placeholder: '.ad, .banner' },
+  { key: 'nextChapterSelector', label: '下一章链接选择器（可选）', placeholder: 'a.next-chapter' },
+];
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function toSiteAdapterDraft(definition: CustomSiteAdapterDefinition): SiteAdapterDraft {
+  return {
+    id: definition.id,
+    name: definition.name,
+    urlPattern: definition.urlPattern,
+    chapterIdPattern: definition.chapterIdPattern,
+    pageImageSelector: definition.pageImageSelector,
+    lazySrcAttributes: definition.lazySrcAttributes.join(', '),
+    excludeSelectors: definition.excludeSelectors.join(', '),
+    nextChapterSelector: definition.nextChapterSelector,
+  };
+}
+
+function toSiteAdapterDefinition(
+  draft: SiteAdapterDraft,
+  enabled: boolean
+): CustomSiteAdapterDefinition | null {
+  const [definition] = normalizeCustomSiteAdapters([
+    {
+      ...draft,
+      id: draft.id || `site-${Date.now().toString(36)}`,
+      enabled,
+      lazySrcAttributes: splitList(draft.lazySrcAttributes),
+      excludeSelectors: splitList(draft.excludeSelectors),
+    },
+  ]);
+  return definition ?? null;
+}
+
+function getRegexError(pattern: string): string | null {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function getSelectorError(selector: string): string | null {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * 选择测试用的标签页：优先 URL 匹配定义的标签页（当前窗口的活动页优先），
+ * 否则退回当前活动的网页标签页。
+ */
+async function findSiteAdapterTestTab(
+  definition: CustomSiteAdapterDefinition
+): Promise<chrome.tabs.Tab | null> {
+  const tabs = await chrome.tabs.query({});
+  const webTabs = tabs.filter(
+    tab => tab.id !== undefined && typeof tab.url === 'string' && /^https?:/.test(tab.url)
+  );
+  const pattern = new RegExp(definition.urlPattern);
+  const matching = webTabs.filter(tab => pattern.test(tab.url ?? ''));
+  const byActive = (list: chrome.tabs.Tab[]) =>
+    list.find(tab => tab.active) ??
+    list[0] ??
+    null;
+
+  return byActive(matching) ?? byActive(webTabs);
+}
+
+function formatSiteAdapterReport(report: SiteAdapterTestReport, tabUrl: string): string {
+  const parts = [
+    report.matchesUrl ? 'URL 匹配' : 'URL 不匹配',
+    `章节 ID: ${report.chapterId || '—'}`,
+    `命中图片 ${report.pageCount} 张`,
+  ];
+  if (report.nextChapterUrl) {
+    parts.push(`下一章: ${report.nextChapterUrl}`);
+  }
+  return `${parts.join('，')}（${tabUrl}）`;
+}
+
+function SiteAdapterCard() {
+  const customSiteAdapters = useAppConfigStore(state => state.customSiteAdapters);
+  const saveCustomSiteAdapter = useAppConfigStore(state => state.saveCustomSiteAdapter);
+  const removeCustomSiteAdapter = useAppConfigStore(state => state.removeCustomSiteAdapter);
+  const [draft, setDraft] = useState<SiteAdapterDraft>(EMPTY_SITE_ADAPTER_DRAFT);
+  const [status, setStatus] = useState<TestResult | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const editingEnabled =
+    customSiteAdapters.find(item => item.id === draft.id)?.enabled ?? true;
+
+  const validateDraft = (): CustomSiteAdapterDefinition | null => {
+    const regexError =
+      getRegexError(draft.urlPattern) ??
+      (draft.chapterIdPattern ? getRegexError(draft.chapterIdPattern) : null);
+    if (regexError) {
+      setStatus({ success: false, message: `正则无效: ${regexError}` });
+      return null;
+    }
+    const selectorError = [
+      draft.pageImageSelector.trim(),
+      ...splitList(draft.excludeSelectors),
+      draft.nextChapterSelector.trim(),
+    ]
+      .filter(Boolean)
+      .map(getSelectorError)
+      .find(Boolean);
+    if (selectorError) {
+      setStatus({ success: false, message: `选择器无效: ${selectorError}` });
+      return null;
+    }
+    const definition = toSiteAdapterDefinition(draft, editingEnabled);
+    if (!definition) {
+      setStatus({ success: false, message: '请填写 URL 正则和页面图片选择器' });
+    }
+    return definition;
+  };
+
+  const handleSave = () => {
+    const definition = validateDraft();
+    if (!definition) return;
+    saveCustomSiteAdapter(definition);
+    setDraft(toSiteAdapterDraft(definition));
+    setStatus({ success: true, message: `已保存「${definition.name}」` });
+  };
+
+  const handleTest = async () => {
+    const definition = validateDraft();
+    if (!definition) return;
+    setTesting(true);
+    setStatus(null);
+    try {
+      const tab = await findSiteAdapterTestTab(definition);
+      if (tab?.id === undefined) {
+        throw new Error('没有可测试的网页标签页');
+      }
+      const response = (await chrome.tabs.sendMessage(tab.id, {
+        type: 'TEST_SITE_ADAPTER',
+        definition,
+      })) as { success?: boolean; error?: string; report?: SiteAdapterTestReport } | undefined;
+      if (!response?.success || !response.report) {
+        throw new Error(response?.error || '标签页未响应，请刷新页面后重试');
+      }
+      if (response.report.error) {
+        throw new Error(response.report.error);
+      }
+      setStatus({
+        success: response.report.matchesUrl && response.report.pageCount > 0,
+        message: formatSiteAdapterReport(response.report, tab.url ?? ''),
+      });
+    } catch (error) {
+      setStatus({ success: false, message: error instanceof Error ? error.message : '测试失败' });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <Card className='mt-6'>
+      <CardHeader>
+        <CardTitle>自定义站点</CardTitle>
+        <CardDescription>
+          用 CSS 选择器描述阅读页结构，让未内置的站点也按章节顺序翻译并复用章节缓存
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        {customSiteAdapters.length > 0 && (
+          <div className='space-y-2'>
+            {customSiteAdapters.map(item => (
+              <div
+                key={item.id}
+                className={cn(
+                  'flex items-center gap-3 rounded-lg border border-white/10 px-3 py-2 text-sm',
+                  item.id === draft.id && 'border-sky-400/50'
+                )}
+              >
+                <input
+                  type='checkbox'
+                  checked={item.enabled}
+                  onChange={e => saveCustomSiteAdapter({ ...item, enabled: e.target.checked })}
+                  aria-label={`启用 ${item.name}`}
+                />
+                <div className='min-w-0 flex-1'>
+                  <div className='truncate text-slate-200'>{item.name}</div>
+                  <div className='truncate text-xs text-slate-500'>{item.urlPattern}</div>
+                </div>
+                <Button variant='outline' size='sm' onClick={() => setDraft(toSiteAdapterDraft(item))}>
+                  编辑
+                </Button>
+                <Button
+                  variant='outline'
+                  size='sm'
+                  onClick={() => {
+                    removeCustomSiteAdapter(item.id);
+                    if (draft.id === item.id) {
+                      setDraft(EMPTY_SITE_ADAPTER_DRAFT);
+                    }
+                  }}
+                >
+                  删除
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className='grid gap-3 sm:grid-cols-2'>
+          {SITE_ADAPTER_FIELDS.map(field => (
+            <label key={field.key} className='block'>
+              <div className='mb-1.5 text-xs text-slate-400'>{field.label}</div>
+              <input
+                value={draft[field.key]}
+                onChange={e => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                placeholder={field.placeholder}
+                className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
+              />
+            </label>
+          ))}
+        </div>
+
+        {status && (
+          <div
+            className={cn(
+              'text-sm break-all',
+              status.success ? 'text-emerald-400' : 'text-rose-400'
+            )}
+          >
+            {status.message}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className='gap-2'>
+        <Button variant='outline' onClick={handleSave}>
+          {draft.id ? '保存修改' : '添加站点'}
+        </Button>
+        <Button variant='outline' disabled={testing} onClick={() => void handleTest()}>
+          {testing ? <Loader2 className='mr-2 h-4 w-4 animate-spin' /> : null}
+          在当前标签页测试
+        </Button>
+        {draft.id && (
+          <Button
+            variant='outline'
+            onClick={() => {
+              setDraft(EMPTY_SITE_ADAPTER_DRAFT);
+              setStatus(null);
+            }}
+          >
+            新建
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
+
+function NextChapterPrefetchCard() {
+  const prefetch = useAppConfigStore(state => state.nextChapterPrefetch);
+  const setNextChapterPrefetch = useAppConfigStore(state => state.setNextChapterPrefetch);
+
+  return (
+    <Card className='mt-6'>
+      <CardHeader>
+        <CardTitle>下一章预翻译</CardTitle>
+        <CardDescription>
+          章节页翻译完成后，在后台以最低优先级预翻译下一章，打开时直接显示译文。缓存命中不计入预算
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <label className='flex items-center gap-3 text-sm text-slate-200'>
+          <input
+            type='checkbox'
+            checked={prefetch.enabled}
+            onChange={e => setNextChapterPrefetch({ enabled: e.target.checked })}
+          />
+          启用下一章预翻译
+        </label>
+
+        <div className='grid gap-3 sm:grid-cols-3'>
+          <label className='block'>
+            <div className='mb-1.5 text-xs text-slate-400'>
+              每章页数上限（最多 {MAX_PREFETCH_PAGE_BUDGET}）
+            </div>
+            <input
+              type='number'
+              min={0}
+              max={MAX_PREFETCH_PAGE_BUDGET}
+              value={prefetch.pageBudget}
+              disabled={!prefetch.enabled}
+              onChange={e => setNextChapterPrefetch({ pageBudget: Number(e.target.value) })}
+              className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
+            />
+          </label>
+          <label className='block'>
+            <div className='mb-1.5 text-xs text-slate-400'>每章 Token 上限（0 为不限）</div>
+            <input
+              type='number'
+              min={0}
+              step={1000}
+              value={prefetch.tokenBudget}
+              disabled={!prefetch.enabled}
+              onChange={e => setNextChapterPrefetch({ tokenBudget: Number(e.target.value) })}
+              className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
+            />
+          </label>
+          <label className='block'>
+            <div className='mb-1.5 text-xs text-slate-400'>下一章链接选择器</div>
+            <input
+              value={prefetch.linkSelector}
+              disabled={!prefetch.enabled}
+              onChange={e => setNextChapterPrefetch({ linkSelector: e.target.value })}
+              placeholder='a[rel="next"]'
+              className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
+            />
+          </label>
+        </div>
+        <p className='text-xs text-slate-500'>
+          站点适配器提供下一章链接时优先使用；竖条（WEBTOON）阅读页暂不预翻译
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function KeyboardShortcutsCard() {
+  const [commands, setCommands] = useState<chrome.commands.Command[]>([]);
+
+  useEffect(() => {
+    const load = () => {
+      void chrome.commands.getAll().then(setCommands);
+    };
+    load();
+    // 快捷键在 chrome://extensions/shortcuts 修改，切回本页时刷新
+    window.addEventListener('focus', load);
+    return () => {
+      window.removeEventListener('focus', load);
+    };
+  }, []);
+
+  return (
+    <Card className='mt-6'>
+      <CardHeader>
+        <CardTitle>快捷键</CardTitle>
+        <CardDescription>作用于当前活动标签页（含其中的 iframe 阅读器）</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <table className='w-full text-sm'>
+          <tbody>
+            {commands
+              .filter(command => command.name && command.description)
+              .map(command => (
+                <tr key={command.name} className='border-b last:border-0'>
+                  <td className='py-2'>{command.description}</td>
+                  <td className='py-2 text-right font-mono'>
+                    {command.shortcut || <span className='text-slate-500'>未设置</span>}
+                  </td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </CardContent>
+      <CardFooter>
+        <Button
+          variant='outline'
+          onClick={() => {
+            void chrome.tabs.create({ url: 'chrome://extensions/shortcuts' });
+          }}
+        >
+          修改快捷键
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
 const OptionsApp: React.FC = () => {
   // Onboarding focus effect: if the content script set a focus
   // signal in session storage (via the in-page corner card's
@@ -220,11 +859,23 @@ const OptionsApp: React.FC = () => {
   const enabled = useAppConfigStore(state => state.enabled);
   const autoContinueEnabled = useAppConfigStore(state => state.autoContinueEnabled);
   const cacheEnabled = useAppConfigStore(state => state.cacheEnabled);
+  const cacheMatchMode = useAppConfigStore(state => state.cacheMatchMode);
+  const perceptualHashThreshold = useAppConfigStore(
+    state => state.perceptualHashThreshold
+  );
   const translationStylePreset = useAppConfigStore(
     state => state.translationStylePreset
   );
   const overlayStyle = useAppConfigStore(state => state.overlayStyle);
   const verticalText = useAppConfigStore(state => state.overlayStyle.verticalText);
+  const renderMode = useAppConfigStore(state => state.renderMode);
+  const setRenderMode = useAppConfigStore(state => state.setRenderMode);
+  const fontStyleMatching = useAppConfigStore(state => state.fontStyleMatching);
+  const setFontStyleMatching = useAppConfigStore(state => state.setFontStyleMatching);
+  const autoVerticalText = useAppConfigStore(state => state.autoVerticalText);
+  const setAutoVerticalText = useAppConfigStore(state => state.setAutoVerticalText);
+  const readingMode = useAppConfigStore(state => state.readingMode);
+  const setReadingMode = useAppConfigStore(state => state.setReadingMode);
   const setProvider = useAppConfigStore(state => state.setProvider);
   const updateProviderSettings = useAppConfigStore(
     state => state.updateProviderSettings
@@ -235,34 +886,53 @@ const OptionsApp: React.FC = () => {
     state => state.setAutoContinueEnabled
   );
   const setCacheEnabled = useAppConfigStore(state => state.setCacheEnabled);
+  const setCacheMatchMode = useAppConfigStore(state => state.setCacheMatchMode);
+  const setPerceptualHashThreshold = useAppConfigStore(
+    state => state.setPerceptualHashThreshold
+  );
   const setTranslationStylePreset = useAppConfigStore(
     state => state.setTranslationStylePreset
   );
   const setOverlayStyle = useAppConfigStore(state => state.setOverlayStyle);
   const setVerticalText = useAppConfigStore(state => state.setVerticalText);
+  const fallbackProviders = useAppConfigStore(state => state.fallbackProviders);
+  const setFallbackProviders = useAppConfigStore(
+    state => state.setFallbackProviders
+  );
 
   const [showApiKey, setShowApiKey] = useState<Record<ProviderType, boolean>>({
     'openai-compatible': false,
+    anthropic: false,
+    gemini: false,
     ollama: false,
     'lm-studio': false,
+    'sidecar-server': false,
   });
   const [testingProvider, setTestingProvider] = useState<ProviderType | null>(null);
   const [testResults, setTestResults] = useState<
     Record<ProviderType, TestResult | null>
   >({
     'openai-compatible': null,
+    anthropic: null,
+    gemini: null,
     ollama: null,
     'lm-studio': null,
+    'sidecar-server': null,
   });
   const [ollamaModels, setOllamaModels] = useState<string[]>([]);
   const [loadingOllamaModels, setLoadingOllamaModels] = useState(false);
+  const [sidecarCapabilities, setSidecarCapabilities] = useState<string[] | null>(null);
+  const [loadingSidecarCapabilities, setLoadingSidecarCapabilities] = useState(false);
   const [overlayStyleExpanded, setOverlayStyleExpanded] = useState(false);
   const [pendingProvider, setPendingProvider] = useState<ProviderType | null>(null);
   const [privacyBannerDismissed, setPrivacyBannerDismissed] = useState(false);
   const [providerHealth, setProviderHealth] = useState<Record<ProviderType, 'unknown' | 'healthy' | 'unhealthy'>>({
     'openai-compatible': 'unknown',
+    anthropic: 'unknown',
+    gemini: 'unknown',
     ollama: 'unknown',
     'lm-studio': 'unknown',
+    'sidecar-server': 'unknown',
   });
   const healthCheckTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
@@ -271,9 +941,28 @@ const OptionsApp: React.FC = () => {
     [provider]
   );
 
+  const availableFallbackProviders = useMemo(
+    () =>
+      PROVIDERS.filter(
+        item => item.type !== provider && !fallbackProviders.includes(item.type)
+      ),
+    [provider, fallbackProviders]
+  );
+
+  const moveFallbackProvider = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    const current = fallbackProviders[index];
+    const swapped = fallbackProviders[target];
+    if (!current || !swapped) return;
+    const next = [...fallbackProviders];
+    next[index] = swapped;
+    next[target] = current;
+    setFallbackProviders(next);
+  };
+
   // Health check polling every 30 seconds
   const performHealthCheck = useCallback(async () => {
-    for (const providerType of ['openai-compatible', 'ollama', 'lm-studio'] as ProviderType[]) {
+    for (const providerType of PROVIDERS.map(item => item.type)) {
       try {
         const settings = providers[providerType];
         const instance = await createProvider(providerType, settings);
@@ -369,6 +1058,28 @@ const OptionsApp: React.FC = () => {
     }
   }, [fetchOllamaModels, provider]);
 
+  const fetchSidecarCapabilities = useCallback(async () => {
+    const settings = providers['sidecar-server'];
+    if (!settings.baseUrl) return;
+    setLoadingSidecarCapabilities(true);
+    try {
+      const providerInstance = await createProvider('sidecar-server', settings);
+      if (providerInstance instanceof SidecarServerProvider) {
+        setSidecarCapabilities(await providerInstance.capabilities());
+      }
+    } catch {
+      setSidecarCapabilities(null);
+    } finally {
+      setLoadingSidecarCapabilities(false);
+    }
+  }, [providers]);
+
+  useEffect(() => {
+    if (provider === 'sidecar-server') {
+      void fetchSidecarCapabilities();
+    }
+  }, [fetchSidecarCapabilities, provider]);
+
   const testProvider = useCallback(
     async (providerType: ProviderType) => {
       setTestingProvider(providerType);
@@ -376,6 +1087,9 @@ const OptionsApp: React.FC = () => {
         const settings = providers[providerType];
         const instance = await createProvider(providerType, settings);
         const result = await instance.validateConfig();
+        if (instance instanceof SidecarServerProvider && result.valid) {
+          setSidecarCapabilities(await instance.capabilities());
+        }
         setTestResults(current => ({
           ...current,
           [providerType]: {
@@ -434,7 +1148,7 @@ const OptionsApp: React.FC = () => {
               ) : (
                 <Circle className='h-4 w-4 text-slate-500' />
               )}
-              {providerType === 'ollama' ? (
+              {providerType === 'ollama' || providerType === 'sidecar-server' ? (
                 <Server className='h-4 w-4 text-slate-300' />
               ) : (
                 <Sparkles className='h-4 w-4 text-cyan-300' />
@@ -479,9 +1193,11 @@ const OptionsApp: React.FC = () => {
         </div>
 
         <div className='mt-4 grid gap-3'>
-          {meta.requiresApiKey && (
+          {(meta.requiresApiKey || meta.apiKeyLabel) && (
             <label className='block'>
-              <div className='mb-1 text-xs text-slate-400'>API Key</div>
+              <div className='mb-1 text-xs text-slate-400'>
+                {meta.apiKeyLabel ?? 'API Key'}
+              </div>
               <div className='relative'>
                 <input
                   id={`api-key-input-${providerType}`}
@@ -525,18 +1241,20 @@ const OptionsApp: React.FC = () => {
             />
           </label>
 
-          <label className='block'>
-            <div className='mb-1 text-xs text-slate-400'>Model</div>
-            <input
-              type='text'
-              placeholder={meta.modelPlaceholder}
-              value={settings.model}
-              onChange={e =>
-                updateProviderSettings(providerType, { model: e.target.value })
-              }
-              className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
-            />
-          </label>
+          {!meta.hideModel && (
+            <label className='block'>
+              <div className='mb-1 text-xs text-slate-400'>Model</div>
+              <input
+                type='text'
+                placeholder={meta.modelPlaceholder}
+                value={settings.model}
+                onChange={e =>
+                  updateProviderSettings(providerType, { model: e.target.value })
+                }
+                className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
+              />
+            </label>
+          )}
 
           {providerType === 'openai-compatible' && (
             <div className='rounded-lg border border-white/5 bg-slate-950/40 p-3'>
@@ -596,6 +1314,41 @@ const OptionsApp: React.FC = () => {
             </div>
           )}
 
+          {providerType === 'sidecar-server' && (
+            <div className='rounded-lg border border-white/10 bg-slate-950/70 p-3 text-xs text-slate-400'>
+              <div className='flex items-center justify-between'>
+                <span>服务能力</span>
+                <button
+                  type='button'
+                  onClick={event => {
+                    event.stopPropagation();
+                    void fetchSidecarCapabilities();
+                  }}
+                  className='inline-flex items-center gap-1 text-slate-300 transition hover:text-white'
+                >
+                  <RefreshCw className='h-3 w-3' />
+                  刷新
+                </button>
+              </div>
+              <div className='mt-2 flex flex-wrap gap-1.5'>
+                {loadingSidecarCapabilities ? (
+                  '加载中...'
+                ) : sidecarCapabilities && sidecarCapabilities.length > 0 ? (
+                  sidecarCapabilities.map(capability => (
+                    <span
+                      key={capability}
+                      className='rounded border border-white/10 px-1.5 py-0.5 font-mono text-slate-300'
+                    >
+                      {capability}
+                    </span>
+                  ))
+                ) : (
+                  '未连接到服务'
+                )}
+              </div>
+            </div>
+          )}
+
           {result && (
             <div
               className={`rounded-lg border px-3 py-2 text-sm ${
@@ -643,11 +1396,11 @@ const OptionsApp: React.FC = () => {
           <div>
             <h1 className='text-2xl font-semibold'>Manga Translator Settings</h1>
             <p className='mt-2 text-sm text-slate-400'>
-              三条直连路径：OpenAI-compatible、Ollama 与 LM Studio。
+              直连路径：OpenAI-compatible、Anthropic、Gemini、Ollama 与 LM Studio；或接入自建的 Sidecar OCR 服务。
             </p>
           </div>
           <div className='flex items-center gap-1.5 rounded-full border border-cyan-500/30 bg-cyan-500/10 px-3 py-1.5'>
-            {provider === 'ollama' ? (
+            {provider === 'ollama' || provider === 'sidecar-server' ? (
               <Server className='h-4 w-4 text-slate-300' />
             ) : (
               <Sparkles className='h-4 w-4 text-cyan-300' />
@@ -673,7 +1426,7 @@ const OptionsApp: React.FC = () => {
                 </code>
                 ，不随 Google 账户跨设备同步，也不会上传给本扩展作者。
                 翻译时漫画图片会直接发送到你配置的 Vision LLM 服务
-                （OpenAI / Ollama / LM Studio）。
+                （OpenAI / Anthropic / Gemini / Ollama / LM Studio / Sidecar 服务）。
               </p>
             </div>
             <button
@@ -779,6 +1532,50 @@ const OptionsApp: React.FC = () => {
               />
             </label>
 
+            {cacheEnabled && (
+              <div className='space-y-3 rounded-lg border border-white/10 bg-slate-950/70 px-3 py-3'>
+                <label className='flex items-center justify-between'>
+                  <div>
+                    <div className='text-sm font-medium'>相似图片命中</div>
+                    <div className='text-xs text-slate-400'>
+                      按感知哈希匹配被重新压缩、缩放或转码的同一张图
+                    </div>
+                  </div>
+                  <input
+                    type='checkbox'
+                    checked={cacheMatchMode === 'perceptual'}
+                    onChange={e =>
+                      setCacheMatchMode(e.target.checked ? 'perceptual' : 'exact')
+                    }
+                    className='h-4 w-4'
+                  />
+                </label>
+
+                {cacheMatchMode === 'perceptual' && (
+                  <label className='block'>
+                    <div className='mb-3 text-xs text-slate-400'>
+                      汉明距离阈值（越大越宽松，过大可能误用其他页的译文）
+                    </div>
+                    <div className='flex items-center gap-4'>
+                      <Slider
+                        min={0}
+                        max={MAX_PERCEPTUAL_HASH_THRESHOLD}
+                        step={1}
+                        value={[perceptualHashThreshold]}
+                        onValueChange={([threshold]) =>
+                          setPerceptualHashThreshold(threshold ?? perceptualHashThreshold)
+                        }
+                        className='flex-1'
+                      />
+                      <span className='w-8 text-right text-xs text-slate-400'>
+                        {perceptualHashThreshold}
+                      </span>
+                    </div>
+                  </label>
+                )}
+              </div>
+            )}
+
             <label className='block'>
               <div className='mb-2 text-sm font-medium'>目标语言</div>
               <select
@@ -811,6 +1608,79 @@ const OptionsApp: React.FC = () => {
               </select>
             </label>
 
+            <div className='rounded-lg border border-white/10 bg-slate-950/70 px-3 py-3'>
+              <div className='text-sm font-medium'>Provider 回退链</div>
+              <div className='mb-3 text-xs text-slate-400'>
+                当前 Provider 网络异常或本地服务未启动时，按顺序尝试以下 Provider
+              </div>
+
+              {fallbackProviders.length > 0 && (
+                <ol className='mb-3 space-y-2'>
+                  {fallbackProviders.map((item, index) => (
+                    <li
+                      key={item}
+                      className='flex items-center gap-2 rounded-md border border-white/10 bg-slate-950 px-2 py-1.5 text-sm'
+                    >
+                      <span className='w-4 text-xs text-slate-500'>{index + 1}</span>
+                      <span className='flex-1'>
+                        {PROVIDERS.find(meta => meta.type === item)?.name ?? item}
+                      </span>
+                      <button
+                        type='button'
+                        aria-label='上移'
+                        disabled={index === 0}
+                        onClick={() => moveFallbackProvider(index, -1)}
+                        className='rounded p-1 text-slate-400 transition hover:bg-white/10 disabled:opacity-30'
+                      >
+                        <ChevronUp className='h-3.5 w-3.5' />
+                      </button>
+                      <button
+                        type='button'
+                        aria-label='下移'
+                        disabled={index === fallbackProviders.length - 1}
+                        onClick={() => moveFallbackProvider(index, 1)}
+                        className='rounded p-1 text-slate-400 transition hover:bg-white/10 disabled:opacity-30'
+                      >
+                        <ChevronDown className='h-3.5 w-3.5' />
+                      </button>
+                      <button
+                        type='button'
+                        aria-label='移除'
+                        onClick={() =>
+                          setFallbackProviders(
+                            fallbackProviders.filter(entry => entry !== item)
+                          )
+                        }
+                        className='rounded p-1 text-slate-400 transition hover:bg-white/10'
+                      >
+                        <X className='h-3.5 w-3.5' />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              {availableFallbackProviders.length > 0 && (
+                <select
+                  value=''
+                  onChange={e => {
+                    const next = e.target.value as ProviderType;
+                    if (next) {
+                      setFallbackProviders([...fallbackProviders, next]);
+                    }
+                  }}
+                  className='w-full rounded-lg border border-white/10 bg-slate-950 px-3 py-2 text-sm outline-none'
+                >
+                  <option value=''>添加回退 Provider…</option>
+                  {availableFallbackProviders.map(item => (
+                    <option key={item.type} value={item.type}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
             {/* 覆盖层样式折叠面板 */}
             <div className='rounded-lg border border-white/10 bg-slate-950/70 overflow-hidden'>
               <button
@@ -834,15 +1704,77 @@ const OptionsApp: React.FC = () => {
               <div
                 className={`transition-all duration-200 ease-out ${
                   overlayStyleExpanded
-                    ? 'max-h-[500px] opacity-100'
+                    ? 'max-h-[800px] opacity-100'
                     : 'max-h-0 opacity-0'
                 }`}
               >
                 <div className='space-y-3 border-t border-white/10 px-3 py-3'>
                   <label className='flex items-center justify-between rounded-lg border border-white/10 bg-slate-950/70 px-3 py-3'>
                     <div>
-                      <div className='text-sm font-medium'>竖排文字</div>
-                      <div className='text-xs text-slate-400'>日文漫画竖向排版时启用</div>
+                      <div className='text-sm font-medium'>嵌字模式</div>
+                      <div className='text-xs text-slate-400'>
+                        擦除原文并把译文排进气泡，背景色设置不生效；无法读取像素的页面仍显示覆盖层
+                      </div>
+                    </div>
+                    <input
+                      type='checkbox'
+                      checked={renderMode === 'typeset'}
+                      onChange={e =>
+                        setRenderMode(e.target.checked ? 'typeset' : 'strong-overlay-compat')
+                      }
+                      className='h-4 w-4'
+                    />
+                  </label>
+
+                  <label className='flex items-center justify-between rounded-lg border border-white/10 bg-slate-950/70 px-3 py-3'>
+                    <div>
+                      <div className='text-sm font-medium'>译文对照面板</div>
+                      <div className='text-xs text-slate-400'>
+                        在页面右侧按阅读顺序列出原文与译文，点击条目跳转并高亮对应气泡
+                      </div>
+                    </div>
+                    <input
+                      type='checkbox'
+                      checked={readingMode === 'panel'}
+                      onChange={e => setReadingMode(e.target.checked ? 'panel' : 'overlay')}
+                      className='h-4 w-4'
+                    />
+                  </label>
+
+                  <label className='flex items-center justify-between rounded-lg border border-white/10 bg-slate-950/70 px-3 py-3'>
+                    <div>
+                      <div className='text-sm font-medium'>匹配原文样式</div>
+                      <div className='text-xs text-slate-400'>
+                        按原文沿用反白、粗体与拟声词字体；单张图片可用覆盖层上的 Aa 按钮切换
+                      </div>
+                    </div>
+                    <input
+                      type='checkbox'
+                      checked={fontStyleMatching}
+                      onChange={e => setFontStyleMatching(e.target.checked)}
+                      className='h-4 w-4'
+                    />
+                  </label>
+
+                  <label className='flex items-center justify-between rounded-lg border border-white/10 bg-slate-950/70 px-3 py-3'>
+                    <div>
+                      <div className='text-sm font-medium'>自动竖排</div>
+                      <div className='text-xs text-slate-400'>
+                        目标语言为日文或繁体中文时，竖长的气泡按竖排（纵中横）排版
+                      </div>
+                    </div>
+                    <input
+                      type='checkbox'
+                      checked={autoVerticalText}
+                      onChange={e => setAutoVerticalText(e.target.checked)}
+                      className='h-4 w-4'
+                    />
+                  </label>
+
+                  <label className='flex items-center justify-between rounded-lg border border-white/10 bg-slate-950/70 px-3 py-3'>
+                    <div>
+                      <div className='text-sm font-medium'>始终竖排</div>
+                      <div className='text-xs text-slate-400'>不论气泡形状与目标语言，所有译文竖排</div>
                     </div>
                     <input
                       type='checkbox'
@@ -915,6 +1847,10 @@ const OptionsApp: React.FC = () => {
           </div>
         </div>
 
+        <SiteAdapterCard />
+        <NextChapterPrefetchCard />
+        <KeyboardShortcutsCard />
+        <TranslationPackCard />
         <ErrorStatsCard />
       </div>
     </div>
@@ -12,6 +12,10 @@ import {
 
 import { useAppConfigStore } from '@/stores/config-v2';
 import type { ProviderType } from '@/providers/base';
+import type {
+  TabFramesDispatchRequest,
+  TabFramesDispatchResponse,
+} from '@/shared/runtime-contracts';
 import { getPageAvailability, type PageAvailability } from './popup-state';
 
 type ContentState =
@@ -38,8 +42,11 @@ const TARGET_LANGUAGES = [
 
 const PROVIDER_OPTIONS: Array<{ value: ProviderType; label: string }> = [
   { value: 'openai-compatible', label: '商用 LLM' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'gemini', label: 'Gemini' },
   { value: 'ollama', label: 'Ollama' },
   { value: 'lm-studio', label: 'LM Studio' },
+  { value: 'sidecar-server', label: 'Sidecar' },
 ];
 
 async function getActiveTab(): Promise<chrome.tabs.Tab | null> {
@@ -47,6 +54,10 @@ async function getActiveTab(): Promise<chrome.tabs.Tab | null> {
   return tab ?? null;
 }
 
+/**
+ * 经 background 发给当前标签页的每个 frame（阅读器可能在 iframe 里），
+ * 返回各 frame 聚合后的状态。没有 frame 应答时视为 content script 不可达。
+ */
 async function sendToContent(
   msg: PopupToContentMsg
 ): Promise<{ state?: ContentState } | null> {
@@ -54,7 +65,15 @@ async function sendToContent(
   if (!tab?.id) {
     throw new Error('未找到当前标签页');
   }
-  return chrome.tabs.sendMessage(tab.id, msg);
+  const response = (await chrome.runtime.sendMessage({
+    type: 'TAB_FRAMES_DISPATCH',
+    tabId: tab.id,
+    message: msg,
+  } satisfies TabFramesDispatchRequest)) as TabFramesDispatchResponse | undefined;
+  if (!response || response.frameIds.length === 0) {
+    throw new Error(response?.error || 'Content script 未注入');
+  }
+  return { state: response.state as ContentState | undefined };
 }
 
 const PopupApp: React.FC = () => {
@@ -82,11 +101,19 @@ const PopupApp: React.FC = () => {
       ? 'Ollama'
       : provider === 'lm-studio'
       ? 'LM Studio'
+      : provider === 'sidecar-server'
+      ? 'Sidecar Server'
+      : provider === 'anthropic'
+      ? 'Anthropic'
+      : provider === 'gemini'
+      ? 'Gemini'
       : 'OpenAI-compatible';
   const providerSettings = providers[provider];
   const isConfigured = isProviderConfigured(provider);
   const pathLabel =
-    provider === 'ollama' || provider === 'lm-studio'
+    provider === 'sidecar-server'
+      ? `本地服务 / ${providerSettings.baseUrl || '未配置地址'}`
+      : provider === 'ollama' || provider === 'lm-studio'
       ? `本地直连 / ${providerSettings.baseUrl || '未配置地址'}`
       : `API 直连 / ${providerSettings.baseUrl || '未配置端点'}`;
 
@@ -161,7 +188,10 @@ const PopupApp: React.FC = () => {
   }, [refreshPageStatus]);
 
   useEffect(() => {
-    const handleMessage = (msg: { type: string; state?: ContentState }) => {
+    const handleMessage = (
+      msg: { type: string; state?: ContentState },
+      sender: chrome.runtime.MessageSender
+    ) => {
       if (msg.type === 'HUD_CANCELLED') {
         setContentState({ status: 'idle' });
         return;
@@ -172,7 +202,8 @@ const PopupApp: React.FC = () => {
         setProvider(currentProvider);
         return;
       }
-      if (msg.type !== 'STATE_UPDATE' || !msg.state) return;
+      // 只采用 background 聚合后的状态；各 frame 直接广播的原始状态忽略
+      if (msg.type !== 'STATE_UPDATE' || !msg.state || sender.tab) return;
       setContentState(msg.state);
       if (msg.state.status === 'complete') {
         if (completeTimerRef.current) clearTimeout(completeTimerRef.current);
@@ -195,6 +226,7 @@ const PopupApp: React.FC = () => {
 
   const handleReset = useCallback(async () => {
     await sendToContent({ type: 'CLEAR_ALL' });
+    await chrome.runtime.sendMessage({ type: 'CACHE_CLEAR' }).catch(() => undefined);
     setContentState({ status: 'idle' });
   }, []);
 
@@ -239,7 +271,7 @@ const PopupApp: React.FC = () => {
           </div>
           <div className='flex items-center gap-3'>
             <div className='flex items-center gap-1.5 rounded-full border border-cyan-500/30 bg-cyan-500/10 px-2.5 py-1'>
-              {provider === 'ollama' ? (
+              {provider === 'ollama' || provider === 'sidecar-server' ? (
                 <Server className='h-3.5 w-3.5 text-slate-300' />
               ) : (
                 <Sparkles className='h-3.5 w-3.5 text-cyan-300' />
@@ -280,7 +312,7 @@ const PopupApp: React.FC = () => {
               {providerLabel}
             </span>
           </div>
-          <div className='mt-3 grid grid-cols-3 gap-2'>
+          <div className='mt-3 grid grid-cols-2 gap-2'>
             {PROVIDER_OPTIONS.map(option => {
               const active = provider === option.value;
               return (
@@ -1,5 +1,6 @@
 import { describe, expect, it, vi } from 'vitest';
 import {
+  containsPageElement,
   createDebouncedAutoTranslate,
   shouldAutoTranslateFollowUp,
 } from './auto-translate-observer';
@@ -69,4 +70,24 @@ describe('auto translate observer helpers', () => {
     expect(callback).not.toHaveBeenCalled();
     vi.useRealTimers();
   });
+
+  it('detects background-image pages nested in an added wrapper', () => {
+    const wrapper = document.createElement('div');
+    wrapper.innerHTML = `
+      <section class="chapter">
+        <div id="bg-page" style="background-image: url('https://example.org/pages/2.jpg')"></div>
+      </section>
+    `;
+    document.body.appendChild(wrapper);
+    const page = wrapper.querySelector('#bg-page');
+    Object.defineProperty(page, 'offsetWidth', { value: 800 });
+    Object.defineProperty(page, 'offsetHeight', { value: 1200 });
+
+    expect(containsPageElement(wrapper)).toBe(true);
+
+    const toolbar = document.createElement('div');
+    toolbar.innerHTML = '<nav><span>第 2 话</span></nav>';
+    expect(containsPageElement(toolbar)).toBe(false);
+    wrapper.remove();
+  });
 });
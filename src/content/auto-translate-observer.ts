@@ -1,3 +1,5 @@
+import { findBackgroundPages, isTranslatablePageElement } from './image-filter';
+
 export type AutoTranslateStatus =
   | 'idle'
   | 'scanning'
@@ -46,3 +48,15 @@ export function createDebouncedAutoTranslate(
     },
   };
 }
+
+/**
+ * Whether a node added to the page is, or contains, a page the scan could
+ * translate. `<img>` / `<canvas>` descendants count even before they load;
+ * readers often insert a wrapper holding background-image page elements.
+ */
+export function containsPageElement(node: HTMLElement): boolean {
+  if (isTranslatablePageElement(node) || node.querySelector('img, canvas')) {
+    return true;
+  }
+  return findBackgroundPages(node).length > 0;
+}
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { NextChapterPrefetchConfig } from '@/shared/app-config';
+import type { TranslatorService } from '@/services/translator';
+
+import { findNextChapterUrl, prefetchNextChapter } from './chapter-prefetch';
+import { createCustomSiteAdapter } from './custom-site-adapter';
+import { matchSiteAdapter } from './site-adapters';
+
+vi.mock('@/services/image-processor', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/services/image-processor')>()),
+  // jsdom 不解码图片，直接返回已“加载”的图片
+  loadImage: vi.fn(async (url: string) => {
+    const image = document.createElement('img');
+    image.src = url;
+    return image;
+  }),
+}));
+
+const NEXT_URL = 'https://comics.example.org/read/solo-climber/chapter-8';
+
+const NEXT_CHAPTER_HTML = `
+  <html><body>
+    <div class='reader'>
+      <img data-src='/pages/8/001.webp' />
+      <img data-src='/pages/8/002.webp' />
+      <img data-src='/pages/8/003.webp' />
+    </div>
+  </body></html>
+`;
+
+const MANHWAREAD_NEXT_URL = 'https://manhwaread.com/manhwa/outro/chapter-2/';
+
+// 预取的页面不执行脚本，chapterData 只能从内联脚本中解析
+const MANHWAREAD_CHAPTER_HTML = `
+  <html><head>
+    <script>
+      var chapterData = {"data":"W3sic3JjIjoiNTMwODcvbXJfMDAxLmpwZyIsInciOjEwODAsImgiOjUwMDB9LHsic3JjIjoiNTMwODcvbXJfMDAyLmpwZyIsInciOjEwODAsImgiOjUwMDB9XQ==","base":"https:\\/\\/manread.xyz\\/1268"};
+    </script>
+  </head><body><div id='reader'><div id='imagesList'></div></div></body></html>
+`;
+
+function getAdapter() {
+  const adapter = createCustomSiteAdapter({
+    id: 'example',
+    name: 'Example Comics',
+    enabled: true,
+    urlPattern: '^https://comics\\.example\\.org/read/[^/]+/chapter-\\d+',
+    chapterIdPattern: '/read/([^/]+/chapter-\\d+)',
+    pageImageSelector: '.reader img',
+    lazySrcAttributes: ['data-src'],
+    excludeSelectors: [],
+    nextChapterSelector: 'a.next',
+  });
+  if (!adapter) {
+    throw new Error('expected adapter');
+  }
+  return adapter;
+}
+
+function createTranslator(results: Array<{ cached?: boolean; totalTokens?: number }>) {
+  const translateDetachedImage = vi.fn(async (_image: HTMLImageElement, _options: object) => {
+    const next = results.shift() ?? {};
+    return { success: true, textAreas: [], cached: false, totalTokens: 0, ...next };
+  });
+  return {
+    translator: { translateDetachedImage } as unknown as TranslatorService,
+    translateDetachedImage,
+  };
+}
+
+function createConfig(patch: Partial<NextChapterPrefetchConfig> = {}): NextChapterPrefetchConfig {
+  return { enabled: true, pageBudget: 10, tokenBudget: 0, linkSelector: 'a[rel="next"]', ...patch };
+}
+
+describe('chapter-prefetch', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `<a class='next' href='${NEXT_URL}'>Next</a>`;
+    vi.mocked(fetch).mockResolvedValue(new Response(NEXT_CHAPTER_HTML, { status: 200 }));
+    vi.mocked(chrome.runtime.sendMessage).mockResolvedValue({
+      success: true,
+      imageBase64: 'cGFnZQ==',
+      mimeType: 'image/webp',
+    });
+  });
+
+  it('only accepts next links the adapter recognises as chapters', () => {
+    const adapter = getAdapter();
+    expect(findNextChapterUrl(adapter, '')).toBe(NEXT_URL);
+
+    document.body.innerHTML = `
+      <a class='next' href='https://comics.example.org/series/solo-climber'>Series</a>
+      <a rel='next' href='${NEXT_URL}'>Next</a>
+    `;
+    expect(findNextChapterUrl(adapter, '')).toBeNull();
+    expect(findNextChapterUrl(adapter, 'a[rel="next"]')).toBe(NEXT_URL);
+  });
+
+  it('queues warm-cache jobs for the next chapter within the page budget', async () => {
+    const { translator, translateDetachedImage } = createTranslator([{ cached: true }]);
+
+    const result = await prefetchNextChapter({
+      translator,
+      adapter: getAdapter(),
+      config: createConfig({ pageBudget: 1 }),
+    });
+
+    expect(fetch).toHaveBeenCalledWith(NEXT_URL, expect.objectContaining({ credentials: 'include' }));
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+      type: 'FETCH_IMAGE_BYTES',
+      imageUrl: 'https://comics.example.org/pages/8/001.webp',
+    });
+    expect(translateDetachedImage).toHaveBeenCalledTimes(2);
+    expect(translateDetachedImage.mock.calls[1]?.[1]).toMatchObject({
+      imageKey: 'solo-climber/chapter-8::1',
+      chapterId: 'solo-climber/chapter-8',
+      pageUrl: NEXT_URL,
+      priorityClass: 'warm-cache',
+    });
+    expect(result).toMatchObject({ cached: 1, translated: 1, stoppedBy: 'page-budget' });
+  });
+
+  it('parses the next chapter of a built-in adapter from its inline script', async () => {
+    const adapter = matchSiteAdapter('https://manhwaread.com/manhwa/outro/chapter-1/');
+    if (!adapter) {
+      throw new Error('expected adapter');
+    }
+    document.body.innerHTML = `<a rel='next' href='${MANHWAREAD_NEXT_URL}'>Next</a>`;
+    vi.mocked(fetch).mockResolvedValue(new Response(MANHWAREAD_CHAPTER_HTML, { status: 200 }));
+    const { translator, translateDetachedImage } = createTranslator([]);
+
+    const result = await prefetchNextChapter({ translator, adapter, config: createConfig() });
+
+    expect(fetch).toHaveBeenCalledWith(
+      MANHWAREAD_NEXT_URL,
+      expect.objectContaining({ credentials: 'include' })
+    );
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+      type: 'FETCH_IMAGE_BYTES',
+      imageUrl: 'https://manread.xyz/1268/53087/mr_002.jpg',
+    });
+    expect(translateDetachedImage.mock.calls[0]?.[1]).toMatchObject({
+      imageKey: '/manhwa/outro/chapter-2::0',
+      chapterId: '/manhwa/outro/chapter-2',
+    });
+    expect(result).toMatchObject({ nextUrl: MANHWAREAD_NEXT_URL, translated: 2 });
+  });
+
+  it('stops once the token budget is spent', async () => {
+    const { translator, translateDetachedImage } = createTranslator([
+      { totalTokens: 700 },
+      { totalTokens: 600 },
+    ]);
+
+    const result = await prefetchNextChapter({
+      translator,
+      adapter: getAdapter(),
+      config: createConfig({ tokenBudget: 1000 }),
+    });
+
+    expect(translateDetachedImage).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ translated: 2, tokensUsed: 1300, stoppedBy: 'token-budget' });
+  });
+});
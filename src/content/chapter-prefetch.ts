@@ -0,0 +1,208 @@
+import type { NextChapterPrefetchConfig } from '@/shared/app-config';
+import type { FetchImageBytesResponse } from '@/shared/runtime-contracts';
+import { base64ToDataUrl, loadImage } from '@/services/image-processor';
+import type { TranslatorService } from '@/services/translator';
+import { throwIfAborted } from '@/utils/abort';
+import type { ChapterBootstrap, SiteAdapter } from './site-adapters';
+
+/**
+ * 下一章预翻译
+ *
+ * 阅读第 N 章时解析第 N+1 章的页面列表（站点适配器的链接或 API，或设置中的
+ * 下一章链接选择器），经 background 取图，以 `warm-cache` 优先级逐页提交翻译任务。
+ * 结果写入共享缓存，打开下一章时直接命中。按顺序逐页提交，预算在每页
+ * 之后检查，不会超出太多。
+ */
+
+export interface ChapterPrefetchOptions {
+  translator: TranslatorService;
+  adapter: SiteAdapter;
+  config: NextChapterPrefetchConfig;
+  root?: ParentNode;
+  /** Next chapter already resolved by the caller */
+  nextUrl?: string;
+  signal?: AbortSignal;
+}
+
+export interface ChapterPrefetchResult {
+  nextUrl: string | null;
+  chapterId: string | null;
+  translated: number;
+  cached: number;
+  failed: number;
+  tokensUsed: number;
+  /** Why prefetching stopped before the last page */
+  stoppedBy?: 'page-budget' | 'token-budget';
+}
+
+function resolveUrl(value: string, baseUri: string): string | null {
+  try {
+    return new URL(value, baseUri).href;
+  } catch {
+    return null;
+  }
+}
+
+function queryLinkUrl(root: ParentNode, selector: string): string | null {
+  try {
+    const link = root.querySelector(selector);
+    const href = link?.getAttribute('href')?.trim();
+    return link && href ? resolveUrl(href, link.baseURI) : null;
+  } catch {
+    // 选择器无效
+    return null;
+  }
+}
+
+/**
+ * 下一章地址：优先使用适配器，其次用设置中的链接选择器。
+ * 只接受同一适配器能识别的章节地址，避免把「下一页」「作品目录」当作下一章。
+ */
+export function findNextChapterUrl(
+  adapter: SiteAdapter,
+  linkSelector: string,
+  root: ParentNode = document
+): string | null {
+  const selector = linkSelector.trim();
+  const candidates = [
+    adapter.getNextChapterUrl?.(root) ?? null,
+    selector ? queryLinkUrl(root, selector) : null,
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate || candidate === window.location.href) continue;
+    try {
+      if (adapter.matchesChapter(new URL(candidate))) {
+        return candidate;
+      }
+    } catch {
+      // 无效地址
+    }
+  }
+  return null;
+}
+
+/**
+ * 页面上没有下一章链接时，向适配器的站点 API 查询（如 MangaDex 单页应用）。
+ */
+export async function resolveNextChapterUrl(
+  adapter: SiteAdapter,
+  linkSelector: string,
+  root: ParentNode = document,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const linked = findNextChapterUrl(adapter, linkSelector, root);
+  if (linked || !adapter.loadNextChapterUrl) {
+    return linked;
+  }
+
+  const candidate = await adapter.loadNextChapterUrl(new URL(window.location.href), signal);
+  return candidate && adapter.matchesChapter(new URL(candidate)) ? candidate : null;
+}
+
+/**
+ * 解析下一章的页面列表：有 API 的适配器直接查询，其余取回 HTML 交给
+ * 适配器解析。两者都不支持的适配器返回 null。
+ */
+export async function loadChapterAt(
+  adapter: SiteAdapter,
+  url: string,
+  signal?: AbortSignal
+): Promise<ChapterBootstrap | null> {
+  if (adapter.loadChapterAt) {
+    return adapter.loadChapterAt(new URL(url), signal);
+  }
+  if (!adapter.parseChapterDocument) {
+    return null;
+  }
+
+  const response = await fetch(url, { credentials: 'include', signal });
+  if (!response.ok) {
+    throw new Error(`无法获取下一章页面 (${response.status})`);
+  }
+
+  const doc = new DOMParser().parseFromString(await response.text(), 'text/html');
+  // 相对地址按下一章页面解析，而不是当前页面
+  const base = doc.createElement('base');
+  base.href = url;
+  doc.head.prepend(base);
+
+  return adapter.parseChapterDocument(doc, new URL(url));
+}
+
+async function fetchPageImage(imageUrl: string): Promise<HTMLImageElement> {
+  const response = (await chrome.runtime.sendMessage({
+    type: 'FETCH_IMAGE_BYTES',
+    imageUrl,
+  })) as FetchImageBytesResponse | undefined;
+
+  if (!response?.success || !response.imageBase64) {
+    throw new Error(`Failed to fetch image via background: ${response?.error || 'Unknown error'}`);
+  }
+  return loadImage(base64ToDataUrl(response.imageBase64, response.mimeType));
+}
+
+export async function prefetchNextChapter(
+  options: ChapterPrefetchOptions
+): Promise<ChapterPrefetchResult> {
+  const { translator, adapter, config, signal } = options;
+  const result: ChapterPrefetchResult = {
+    nextUrl:
+      options.nextUrl ??
+      (await resolveNextChapterUrl(adapter, config.linkSelector, options.root, signal)),
+    chapterId: null,
+    translated: 0,
+    cached: 0,
+    failed: 0,
+    tokensUsed: 0,
+  };
+  if (!result.nextUrl) {
+    return result;
+  }
+
+  const bootstrap = await loadChapterAt(adapter, result.nextUrl, signal);
+  if (!bootstrap) {
+    return result;
+  }
+  result.chapterId = bootstrap.chapterId;
+
+  for (const page of bootstrap.pages) {
+    // 失败的页面同样可能已产生调用，计入页数预算
+    if (result.translated + result.failed >= config.pageBudget) {
+      result.stoppedBy = 'page-budget';
+      break;
+    }
+    if (config.tokenBudget > 0 && result.tokensUsed >= config.tokenBudget) {
+      result.stoppedBy = 'token-budget';
+      break;
+    }
+    throwIfAborted(signal);
+
+    try {
+      const image = await fetchPageImage(page.src);
+      const translation = await translator.translateDetachedImage(image, {
+        imageKey: `${bootstrap.chapterId}::${page.index}`,
+        imageUrl: page.src,
+        chapterId: bootstrap.chapterId,
+        pageUrl: result.nextUrl,
+        priorityClass: 'warm-cache',
+        signal,
+      });
+      if (!translation.success) {
+        throw new Error(translation.error || 'Translation failed');
+      }
+      if (translation.cached) {
+        result.cached++;
+      } else {
+        result.translated++;
+        result.tokensUsed += translation.totalTokens ?? 0;
+      }
+    } catch (error) {
+      throwIfAborted(signal);
+      result.failed++;
+      console.warn('[ChapterPrefetch] 预翻译失败:', page.src, error);
+    }
+  }
+
+  return result;
+}
@@ -1,3 +1,9 @@
+import {
+  normalizeCustomSiteAdapters,
+  type CustomSiteAdapterDefinition,
+  type ReadingMode,
+  type RenderMode,
+} from '@/shared/app-config';
 import type { OverlayStyleConfig } from '@/stores/config-v2';
 
 type PersistedConfigRecord = Record<string, unknown>;
@@ -55,3 +61,44 @@ export function getOverlayStyleFromConfig(
     verticalText: overlayStyle['verticalText'],
   };
 }
+
+export function getCustomSiteAdaptersFromConfig(
+  config: unknown
+): CustomSiteAdapterDefinition[] {
+  const state = extractPersistedConfigState(config);
+  return normalizeCustomSiteAdapters(state['customSiteAdapters']);
+}
+
+const RENDER_MODES: readonly RenderMode[] = ['strong-overlay-compat', 'anchors-only', 'typeset'];
+
+export function getRenderModeFromConfig(config: unknown): RenderMode | null {
+  const renderMode = extractPersistedConfigState(config)['renderMode'];
+  return RENDER_MODES.find(mode => mode === renderMode) ?? null;
+}
+
+/**
+ * Configs persisted before v4 only knew 'panel', which rendered overlays;
+ * they read as 'overlay' until the store migrates them.
+ */
+export function getReadingModeFromConfig(config: unknown): ReadingMode | null {
+  const readingMode = extractPersistedConfigState(config)['readingMode'];
+  if (isRecord(config) && typeof config['version'] === 'number' && config['version'] < 4) {
+    return 'overlay';
+  }
+  return readingMode === 'overlay' || readingMode === 'panel' ? readingMode : null;
+}
+
+export function getFontStyleMatchingFromConfig(config: unknown): boolean | null {
+  const fontStyleMatching = extractPersistedConfigState(config)['fontStyleMatching'];
+  return typeof fontStyleMatching === 'boolean' ? fontStyleMatching : null;
+}
+
+export function getAutoVerticalTextFromConfig(config: unknown): boolean | null {
+  const autoVerticalText = extractPersistedConfigState(config)['autoVerticalText'];
+  return typeof autoVerticalText === 'boolean' ? autoVerticalText : null;
+}
+
+export function getTargetLanguageFromConfig(config: unknown): string | null {
+  const targetLanguage = extractPersistedConfigState(config)['targetLanguage'];
+  return typeof targetLanguage === 'string' ? targetLanguage : null;
+}
@@ -4,7 +4,9 @@ import { clampPageTranslationConcurrency } from './page-translation-utils';
 import {
   extractPersistedConfigState,
   getEnabledFromConfig,
+  getFontStyleMatchingFromConfig,
   getOverlayStyleFromConfig,
+  getRenderModeFromConfig,
 } from './config-snapshot';
 import { handleMessage } from './content';
 
@@ -72,6 +74,17 @@ describe('content page translation settings', () => {
     );
     expect(getOverlayStyleFromConfig(flat)).toEqual(flat.overlayStyle);
   });
+
+  it('reads only known render modes from persisted config', () => {
+    expect(getRenderModeFromConfig({ state: { renderMode: 'typeset' } })).toBe('typeset');
+    expect(getRenderModeFromConfig({ renderMode: 'anchors-only' })).toBe('anchors-only');
+    expect(getRenderModeFromConfig({ state: { renderMode: 'sticky-notes' } })).toBeNull();
+  });
+
+  it('reads the font style matching toggle from persisted config', () => {
+    expect(getFontStyleMatchingFromConfig({ state: { fontStyleMatching: true } })).toBe(true);
+    expect(getFontStyleMatchingFromConfig({ state: {} })).toBeNull();
+  });
 });
 
 // ================================================================
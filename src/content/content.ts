@@ -4,13 +4,16 @@
  * 重构后的 content script，采用清晰的状态机架构：
  * - ContentState 类型驱动所有 UI 和行为
  * - 支持整页翻译、强制重翻、取消、清除
- * - 通过 FloatingHud 展示页面内状态
+ * - 通过 FloatingHud 展示页面内状态（仅顶层 frame）
+ * - 对照阅读模式下通过 TranscriptPanel 按阅读顺序列出原文与译文
  * - 通过消息协议与 Background/Popup 同步状态
+ * - 在每个 frame 中运行；popup 的命令由 background 按 frameId 分发
  *
  * 消息协议：
  *   PopupToContent: TRANSLATE_PAGE | FORCE_RETRANSLATE_PAGE
- *                   | CANCEL_TRANSLATION | CLEAR_ALL
- *   ContentToPopup: STATE_UPDATE | READY
+ *                   | CANCEL_TRANSLATION | CLEAR_ALL | RETRY_FAILED
+ *                   | TOGGLE_OVERLAYS | TAB_STATE_UPDATE
+ *   ContentToPopup: STATE_UPDATE | READY | HUD_CANCELLED | HUD_RETRY_FAILED
  */
 
 import {
@@ -22,31 +25,84 @@ import {
   getRenderer,
   removeAllOverlaysFromDOM,
 } from '@/services/renderer';
+import { isAbortError } from '@/utils/abort';
 import { parseTranslationError } from '@/utils/error-handler';
+import { getErrorMessage } from '@/utils/error-message';
 import { incrementErrorStats } from '@/utils/error-stats';
 import {
   isOnboardingDismissed,
   setOnboardingDismissed,
   requestConfigureFocus,
 } from '@/utils/onboarding';
-import { isProviderSettingsComplete } from '@/shared/app-config';
 import {
-  getViewportFirstImages,
+  isProviderSettingsComplete,
+  type CustomSiteAdapterDefinition,
+  type ReadingMode,
+} from '@/shared/app-config';
+import {
   processInParallel,
   type ParallelProcessingOptions,
 } from '@/utils/image-priority';
+import type {
+  ContentState,
+  ContextMenuActionMessage,
+  JobPriorityClass,
+  ReprioritizeJobsRequest,
+  SaveTranslationCorrectionRequest,
+  SaveTranslationCorrectionResponse,
+  TabStateUpdateMessage,
+  TranslationCacheKeyPayload,
+} from '@/shared/runtime-contracts';
+import type { TextArea } from '@/providers/base';
 import { useAppConfigStore } from '@/stores/config-v2';
-import { isTranslatableImage } from './image-filter';
+import { isTallMangaPage } from '@/services/image-processor';
+import {
+  getPageElementKey,
+  getPageElementSize,
+  getPageElementSourceUrl,
+} from './page-elements';
+import { matchSiteAdapter, type SiteAdapter } from './site-adapters';
+import {
+  collectPageTargets,
+  listPageTargets,
+  type PageTarget,
+} from './page-targets';
+import { translateStrip } from './strip-translation';
+import {
+  NEXT_UP_PAGE_COUNT,
+  ViewportJobScheduler,
+  watchViewportChanges,
+  type PageJobPriorityUpdate,
+} from './viewport-priority';
+import { prefetchNextChapter, resolveNextChapterUrl } from './chapter-prefetch';
 import { FloatingHud } from './floating-hud';
+import {
+  TRANSCRIPT_SELECT_EVENT,
+  TranscriptPanel,
+  type TranscriptSelectDetail,
+} from './transcript-panel';
 import { clampPageTranslationConcurrency } from './page-translation-utils';
 import {
+  containsPageElement,
   createDebouncedAutoTranslate,
   shouldAutoTranslateFollowUp,
 } from './auto-translate-observer';
 import {
+  getCustomSiteAdaptersFromConfig,
+  getAutoVerticalTextFromConfig,
   getEnabledFromConfig,
+  getFontStyleMatchingFromConfig,
   getOverlayStyleFromConfig,
+  getReadingModeFromConfig,
+  getRenderModeFromConfig,
+  getTargetLanguageFromConfig,
 } from './config-snapshot';
+import { ContextMenuTargetTracker } from './context-menu-target';
+import {
+  syncCustomSiteAdapters,
+  testSiteAdapterDefinition,
+  type SiteAdapterTestReport,
+} from './custom-site-adapter';
 
 // ==================== 消息类型定义 ====================
 
@@ -55,22 +111,23 @@ export type PopupToContentMsg =
   | { type: 'TRANSLATE_PAGE' }
   | { type: 'FORCE_RETRANSLATE_PAGE' }
   | { type: 'CANCEL_TRANSLATION' }
-  | { type: 'CLEAR_ALL' };
+  | { type: 'CLEAR_ALL' }
+  | { type: 'RETRY_FAILED' }
+  | { type: 'TOGGLE_OVERLAYS' }
+  | { type: 'JOB_INTERRUPTED'; jobIds: string[] }
+  | TabStateUpdateMessage
+  | ContextMenuActionMessage
+  | { type: 'TEST_SITE_ADAPTER'; definition: CustomSiteAdapterDefinition };
 
 export type ContentToPopupMsg =
   | { type: 'STATE_UPDATE'; state: ContentState }
-  | { type: 'READY' }
-  | { type: 'HUD_CANCELLED' };
+  | { type: 'READY'; hasPages: boolean }
+  | { type: 'HUD_CANCELLED' }
+  | { type: 'HUD_RETRY_FAILED' };
 
 // ==================== 状态类型定义 ====================
 
-export type ContentState =
-  | { status: 'idle' }
-  | { status: 'scanning' }
-  | { status: 'translating'; current: number; total: number; currentImageIndex?: number }
-  | { status: 'complete'; count: number; failedCount?: number; cachedCount?: number }
-  | { status: 'error'; message: string; suggestion?: string }
-  | { status: 'onboarding' };
+export type { ContentState };
 
 // ==================== 常量 ====================
 
@@ -81,9 +138,15 @@ const CONFIG_STORAGE_KEY = 'manga-translator-config-v2';
 
 let currentState: ContentState = { status: 'idle' };
 let abortController: AbortController | null = null;
+let prefetchController: AbortController | null = null;
 let translator: TranslatorService | null = null;
 let renderer: OverlayRenderer | null = null;
 let hud: FloatingHud | null = null;
+/** 对照阅读模式下的侧边面板，本 frame 有已渲染的页面时才创建 */
+let transcriptPanel: TranscriptPanel | null = null;
+let readingMode: ReadingMode = 'overlay';
+/** 收到过 background 聚合的标签页状态后，HUD 只展示聚合状态 */
+let hudFollowsTabState = false;
 let autoTranslateObserver: MutationObserver | null = null;
 let isAutoTranslateEnabled = false;
 let isTranslating = false;
@@ -91,6 +154,14 @@ let failedCount = 0;
 let cachedCount = 0;
 const processedImages: Set<string> = new Set();
 const failedImageKeys: Set<string> = new Set();
+/** 本页已预翻译过的下一章地址，避免自动续翻时重复提交 */
+const prefetchedChapterUrls: Set<string> = new Set();
+const contextMenuTargets = new ContextMenuTargetTracker();
+/** 每张已渲染页面对应的后台缓存记录，就地修改的译文写回这里 */
+const correctionTargets = new WeakMap<
+  HTMLElement,
+  { cacheKey: TranslationCacheKeyPayload; chapterId?: string }
+>();
 const autoTranslateScheduler = createDebouncedAutoTranslate(() => {
   void maybeAutoTranslateNewImages();
 });
@@ -100,7 +171,23 @@ const autoTranslateScheduler = createDebouncedAutoTranslate(() => {
 function setState(state: ContentState): void {
   currentState = state;
 
-  // 同步 HUD 显示
+  if (!hudFollowsTabState) {
+    syncHud(state);
+  }
+
+  // 发送状态给 background -> popup
+  sendToBackground({ type: 'STATE_UPDATE', state });
+}
+
+/**
+ * 阅读器嵌在 iframe 中时每个 frame 都运行 content script；HUD 只在顶层
+ * frame 创建，展示整个标签页的状态。
+ */
+function isTopFrame(): boolean {
+  return window === window.top;
+}
+
+function syncHud(state: ContentState): void {
   if (hud) {
     switch (state.status) {
       case 'idle':
@@ -133,9 +220,6 @@ function setState(state: ContentState): void {
         break;
     }
   }
-
-  // 发送状态给 background -> popup
-  sendToBackground({ type: 'STATE_UPDATE', state });
 }
 
 // ==================== 服务初始化 ====================
@@ -144,7 +228,21 @@ async function ensureServicesInitialized(): Promise<void> {
   // 确保 renderer 总是被初始化
   if (!renderer) {
     renderer = getRenderer();
+    renderer.setEditListener(saveTranslationCorrection);
+    // 竖条切片等没有缓存记录的页面，修改不会保存，进入编辑时提示用户
+    renderer.setEditNotice(anchor =>
+      correctionTargets.has(anchor) ? null : '此页的修改不会保存'
+    );
+    renderer.setChangeListener(syncTranscriptPanel);
   }
+  const { renderMode, fontStyleMatching, autoVerticalText, targetLanguage } =
+    useAppConfigStore.getState();
+  readingMode = useAppConfigStore.getState().readingMode;
+  syncTranscriptPanel();
+  renderer.setRenderMode(renderMode);
+  renderer.setFontStyleMatching(fontStyleMatching);
+  renderer.setAutoVerticalText(autoVerticalText);
+  renderer.setTargetLanguage(targetLanguage);
 
   // 重新创建 translator 以获取最新配置
   translator = createTranslatorFromConfig();
@@ -162,55 +260,241 @@ async function ensureServicesInitialized(): Promise<void> {
 
 // ==================== 图片处理 ====================
 
-function findTranslatableImages(): HTMLImageElement[] {
-  // 等待一小段时间确保图片已加载（懒加载页面）
-  const allImages = Array.from(document.querySelectorAll('img'));
-
-  return allImages.filter(
-    img => isTranslatableImage(img) && !processedImages.has(getImageKey(img))
-  );
-}
-
-function getImageKey(img: HTMLImageElement): string {
-  return (
-    img.src ||
-    `img-${img.offsetLeft}-${img.offsetTop}-${img.width}-${img.height}`
-  );
+function findTranslatableImages(): HTMLElement[] {
+  return listPageTargets(matchSiteAdapter())
+    .filter(target => !processedImages.has(target.key))
+    .map(target => target.image);
 }
 
 async function processSingleImage(
-  img: HTMLImageElement,
-  forceRefresh: boolean = false
+  target: PageTarget,
+  adapter: SiteAdapter | null,
+  forceRefresh: boolean = false,
+  job: { jobId?: string; priorityClass?: JobPriorityClass; discardCorrections?: boolean } = {}
 ): Promise<void> {
   if (!translator || !renderer) {
     throw new Error('Services not initialized');
   }
 
+  const img = target.image;
   img.classList.add(PROCESSED_CLASS);
 
-  // 检测是否为漫画长图：高宽比 >= 2.4 且自然高度 >= 2000px
-  const isTallImage =
-    img.naturalWidth > 0 &&
-    img.naturalHeight > 0 &&
-    img.naturalHeight / img.naturalWidth >= 2.4 &&
-    img.naturalHeight >= 2000;
+  // 章节页：先换成适配器给出的原图地址并等待加载，避免翻译懒加载占位图
+  if (adapter && target.canonicalUrl && img instanceof HTMLImageElement) {
+    await adapter.prepareImage(img, target.canonicalUrl);
+  }
+
+  const size = getPageElementSize(img);
+  const isTallImage = isTallMangaPage(size.width, size.height);
+  // canvas 被污染或背景图元素时，translator 与 typeset 渲染按该地址经 background 取图
+  const sourceUrl = target.canonicalUrl ?? getPageElementSourceUrl(img) ?? undefined;
 
   const result = await translator.translateImage(
     img,
     isTallImage,
-    undefined,
-    forceRefresh
+    target.key,
+    forceRefresh,
+    {
+      chapterId: target.chapterId ?? undefined,
+      imageUrl: sourceUrl,
+      scope: target.canonicalUrl ? 'chapter' : 'page',
+      jobId: job.jobId,
+      priorityClass: job.priorityClass,
+      discardCorrections: job.discardCorrections,
+      signal: abortController?.signal,
+    }
   );
 
   if (!result.success) {
     throw new Error(result.error || 'Translation failed');
   }
 
+  if (result.cached) {
+    cachedCount++;
+  }
+
+  if (result.cacheKey) {
+    correctionTargets.set(img, {
+      cacheKey: result.cacheKey,
+      chapterId: target.chapterId ?? undefined,
+    });
+  } else {
+    correctionTargets.delete(img);
+  }
+
   if (result.textAreas.length === 0) {
     return;
   }
 
-  renderer.render(img, result.textAreas);
+  renderer.render(img, result.textAreas, false, sourceUrl);
+}
+
+/**
+ * 用户就地修改译文后写回后台缓存（`user-corrected` 版本），之后的强制重翻
+ * 不会覆盖。竖条漫画按拼接窗口翻译，切片没有独立的缓存记录，修改只在本页生效。
+ */
+function saveTranslationCorrection(anchor: HTMLElement, textAreas: TextArea[]): void {
+  const target = correctionTargets.get(anchor);
+  if (!target) {
+    return;
+  }
+  const request: SaveTranslationCorrectionRequest = {
+    type: 'CACHE_SAVE_CORRECTION',
+    cacheKey: target.cacheKey,
+    textAreas,
+    pageUrl: window.location.href,
+    chapterId: target.chapterId,
+  };
+  try {
+    chrome.runtime
+      .sendMessage(request)
+      .then((response: SaveTranslationCorrectionResponse | undefined) => {
+        if (response && !response.success) {
+          console.warn('[ContentScript] 译文修改未保存:', response.error);
+        }
+      })
+      .catch(() => undefined);
+  } catch {
+    // extension context 可能已失效
+  }
+}
+
+/**
+ * 右键选中的元素对应的翻译目标：优先取当前页面列表中的同一元素（保留章节
+ * 原图地址与 key），列表之外的元素按启发式 key 处理。
+ */
+function resolveSingleTarget(element: HTMLElement, adapter: SiteAdapter | null): PageTarget {
+  return (
+    listPageTargets(adapter).find(target => target.image === element) ?? {
+      image: element,
+      key: getPageElementKey(element),
+      index: 0,
+      canonicalUrl: null,
+      chapterId: null,
+    }
+  );
+}
+
+/**
+ * 右键菜单的单图模式：只翻译选中的页面元素，以 `manual-retry` 优先级插到
+ * 后台队列最前。整页翻译进行中时不打断其进度，只额外提交这一张。
+ */
+async function translateSingleImage(
+  element: HTMLElement,
+  forceRefresh: boolean,
+  discardCorrections = false
+): Promise<void> {
+  const ownsRun = !isTranslating;
+  if (ownsRun) {
+    isTranslating = true;
+    abortController = new AbortController();
+    failedCount = 0;
+    cachedCount = 0;
+    setState({ status: 'translating', current: 0, total: 1, currentImageIndex: 1 });
+  }
+
+  const adapter = matchSiteAdapter();
+  const target = resolveSingleTarget(element, adapter);
+  try {
+    if (ownsRun || !translator) {
+      // 初始化失败时已切换到 error 状态
+      const ready = await ensureServicesInitialized().then(
+        () => true,
+        () => false
+      );
+      if (!ready) return;
+    }
+    await processSingleImage(target, adapter, forceRefresh, {
+      priorityClass: 'manual-retry',
+      discardCorrections,
+    });
+    processedImages.add(target.key);
+    failedImageKeys.delete(target.key);
+    if (ownsRun) {
+      setState({ status: 'complete', count: 1, failedCount: 0, cachedCount });
+    }
+  } catch (error) {
+    if (isAbortError(error) || abortController?.signal.aborted) {
+      return;
+    }
+    console.warn('[ContentScript] 单图翻译失败:', getErrorMessage(error));
+    failedImageKeys.add(target.key);
+    if (ownsRun) {
+      failedCount = 1;
+      setState({ status: 'complete', count: 0, failedCount, cachedCount });
+    }
+  } finally {
+    if (ownsRun) {
+      abortController = null;
+      isTranslating = false;
+    }
+  }
+}
+
+/**
+ * 移除单张页面的译文。该页仍记为已处理，自动续翻不会再把它翻回来；
+ * 需要时可从右键菜单重新翻译。
+ */
+function removeImageTranslation(element: HTMLElement): void {
+  renderer?.remove(element);
+  element.classList.remove(PROCESSED_CLASS);
+  const { key } = resolveSingleTarget(element, matchSiteAdapter());
+  processedImages.add(key);
+  failedImageKeys.delete(key);
+}
+
+function handleContextMenuAction(message: ContextMenuActionMessage): boolean {
+  const element = contextMenuTargets.resolve(message.srcUrl);
+  if (!element) {
+    console.warn('[ContentScript] 右键位置没有可翻译的图片');
+    return false;
+  }
+
+  if (message.action === 'remove-translation') {
+    removeImageTranslation(element);
+  } else if (message.action === 'discard-corrections') {
+    void translateSingleImage(element, true, true);
+  } else {
+    void translateSingleImage(element, message.action === 'retranslate-image');
+  }
+  return true;
+}
+
+/**
+ * 竖条漫画：相邻切片拼接成一张长图后按重叠窗口翻译，避免气泡被切断。
+ * 返回成功翻译的切片数。
+ */
+async function translateStripPage(
+  targets: PageTarget[],
+  adapter: SiteAdapter,
+  forceRefresh: boolean,
+  maxConcurrent: number
+): Promise<number> {
+  if (!translator || !renderer) {
+    throw new Error('Services not initialized');
+  }
+
+  targets.forEach(target => target.image.classList.add(PROCESSED_CLASS));
+
+  const result = await translateStrip(targets, {
+    translator,
+    renderer,
+    adapter,
+    forceRefresh,
+    maxConcurrent,
+    signal: abortController?.signal,
+    onProgress: (current, total) => {
+      if (currentState.status === 'translating') {
+        setState({ status: 'translating', current, total });
+      }
+    },
+  });
+
+  cachedCount += result.cachedCount;
+  failedCount += result.failedKeys.length;
+  result.failedKeys.forEach(key => failedImageKeys.add(key));
+  result.translatedKeys.forEach(key => processedImages.add(key));
+  return result.translatedKeys.length;
 }
 
 async function syncAutoTranslateMode(): Promise<void> {
@@ -230,6 +514,15 @@ async function syncAutoTranslateMode(): Promise<void> {
   }
 }
 
+async function syncCustomSiteAdaptersFromStorage(): Promise<void> {
+  try {
+    const result = await chrome.storage.local.get([CONFIG_STORAGE_KEY]);
+    syncCustomSiteAdapters(getCustomSiteAdaptersFromConfig(result[CONFIG_STORAGE_KEY]));
+  } catch {
+    syncCustomSiteAdapters([]);
+  }
+}
+
 async function maybeAutoTranslateNewImages(): Promise<void> {
   const pendingImages = findTranslatableImages();
   // The auto-translate gate only knows a fixed set of statuses; the
@@ -253,20 +546,9 @@ function startAutoTranslateObserver(): void {
 
   autoTranslateObserver = new MutationObserver(mutations => {
     const hasNewImages = mutations.some(mutation =>
-      Array.from(mutation.addedNodes).some(node => {
-        if (!(node instanceof HTMLElement)) {
-          return false;
-        }
-
-        if (
-          node.tagName === 'IMG' &&
-          isTranslatableImage(node as HTMLImageElement)
-        ) {
-          return true;
-        }
-
-        return !!node.querySelector('img');
-      })
+      Array.from(mutation.addedNodes).some(
+        node => node instanceof HTMLElement && containsPageElement(node)
+      )
     );
 
     if (hasNewImages) {
@@ -317,13 +599,18 @@ async function translatePage(forceRefresh: boolean = false): Promise<void> {
     await ensureServicesInitialized();
     console.warn('[ContentScript] 服务初始化完成');
 
-    const allImages = Array.from(document.querySelectorAll('img'));
-    console.warn('[ContentScript] 页面上的 img 元素数量:', allImages.length);
-
-    const images = getViewportFirstImages(findTranslatableImages());
-    console.warn('[ContentScript] 可翻译图片数量:', images.length);
+    // 站点适配器命中时按章节页码顺序翻译原图，否则启发式扫描页面 <img>
+    const adapter = matchSiteAdapter();
+    const targets = (await collectPageTargets(adapter)).filter(
+      target => !processedImages.has(target.key)
+    );
+    console.warn(
+      '[ContentScript] 可翻译图片数量:',
+      targets.length,
+      adapter ? `(${adapter.id})` : '(scan)'
+    );
 
-    if (images.length === 0) {
+    if (targets.length === 0) {
       console.warn('[ContentScript] 没有找到可翻译的图片');
       setState({ status: 'complete', count: 0 });
       return;
@@ -333,7 +620,7 @@ async function translatePage(forceRefresh: boolean = false): Promise<void> {
     const parallelLimit = clampPageTranslationConcurrency(
       config.parallelLimit || 3
     );
-    const total = images.length;
+    const total = targets.length;
     let current = 0;
     let currentImageIndex = 0;
     let successCount = 0;
@@ -347,9 +634,9 @@ async function translatePage(forceRefresh: boolean = false): Promise<void> {
       maxConcurrent: parallelLimit,
       signal: abortController.signal,
       onItemStart: index => {
-        currentImageIndex = index;
+        currentImageIndex = targets[index]?.index ?? index;
         if (currentState.status === 'translating') {
-          setState({ status: 'translating', current, total, currentImageIndex: index });
+          setState({ status: 'translating', current, total, currentImageIndex });
         }
       },
       onItemComplete: completed => {
@@ -360,28 +647,49 @@ async function translatePage(forceRefresh: boolean = false): Promise<void> {
       },
       onError: (_error, index) => {
         failedCount++;
-        const img = images[index];
-        if (img) {
-          failedImageKeys.add(getImageKey(img));
+        const target = targets[index];
+        if (target) {
+          failedImageKeys.add(target.key);
         }
       },
     };
 
-    await processInParallel(
-      images,
-      async img => {
-        if (abortController?.signal.aborted) {
-          throw new Error('Translation cancelled');
-        }
-        const beforeCount = processedImages.size;
-        await processSingleImage(img, forceRefresh);
-        if (processedImages.size > beforeCount) {
-          successCount++;
-        }
-        processedImages.add(getImageKey(img));
-      },
-      options
-    );
+    if (adapter?.layout === 'strip') {
+      successCount = await translateStripPage(targets, adapter, forceRefresh, parallelLimit);
+    } else {
+      // 按视口优先级挑选下一页；多提交几页，让后台队列里有可随滚动调整的排队任务
+      const scheduler = new ViewportJobScheduler(targets);
+      const stopWatchingViewport = watchViewportChanges(() => {
+        sendJobPriorityUpdates(scheduler.collectPriorityUpdates());
+      });
+      try {
+        await processInParallel(
+          targets,
+          async target => {
+            if (abortController?.signal.aborted) {
+              throw new Error('Translation cancelled');
+            }
+            try {
+              const beforeCount = processedImages.size;
+              await processSingleImage(target, adapter, forceRefresh, scheduler.submit(target));
+              processedImages.add(target.key);
+              if (processedImages.size > beforeCount) {
+                successCount++;
+              }
+            } finally {
+              scheduler.finish(target);
+            }
+          },
+          {
+            ...options,
+            maxConcurrent: parallelLimit + NEXT_UP_PAGE_COUNT,
+            selectNext: pendingIndexes => scheduler.selectNext(pendingIndexes),
+          }
+        );
+      } finally {
+        stopWatchingViewport();
+      }
+    }
 
     if (abortController?.signal.aborted) {
       setState({ status: 'idle' });
@@ -389,6 +697,9 @@ async function translatePage(forceRefresh: boolean = false): Promise<void> {
     }
 
     setState({ status: 'complete', count: successCount, failedCount, cachedCount });
+    if (adapter && failedCount === 0) {
+      startNextChapterPrefetch(adapter);
+    }
   } catch (error) {
     const friendly = parseTranslationError(error);
     console.error('[ContentScript] 翻译流程失败:', friendly.message);
@@ -400,6 +711,62 @@ async function translatePage(forceRefresh: boolean = false): Promise<void> {
   }
 }
 
+/**
+ * 本章翻译完成后在后台预翻译下一章。竖条布局按拼接窗口缓存，逐页预翻译
+ * 无法命中，因此跳过。
+ */
+function startNextChapterPrefetch(adapter: SiteAdapter): void {
+  const config = useAppConfigStore.getState().nextChapterPrefetch;
+  if (!config.enabled || !translator || prefetchController || adapter.layout === 'strip') {
+    return;
+  }
+
+  const controller = new AbortController();
+  prefetchController = controller;
+  resolveNextChapterUrl(adapter, config.linkSelector, document, controller.signal)
+    .then(nextUrl => {
+      if (!nextUrl || prefetchedChapterUrls.has(nextUrl) || !translator) {
+        return null;
+      }
+      prefetchedChapterUrls.add(nextUrl);
+      return prefetchNextChapter({
+        translator,
+        adapter,
+        config,
+        nextUrl,
+        signal: controller.signal,
+      });
+    })
+    .catch(error => {
+      if (!isAbortError(error)) {
+        console.warn('[ContentScript] 下一章预翻译失败:', getErrorMessage(error));
+      }
+    })
+    .finally(() => {
+      if (prefetchController === controller) {
+        prefetchController = null;
+      }
+    });
+}
+
+function sendJobPriorityUpdates(jobs: PageJobPriorityUpdate[]): void {
+  if (jobs.length === 0) {
+    return;
+  }
+  try {
+    chrome.runtime
+      .sendMessage({ type: 'JOB_REPRIORITIZE', jobs } satisfies ReprioritizeJobsRequest)
+      .catch(() => undefined);
+  } catch {
+    // extension context 可能已失效
+  }
+}
+
+function cancelNextChapterPrefetch(): void {
+  prefetchController?.abort();
+  prefetchController = null;
+}
+
 /**
  * 取消正在进行的翻译
  */
@@ -408,6 +775,7 @@ function cancelTranslation(): void {
     abortController.abort();
     abortController = null;
   }
+  cancelNextChapterPrefetch();
   setState({ status: 'idle' });
   // 通知 popup 取消成功，按钮状态需要更新
   sendToBackground({ type: 'HUD_CANCELLED' });
@@ -452,6 +820,7 @@ function handleMessage(
     success: boolean;
     error?: string;
     state?: ContentState;
+    report?: SiteAdapterTestReport;
   }) => void
 ): boolean {
   console.warn('[ContentScript] 收到消息:', request.type);
@@ -484,6 +853,43 @@ function handleMessage(
       sendResponse({ success: true });
       break;
 
+    case 'RETRY_FAILED':
+      retryFailedImages();
+      sendResponse({ success: true });
+      break;
+
+    case 'TOGGLE_OVERLAYS':
+      // 快捷键：所有页面在原图与译文之间切换
+      renderer?.toggleAllPinned();
+      sendResponse({ success: true });
+      break;
+
+    case 'TAB_STATE_UPDATE':
+      hudFollowsTabState = true;
+      syncHud(request.state);
+      sendResponse({ success: true });
+      break;
+
+    case 'JOB_INTERRUPTED':
+      // 被中断的任务已由 transport 重新提交；新 worker 丢失了转发给 popup 的
+      // 进度，这里重新同步一次当前状态
+      console.warn('[ContentScript] 后台重启，中断的任务数:', request.jobIds.length);
+      setState(currentState);
+      sendResponse({ success: true });
+      break;
+
+    case 'CONTEXT_MENU_ACTION':
+      sendResponse(
+        handleContextMenuAction(request)
+          ? { success: true }
+          : { success: false, error: 'No page image at the clicked position' }
+      );
+      break;
+
+    case 'TEST_SITE_ADAPTER':
+      sendResponse({ success: true, report: testSiteAdapterDefinition(request.definition) });
+      break;
+
     default:
       sendResponse({ success: false, error: 'Unknown message type' });
   }
@@ -503,12 +909,34 @@ function handleStorageChange(
     const newConfig = changes[CONFIG_STORAGE_KEY].newValue;
     const enabled = getEnabledFromConfig(newConfig);
     const overlayStyle = getOverlayStyleFromConfig(newConfig);
+    const renderMode = getRenderModeFromConfig(newConfig);
+    const nextReadingMode = getReadingModeFromConfig(newConfig);
+    const fontStyleMatching = getFontStyleMatchingFromConfig(newConfig);
+    const autoVerticalText = getAutoVerticalTextFromConfig(newConfig);
+    const targetLanguage = getTargetLanguageFromConfig(newConfig);
     isAutoTranslateEnabled = enabled;
+    syncCustomSiteAdapters(getCustomSiteAdaptersFromConfig(newConfig));
 
     // 更新 renderer 样式
     if (renderer && overlayStyle) {
       renderer.updateStyleFromConfig(overlayStyle);
     }
+    if (renderer && renderMode) {
+      renderer.setRenderMode(renderMode);
+    }
+    if (renderer && fontStyleMatching !== null) {
+      renderer.setFontStyleMatching(fontStyleMatching);
+    }
+    if (renderer && autoVerticalText !== null) {
+      renderer.setAutoVerticalText(autoVerticalText);
+    }
+    if (renderer && targetLanguage) {
+      renderer.setTargetLanguage(targetLanguage);
+    }
+    if (nextReadingMode && nextReadingMode !== readingMode) {
+      readingMode = nextReadingMode;
+      syncTranscriptPanel();
+    }
 
     if (enabled) {
       startAutoTranslateObserver();
@@ -519,6 +947,30 @@ function handleStorageChange(
   }
 }
 
+// ==================== 译文对照面板 ====================
+
+/**
+ * 按当前阅读模式与已渲染的页面创建、刷新或移除对照面板
+ */
+function syncTranscriptPanel(): void {
+  const pages =
+    readingMode === 'panel' && renderer
+      ? renderer.getTranscript().filter(page => page.entries.length > 0)
+      : [];
+  if (pages.length === 0) {
+    transcriptPanel?.destroy();
+    transcriptPanel = null;
+    return;
+  }
+  transcriptPanel ??= new TranscriptPanel();
+  transcriptPanel.update(pages);
+}
+
+function handleTranscriptSelect(event: Event): void {
+  const { anchor, index } = (event as CustomEvent<TranscriptSelectDetail>).detail;
+  renderer?.highlightArea(anchor, index);
+}
+
 // ==================== HUD 事件监听 ====================
 
 function handleHudCancel(): void {
@@ -526,6 +978,12 @@ function handleHudCancel(): void {
 }
 
 function handleRetryFailed(): void {
+  retryFailedImages();
+  // iframe 中的阅读器没有 HUD，由 background 转发给其他 frame
+  sendToBackground({ type: 'HUD_RETRY_FAILED' });
+}
+
+function retryFailedImages(): void {
   if (isTranslating) return;
   // 清除失败图片记录，让它们可以被重新处理
   for (const key of failedImageKeys) {
@@ -557,6 +1015,7 @@ function setupHudEventListeners(): void {
   document.addEventListener('hud-retry-failed', handleRetryFailed);
   document.addEventListener('hud-configure', handleHudConfigure);
   document.addEventListener('hud-dismiss-onboarding', handleHudDismissOnboarding);
+  document.addEventListener(TRANSCRIPT_SELECT_EVENT, handleTranscriptSelect);
 }
 
 // ==================== 初始化 ====================
@@ -565,8 +1024,10 @@ async function initialize(): Promise<void> {
   console.warn('[ContentScript] Manga Translator v2 初始化');
 
   try {
-    // 创建 HUD
-    hud = new FloatingHud();
+    // 创建 HUD（仅顶层 frame）
+    if (isTopFrame()) {
+      hud = new FloatingHud();
+    }
 
     // 设置消息监听
     chrome.runtime.onMessage.addListener(handleMessage);
@@ -574,11 +1035,15 @@ async function initialize(): Promise<void> {
     // 设置存储变更监听
     chrome.storage.onChanged.addListener(handleStorageChange);
 
+    await syncCustomSiteAdaptersFromStorage();
     await syncAutoTranslateMode();
 
     // 监听 HUD 按钮事件
     setupHudEventListeners();
 
+    // 记住右键命中的页面元素，供右键菜单的单图模式使用
+    contextMenuTargets.attach();
+
     // 页面卸载时清理
     window.addEventListener('beforeunload', cleanup);
 
@@ -586,9 +1051,10 @@ async function initialize(): Promise<void> {
     // card this session AND the current provider is not properly
     // configured (apiKey + baseUrl + model for OpenAI; baseUrl + model
     // for Ollama / LM Studio), show the card. Runs after
-    // syncAutoTranslateMode so config is loaded.
+    // syncAutoTranslateMode so config is loaded. Only the top frame
+    // has a HUD to show it in.
     try {
-      const dismissed = await isOnboardingDismissed();
+      const dismissed = !isTopFrame() || (await isOnboardingDismissed());
       if (!dismissed) {
         const config = useAppConfigStore.getState();
         const provider = config.provider;
@@ -601,8 +1067,11 @@ async function initialize(): Promise<void> {
       console.warn('[ContentScript] onboarding check failed:', err);
     }
 
-    // 通知 background 已就绪
-    sendToBackground({ type: 'READY' });
+    // 通知 background 已就绪；子 frame 附带是否有漫画页，决定是否自动翻译
+    sendToBackground({
+      type: 'READY',
+      hasPages: matchSiteAdapter() !== null || findTranslatableImages().length > 0,
+    });
 
     console.warn('[ContentScript] 初始化完成');
   } catch (error) {
@@ -614,6 +1083,7 @@ function cleanup(): void {
   if (abortController) {
     abortController.abort();
   }
+  cancelNextChapterPrefetch();
   if (renderer) {
     renderer.removeAll();
   }
@@ -621,6 +1091,8 @@ function cleanup(): void {
     hud.destroy();
     hud = null;
   }
+  transcriptPanel?.destroy();
+  transcriptPanel = null;
   stopAutoTranslateObserver();
   processedImages.clear();
   failedImageKeys.clear();
@@ -630,6 +1102,8 @@ function cleanup(): void {
   document.removeEventListener('hud-retry-failed', handleRetryFailed);
   document.removeEventListener('hud-configure', handleHudConfigure);
   document.removeEventListener('hud-dismiss-onboarding', handleHudDismissOnboarding);
+  document.removeEventListener(TRANSCRIPT_SELECT_EVENT, handleTranscriptSelect);
+  contextMenuTargets.detach();
   window.removeEventListener('beforeunload', cleanup);
 }
 
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { ContextMenuTargetTracker } from './context-menu-target';
+
+function rightClick(element: Element): void {
+  element.dispatchEvent(new MouseEvent('contextmenu', { bubbles: true, composed: true }));
+}
+
+describe('context-menu-target', () => {
+  let tracker: ContextMenuTargetTracker;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    tracker = new ContextMenuTargetTracker();
+    tracker.attach();
+  });
+
+  afterEach(() => {
+    tracker.detach();
+  });
+
+  it('resolves a translated image from a click on its overlay', () => {
+    document.body.innerHTML = `
+      <div class="manga-translator-wrapper">
+        <img id="page" src="https://example.com/page-1.jpg" />
+        <div class="manga-translator-overlay-container">
+          <div class="manga-translator-overlay"><span id="text">译文</span></div>
+        </div>
+      </div>
+    `;
+
+    rightClick(document.getElementById('text') as HTMLElement);
+
+    expect(tracker.resolve()).toBe(document.getElementById('page'));
+  });
+
+  it('resolves the background-image element behind a reader layer', () => {
+    document.body.innerHTML = `
+      <div id="page" style="background-image: url('https://example.com/page-2.jpg')">
+        <span id="layer"></span>
+      </div>
+    `;
+
+    rightClick(document.getElementById('layer') as HTMLElement);
+
+    expect(tracker.resolve()).toBe(document.getElementById('page'));
+  });
+
+  it('falls back to the image matching srcUrl when nothing was recorded', () => {
+    document.body.innerHTML = `
+      <p id="text">chapter notes</p>
+      <img id="page" src="https://example.com/page-3.jpg" />
+    `;
+
+    rightClick(document.getElementById('text') as HTMLElement);
+
+    expect(tracker.resolve()).toBeNull();
+    expect(tracker.resolve('https://example.com/page-3.jpg')).toBe(
+      document.getElementById('page')
+    );
+  });
+
+  it('forgets elements removed from the page', () => {
+    document.body.innerHTML = `<canvas id="page"></canvas>`;
+    const canvas = document.getElementById('page') as HTMLCanvasElement;
+
+    rightClick(canvas);
+    expect(tracker.resolve()).toBe(canvas);
+
+    canvas.remove();
+    expect(tracker.resolve()).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { findOverlayAnchor } from '@/services/renderer';
+import { getBackgroundImageUrl } from './page-elements';
+
+/**
+ * 右键菜单的单图模式需要知道用户右键的是哪张页面。`chrome.contextMenus`
+ * 只给出 `<img>` 的 `srcUrl`，canvas 与背景图元素拿不到，因此在页面里
+ * 记住最近一次 `contextmenu` 事件命中的页面元素。
+ */
+
+function asPageElement(element: Element): HTMLElement | null {
+  if (element instanceof HTMLImageElement || element instanceof HTMLCanvasElement) {
+    return element;
+  }
+  if (
+    !(element instanceof HTMLElement) ||
+    element === element.ownerDocument.body ||
+    element === element.ownerDocument.documentElement
+  ) {
+    return null;
+  }
+  // 已翻译的页面：右键落在覆盖层上
+  return findOverlayAnchor(element) ?? (getBackgroundImageUrl(element) ? element : null);
+}
+
+/**
+ * Page element under a right-click. Readers often cover the page with a
+ * transparent layer, so the whole element stack at the pointer is checked
+ * before the event path.
+ */
+export function findContextMenuPageElement(event: MouseEvent): HTMLElement | null {
+  const stack =
+    typeof document.elementsFromPoint === 'function'
+      ? document.elementsFromPoint(event.clientX, event.clientY)
+      : [];
+  const path = event.composedPath().filter((node): node is Element => node instanceof Element);
+
+  for (const element of [...stack, ...path]) {
+    const pageElement = asPageElement(element);
+    if (pageElement) {
+      return pageElement;
+    }
+  }
+  return null;
+}
+
+export function findImageBySrc(srcUrl: string, root: ParentNode = document): HTMLImageElement | null {
+  return (
+    Array.from(root.querySelectorAll('img')).find(
+      image => image.currentSrc === srcUrl || image.src === srcUrl
+    ) ?? null
+  );
+}
+
+/** Remembers the page element under the most recent right-click */
+export class ContextMenuTargetTracker {
+  private lastElement: HTMLElement | null = null;
+
+  private readonly handleContextMenu = (event: MouseEvent): void => {
+    this.lastElement = findContextMenuPageElement(event);
+  };
+
+  attach(target: Document = document): void {
+    target.addEventListener('contextmenu', this.handleContextMenu, true);
+  }
+
+  detach(target: Document = document): void {
+    target.removeEventListener('contextmenu', this.handleContextMenu, true);
+    this.lastElement = null;
+  }
+
+  /**
+   * The remembered element while it is still in the page, otherwise the
+   * `<img>` matching the `srcUrl` the browser reported.
+   */
+  resolve(srcUrl?: string): HTMLElement | null {
+    if (this.lastElement?.isConnected) {
+      return this.lastElement;
+    }
+    return srcUrl ? findImageBySrc(srcUrl) : null;
+  }
+}
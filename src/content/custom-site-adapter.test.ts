@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { CustomSiteAdapterDefinition } from '@/shared/app-config';
+
+import {
+  createCustomSiteAdapter,
+  syncCustomSiteAdapters,
+  testSiteAdapterDefinition,
+} from './custom-site-adapter';
+import { matchSiteAdapter } from './site-adapters';
+
+const CHAPTER_URL = 'https://comics.example.org/read/solo-climber/chapter-7';
+
+const DEFINITION: CustomSiteAdapterDefinition = {
+  id: 'example',
+  name: 'Example Comics',
+  enabled: true,
+  urlPattern: '^https://comics\\.example\\.org/read/[^/]+/chapter-\\d+',
+  chapterIdPattern: '/read/([^/]+/chapter-\\d+)',
+  pageImageSelector: '.reader img',
+  lazySrcAttributes: ['data-src'],
+  excludeSelectors: ['.ad'],
+  nextChapterSelector: 'a.next',
+};
+
+function createChapterWindow() {
+  return {
+    document,
+    location: { href: CHAPTER_URL },
+  } as unknown as Window & typeof globalThis;
+}
+
+describe('custom-site-adapter', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div class='reader'>
+        <img src='/placeholder.gif' data-src='/pages/7/001.webp' width='720' height='1024' />
+        <div class='ad'><img src='https://ads.example.net/banner.jpg' /></div>
+        <img src='/placeholder.gif' data-src='https://cdn.example.org/pages/7/002.webp' />
+      </div>
+      <a class='next' href='/read/solo-climber/chapter-8'>Next</a>
+    `;
+  });
+
+  afterEach(() => {
+    syncCustomSiteAdapters([]);
+  });
+
+  it('reads pages from the selector, lazy attributes and exclusions', () => {
+    const adapter = createCustomSiteAdapter(DEFINITION);
+    const bootstrap = adapter?.getChapterBootstrap(createChapterWindow());
+    if (!adapter || !bootstrap) {
+      throw new Error('expected adapter bootstrap');
+    }
+
+    expect(adapter.id).toBe('custom:example');
+    expect(bootstrap.chapterId).toBe('solo-climber/chapter-7');
+    expect(bootstrap.pages.map(page => page.src)).toEqual([
+      new URL('/pages/7/001.webp', document.baseURI).href,
+      'https://cdn.example.org/pages/7/002.webp',
+    ]);
+    expect(adapter.listRenderablePages(document, bootstrap).map(page => page.key)).toEqual([
+      'solo-climber/chapter-7::0',
+      'solo-climber/chapter-7::1',
+    ]);
+    expect(adapter.getNextChapterUrl?.(document)).toMatch(/\/read\/solo-climber\/chapter-8$/);
+  });
+
+  it('registers only enabled definitions with valid patterns', () => {
+    syncCustomSiteAdapters([
+      DEFINITION,
+      { ...DEFINITION, id: 'broken', urlPattern: '([' },
+    ]);
+    expect(matchSiteAdapter(CHAPTER_URL)?.id).toBe('custom:example');
+
+    syncCustomSiteAdapters([{ ...DEFINITION, enabled: false }]);
+    expect(matchSiteAdapter(CHAPTER_URL)).toBeNull();
+  });
+
+  it('rejects definitions with an invalid selector', () => {
+    expect(createCustomSiteAdapter({ ...DEFINITION, pageImageSelector: '.reader img[' })).toBeNull();
+    expect(createCustomSiteAdapter({ ...DEFINITION, excludeSelectors: ['.ad', '>>'] })).toBeNull();
+    expect(createCustomSiteAdapter({ ...DEFINITION, nextChapterSelector: 'a.next:(' })).toBeNull();
+
+    syncCustomSiteAdapters([{ ...DEFINITION, pageImageSelector: '.reader img[' }]);
+    expect(matchSiteAdapter(CHAPTER_URL)).toBeNull();
+  });
+
+  it('reports and highlights matches without registering the adapter', () => {
+    const report = testSiteAdapterDefinition(DEFINITION, createChapterWindow());
+
+    expect(report).toMatchObject({
+      matchesUrl: true,
+      chapterId: 'solo-climber/chapter-7',
+      pageCount: 2,
+    });
+    expect(document.querySelectorAll('[data-manga-translator-adapter-test]')).toHaveLength(2);
+    expect(matchSiteAdapter(CHAPTER_URL)).toBeNull();
+    expect(testSiteAdapterDefinition({ ...DEFINITION, urlPattern: '([' }).error).toBeTruthy();
+  });
+});
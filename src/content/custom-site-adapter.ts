@@ -0,0 +1,268 @@
+import type { CustomSiteAdapterDefinition } from '@/shared/app-config';
+
+import { waitForImageLoad } from './image-load';
+import {
+  registerSiteAdapter,
+  unregisterSiteAdapter,
+  type ChapterBootstrap,
+  type RenderablePage,
+  type SiteAdapter,
+} from './site-adapters';
+
+/**
+ * 用户在设置页用 CSS 选择器声明的站点适配器。没有站点 API 可用，
+ * 页面列表完全来自 DOM：选择器命中的图片按文档顺序即页码顺序。
+ */
+
+export const CUSTOM_ADAPTER_ID_PREFIX = 'custom:';
+
+const TEST_HIGHLIGHT_ATTRIBUTE = 'data-manga-translator-adapter-test';
+const TEST_HIGHLIGHT_DURATION_MS = 4000;
+
+export interface SiteAdapterTestReport {
+  matchesUrl: boolean;
+  chapterId: string | null;
+  pageCount: number;
+  nextChapterUrl: string | null;
+  /** Invalid regex or selector, reported instead of throwing */
+  error?: string;
+}
+
+interface CompiledDefinition {
+  definition: CustomSiteAdapterDefinition;
+  urlPattern: RegExp;
+  chapterIdPattern: RegExp | null;
+}
+
+let registeredIds: string[] = [];
+
+/**
+ * Throws the `SyntaxError` an invalid selector would otherwise raise from
+ * `querySelectorAll` / `closest` on every page scan
+ */
+function assertValidSelector(selector: string): void {
+  document.createDocumentFragment().querySelector(selector);
+}
+
+function compileDefinition(
+  definition: CustomSiteAdapterDefinition
+): CompiledDefinition {
+  [
+    definition.pageImageSelector,
+    ...definition.excludeSelectors,
+    definition.nextChapterSelector,
+  ]
+    .filter(Boolean)
+    .forEach(assertValidSelector);
+
+  return {
+    definition,
+    urlPattern: new RegExp(definition.urlPattern),
+    chapterIdPattern: definition.chapterIdPattern
+      ? new RegExp(definition.chapterIdPattern)
+      : null,
+  };
+}
+
+function getChapterId(compiled: CompiledDefinition, url: URL): string {
+  const match = compiled.chapterIdPattern?.exec(url.href);
+  if (match) {
+    return match[1] ?? match[0];
+  }
+  return url.pathname.replace(/\/$/, '');
+}
+
+function resolveUrl(value: string, baseUri: string): string | null {
+  try {
+    return new URL(value, baseUri).href;
+  } catch {
+    return null;
+  }
+}
+
+function getPageImages(
+  definition: CustomSiteAdapterDefinition,
+  root: ParentNode
+): HTMLImageElement[] {
+  const excluded = definition.excludeSelectors.join(',');
+  return Array.from(
+    root.querySelectorAll<HTMLImageElement>(definition.pageImageSelector)
+  ).filter(
+    image => image instanceof HTMLImageElement && (!excluded || !image.closest(excluded))
+  );
+}
+
+function getImageUrl(
+  definition: CustomSiteAdapterDefinition,
+  image: HTMLImageElement
+): string | null {
+  for (const attribute of definition.lazySrcAttributes) {
+    const value = image.getAttribute(attribute)?.trim();
+    if (value) {
+      return resolveUrl(value, image.baseURI);
+    }
+  }
+  return image.currentSrc || image.src || null;
+}
+
+function getNextChapterUrl(
+  definition: CustomSiteAdapterDefinition,
+  root: ParentNode
+): string | null {
+  if (!definition.nextChapterSelector) {
+    return null;
+  }
+  const link = root.querySelector(definition.nextChapterSelector);
+  const href = link?.getAttribute('href')?.trim();
+  return link && href ? resolveUrl(href, link.baseURI) : null;
+}
+
+function buildBootstrap(
+  compiled: CompiledDefinition,
+  root: ParentNode,
+  url: URL
+): ChapterBootstrap | null {
+  const pages = getPageImages(compiled.definition, root)
+    .map(image => ({
+      src: getImageUrl(compiled.definition, image) ?? '',
+      width: image.naturalWidth || Number(image.getAttribute('width')) || 0,
+      height: image.naturalHeight || Number(image.getAttribute('height')) || 0,
+    }))
+    .filter(page => page.src.length > 0)
+    .map((page, index) => ({ ...page, index }));
+
+  if (pages.length === 0) {
+    return null;
+  }
+
+  return {
+    chapterId: getChapterId(compiled, url),
+    baseUrl: url.origin,
+    pages,
+  };
+}
+
+function buildAdapter(compiled: CompiledDefinition): SiteAdapter {
+  const { definition } = compiled;
+
+  return {
+    id: `${CUSTOM_ADAPTER_ID_PREFIX}${definition.id}`,
+    matchesChapter: url => compiled.urlPattern.test(url.href),
+    getChapterBootstrap: target =>
+      buildBootstrap(compiled, target.document, new URL(target.location.href)),
+    listRenderablePages: (root, bootstrap) =>
+      getPageImages(definition, root)
+        .filter(image => getImageUrl(definition, image))
+        .slice(0, bootstrap.pages.length)
+        .map((image, index): RenderablePage | null => {
+          const page = bootstrap.pages[index];
+          return page
+            ? {
+                image,
+                canonicalUrl: page.src,
+                index: page.index,
+                key: `${bootstrap.chapterId}::${page.index}`,
+              }
+            : null;
+        })
+        .filter((page): page is RenderablePage => page !== null),
+    resolveCanonicalImage: pageNode => getImageUrl(definition, pageNode),
+    prepareImage: async (pageNode, canonicalUrl) => {
+      // 未知站点是否返回 CORS 头无法判断，不设置 crossOrigin；
+      // 画布被污染时由 background 代取字节
+      if (pageNode.src !== canonicalUrl) {
+        pageNode.src = canonicalUrl;
+      }
+      pageNode.loading = 'eager';
+
+      await waitForImageLoad(pageNode);
+    },
+    getNextChapterUrl: root => getNextChapterUrl(definition, root),
+    parseChapterDocument: (doc, url) => buildBootstrap(compiled, doc, url),
+  };
+}
+
+/**
+ * Builds the generic adapter for a definition, or null when one of its
+ * regexes or selectors is invalid.
+ */
+export function createCustomSiteAdapter(
+  definition: CustomSiteAdapterDefinition
+): SiteAdapter | null {
+  try {
+    return buildAdapter(compileDefinition(definition));
+  } catch (error) {
+    console.warn('[CustomSiteAdapter] 定义无效:', definition.id, error);
+    return null;
+  }
+}
+
+/**
+ * Replaces the registered custom adapters with the enabled definitions.
+ */
+export function syncCustomSiteAdapters(
+  definitions: readonly CustomSiteAdapterDefinition[]
+): void {
+  registeredIds.forEach(id => unregisterSiteAdapter(id));
+  registeredIds = [];
+
+  for (const definition of definitions) {
+    if (!definition.enabled) continue;
+    const adapter = createCustomSiteAdapter(definition);
+    if (adapter) {
+      registerSiteAdapter(adapter);
+      registeredIds.push(adapter.id);
+    }
+  }
+}
+
+function highlightImages(images: HTMLImageElement[]): void {
+  images.forEach((image, index) => {
+    image.setAttribute(TEST_HIGHLIGHT_ATTRIBUTE, String(index + 1));
+    image.style.outline = '3px solid #10b981';
+    image.style.outlineOffset = '-3px';
+  });
+
+  window.setTimeout(() => {
+    images.forEach(image => {
+      if (!image.hasAttribute(TEST_HIGHLIGHT_ATTRIBUTE)) return;
+      image.removeAttribute(TEST_HIGHLIGHT_ATTRIBUTE);
+      image.style.outline = '';
+      image.style.outlineOffset = '';
+    });
+  }, TEST_HIGHLIGHT_DURATION_MS);
+}
+
+/**
+ * 设置页「在当前标签页测试」：按定义匹配当前页面，并短暂描边命中的图片。
+ * 不注册适配器，也不修改图片 src。
+ */
+export function testSiteAdapterDefinition(
+  definition: CustomSiteAdapterDefinition,
+  target: Window & typeof globalThis = window
+): SiteAdapterTestReport {
+  const report: SiteAdapterTestReport = {
+    matchesUrl: false,
+    chapterId: null,
+    pageCount: 0,
+    nextChapterUrl: null,
+  };
+
+  try {
+    const compiled = compileDefinition(definition);
+    const url = new URL(target.location.href);
+    report.matchesUrl = compiled.urlPattern.test(url.href);
+    report.chapterId = getChapterId(compiled, url);
+
+    const images = getPageImages(definition, target.document).filter(image =>
+      getImageUrl(definition, image)
+    );
+    report.pageCount = images.length;
+    report.nextChapterUrl = getNextChapterUrl(definition, target.document);
+    highlightImages(images);
+  } catch (error) {
+    report.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return report;
+}
@@ -1,3 +1,4 @@
+import { getBackgroundImageUrl, getPageElementSize } from './page-elements';
 import { getRealImageSource, type SiteAdapter } from './site-adapters';
 
 export interface ImageFilterOptions {
@@ -7,6 +8,56 @@ export interface ImageFilterOptions {
   allowImage?: (img: HTMLImageElement) => boolean;
 }
 
+/** Containers that may carry a page as CSS background image */
+export const BACKGROUND_PAGE_SELECTOR = 'div, figure, section, a, span, li';
+
+const UI_KEYWORD_PATTERNS = [
+  /\bavatar\b/,
+  /\blogo\b/,
+  /\bicon\b/,
+  /\bbanner\b/,
+  /\bads?\b/,
+  /\badvert/,
+  /\bemoji\b/,
+];
+
+/**
+ * Size and page-chrome checks shared by every kind of page element:
+ * too small, square icons, header/nav/footer, UI class names, or already
+ * handled by the translator.
+ */
+function isPageSizedContent(element: HTMLElement, width: number, height: number): boolean {
+  if (width < 200 || height < 200) {
+    return false;
+  }
+
+  if (element.closest('header, nav, footer, aside')) {
+    return false;
+  }
+
+  const classAndId = `${element.className} ${element.id}`.toLowerCase();
+  for (const pattern of UI_KEYWORD_PATTERNS) {
+    if (pattern.test(classAndId)) {
+      return false;
+    }
+  }
+
+  const aspectRatio = width / height;
+  if (aspectRatio > 0.9 && aspectRatio < 1.1 && width < 400 && height < 400) {
+    return false;
+  }
+
+  if (element.classList.contains('manga-translator-processed')) {
+    return false;
+  }
+
+  if (element.closest('.manga-translator-wrapper')) {
+    return false;
+  }
+
+  return true;
+}
+
 export function isTranslatableImage(
   img: HTMLImageElement,
   options: ImageFilterOptions = {}
@@ -34,42 +85,61 @@ export function isTranslatableImage(
     return false;
   }
 
-  if (img.closest('header, nav, footer, aside')) {
+  if (!isPageSizedContent(img, width, height)) {
     return false;
   }
 
-  const classAndId = `${img.className} ${img.id}`.toLowerCase();
-  const uiKeywordPatterns = [
-    /\bavatar\b/,
-    /\blogo\b/,
-    /\bicon\b/,
-    /\bbanner\b/,
-    /\bads?\b/,
-    /\badvert/,
-    /\bemoji\b/,
-  ];
-  for (const pattern of uiKeywordPatterns) {
-    if (pattern.test(classAndId)) {
-      return false;
-    }
-  }
-
-  const aspectRatio = width / height;
-  if (aspectRatio > 0.9 && aspectRatio < 1.1 && width < 400 && height < 400) {
+  if (allowImage && !allowImage(img)) {
     return false;
   }
 
-  if (img.classList.contains('manga-translator-processed')) {
+  return true;
+}
+
+/**
+ * 阅读器画出的页面：按 canvas 位图尺寸判断，与 `<img>` 使用相同的尺寸与界面元素规则。
+ */
+export function isTranslatableCanvas(canvas: HTMLCanvasElement): boolean {
+  const { width, height } = getPageElementSize(canvas);
+  return isPageSizedContent(canvas, width, height);
+}
+
+/**
+ * 以 CSS `background-image` 展示的页面。包含 `<img>` / `<canvas>` 的容器
+ * 交给那些元素处理；`html` / `body` 的背景是页面装饰而非漫画页。
+ * 先做尺寸等廉价检查，只有页面大小的元素才读取计算样式。
+ */
+export function isTranslatableBackground(element: HTMLElement): boolean {
+  if (element === document.body || element === document.documentElement) {
     return false;
   }
 
-  if (img.closest('.manga-translator-wrapper')) {
+  const { width, height } = getPageElementSize(element);
+  if (!isPageSizedContent(element, width, height) || element.querySelector('img, canvas')) {
     return false;
   }
 
-  if (allowImage && !allowImage(img)) {
-    return false;
+  // 行内样式设置的背景无需计算样式
+  if (element.style.backgroundImage.includes('url(')) {
+    return true;
   }
+  return getBackgroundImageUrl(element) !== null;
+}
 
-  return true;
+/** Background-image pages inside `root`, for the scan and the DOM observer */
+export function findBackgroundPages(root: ParentNode): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>(BACKGROUND_PAGE_SELECTOR)).filter(
+    isTranslatableBackground
+  );
+}
+
+/** Dispatches to the check for the element's kind */
+export function isTranslatablePageElement(element: HTMLElement): boolean {
+  if (element instanceof HTMLImageElement) {
+    return isTranslatableImage(element);
+  }
+  if (element instanceof HTMLCanvasElement) {
+    return isTranslatableCanvas(element);
+  }
+  return element.matches(BACKGROUND_PAGE_SELECTOR) && isTranslatableBackground(element);
 }
@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { loadChapterAt, resolveNextChapterUrl } from './chapter-prefetch';
+import {
+  MANGADEX_API_BASE,
+  MANGADEX_AT_HOME_ENDPOINT,
+  findNextChapterInAggregate,
+  getMangaDexChapterUuid,
+  parseAtHomeResponse,
+  resetMangaDexChapterCache,
+  resolveFullQualityUrl,
+} from './mangadex-adapter';
+import { matchSiteAdapter, resolveChapterBootstrap } from './site-adapters';
+
+const CHAPTER_UUID = 'a54c491c-8e4c-4e97-8873-5b79e59da210';
+const CHAPTER_URL = `https://mangadex.org/chapter/${CHAPTER_UUID}/1`;
+
+const AT_HOME_RESPONSE = {
+  result: 'ok',
+  baseUrl: 'https://uploads.mangadex.org',
+  chapter: {
+    hash: '3303dd03ac8d27452cce3f2a882e94b2',
+    data: [
+      '1-f7a76de10d346de7ba01786762ebbedc666b412ad0d4b73baa330a2a392dbcdd.png',
+      '2-b2f9bca2b3da0d8b4f1a0e4c6e9c4d7f1c1a5b8e3d2a9f0c4b6e8d1a7c3f5e29.png',
+    ],
+    dataSaver: [
+      '1-27c6b1fa8b9fd5a2b7f0a8de3c3a9ad7e8c14e5e2b8a2d0e2e2c6a7f5b9e1c30.jpg',
+      '2-9a3f47d0b6e8c1a5d2f4b7e9c3a6d8f1b4e7c0a3d6f9b2e5c8a1d4f7b0e3c6a9.jpg',
+    ],
+  },
+};
+
+function createChapterWindow(href: string = CHAPTER_URL) {
+  return { location: { href } } as unknown as Window & typeof globalThis;
+}
+
+function getAdapter() {
+  const adapter = matchSiteAdapter(CHAPTER_URL);
+  if (!adapter) {
+    throw new Error('expected adapter');
+  }
+  return adapter;
+}
+
+function mockAtHome(body: unknown = AT_HOME_RESPONSE, ok = true) {
+  vi.mocked(fetch).mockResolvedValue({
+    ok,
+    status: ok ? 200 : 404,
+    json: async () => body,
+  } as Response);
+}
+
+describe('mangadex-adapter', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    resetMangaDexChapterCache();
+    vi.mocked(fetch).mockReset();
+  });
+
+  afterEach(() => {
+    resetMangaDexChapterCache();
+  });
+
+  it('matches only MangaDex chapter reader URLs', () => {
+    expect(getAdapter().id).toBe('mangadex');
+    expect(getMangaDexChapterUuid(new URL(`https://mangadex.org/chapter/${CHAPTER_UUID}`))).toBe(
+      CHAPTER_UUID
+    );
+    expect(matchSiteAdapter(`https://mangadex.org/title/${CHAPTER_UUID}`)).toBeNull();
+    expect(matchSiteAdapter(`https://example.org/chapter/${CHAPTER_UUID}`)).toBeNull();
+  });
+
+  it('builds full-quality page URLs from the at-home response', () => {
+    const chapter = parseAtHomeResponse(AT_HOME_RESPONSE, CHAPTER_UUID);
+
+    expect(chapter?.bootstrap.chapterId).toBe(`/chapter/${CHAPTER_UUID}`);
+    expect(chapter?.bootstrap.pages.map(page => page.src)).toEqual([
+      `https://uploads.mangadex.org/data/3303dd03ac8d27452cce3f2a882e94b2/${AT_HOME_RESPONSE.chapter.data[0]}`,
+      `https://uploads.mangadex.org/data/3303dd03ac8d27452cce3f2a882e94b2/${AT_HOME_RESPONSE.chapter.data[1]}`,
+    ]);
+    expect(parseAtHomeResponse({ result: 'error', errors: [] }, CHAPTER_UUID)).toBeNull();
+    expect(
+      parseAtHomeResponse({ ...AT_HOME_RESPONSE, chapter: { hash: 'x', data: [] } }, CHAPTER_UUID)
+    ).toBeNull();
+  });
+
+  it('resolves data-saver URLs to the matching full-quality page', () => {
+    const chapter = parseAtHomeResponse(AT_HOME_RESPONSE, CHAPTER_UUID);
+    if (!chapter) {
+      throw new Error('expected chapter');
+    }
+
+    const saverUrl = `https://cmdxd98sb0x3yprd.mangadex.network/token/data-saver/3303dd03ac8d27452cce3f2a882e94b2/${AT_HOME_RESPONSE.chapter.dataSaver[1]}`;
+
+    expect(resolveFullQualityUrl(saverUrl, chapter)).toBe(chapter.bootstrap.pages[1]?.src);
+    expect(resolveFullQualityUrl('https://example.org/data-saver/h/missing.jpg', chapter)).toBeNull();
+  });
+
+  it('loads the chapter once and lists reader pages in order', async () => {
+    mockAtHome();
+    const adapter = getAdapter();
+    const target = createChapterWindow();
+
+    const [first, second] = await Promise.all([
+      resolveChapterBootstrap(adapter, target),
+      resolveChapterBootstrap(adapter, target),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(`${MANGADEX_AT_HOME_ENDPOINT}/${CHAPTER_UUID}`);
+    expect(second).toBe(first);
+    expect(adapter.getChapterBootstrap(target)).toBe(first);
+    expect(adapter.getChapterBootstrap(createChapterWindow('https://mangadex.org/chapter/00000000-0000-0000-0000-000000000000'))).toBeNull();
+
+    document.body.innerHTML = `
+      <div class='md--reader-pages'>
+        <div class='md--page'><img id='page-1' src='blob:https://mangadex.org/1' /></div>
+        <div class='md--page'><img id='page-2' src='blob:https://mangadex.org/2' /></div>
+      </div>
+    `;
+    if (!first) {
+      throw new Error('expected bootstrap');
+    }
+
+    const pages = adapter.listRenderablePages(document, first);
+    expect(pages.map(page => page.image.id)).toEqual(['page-1', 'page-2']);
+    expect(pages.map(page => page.key)).toEqual([
+      `/chapter/${CHAPTER_UUID}::0`,
+      `/chapter/${CHAPTER_UUID}::1`,
+    ]);
+
+    const blobPage = document.getElementById('page-2') as HTMLImageElement;
+    expect(adapter.resolveCanonicalImage(blobPage, first)).toBe(first.pages[1]?.src);
+  });
+
+  it('finds the next chapter by number across volumes and scanlations', () => {
+    const aggregate = {
+      result: 'ok',
+      volumes: {
+        none: { volume: 'none', chapters: { '12': { chapter: '12', id: 'ch-12', others: [] } } },
+        '1': {
+          volume: '1',
+          chapters: {
+            '2': { chapter: '2', id: 'ch-2', others: [] },
+            '1': { chapter: '1', id: 'ch-1', others: [CHAPTER_UUID] },
+          },
+        },
+      },
+    };
+
+    expect(findNextChapterInAggregate(aggregate, CHAPTER_UUID)).toBe('ch-2');
+    expect(findNextChapterInAggregate(aggregate, 'ch-2')).toBe('ch-12');
+    expect(findNextChapterInAggregate(aggregate, 'ch-12')).toBeNull();
+    expect(findNextChapterInAggregate({ result: 'error' }, CHAPTER_UUID)).toBeNull();
+  });
+
+  it('resolves and loads the next chapter through the API for prefetching', async () => {
+    const nextUuid = 'b1e2c3d4-0000-4000-8000-000000000002';
+    vi.mocked(fetch).mockImplementation(async input => {
+      const url = String(input);
+      const body = url.startsWith(`${MANGADEX_API_BASE}/chapter/`)
+        ? {
+            result: 'ok',
+            data: {
+              id: CHAPTER_UUID,
+              attributes: { chapter: '1', translatedLanguage: 'en' },
+              relationships: [{ id: 'manga-1', type: 'manga' }],
+            },
+          }
+        : url.startsWith(`${MANGADEX_API_BASE}/manga/`)
+          ? {
+              result: 'ok',
+              volumes: {
+                '1': {
+                  chapters: {
+                    '1': { chapter: '1', id: CHAPTER_UUID, others: [] },
+                    '2': { chapter: '2', id: nextUuid, others: [] },
+                  },
+                },
+              },
+            }
+          : AT_HOME_RESPONSE;
+      return { ok: true, status: 200, json: async () => body } as Response;
+    });
+    const adapter = getAdapter();
+
+    expect(await adapter.loadNextChapterUrl?.(new URL(CHAPTER_URL))).toBe(
+      `https://mangadex.org/chapter/${nextUuid}`
+    );
+    expect(fetch).toHaveBeenCalledWith(
+      `${MANGADEX_API_BASE}/manga/manga-1/aggregate?translatedLanguage%5B%5D=en`,
+      expect.anything()
+    );
+
+    // 页面上没有下一章链接，而当前页面不是章节页时不查询 API
+    expect(await resolveNextChapterUrl(adapter, 'a[rel="next"]')).toBeNull();
+
+    const bootstrap = await loadChapterAt(adapter, `https://mangadex.org/chapter/${nextUuid}`);
+    expect(fetch).toHaveBeenLastCalledWith(`${MANGADEX_AT_HOME_ENDPOINT}/${nextUuid}`);
+    expect(bootstrap?.chapterId).toBe(`/chapter/${nextUuid}`);
+    expect(bootstrap?.pages).toHaveLength(2);
+    // 预取的章节不替换当前章节
+    expect(adapter.getChapterBootstrap(createChapterWindow())).toBeNull();
+  });
+
+  it('returns null when the at-home API has no pages', async () => {
+    mockAtHome({ result: 'error', errors: [{ status: 404 }] });
+
+    expect(await resolveChapterBootstrap(getAdapter(), createChapterWindow())).toBeNull();
+  });
+});
@@ -0,0 +1,286 @@
+import { waitForImageLoad } from './image-load';
+import type { ChapterBootstrap, RenderablePage, SiteAdapter } from './site-adapters';
+
+/**
+ * MangaDex 阅读器懒加载页面且多以 blob: URL 展示，页面顺序和原图地址
+ * 只能从 at-home API 获得：
+ *   GET https://api.mangadex.org/at-home/server/{chapterId}
+ *   → { baseUrl, chapter: { hash, data: [...], dataSaver: [...] } }
+ * 原图为 `{baseUrl}/data/{hash}/{file}`，压缩图为 `{baseUrl}/data-saver/{hash}/{file}`。
+ *
+ * 阅读器没有可解析的下一章链接，下一章按作品的章节聚合列表确定：
+ *   GET https://api.mangadex.org/chapter/{chapterId} → 作品 id 与翻译语言
+ *   GET https://api.mangadex.org/manga/{mangaId}/aggregate?translatedLanguage[]={lang}
+ *   → { volumes: { [volume]: { chapters: { [chapter]: { id, others: [...] } } } } }
+ */
+
+export const MANGADEX_AT_HOME_ENDPOINT = 'https://api.mangadex.org/at-home/server';
+export const MANGADEX_API_BASE = 'https://api.mangadex.org';
+
+const MANGADEX_HOSTS = new Set(['mangadex.org', 'www.mangadex.org']);
+
+const MANGADEX_CHAPTER_PATTERN =
+  /^\/chapter\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:\/\d+)?\/?$/i;
+
+export interface MangaDexChapter {
+  bootstrap: ChapterBootstrap;
+  /** data-saver URLs, aligned with `bootstrap.pages` */
+  dataSaverUrls: string[];
+}
+
+let loadedChapter: { uuid: string; chapter: MangaDexChapter } | null = null;
+let pendingLoad: { uuid: string; promise: Promise<MangaDexChapter | null> } | null = null;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function getStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.length > 0)
+    : [];
+}
+
+export function getMangaDexChapterUuid(url: URL): string | null {
+  if (!MANGADEX_HOSTS.has(url.hostname)) {
+    return null;
+  }
+  return MANGADEX_CHAPTER_PATTERN.exec(url.pathname)?.[1]?.toLowerCase() ?? null;
+}
+
+/**
+ * Parses an at-home response into a bootstrap whose page URLs are the
+ * full-quality ("data") files.
+ */
+export function parseAtHomeResponse(
+  value: unknown,
+  uuid: string
+): MangaDexChapter | null {
+  if (!isRecord(value) || value['result'] === 'error') {
+    return null;
+  }
+
+  const baseUrl = value['baseUrl'];
+  const chapter = value['chapter'];
+  if (typeof baseUrl !== 'string' || !baseUrl || !isRecord(chapter)) {
+    return null;
+  }
+
+  const hash = chapter['hash'];
+  const files = getStringList(chapter['data']);
+  if (typeof hash !== 'string' || !hash || files.length === 0) {
+    return null;
+  }
+
+  const root = baseUrl.replace(/\/$/, '');
+  const dataSaverFiles = getStringList(chapter['dataSaver']);
+
+  return {
+    bootstrap: {
+      chapterId: `/chapter/${uuid}`,
+      baseUrl: `${root}/data/${hash}`,
+      pages: files.map((file, index) => ({
+        src: `${root}/data/${hash}/${file}`,
+        width: 0,
+        height: 0,
+        index,
+      })),
+    },
+    dataSaverUrls: dataSaverFiles.map(file => `${root}/data-saver/${hash}/${file}`),
+  };
+}
+
+async function fetchChapter(uuid: string): Promise<MangaDexChapter | null> {
+  const response = await fetch(`${MANGADEX_AT_HOME_ENDPOINT}/${uuid}`);
+  if (!response.ok) {
+    throw new Error(`MangaDex at-home 请求失败: HTTP ${response.status}`);
+  }
+  return parseAtHomeResponse(await response.json(), uuid);
+}
+
+async function fetchApiJson(path: string, signal?: AbortSignal): Promise<unknown> {
+  const response = await fetch(`${MANGADEX_API_BASE}${path}`, { signal });
+  if (!response.ok) {
+    throw new Error(`MangaDex API 请求失败: HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Id of the chapter after `uuid` in an aggregate response, ordered by
+ * chapter number across volumes. Scanlations of the same chapter are
+ * listed under `others` and count as that chapter.
+ */
+export function findNextChapterInAggregate(value: unknown, uuid: string): string | null {
+  if (!isRecord(value) || !isRecord(value['volumes'])) {
+    return null;
+  }
+
+  const chapters = Object.values(value['volumes'])
+    .flatMap(volume =>
+      isRecord(volume) && isRecord(volume['chapters']) ? Object.values(volume['chapters']) : []
+    )
+    .filter(isRecord)
+    .map(chapter => ({
+      id: chapter['id'],
+      ids: [chapter['id'], ...getStringList(chapter['others'])],
+      number: parseFloat(String(chapter['chapter'])),
+    }))
+    .filter(chapter => typeof chapter.id === 'string' && Number.isFinite(chapter.number))
+    .sort((a, b) => a.number - b.number);
+
+  const current = chapters.find(chapter => chapter.ids.includes(uuid));
+  const next = current && chapters.find(chapter => chapter.number > current.number);
+  return typeof next?.id === 'string' ? next.id : null;
+}
+
+async function fetchNextChapterUrl(uuid: string, signal?: AbortSignal): Promise<string | null> {
+  const chapter = await fetchApiJson(`/chapter/${uuid}`, signal);
+  const data = isRecord(chapter) ? chapter['data'] : null;
+  if (!isRecord(data) || !isRecord(data['attributes']) || !Array.isArray(data['relationships'])) {
+    return null;
+  }
+
+  const manga = data['relationships'].find(
+    (relationship: unknown) => isRecord(relationship) && relationship['type'] === 'manga'
+  ) as Record<string, unknown> | undefined;
+  const language = data['attributes']['translatedLanguage'];
+  if (typeof manga?.['id'] !== 'string' || typeof language !== 'string') {
+    return null;
+  }
+
+  const query = new URLSearchParams({ 'translatedLanguage[]': language });
+  const aggregate = await fetchApiJson(`/manga/${manga['id']}/aggregate?${query}`, signal);
+  const nextId = findNextChapterInAggregate(aggregate, uuid);
+  return nextId ? `https://mangadex.org/chapter/${nextId}` : null;
+}
+
+function getLoadedChapter(target: Window & typeof globalThis): MangaDexChapter | null {
+  const uuid = getMangaDexChapterUuid(new URL(target.location.href));
+  return uuid && loadedChapter?.uuid === uuid ? loadedChapter.chapter : null;
+}
+
+function getFileName(url: string): string {
+  const path = url.split(/[?#]/)[0] ?? '';
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Maps a page URL to its full-quality ("data") URL. Data-saver files have
+ * different names, so they are matched by position in the data-saver list.
+ */
+export function resolveFullQualityUrl(
+  url: string,
+  chapter: MangaDexChapter
+): string | null {
+  const { pages } = chapter.bootstrap;
+  const fileName = getFileName(url);
+  if (!fileName) {
+    return null;
+  }
+
+  if (url.includes('/data-saver/')) {
+    const index = chapter.dataSaverUrls.findIndex(
+      saverUrl => getFileName(saverUrl) === fileName
+    );
+    return index === -1 ? null : (pages[index]?.src ?? null);
+  }
+
+  return pages.find(page => getFileName(page.src) === fileName)?.src ?? null;
+}
+
+function getReaderImages(root: ParentNode): HTMLImageElement[] {
+  const container = root.querySelector('.md--reader-pages');
+  if (!container) {
+    return [];
+  }
+
+  return Array.from(container.querySelectorAll<HTMLImageElement>('.md--page img, img'));
+}
+
+export const MANGADEX_ADAPTER: SiteAdapter = {
+  id: 'mangadex',
+  matchesChapter: url => getMangaDexChapterUuid(url) !== null,
+  getChapterBootstrap: target => getLoadedChapter(target)?.bootstrap ?? null,
+  loadChapterBootstrap: async target => {
+    const uuid = getMangaDexChapterUuid(new URL(target.location.href));
+    if (!uuid) {
+      return null;
+    }
+    if (loadedChapter?.uuid === uuid) {
+      return loadedChapter.chapter.bootstrap;
+    }
+
+    // 阅读器是单页应用，切换章节不刷新页面；同一章节的并发请求合并为一次
+    let load = pendingLoad?.uuid === uuid ? pendingLoad.promise : null;
+    if (!load) {
+      const promise = fetchChapter(uuid).finally(() => {
+        if (pendingLoad?.promise === promise) {
+          pendingLoad = null;
+        }
+      });
+      pendingLoad = { uuid, promise };
+      load = promise;
+    }
+
+    const chapter = await load;
+    if (chapter) {
+      loadedChapter = { uuid, chapter };
+    }
+    return chapter?.bootstrap ?? null;
+  },
+  listRenderablePages: (root, bootstrap) => {
+    return getReaderImages(root)
+      .slice(0, bootstrap.pages.length)
+      .map((image, index): RenderablePage | null => {
+        const page = bootstrap.pages[index];
+        return page
+          ? {
+              image,
+              canonicalUrl: page.src,
+              index: page.index,
+              key: `${bootstrap.chapterId}::${page.index}`,
+            }
+          : null;
+      })
+      .filter((page): page is RenderablePage => page !== null);
+  },
+  resolveCanonicalImage: (pageNode, bootstrap) => {
+    const chapter = loadedChapter?.chapter;
+    const src = pageNode.currentSrc || pageNode.src;
+    if (chapter && chapter.bootstrap === bootstrap && src && !src.startsWith('blob:')) {
+      const resolved = resolveFullQualityUrl(src, chapter);
+      if (resolved) {
+        return resolved;
+      }
+    }
+
+    // 阅读器使用 blob: URL 时只能按页面顺序对应
+    const index = getReaderImages(document).indexOf(pageNode);
+    return index === -1 ? null : (bootstrap.pages[index]?.src ?? null);
+  },
+  prepareImage: async (pageNode, canonicalUrl) => {
+    pageNode.crossOrigin = 'anonymous';
+    if (pageNode.src !== canonicalUrl) {
+      pageNode.src = canonicalUrl;
+    }
+    pageNode.loading = 'eager';
+
+    await waitForImageLoad(pageNode);
+  },
+  loadNextChapterUrl: async (url, signal) => {
+    const uuid = getMangaDexChapterUuid(url);
+    return uuid ? fetchNextChapterUrl(uuid, signal) : null;
+  },
+  // 预取其他章节不写入当前章节的缓存
+  loadChapterAt: async url => {
+    const uuid = getMangaDexChapterUuid(url);
+    return uuid ? ((await fetchChapter(uuid))?.bootstrap ?? null) : null;
+  },
+};
+
+/** Clears the loaded chapter; for tests. */
+export function resetMangaDexChapterCache(): void {
+  loadedChapter = null;
+  pendingLoad = null;
+}
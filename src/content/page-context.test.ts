@@ -24,7 +24,7 @@ describe('page-context', () => {
     expect(support).toEqual({
       supported: false,
       site: null,
-      reason: '当前页面不是 ManhwaRead 章节阅读页',
+      reason: '当前页面不是已支持站点的章节阅读页',
     });
   });
 
@@ -15,7 +15,7 @@ export function createSupportState(
     return {
       supported: false,
       site: null,
-      reason: '当前页面不是 ManhwaRead 章节阅读页',
+      reason: '当前页面不是已支持站点的章节阅读页',
     };
   }
 
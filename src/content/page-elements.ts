@@ -0,0 +1,84 @@
+/**
+ * 页面上承载漫画页的元素不止 `<img>`：部分阅读器把页面画在 `<canvas>` 上，
+ * 或作为 `background-image` 铺在 div 上。这里统一读取这些元素的图片地址、
+ * 尺寸和去重 key。
+ */
+
+/** Attributes some readers keep the drawn page's URL in */
+const CANVAS_SOURCE_ATTRIBUTES = ['data-src', 'data-url', 'data-original'];
+
+const BACKGROUND_URL_PATTERN = /url\(\s*(['"]?)(.*?)\1\s*\)/;
+
+function resolveUrl(value: string, baseUri: string): string | null {
+  try {
+    return new URL(value, baseUri).href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * First `url(...)` of the element's computed `background-image`, resolved
+ * against the document. Gradients and `none` yield null.
+ */
+export function getBackgroundImageUrl(element: HTMLElement): string | null {
+  const value = window.getComputedStyle(element).backgroundImage;
+  const match = value ? BACKGROUND_URL_PATTERN.exec(value) : null;
+  const url = match?.[2]?.trim();
+  return url ? resolveUrl(url, element.baseURI) : null;
+}
+
+/**
+ * URL the element's pixels can be re-fetched from: the image source, the
+ * background image, or for canvases a source attribute left by the reader.
+ * Canvases without one can only be read back directly.
+ */
+export function getPageElementSourceUrl(element: HTMLElement): string | null {
+  if (element instanceof HTMLImageElement) {
+    return element.currentSrc || element.src || null;
+  }
+
+  if (element instanceof HTMLCanvasElement) {
+    for (const attribute of CANVAS_SOURCE_ATTRIBUTES) {
+      const value = element.getAttribute(attribute)?.trim();
+      if (value) {
+        return resolveUrl(value, element.baseURI);
+      }
+    }
+    return null;
+  }
+
+  return getBackgroundImageUrl(element);
+}
+
+/** Intrinsic pixel size, falling back to the laid-out size */
+export function getPageElementSize(element: HTMLElement): { width: number; height: number } {
+  if (element instanceof HTMLImageElement) {
+    return {
+      width: element.naturalWidth || element.width,
+      height: element.naturalHeight || element.height,
+    };
+  }
+
+  if (element instanceof HTMLCanvasElement) {
+    return { width: element.width, height: element.height };
+  }
+
+  return { width: element.offsetWidth, height: element.offsetHeight };
+}
+
+/**
+ * 启发式扫描结果的去重 key：优先用图片地址，否则退回元素位置与尺寸。
+ */
+export function getPageElementKey(element: HTMLElement): string {
+  const sourceUrl =
+    element instanceof HTMLImageElement ? element.src : getPageElementSourceUrl(element);
+  if (sourceUrl) {
+    return sourceUrl;
+  }
+
+  const { width, height } =
+    element instanceof HTMLImageElement ? element : getPageElementSize(element);
+  const prefix = element instanceof HTMLImageElement ? 'img' : element.tagName.toLowerCase();
+  return `${prefix}-${element.offsetLeft}-${element.offsetTop}-${width}-${height}`;
+}
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { collectPageTargets, listPageTargets } from './page-targets';
+import { matchSiteAdapter } from './site-adapters';
+
+const CHAPTER_PAGES_BASE64 =
+  'W3sic3JjIjoiNTMwODcvbXJfMDAxLmpwZyIsInciOjEwODAsImgiOjUwMDB9LHsic3JjIjoiNTMwODcvbXJfMDAyLmpwZyIsInciOjEwODAsImgiOjUwMDB9XQ==';
+
+function installChapterData() {
+  Object.defineProperty(window, 'chapterData', {
+    configurable: true,
+    value: {
+      base: 'https://manread.xyz/1268',
+      data: CHAPTER_PAGES_BASE64,
+    },
+    writable: true,
+  });
+}
+
+// jsdom 不加载图片资源，手动标记为已加载
+function markLoaded(...ids: string[]) {
+  for (const id of ids) {
+    Object.defineProperty(document.getElementById(id), 'complete', { value: true });
+  }
+}
+
+function getAdapter() {
+  const adapter = matchSiteAdapter('https://manhwaread.com/manhwa/outro/chapter-1/');
+  if (!adapter) {
+    throw new Error('expected adapter');
+  }
+  return adapter;
+}
+
+describe('page-targets', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    delete (window as Window & { chapterData?: unknown }).chapterData;
+  });
+
+  it('uses the adapter page list with canonical URLs and stable keys', () => {
+    installChapterData();
+    document.body.innerHTML = `
+      <div id='reader'>
+        <div id='imagesList'>
+          <div class='reading-page'><img id='page-1' class='reading-image' /></div>
+          <div class='reading-page'><img id='page-2' class='reading-image' /></div>
+        </div>
+      </div>
+      <img id='banner' src='https://example.org/banner.jpg' width='800' height='600' />
+    `;
+
+    const targets = listPageTargets(getAdapter());
+
+    expect(targets.map(target => target.image.id)).toEqual(['page-1', 'page-2']);
+    expect(targets.map(target => target.index)).toEqual([0, 1]);
+    expect(targets[1]).toMatchObject({
+      canonicalUrl: 'https://manread.xyz/1268/53087/mr_002.jpg',
+      key: expect.stringMatching(/::1$/),
+    });
+  });
+
+  it('falls back to scanning page images without an adapter', () => {
+    document.body.innerHTML = `
+      <img id='page' src='https://example.org/page-1.jpg' width='800' height='1200' />
+      <img id='icon' src='https://example.org/icon.png' width='32' height='32' />
+    `;
+    markLoaded('page', 'icon');
+
+    const targets = listPageTargets(null);
+
+    expect(targets).toHaveLength(1);
+    expect(targets[0]).toMatchObject({
+      key: 'https://example.org/page-1.jpg',
+      canonicalUrl: null,
+      chapterId: null,
+    });
+  });
+
+  it('scans reader canvases and background-image pages', () => {
+    document.body.innerHTML = `
+      <canvas id='canvas-page' width='900' height='1300' data-src='/pages/1.jpg'></canvas>
+      <div id='bg-page' style="background-image: url('https://example.org/pages/2.jpg')"></div>
+      <div id='bg-container' style="background-image: url('https://example.org/texture.png')">
+        <img id='inner' src='https://example.org/pages/3.jpg' width='800' height='1200' />
+      </div>
+      <canvas id='chart' width='120' height='80'></canvas>
+    `;
+    markLoaded('inner');
+    for (const id of ['bg-page', 'bg-container']) {
+      const element = document.getElementById(id);
+      Object.defineProperty(element, 'offsetWidth', { value: 800 });
+      Object.defineProperty(element, 'offsetHeight', { value: 1200 });
+    }
+
+    const targets = listPageTargets(null);
+
+    expect(targets.map(target => target.image.id).sort()).toEqual(['bg-page', 'canvas-page', 'inner']);
+    expect(targets.find(target => target.image.id === 'bg-page')?.key).toBe(
+      'https://example.org/pages/2.jpg'
+    );
+    expect(targets.find(target => target.image.id === 'canvas-page')?.key).toBe(
+      new URL('/pages/1.jpg', document.baseURI).href
+    );
+  });
+
+  it('reads computed styles only for page-sized background candidates', () => {
+    document.body.innerHTML = `
+      <div id='layout'><span>title</span><li>item</li></div>
+      <div id='class-page' class='page-bg'></div>
+    `;
+    const page = document.getElementById('class-page') as HTMLElement;
+    Object.defineProperty(page, 'offsetWidth', { value: 800 });
+    Object.defineProperty(page, 'offsetHeight', { value: 1200 });
+    const getComputedStyle = vi
+      .spyOn(window, 'getComputedStyle')
+      .mockReturnValue({
+        backgroundImage: 'url("https://example.org/pages/4.jpg")',
+      } as CSSStyleDeclaration);
+
+    const targets = listPageTargets(null);
+
+    expect(targets.map(target => target.image.id)).toEqual(['class-page']);
+    expect(getComputedStyle.mock.calls.map(([element]) => element)).toEqual([page, page]);
+    getComputedStyle.mockRestore();
+  });
+
+  it('falls back to scanning when the chapter pages never render', async () => {
+    installChapterData();
+    document.body.innerHTML = `
+      <img id='page' src='https://example.org/page-1.jpg' width='800' height='1200' />
+    `;
+    markLoaded('page');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const targets = await collectPageTargets(getAdapter(), 10);
+
+    expect(targets.map(target => target.image.id)).toEqual(['page']);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,107 @@
+import { getViewportFirstImages } from '@/utils/image-priority';
+import {
+  findBackgroundPages,
+  isTranslatableCanvas,
+  isTranslatableImage,
+} from './image-filter';
+import { getPageElementKey } from './page-elements';
+import {
+  resolveChapterBootstrap,
+  waitForRenderablePages,
+  type RenderablePage,
+  type SiteAdapter,
+} from './site-adapters';
+
+/**
+ * 一张待翻译的页面图片。
+ *
+ * 站点适配器命中时来自章节数据（`RenderablePage`）：`index` 是章节内页码，
+ * `key` 形如 `chapterId::index`，在懒加载替换 src 后依然稳定；
+ * 否则来自对页面 `<img>`、`<canvas>` 与背景图元素的启发式扫描，
+ * `canonicalUrl` 为 null。
+ */
+export interface PageTarget {
+  image: HTMLElement;
+  key: string;
+  index: number;
+  canonicalUrl: string | null;
+  chapterId: string | null;
+}
+
+function fromRenderablePages(
+  pages: RenderablePage[],
+  chapterId: string
+): PageTarget[] {
+  return [...pages]
+    .sort((a, b) => a.index - b.index)
+    .map(page => ({
+      image: page.image,
+      key: page.key,
+      index: page.index,
+      canonicalUrl: page.canonicalUrl,
+      chapterId,
+    }));
+}
+
+function scanPageImages(root: ParentNode): PageTarget[] {
+  const images: HTMLElement[] = Array.from(root.querySelectorAll('img')).filter(img =>
+    isTranslatableImage(img)
+  );
+  const canvases = Array.from(root.querySelectorAll('canvas')).filter(canvas =>
+    isTranslatableCanvas(canvas)
+  );
+  const backgrounds = findBackgroundPages(root);
+
+  return getViewportFirstImages([...images, ...canvases, ...backgrounds]).map((image, index) => ({
+    image,
+    key: getPageElementKey(image),
+    index,
+    canonicalUrl: null,
+    chapterId: null,
+  }));
+}
+
+/**
+ * 同步列出当前可翻译的页面：适配器已渲染出章节页时按页码顺序返回，
+ * 否则退回启发式扫描（视口内的图片优先）。
+ */
+export function listPageTargets(
+  adapter: SiteAdapter | null,
+  root: ParentNode = document
+): PageTarget[] {
+  const bootstrap = adapter?.getChapterBootstrap(window);
+  if (adapter && bootstrap) {
+    const pages = adapter.listRenderablePages(root, bootstrap);
+    if (pages.length > 0) {
+      return fromRenderablePages(pages, bootstrap.chapterId);
+    }
+  }
+
+  return scanPageImages(root);
+}
+
+/**
+ * 与 `listPageTargets` 相同，但适配器识别出章节而阅读器尚未渲染页面时，
+ * 先等待章节图片出现；等待超时再退回启发式扫描。
+ */
+export async function collectPageTargets(
+  adapter: SiteAdapter | null,
+  timeoutMs?: number
+): Promise<PageTarget[]> {
+  if (!adapter) {
+    return scanPageImages(document);
+  }
+
+  try {
+    const bootstrap = await resolveChapterBootstrap(adapter);
+    if (!bootstrap) {
+      return scanPageImages(document);
+    }
+
+    const pages = await waitForRenderablePages(adapter, timeoutMs);
+    return fromRenderablePages(pages, bootstrap.chapterId);
+  } catch (error) {
+    console.warn('[ContentScript] 章节页面未就绪，改为扫描页面图片:', error);
+    return scanPageImages(document);
+  }
+}
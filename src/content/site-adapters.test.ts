@@ -2,9 +2,12 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import {
   collectSiteCandidateImages,
+  findManhwaReadNextChapter,
   getRealImageSource,
   matchSiteAdapter,
   prepareImageForTranslation,
+  registerSiteAdapter,
+  unregisterSiteAdapter,
   waitForRenderablePages,
 } from './site-adapters';
 
@@ -62,6 +65,22 @@ describe('site-adapters', () => {
     expect(matchSiteAdapter('https://example.com')).toBeNull();
   });
 
+  it('matches adapters added to the registry', () => {
+    registerSiteAdapter({
+      id: 'example-reader',
+      matchesChapter: url => url.hostname === 'example.com',
+      getChapterBootstrap: () => null,
+      listRenderablePages: () => [],
+      resolveCanonicalImage: () => null,
+      prepareImage: async () => undefined,
+    });
+
+    expect(matchSiteAdapter('https://example.com/read/1')?.id).toBe('example-reader');
+
+    unregisterSiteAdapter('example-reader');
+    expect(matchSiteAdapter('https://example.com/read/1')).toBeNull();
+  });
+
   it('parses canonical chapter image URLs from chapterData', () => {
     const adapter = getAdapter();
     const bootstrap = adapter?.getChapterBootstrap(createChapterWindow());
@@ -73,6 +92,29 @@ describe('site-adapters', () => {
     ]);
   });
 
+  it('picks the lowest later chapter of the same series as the next chapter', () => {
+    document.body.innerHTML = `
+      <nav id='readingNavTop'>
+        <a href='/manhwa/outro/chapter-1/'>Prev</a>
+        <a href='/manhwa/other/chapter-3/'>Other</a>
+        <a href='/manhwa/outro/chapter-10/'>10</a>
+        <a href='https://manhwaread.com/manhwa/outro/chapter-2-5/'>2.5</a>
+        <a href='/manhwa/outro/'>Index</a>
+      </nav>
+    `;
+    const base = document.createElement('base');
+    base.href = 'https://manhwaread.com/';
+    document.head.appendChild(base);
+
+    expect(
+      findManhwaReadNextChapter(document, new URL('https://manhwaread.com/manhwa/outro/chapter-2/'))
+    ).toBe('https://manhwaread.com/manhwa/outro/chapter-2-5/');
+    expect(
+      findManhwaReadNextChapter(document, new URL('https://manhwaread.com/manhwa/outro/chapter-10/'))
+    ).toBeNull();
+    base.remove();
+  });
+
   it('lists only chapter images inside #reader #imagesList', () => {
     document.body.innerHTML = `
       <div id='reader'>
@@ -1,3 +1,9 @@
+import type { SupportedSite } from '@/shared/runtime-contracts';
+
+import { waitForImageLoad } from './image-load';
+import { MANGADEX_ADAPTER } from './mangadex-adapter';
+import { WEBTOON_ADAPTER } from './webtoon-adapter';
+
 export interface ChapterBootstrapPage {
   src: string;
   width: number;
@@ -19,11 +25,23 @@ export interface RenderablePage {
 }
 
 export interface SiteAdapter {
-  id: 'manhwaread';
+  id: SupportedSite;
+  /**
+   * `strip`: consecutive images are slices of one vertical strip (webtoon)
+   * and are translated as one stitched canvas. Defaults to `pages`.
+   */
+  layout?: 'pages' | 'strip';
   matchesChapter: (url: URL) => boolean;
   getChapterBootstrap: (
     target: Window & typeof globalThis
   ) => ChapterBootstrap | null;
+  /**
+   * Adapters whose page list comes from a network API fetch it here;
+   * `getChapterBootstrap` then returns the loaded chapter synchronously.
+   */
+  loadChapterBootstrap?: (
+    target: Window & typeof globalThis
+  ) => Promise<ChapterBootstrap | null>;
   listRenderablePages: (
     root: ParentNode,
     bootstrap: ChapterBootstrap
@@ -36,6 +54,18 @@ export interface SiteAdapter {
     pageNode: HTMLImageElement,
     canonicalUrl: string
   ) => Promise<void>;
+  /** URL of the next chapter, when the reader links to it */
+  getNextChapterUrl?: (root: ParentNode) => string | null;
+  /** URL of the next chapter from the site's API, for readers without a link */
+  loadNextChapterUrl?: (url: URL, signal?: AbortSignal) => Promise<string | null>;
+  /**
+   * Page list of another chapter for prefetching, from its fetched HTML.
+   * Scripts of that document never run, so data they inject must be parsed
+   * from the markup.
+   */
+  parseChapterDocument?: (doc: Document, url: URL) => ChapterBootstrap | null;
+  /** Page list of another chapter for prefetching, from the site's API */
+  loadChapterAt?: (url: URL, signal?: AbortSignal) => Promise<ChapterBootstrap | null>;
 }
 
 interface ManhwaReadChapterData {
@@ -56,6 +86,11 @@ interface ChapterPageRecord {
 const MANHWAREAD_CHAPTER_PATTERN =
   /^\/manhwa\/[^/]+\/chapter-[^/]+\/?$/;
 
+const MANHWAREAD_CHAPTER_NUMBER_PATTERN =
+  /^\/manhwa\/([^/]+)\/chapter-(\d+)(?:[-.](\d+))?\/?$/;
+
+const CHAPTER_DATA_PATTERN = /\bchapterData\s*=\s*(\{[\s\S]*?\})/;
+
 function decodeChapterPages(encoded: string): ChapterPageRecord[] {
   try {
     const bufferCtor = (
@@ -91,6 +126,94 @@ function getChapterId(url: URL): string {
   return url.pathname.replace(/\/$/, '');
 }
 
+function buildManhwaReadBootstrap(
+  chapterData: ManhwaReadChapterData | undefined,
+  url: URL
+): ChapterBootstrap | null {
+  if (!chapterData?.data || !chapterData.base) {
+    return null;
+  }
+
+  const base = chapterData.base;
+  const pages = decodeChapterPages(chapterData.data)
+    .filter(page => typeof page.src === 'string' && page.src.length > 0)
+    .map((page, index) => ({
+      src: createCanonicalUrl(base, page.src as string),
+      width: typeof page.w === 'number' ? page.w : 0,
+      height: typeof page.h === 'number' ? page.h : 0,
+      index,
+    }));
+
+  if (pages.length === 0) {
+    return null;
+  }
+
+  return {
+    chapterId: getChapterId(url),
+    baseUrl: base,
+    pages,
+  };
+}
+
+/**
+ * `chapterData` as assigned by the inline script of a fetched chapter page,
+ * whose scripts never run
+ */
+function parseChapterDataScript(doc: Document): ManhwaReadChapterData | undefined {
+  for (const script of Array.from(doc.querySelectorAll('script:not([src])'))) {
+    const literal = CHAPTER_DATA_PATTERN.exec(script.textContent ?? '')?.[1];
+    if (!literal) continue;
+
+    const readField = (name: string) =>
+      new RegExp(`[{,\\s]["']?${name}["']?\\s*:\\s*(["'])(.*?)\\1`)
+        .exec(literal)?.[2]
+        ?.replace(/\\\//g, '/');
+    return { data: readField('data'), base: readField('base') };
+  }
+  return undefined;
+}
+
+function getManhwaReadChapterNumber(url: URL): { series: string; chapter: number } | null {
+  const match = MANHWAREAD_CHAPTER_NUMBER_PATTERN.exec(url.pathname);
+  if (url.hostname !== 'manhwaread.com' || !match?.[1] || !match[2]) {
+    return null;
+  }
+  return {
+    series: match[1],
+    chapter: Number(`${match[2]}.${match[3] ?? '0'}`),
+  };
+}
+
+/**
+ * 阅读页的章节导航与目录都链接到同一作品的章节，取章节号大于当前章的
+ * 最小者为下一章，不依赖按钮的类名或文字。
+ */
+export function findManhwaReadNextChapter(root: ParentNode, currentUrl: URL): string | null {
+  const current = getManhwaReadChapterNumber(currentUrl);
+  if (!current) {
+    return null;
+  }
+
+  let next: { url: string; chapter: number } | null = null;
+  for (const link of Array.from(root.querySelectorAll<HTMLAnchorElement>('a[href]'))) {
+    let url: URL;
+    try {
+      url = new URL(link.getAttribute('href') ?? '', link.baseURI);
+    } catch {
+      continue;
+    }
+    const candidate = getManhwaReadChapterNumber(url);
+    if (
+      candidate?.series === current.series &&
+      candidate.chapter > current.chapter &&
+      (!next || candidate.chapter < next.chapter)
+    ) {
+      next = { url: url.href, chapter: candidate.chapter };
+    }
+  }
+  return next?.url ?? null;
+}
+
 function getReaderImages(root: ParentNode): HTMLImageElement[] {
   const container = root.querySelector('#reader #imagesList');
   if (!container) {
@@ -104,69 +227,16 @@ function getReaderImages(root: ParentNode): HTMLImageElement[] {
   ).filter(image => !image.closest('#readingNavTop, #readingNavBottom'));
 }
 
-async function waitForImageLoad(image: HTMLImageElement): Promise<void> {
-  if (image.complete && image.naturalWidth > 0) {
-    return;
-  }
-
-  await new Promise<void>((resolve, reject) => {
-    const timeoutId = window.setTimeout(() => {
-      cleanup();
-      reject(new Error('章节图片加载超时'));
-    }, 10000);
-
-    const cleanup = () => {
-      window.clearTimeout(timeoutId);
-      image.removeEventListener('load', handleLoad);
-      image.removeEventListener('error', handleError);
-    };
-
-    const handleLoad = () => {
-      cleanup();
-      resolve();
-    };
-
-    const handleError = () => {
-      cleanup();
-      reject(new Error('章节图片加载失败'));
-    };
-
-    image.addEventListener('load', handleLoad, { once: true });
-    image.addEventListener('error', handleError, { once: true });
-  });
-}
-
 const MANHWAREAD_ADAPTER: SiteAdapter = {
   id: 'manhwaread',
   matchesChapter: url =>
     url.hostname === 'manhwaread.com' &&
     MANHWAREAD_CHAPTER_PATTERN.test(url.pathname),
-  getChapterBootstrap: target => {
-    const chapterData = (target as ManhwaReadWindow).chapterData;
-
-    if (!chapterData?.data || !chapterData.base) {
-      return null;
-    }
-
-    const pages = decodeChapterPages(chapterData.data)
-      .filter(page => typeof page.src === 'string' && page.src.length > 0)
-      .map((page, index) => ({
-        src: createCanonicalUrl(chapterData.base as string, page.src as string),
-        width: typeof page.w === 'number' ? page.w : 0,
-        height: typeof page.h === 'number' ? page.h : 0,
-        index,
-      }));
-
-    if (pages.length === 0) {
-      return null;
-    }
-
-    return {
-      chapterId: getChapterId(new URL(target.location.href)),
-      baseUrl: chapterData.base,
-      pages,
-    };
-  },
+  getChapterBootstrap: target =>
+    buildManhwaReadBootstrap(
+      (target as ManhwaReadWindow).chapterData,
+      new URL(target.location.href)
+    ),
   listRenderablePages: (root, bootstrap) => {
     const images = getReaderImages(root);
 
@@ -209,15 +279,57 @@ const MANHWAREAD_ADAPTER: SiteAdapter = {
 
     await waitForImageLoad(pageNode);
   },
+  getNextChapterUrl: root =>
+    findManhwaReadNextChapter(root, new URL(window.location.href)),
+  parseChapterDocument: (doc, url) =>
+    buildManhwaReadBootstrap(parseChapterDataScript(doc), url),
 };
 
+const siteAdapters: SiteAdapter[] = [
+  MANHWAREAD_ADAPTER,
+  MANGADEX_ADAPTER,
+  WEBTOON_ADAPTER,
+];
+
+/**
+ * Adds an adapter to the registry, replacing any adapter with the same id.
+ * Adapters are tried in registration order; the first match wins.
+ */
+export function registerSiteAdapter(adapter: SiteAdapter): void {
+  const index = siteAdapters.findIndex(existing => existing.id === adapter.id);
+  if (index === -1) {
+    siteAdapters.push(adapter);
+  } else {
+    siteAdapters[index] = adapter;
+  }
+}
+
+export function unregisterSiteAdapter(id: SupportedSite): void {
+  const index = siteAdapters.findIndex(adapter => adapter.id === id);
+  if (index !== -1) {
+    siteAdapters.splice(index, 1);
+  }
+}
+
 export function matchSiteAdapter(
   value: string | URL = window.location.href
 ): SiteAdapter | null {
   const url = typeof value === 'string' ? new URL(value) : value;
-  return MANHWAREAD_ADAPTER.matchesChapter(url)
-    ? MANHWAREAD_ADAPTER
-    : null;
+  return siteAdapters.find(adapter => adapter.matchesChapter(url)) ?? null;
+}
+
+/**
+ * Loads the adapter's chapter data when it comes from an API, then returns
+ * the bootstrap (null when the page is not a readable chapter).
+ */
+export async function resolveChapterBootstrap(
+  adapter: SiteAdapter,
+  target: Window & typeof globalThis = window
+): Promise<ChapterBootstrap | null> {
+  if (adapter.loadChapterBootstrap) {
+    return adapter.loadChapterBootstrap(target);
+  }
+  return adapter.getChapterBootstrap(target);
 }
 
 export function collectSiteCandidateImages(
@@ -282,7 +394,7 @@ export async function waitForRenderablePages(
   adapter: SiteAdapter,
   timeoutMs: number = 10000
 ): Promise<RenderablePage[]> {
-  const initialBootstrap = adapter.getChapterBootstrap(window);
+  const initialBootstrap = await resolveChapterBootstrap(adapter);
   if (!initialBootstrap) {
     throw new Error('未检测到章节数据');
   }
@@ -0,0 +1,191 @@
+import type { TextArea } from '@/providers/base';
+import type { OverlayRenderer } from '@/services/renderer';
+import {
+  calculateHash,
+  loadImageViaBackground,
+} from '@/services/image-processor';
+import {
+  buildStripLayout,
+  dedupeStripAreas,
+  planStripWindows,
+  renderStripWindow,
+  splitStripAreas,
+  toStripAreas,
+  type StripLayout,
+  type StripTextArea,
+  type StripWindow,
+} from '@/services/strip-stitcher';
+import type { TranslatorService } from '@/services/translator';
+import { processInParallel } from '@/utils/image-priority';
+import { waitForImageLoad } from './image-load';
+import type { PageTarget } from './page-targets';
+import type { SiteAdapter } from './site-adapters';
+
+export interface StripTranslationOptions {
+  translator: TranslatorService;
+  renderer: OverlayRenderer;
+  adapter: SiteAdapter | null;
+  forceRefresh: boolean;
+  maxConcurrent: number;
+  signal?: AbortSignal;
+  /** Called with completed / total windows */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface StripTranslationResult {
+  translatedKeys: string[];
+  failedKeys: string[];
+  cachedCount: number;
+}
+
+function isTaintedCanvasError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'SecurityError';
+}
+
+/**
+ * 跨域切片会污染 canvas：改由 background 代取字节，再以 data: URL 载入。
+ */
+async function loadProxiedSources(
+  images: HTMLImageElement[]
+): Promise<HTMLImageElement[]> {
+  return Promise.all(
+    images.map(image => loadImageViaBackground(image.currentSrc || image.src))
+  );
+}
+
+interface StripSliceTarget extends PageTarget {
+  image: HTMLImageElement;
+}
+
+async function prepareTargets(
+  targets: PageTarget[],
+  adapter: SiteAdapter | null
+): Promise<{ ready: StripSliceTarget[]; failed: PageTarget[] }> {
+  const ready: StripSliceTarget[] = [];
+  const failed: PageTarget[] = [];
+
+  for (const target of targets) {
+    const { image } = target;
+    if (!(image instanceof HTMLImageElement)) {
+      // 竖条切片只来自站点适配器，总是 <img>
+      failed.push(target);
+      continue;
+    }
+    try {
+      if (adapter && target.canonicalUrl) {
+        await adapter.prepareImage(image, target.canonicalUrl);
+      } else {
+        await waitForImageLoad(image);
+      }
+      ready.push({ ...target, image });
+    } catch (error) {
+      console.warn('[StripTranslation] 切片加载失败:', target.key, error);
+      failed.push(target);
+    }
+  }
+
+  return { ready, failed };
+}
+
+function slicesInWindow(layout: StripLayout, stripWindow: StripWindow): number[] {
+  const bottom = stripWindow.top + stripWindow.height;
+  return layout.slices
+    .filter(slice => slice.top < bottom && slice.top + slice.height > stripWindow.top)
+    .map(slice => slice.index);
+}
+
+/**
+ * 把连续的竖条切片当作一张长图翻译：按重叠窗口送给 Provider，合并重复
+ * 识别的气泡后按切片渲染覆盖层。覆盖层落在失败窗口内的切片记为失败。
+ */
+export async function translateStrip(
+  targets: PageTarget[],
+  options: StripTranslationOptions
+): Promise<StripTranslationResult> {
+  const { translator, renderer, signal } = options;
+  const { ready, failed } = await prepareTargets(targets, options.adapter);
+  const images = ready.map(target => target.image);
+
+  const layout = buildStripLayout(
+    images.map(image => ({ width: image.naturalWidth, height: image.naturalHeight }))
+  );
+  const windows = planStripWindows(layout);
+  const chapterId = ready[0]?.chapterId ?? undefined;
+  const stripKey = ready[0]?.key ?? 'strip';
+
+  let sources: Promise<CanvasImageSource[]> = Promise.resolve(images);
+  let proxied = false;
+  const encodeWindow = async (stripWindow: StripWindow): Promise<string> => {
+    try {
+      return renderStripWindow(await sources, layout, stripWindow);
+    } catch (error) {
+      if (!isTaintedCanvasError(error)) throw error;
+      if (!proxied) {
+        proxied = true;
+        sources = loadProxiedSources(images);
+      }
+      return renderStripWindow(await sources, layout, stripWindow);
+    }
+  };
+
+  const stripAreas: StripTextArea[] = [];
+  const failedSlices = new Set<number>();
+  let cachedCount = 0;
+
+  await processInParallel(
+    windows,
+    async stripWindow => {
+      const base64 = await encodeWindow(stripWindow);
+      const result = await translator.translateEncodedImage(
+        { base64, mimeType: 'image/jpeg', hash: await calculateHash(base64) },
+        {
+          imageKey: `${stripKey}::window-${stripWindow.index}`,
+          chapterId,
+          scope: 'chapter',
+          forceRefresh: options.forceRefresh,
+          signal,
+        }
+      );
+      if (!result.success) {
+        throw new Error(result.error || 'Translation failed');
+      }
+      if (result.cached) {
+        cachedCount++;
+      }
+      stripAreas.push(...toStripAreas(result.textAreas, stripWindow, layout));
+    },
+    {
+      maxConcurrent: options.maxConcurrent,
+      signal,
+      onItemComplete: completed => options.onProgress?.(completed, windows.length),
+      onError: (error, index) => {
+        console.warn('[StripTranslation] 窗口翻译失败:', index, error.message);
+        const stripWindow = windows[index];
+        if (stripWindow) {
+          slicesInWindow(layout, stripWindow).forEach(slice => failedSlices.add(slice));
+        }
+      },
+    }
+  );
+
+  const translatedKeys: string[] = [];
+  const failedKeys = failed.map(target => target.key);
+  if (signal?.aborted) {
+    return { translatedKeys, failedKeys, cachedCount };
+  }
+
+  const areasBySlice = splitStripAreas(dedupeStripAreas(stripAreas), layout);
+  ready.forEach((target, index) => {
+    if (failedSlices.has(index)) {
+      failedKeys.push(target.key);
+      return;
+    }
+    const areas: TextArea[] = areasBySlice.get(index) ?? [];
+    if (areas.length > 0) {
+      renderer.render(target.image, areas, false, target.canonicalUrl ?? undefined);
+    }
+    translatedKeys.push(target.key);
+  });
+
+  return { translatedKeys, failedKeys, cachedCount };
+}
@@ -0,0 +1,140 @@
+/**
+ * transcript-panel.test.ts
+ *
+ * 测试译文对照面板的条目渲染、点击派发与页面边距
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TRANSCRIPT_SELECT_EVENT, TranscriptPanel } from './transcript-panel';
+import type { TranscriptSelectDetail } from './transcript-panel';
+
+// ==================== 辅助函数 ====================
+
+function getShadow(): ShadowRoot {
+  const host = document.querySelector(
+    '[data-manga-translator-transcript]'
+  ) as HTMLElement;
+  return host.shadowRoot as ShadowRoot;
+}
+
+function getEntries(): HTMLElement[] {
+  return Array.from(getShadow().querySelectorAll<HTMLElement>('.entry'));
+}
+
+// ==================== 测试用例 ====================
+
+describe('TranscriptPanel', () => {
+  let panel: TranscriptPanel;
+  let first: HTMLElement;
+  let second: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<img id="first" /><img id="second" />';
+    document.documentElement.style.marginRight = '4px';
+    first = document.getElementById('first') as HTMLElement;
+    second = document.getElementById('second') as HTMLElement;
+    panel = new TranscriptPanel();
+    panel.update([
+      {
+        anchor: first,
+        entries: [
+          {
+            index: 0,
+            area: { originalText: 'おはよう', translatedText: '早上好' },
+          },
+          {
+            index: 1,
+            area: { originalText: '<b>ドン</b>', translatedText: '咚' },
+          },
+        ],
+      },
+      {
+        anchor: second,
+        // 条目按阅读顺序排列，index 仍指向渲染时的文字区域
+        entries: [
+          {
+            index: 1,
+            area: { originalText: 'またね', translatedText: '回头见' },
+          },
+          { index: 0, area: { originalText: 'じゃ', translatedText: '那' } },
+        ],
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    panel.destroy();
+    document.documentElement.style.marginRight = '';
+  });
+
+  it('应按页面顺序列出原文与译文', () => {
+    const shadow = getShadow();
+    const titles = Array.from(shadow.querySelectorAll('.page-title')).map(
+      el => el.textContent
+    );
+    expect(titles).toEqual(['第 1 页', '第 2 页']);
+    expect(shadow.getElementById('panel-count')?.textContent).toBe(
+      '2 页 · 4 处'
+    );
+
+    const entries = getEntries();
+    expect(
+      entries.map(
+        entry => entry.querySelector('.entry-translated')?.textContent
+      )
+    ).toEqual(['早上好', '咚', '回头见', '那']);
+    // 原文按纯文本显示，不解析为 HTML
+    expect(entries[1]?.querySelector('.entry-original')?.textContent).toBe(
+      '<b>ドン</b>'
+    );
+    expect(entries[1]?.querySelector('b')).toBeNull();
+  });
+
+  it('点击条目应派发 transcript-select 事件并标记为当前项', () => {
+    const listener = vi.fn();
+    document.addEventListener(TRANSCRIPT_SELECT_EVENT, listener);
+
+    getEntries()[2]?.querySelector<HTMLElement>('.entry-translated')?.click();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const detail = (
+      listener.mock.calls[0]?.[0] as CustomEvent<TranscriptSelectDetail>
+    ).detail;
+    expect(detail).toEqual({ anchor: second, index: 1 });
+    expect(getEntries()[2]?.classList.contains('entry--active')).toBe(true);
+    document.removeEventListener(TRANSCRIPT_SELECT_EVENT, listener);
+  });
+
+  it('刷新条目后应保留当前项', () => {
+    panel.setActive(first, 1);
+    panel.update([
+      {
+        anchor: first,
+        entries: [
+          { index: 0, area: { originalText: 'a', translatedText: 'b' } },
+          { index: 1, area: { originalText: 'c', translatedText: 'd' } },
+        ],
+      },
+    ]);
+    expect(getEntries()[1]?.classList.contains('entry--active')).toBe(true);
+  });
+
+  it('展开时应为页面留出右边距，收起与销毁时还原', () => {
+    expect(document.documentElement.style.marginRight).toBe('320px');
+
+    (getShadow().getElementById('collapse-btn') as HTMLElement).click();
+    expect(document.documentElement.style.marginRight).toBe('4px');
+    expect(
+      (getShadow().getElementById('panel') as HTMLElement).style.display
+    ).toBe('none');
+
+    (getShadow().getElementById('expand-btn') as HTMLElement).click();
+    expect(document.documentElement.style.marginRight).toBe('320px');
+
+    panel.destroy();
+    expect(document.documentElement.style.marginRight).toBe('4px');
+    expect(
+      document.querySelector('[data-manga-translator-transcript]')
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Transcript Panel - 译文对照面板
+ *
+ * 纯原生 DOM 实现，与 FloatingHud 一样通过 Shadow DOM 隔离样式。
+ * 停靠在页面右侧，按阅读顺序列出每页文字区域的原文与译文；点击条目派发
+ * `transcript-select` 事件，由 content script 滚动到并高亮对应气泡。
+ * 展开时给 `<html>` 加右边距，页面与面板并排而不被遮住。
+ */
+
+import type { TextArea } from '@/providers/base';
+
+// ==================== 类型定义 ====================
+
+export interface TranscriptPanelPage {
+  anchor: HTMLElement;
+  /** Areas in reading order; `index` identifies the area to the renderer */
+  entries: Array<{
+    index: number;
+    area: Pick<TextArea, 'originalText' | 'translatedText'>;
+  }>;
+}
+
+export interface TranscriptSelectDetail {
+  anchor: HTMLElement;
+  index: number;
+}
+
+export const TRANSCRIPT_SELECT_EVENT = 'transcript-select';
+
+const PANEL_WIDTH = 320;
+
+// ==================== TranscriptPanel 类 ====================
+
+export class TranscriptPanel {
+  private container: HTMLElement;
+  private shadow: ShadowRoot;
+  private pages: TranscriptPanelPage[] = [];
+  private collapsed = false;
+  private active: TranscriptSelectDetail | null = null;
+  // 展开前 <html> 的行内右边距，收起或销毁时还原
+  private previousMarginRight: string;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.setAttribute('data-manga-translator-transcript', 'true');
+
+    Object.assign(this.container.style, {
+      position: 'fixed',
+      top: '0',
+      right: '0',
+      height: '100vh',
+      zIndex: '2147483646',
+    });
+
+    this.shadow = this.container.attachShadow({ mode: 'open' });
+    this.shadow.innerHTML = `${this.buildStyles()}
+      <aside id="panel" class="panel">
+        <header class="panel-header">
+          <div class="panel-title">译文对照</div>
+          <div id="panel-count" class="panel-count"></div>
+          <button id="collapse-btn" class="panel-toggle" title="收起面板" aria-label="收起面板">»</button>
+        </header>
+        <div id="panel-list" class="panel-list"></div>
+      </aside>
+      <button id="expand-btn" class="panel-tab" title="展开译文对照" style="display:none">译文</button>
+    `;
+
+    this.previousMarginRight = document.documentElement.style.marginRight;
+    document.body.appendChild(this.container);
+    this.applyLayout();
+
+    // 事件委托：在 shadow root 上统一处理点击
+    this.shadow.addEventListener('click', (e: Event) => {
+      const target = e.target as HTMLElement;
+      if (target.id === 'collapse-btn') {
+        this.setCollapsed(true);
+        return;
+      }
+      if (target.id === 'expand-btn') {
+        this.setCollapsed(false);
+        return;
+      }
+
+      const entry = target.closest<HTMLElement>('.entry');
+      const page = this.pages[Number(entry?.dataset['page'])];
+      const index = Number(entry?.dataset['area']);
+      if (!page || !Number.isInteger(index)) return;
+
+      this.setActive(page.anchor, index);
+      this.container.dispatchEvent(
+        new CustomEvent<TranscriptSelectDetail>(TRANSCRIPT_SELECT_EVENT, {
+          bubbles: true,
+          composed: true,
+          detail: { anchor: page.anchor, index },
+        })
+      );
+    });
+  }
+
+  /**
+   * 以页面顺序重新列出全部条目，保留当前选中项
+   */
+  update(pages: TranscriptPanelPage[]): void {
+    this.pages = pages;
+    const list = this.shadow.getElementById('panel-list');
+    const count = this.shadow.getElementById('panel-count');
+    if (!list || !count) return;
+
+    const areaCount = pages.reduce((sum, page) => sum + page.entries.length, 0);
+    count.textContent = `${pages.length} 页 · ${areaCount} 处`;
+    list.replaceChildren(
+      ...pages.map((page, pageIndex) => this.renderPage(page, pageIndex))
+    );
+    if (this.active) {
+      this.setActive(this.active.anchor, this.active.index);
+    }
+  }
+
+  /**
+   * 标记当前条目并滚动到面板可见范围内
+   */
+  setActive(anchor: HTMLElement, index: number): void {
+    this.active = { anchor, index };
+    const pageIndex = this.pages.findIndex(page => page.anchor === anchor);
+    this.shadow.querySelectorAll<HTMLElement>('.entry').forEach(entry => {
+      const isActive =
+        Number(entry.dataset['page']) === pageIndex &&
+        Number(entry.dataset['area']) === index;
+      entry.classList.toggle('entry--active', isActive);
+      if (isActive && typeof entry.scrollIntoView === 'function') {
+        entry.scrollIntoView({ block: 'nearest' });
+      }
+    });
+  }
+
+  /**
+   * 销毁面板，从 DOM 移除并还原页面边距
+   */
+  destroy(): void {
+    document.documentElement.style.marginRight = this.previousMarginRight;
+    this.container.remove();
+  }
+
+  // ==================== 私有方法 ====================
+
+  private setCollapsed(collapsed: boolean): void {
+    this.collapsed = collapsed;
+    this.applyLayout();
+  }
+
+  private applyLayout(): void {
+    const panel = this.shadow.getElementById('panel');
+    const tab = this.shadow.getElementById('expand-btn');
+    if (panel) panel.style.display = this.collapsed ? 'none' : 'flex';
+    if (tab) tab.style.display = this.collapsed ? 'block' : 'none';
+    document.documentElement.style.marginRight = this.collapsed
+      ? this.previousMarginRight
+      : `${PANEL_WIDTH}px`;
+  }
+
+  private renderPage(
+    page: TranscriptPanelPage,
+    pageIndex: number
+  ): HTMLElement {
+    const section = document.createElement('section');
+    section.className = 'page';
+
+    const title = document.createElement('div');
+    title.className = 'page-title';
+    title.textContent = `第 ${pageIndex + 1} 页`;
+
+    const entries = document.createElement('ol');
+    entries.className = 'entries';
+    page.entries.forEach(({ index, area }) => {
+      const entry = document.createElement('button');
+      entry.type = 'button';
+      entry.className = 'entry';
+      entry.dataset['page'] = String(pageIndex);
+      entry.dataset['area'] = String(index);
+
+      const original = document.createElement('div');
+      original.className = 'entry-original';
+      original.textContent = area.originalText;
+      const translated = document.createElement('div');
+      translated.className = 'entry-translated';
+      translated.textContent = area.translatedText;
+      entry.append(original, translated);
+
+      const item = document.createElement('li');
+      item.appendChild(entry);
+      entries.appendChild(item);
+    });
+
+    section.append(title, entries);
+    return section;
+  }
+
+  private buildStyles(): string {
+    return `
+      <style>
+        * { box-sizing: border-box; margin: 0; padding: 0; }
+
+        .panel {
+          flex-direction: column;
+          width: ${PANEL_WIDTH}px;
+          height: 100%;
+          background: rgba(15, 23, 42, 0.96);
+          border-left: 1px solid rgba(255, 255, 255, 0.1);
+          box-shadow: -4px 0 16px rgba(0, 0, 0, 0.25);
+          color: #e2e8f0;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'PingFang SC', 'Microsoft YaHei', sans-serif;
+        }
+
+        .panel-header {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 12px 14px;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+        }
+
+        .panel-title {
+          font-size: 14px;
+          font-weight: 600;
+        }
+
+        .panel-count {
+          flex: 1;
+          color: rgba(226, 232, 240, 0.6);
+          font-size: 12px;
+        }
+
+        .panel-toggle {
+          background: none;
+          border: none;
+          color: rgba(226, 232, 240, 0.7);
+          font-size: 16px;
+          line-height: 1;
+          cursor: pointer;
+          padding: 4px;
+        }
+
+        .panel-toggle:hover {
+          color: #fff;
+        }
+
+        .panel-list {
+          flex: 1;
+          overflow-y: auto;
+          padding: 8px 10px 16px;
+        }
+
+        .page-title {
+          margin: 10px 4px 6px;
+          color: rgba(226, 232, 240, 0.55);
+          font-size: 12px;
+          font-weight: 600;
+        }
+
+        .entries {
+          list-style: none;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .entry {
+          display: block;
+          width: 100%;
+          text-align: left;
+          background: rgba(255, 255, 255, 0.04);
+          border: 1px solid transparent;
+          border-radius: 8px;
+          padding: 8px 10px;
+          color: inherit;
+          font: inherit;
+          cursor: pointer;
+          transition: background 0.15s, border-color 0.15s;
+        }
+
+        .entry:hover {
+          background: rgba(255, 255, 255, 0.09);
+        }
+
+        .entry--active {
+          border-color: #f59e0b;
+          background: rgba(245, 158, 11, 0.12);
+        }
+
+        .entry-original {
+          color: rgba(226, 232, 240, 0.6);
+          font-size: 12px;
+          line-height: 1.5;
+          white-space: pre-wrap;
+        }
+
+        .entry-translated {
+          margin-top: 4px;
+          font-size: 14px;
+          line-height: 1.5;
+          white-space: pre-wrap;
+        }
+
+        .panel-tab {
+          position: absolute;
+          top: 40%;
+          right: 0;
+          writing-mode: vertical-rl;
+          background: rgba(15, 23, 42, 0.92);
+          border: none;
+          border-radius: 8px 0 0 8px;
+          color: #e2e8f0;
+          font-size: 13px;
+          padding: 12px 6px;
+          cursor: pointer;
+        }
+      </style>
+    `;
+  }
+}
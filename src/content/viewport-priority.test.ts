@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { PageTarget } from './page-targets';
+import { ViewportJobScheduler, rankPageTargets } from './viewport-priority';
+
+const PAGE_HEIGHT = 1000;
+/** Pages are separated by a gap wider than the viewport margin */
+const PAGE_STRIDE = 1200;
+
+function createTarget(index: number): PageTarget {
+  const image = document.createElement('img');
+  Object.defineProperty(image, 'naturalWidth', { value: 800 });
+  Object.defineProperty(image, 'naturalHeight', { value: 1200 });
+  return { image, key: `chapter::${index}`, index, canonicalUrl: null, chapterId: 'chapter' };
+}
+
+/** Lays the pages out in a vertical column scrolled to `scrollTop` */
+function layout(targets: PageTarget[], scrollTop: number): void {
+  targets.forEach(target => {
+    const top = target.index * PAGE_STRIDE - scrollTop;
+    vi.spyOn(target.image, 'getBoundingClientRect').mockReturnValue({
+      top,
+      bottom: top + PAGE_HEIGHT,
+      left: 0,
+      right: 800,
+      width: 800,
+      height: PAGE_HEIGHT,
+      x: 0,
+      y: top,
+      toJSON: () => ({}),
+    });
+  });
+}
+
+describe('viewport-priority', () => {
+  beforeEach(() => {
+    Object.defineProperty(window, 'innerWidth', { value: 1024, configurable: true });
+    Object.defineProperty(window, 'innerHeight', { value: 768, configurable: true });
+  });
+
+  it('ranks visible pages first, then next-up, then warm-cache', () => {
+    const targets = Array.from({ length: 8 }, (_, index) => createTarget(index));
+    layout(targets, 2 * PAGE_STRIDE);
+
+    const ranked = rankPageTargets(targets, 2);
+
+    expect(ranked.map(item => [item.target.index, item.priorityClass])).toEqual([
+      [2, 'visible-now'],
+      [1, 'next-up'],
+      [3, 'next-up'],
+      [0, 'warm-cache'],
+      [4, 'warm-cache'],
+      [5, 'warm-cache'],
+      [6, 'warm-cache'],
+      [7, 'warm-cache'],
+    ]);
+  });
+
+  it('starts the page in view and re-ranks submitted jobs after scrolling', () => {
+    const targets = Array.from({ length: 6 }, (_, index) => createTarget(index));
+    layout(targets, 0);
+    const scheduler = new ViewportJobScheduler(targets, 1);
+    const targetAt = (index: number): PageTarget => {
+      const target = targets[index];
+      if (!target) throw new Error(`missing target ${index}`);
+      return target;
+    };
+
+    const pending = [0, 1, 2, 3, 4, 5];
+    const first = scheduler.selectNext(pending);
+    const firstJob = scheduler.submit(targetAt(first));
+    const second = scheduler.selectNext(pending.filter(index => index !== first));
+    const secondJob = scheduler.submit(targetAt(second));
+    expect([first, firstJob.priorityClass]).toEqual([0, 'visible-now']);
+    expect([second, secondJob.priorityClass]).toEqual([1, 'next-up']);
+    expect(scheduler.collectPriorityUpdates()).toEqual([]);
+
+    layout(targets, 4 * PAGE_STRIDE);
+
+    // 排名在视口变化时刷新
+    expect(scheduler.collectPriorityUpdates()).toEqual([
+      { jobId: secondJob.jobId, priorityClass: 'warm-cache' },
+      { jobId: firstJob.jobId, priorityClass: 'warm-cache' },
+    ]);
+    expect(scheduler.selectNext([2, 3, 4, 5])).toBe(4);
+
+    scheduler.finish(targetAt(first));
+    layout(targets, PAGE_STRIDE);
+    expect(scheduler.collectPriorityUpdates()).toEqual([
+      { jobId: secondJob.jobId, priorityClass: 'visible-now' },
+    ]);
+  });
+
+  it('measures the pages once per viewport change, not per page started', () => {
+    const targets = Array.from({ length: 4 }, (_, index) => createTarget(index));
+    layout(targets, 0);
+    const measure = vi.spyOn(targets[3]?.image as HTMLElement, 'getBoundingClientRect');
+    const scheduler = new ViewportJobScheduler(targets);
+
+    const pending = [0, 1, 2, 3];
+    scheduler.selectNext(pending);
+    const perRanking = measure.mock.calls.length;
+    while (pending.length > 0) {
+      const index = scheduler.selectNext(pending);
+      const target = targets[index] as PageTarget;
+      scheduler.submit(target);
+      // 最后一页仍在翻译，视口变化时需要重新测量
+      if (index !== 3) scheduler.finish(target);
+      pending.splice(pending.indexOf(index), 1);
+    }
+    expect(measure).toHaveBeenCalledTimes(perRanking);
+
+    scheduler.collectPriorityUpdates();
+    expect(measure).toHaveBeenCalledTimes(2 * perRanking);
+  });
+
+  it('breaks ties by page number rather than loop position', () => {
+    // 已翻译的页被过滤掉后，剩下的页码不连续，循环顺序也不一定是页码顺序
+    const targets = [createTarget(5), createTarget(2), createTarget(8)];
+    targets.forEach(target => {
+      vi.spyOn(target.image, 'getBoundingClientRect').mockReturnValue({
+        top: 5000,
+        bottom: 5000 + PAGE_HEIGHT,
+        left: 0,
+        right: 800,
+        width: 800,
+        height: PAGE_HEIGHT,
+        x: 0,
+        y: 5000,
+        toJSON: () => ({}),
+      });
+    });
+
+    expect(rankPageTargets(targets, 1).map(item => item.target.index)).toEqual([2, 5, 8]);
+    expect(new ViewportJobScheduler(targets).selectNext([0, 1, 2])).toBe(1);
+  });
+});
@@ -0,0 +1,169 @@
+import type { JobPriorityClass } from '@/shared/runtime-contracts';
+import { sortImagesByPriority } from '@/utils/image-priority';
+import type { PageTarget } from './page-targets';
+
+/**
+ * 整页翻译的视口优先调度：视口内的页以 `visible-now` 提交，离视口最近的
+ * 几页为 `next-up`，更远的页降为 `warm-cache`。滚动后重新分级，已提交但仍在
+ * 后台排队的任务随之调整优先级，正在看的页总是先翻译。
+ */
+
+/** Pages nearest the viewport, outside it, submitted as `next-up` */
+export const NEXT_UP_PAGE_COUNT = 3;
+/** Minimum interval between re-ranks while the page scrolls or resizes */
+const VIEWPORT_CHANGE_DELAY_MS = 200;
+
+export interface RankedPageTarget {
+  target: PageTarget;
+  priorityClass: JobPriorityClass;
+}
+
+export interface PageJobPriorityUpdate {
+  jobId: string;
+  priorityClass: JobPriorityClass;
+}
+
+/**
+ * Orders targets viewport-first (`sortImagesByPriority`), then by distance
+ * from the viewport, and assigns each one a job priority class.
+ */
+export function rankPageTargets(
+  targets: PageTarget[],
+  nextUpCount: number = NEXT_UP_PAGE_COUNT
+): RankedPageTarget[] {
+  const byElement = new Map(targets.map(target => [target.image, target]));
+  // 同分时按页码而非循环位置排：已翻译的页被过滤后，位置不再等于页码
+  const pageNumber = (image: HTMLElement) => byElement.get(image)?.index ?? 0;
+  const sorted = sortImagesByPriority(targets.map(target => target.image)).sort(
+    (a, b) => b.priority - a.priority || pageNumber(a.image) - pageNumber(b.image)
+  );
+  // 视口外的页按距离排序：优先级分数在远处会饱和，分不出远近
+  const offscreen = sorted
+    .filter(item => !item.inViewport)
+    .sort(
+      (a, b) =>
+        a.distanceFromCenter - b.distanceFromCenter || pageNumber(a.image) - pageNumber(b.image)
+    );
+  let nextUpLeft = nextUpCount;
+
+  return [...sorted.filter(item => item.inViewport), ...offscreen].flatMap(
+    (item): RankedPageTarget[] => {
+      const target = byElement.get(item.image);
+      if (!target) return [];
+      if (item.inViewport) {
+        return [{ target, priorityClass: 'visible-now' }];
+      }
+      const priorityClass = nextUpLeft > 0 ? 'next-up' : 'warm-cache';
+      nextUpLeft--;
+      return [{ target, priorityClass }];
+    }
+  );
+}
+
+interface SubmittedJob {
+  jobId: string;
+  priorityClass: JobPriorityClass;
+}
+
+/**
+ * Tracks one `translatePage` run: which target starts next, the job each
+ * started target was submitted as, and which of those jobs need another
+ * priority class after the viewport moved.
+ *
+ * Ranking measures every remaining page, so it is cached and only redone
+ * on viewport changes (`collectPriorityUpdates`), not for each page started.
+ */
+export class ViewportJobScheduler {
+  private readonly remaining: Set<PageTarget>;
+  private readonly submitted = new Map<PageTarget, SubmittedJob>();
+  private ranking: RankedPageTarget[] | null = null;
+
+  constructor(
+    private readonly targets: PageTarget[],
+    private readonly nextUpCount: number = NEXT_UP_PAGE_COUNT
+  ) {
+    this.remaining = new Set(targets);
+  }
+
+  /** `ParallelProcessingOptions.selectNext`: the best-ranked waiting target */
+  selectNext(pendingIndexes: readonly number[]): number {
+    const waiting = new Map(
+      pendingIndexes.flatMap(index => {
+        const target = this.targets[index];
+        return target ? [[target, index] as const] : [];
+      })
+    );
+    for (const { target } of this.rank()) {
+      const index = waiting.get(target);
+      if (index !== undefined) return index;
+    }
+    // 都不在排名里时取页码最小的一页
+    const [first] = [...waiting].sort(([a], [b]) => a.index - b.index);
+    return first?.[1] ?? pendingIndexes[0] ?? 0;
+  }
+
+  /** Assigns the job id and priority class a target is submitted with */
+  submit(target: PageTarget): SubmittedJob {
+    const ranked = this.rank().find(item => item.target === target);
+    const job: SubmittedJob = {
+      jobId: crypto.randomUUID(),
+      priorityClass: ranked?.priorityClass ?? 'warm-cache',
+    };
+    this.submitted.set(target, job);
+    return { ...job };
+  }
+
+  finish(target: PageTarget): void {
+    this.remaining.delete(target);
+    this.submitted.delete(target);
+    this.ranking = this.ranking?.filter(item => item.target !== target) ?? null;
+  }
+
+  /** Re-ranks the unfinished pages; returns the submitted jobs whose class changed */
+  collectPriorityUpdates(): PageJobPriorityUpdate[] {
+    this.ranking = null;
+    const updates: PageJobPriorityUpdate[] = [];
+    for (const { target, priorityClass } of this.rank()) {
+      const job = this.submitted.get(target);
+      if (job && job.priorityClass !== priorityClass) {
+        job.priorityClass = priorityClass;
+        updates.push({ jobId: job.jobId, priorityClass });
+      }
+    }
+    return updates;
+  }
+
+  private rank(): RankedPageTarget[] {
+    this.ranking ??= rankPageTargets(Array.from(this.remaining), this.nextUpCount);
+    return this.ranking;
+  }
+}
+
+/**
+ * Calls `onChange` at most once every `delay` ms while the page scrolls or
+ * resizes. Returns a function that removes the listeners.
+ */
+export function watchViewportChanges(
+  onChange: () => void,
+  delay: number = VIEWPORT_CHANGE_DELAY_MS
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const schedule = () => {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      onChange();
+    }, delay);
+  };
+
+  window.addEventListener('scroll', schedule, { passive: true });
+  window.addEventListener('resize', schedule, { passive: true });
+  return () => {
+    window.removeEventListener('scroll', schedule);
+    window.removeEventListener('resize', schedule);
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+}
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { matchSiteAdapter } from './site-adapters';
+
+const EPISODE_URL =
+  'https://www.webtoons.com/en/fantasy/tower-of-god/season-3-ep-1/viewer?title_no=95&episode_no=418';
+
+function createEpisodeWindow() {
+  return {
+    document,
+    location: { href: EPISODE_URL },
+  } as unknown as Window & typeof globalThis;
+}
+
+describe('webtoon-adapter', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('matches episode viewer URLs as a strip layout', () => {
+    const adapter = matchSiteAdapter(EPISODE_URL);
+
+    expect(adapter?.id).toBe('webtoon');
+    expect(adapter?.layout).toBe('strip');
+    expect(
+      matchSiteAdapter('https://www.webtoons.com/en/fantasy/tower-of-god/list?title_no=95')
+    ).toBeNull();
+  });
+
+  it('reads slice URLs from data-url placeholders', () => {
+    document.body.innerHTML = `
+      <div id='_imageList'>
+        <img class='_images' src='https://webtoons-static.pstatic.net/image/bg_transparency.png'
+          data-url='https://webtoon-phinf.pstatic.net/418/001.jpg?type=q90' width='800' height='1280' />
+        <img class='_images' src='https://webtoons-static.pstatic.net/image/bg_transparency.png'
+          data-url='https://webtoon-phinf.pstatic.net/418/002.jpg?type=q90' width='800' height='1280' />
+      </div>
+      <img class='_images' data-url='https://example.org/outside.jpg' />
+    `;
+    const adapter = matchSiteAdapter(EPISODE_URL);
+    const bootstrap = adapter?.getChapterBootstrap(createEpisodeWindow());
+    if (!adapter || !bootstrap) {
+      throw new Error('expected adapter bootstrap');
+    }
+
+    expect(bootstrap.chapterId).toBe('/webtoon/95/episode/418');
+    expect(bootstrap.pages).toEqual([
+      { src: 'https://webtoon-phinf.pstatic.net/418/001.jpg?type=q90', width: 800, height: 1280, index: 0 },
+      { src: 'https://webtoon-phinf.pstatic.net/418/002.jpg?type=q90', width: 800, height: 1280, index: 1 },
+    ]);
+    expect(adapter.listRenderablePages(document, bootstrap).map(page => page.key)).toEqual([
+      '/webtoon/95/episode/418::0',
+      '/webtoon/95/episode/418::1',
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { waitForImageLoad } from './image-load';
+import type { ChapterBootstrap, RenderablePage, SiteAdapter } from './site-adapters';
+
+/**
+ * WEBTOON 阅读页（`/{lang}/{genre}/{title}/{episode}/viewer?title_no=…&episode_no=…`）
+ * 把一话切成许多张 `#_imageList img._images`，src 是透明占位图，真实地址在
+ * `data-url` 上，滚动到附近才会替换。切片属于同一竖条，按 `strip` 布局翻译。
+ */
+
+const WEBTOON_HOSTS = new Set(['www.webtoons.com', 'm.webtoons.com']);
+
+function getEpisode(url: URL): { titleNo: string; episodeNo: string } | null {
+  if (!WEBTOON_HOSTS.has(url.hostname) || !/\/viewer\/?$/.test(url.pathname)) {
+    return null;
+  }
+
+  const titleNo = url.searchParams.get('title_no');
+  const episodeNo = url.searchParams.get('episode_no');
+  return titleNo && episodeNo ? { titleNo, episodeNo } : null;
+}
+
+function getStripImages(root: ParentNode): HTMLImageElement[] {
+  return Array.from(root.querySelectorAll<HTMLImageElement>('#_imageList img._images'));
+}
+
+function getImageUrl(image: HTMLImageElement): string | null {
+  return image.getAttribute('data-url') || image.currentSrc || image.src || null;
+}
+
+export const WEBTOON_ADAPTER: SiteAdapter = {
+  id: 'webtoon',
+  layout: 'strip',
+  matchesChapter: url => getEpisode(url) !== null,
+  getChapterBootstrap: (target): ChapterBootstrap | null => {
+    const url = new URL(target.location.href);
+    const episode = getEpisode(url);
+    if (!episode) {
+      return null;
+    }
+
+    const pages = getStripImages(target.document)
+      .map(image => ({
+        src: getImageUrl(image) ?? '',
+        width: Number(image.getAttribute('width')) || 0,
+        height: Number(image.getAttribute('height')) || 0,
+      }))
+      .filter(page => page.src.length > 0)
+      .map((page, index) => ({ ...page, index }));
+
+    if (pages.length === 0) {
+      return null;
+    }
+
+    return {
+      chapterId: `/webtoon/${episode.titleNo}/episode/${episode.episodeNo}`,
+      baseUrl: url.origin,
+      pages,
+    };
+  },
+  listRenderablePages: (root, bootstrap) => {
+    return getStripImages(root)
+      .slice(0, bootstrap.pages.length)
+      .map((image, index): RenderablePage | null => {
+        const page = bootstrap.pages[index];
+        return page
+          ? {
+              image,
+              canonicalUrl: page.src,
+              index: page.index,
+              key: `${bootstrap.chapterId}::${page.index}`,
+            }
+          : null;
+      })
+      .filter((page): page is RenderablePage => page !== null);
+  },
+  resolveCanonicalImage: pageNode => getImageUrl(pageNode),
+  prepareImage: async (pageNode, canonicalUrl) => {
+    // 图床不返回 CORS 头，不能设置 crossOrigin；拼接时由 background 代取字节
+    if (pageNode.src !== canonicalUrl) {
+      pageNode.src = canonicalUrl;
+    }
+    pageNode.loading = 'eager';
+
+    await waitForImageLoad(pageNode);
+  },
+};
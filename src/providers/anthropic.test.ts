@@ -0,0 +1,294 @@
+/**
+ * Anthropic Provider Tests
+ *
+ * Runs against a local mock HTTP server so the http-client path (headers,
+ * JSON body, error bodies) is exercised end to end. The test setup replaces
+ * `fetch` with a mock, so it is routed to the server through node:http.
+ */
+
+import {
+  createServer,
+  request as httpRequest,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { AnthropicProvider } from './anthropic';
+
+const base64Image =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+const apiKey = 'sk-ant-REDACTED';
+
+interface RecordedRequest {
+  method: string | undefined;
+  url: string | undefined;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown> | null;
+}
+
+type MockReply = { status: number; body: unknown };
+
+function nodeHttpFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const req = httpRequest(
+      String(input),
+      {
+        method: init?.method ?? 'GET',
+        headers: init?.headers as Record<string, string> | undefined,
+      },
+      res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk as Buffer));
+        res.on('end', () => {
+          resolve(
+            new Response(Buffer.concat(chunks).toString('utf8'), {
+              status: res.statusCode ?? 500,
+              headers: { 'Content-Type': 'application/json' },
+            })
+          );
+        });
+      }
+    );
+    req.on('error', reject);
+    if (typeof init?.body === 'string') {
+      req.write(init.body);
+    }
+    req.end();
+  });
+}
+
+describe('AnthropicProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let reply: (request: RecordedRequest) => MockReply;
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk as Buffer));
+      req.on('end', () => {
+        const raw = Buffer.concat(chunks).toString('utf8');
+        const recorded: RecordedRequest = {
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: raw ? (JSON.parse(raw) as Record<string, unknown>) : null,
+        };
+        requests.push(recorded);
+
+        const { status, body } = reply(recorded);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = () => ({ status: 500, body: {} });
+    vi.mocked(global.fetch).mockImplementation(nodeHttpFetch);
+  });
+
+  it('should initialize with default config', async () => {
+    const provider = new AnthropicProvider();
+    await provider.initialize({ apiKey });
+
+    expect(provider.name).toBe('Anthropic');
+    expect(provider.type).toBe('anthropic');
+  });
+
+  describe('analyzeAndTranslate', () => {
+    it('posts a Messages request with x-api-key and an image content block', async () => {
+      reply = () => ({
+        status: 200,
+        body: {
+          id: 'msg_01',
+          type: 'message',
+          role: 'assistant',
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                textAreas: [
+                  {
+                    x: 0.1,
+                    y: 0.2,
+                    width: 0.3,
+                    height: 0.1,
+                    originalText: 'こんにちは',
+                    translatedText: '你好',
+                  },
+                ],
+              }),
+            },
+          ],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 1200, output_tokens: 80 },
+        },
+      });
+
+      const provider = new AnthropicProvider();
+      await provider.initialize({ apiKey, baseUrl, model: 'claude-sonnet-4-5' });
+      const result = await provider.analyzeAndTranslate(
+        `data:image/png;base64,${base64Image}`,
+        'zh-CN'
+      );
+
+      expect(requests).toHaveLength(1);
+      const [request] = requests;
+      expect(request?.method).toBe('POST');
+      expect(request?.url).toBe('/v1/messages');
+      expect(request?.headers['x-api-key']).toBe(apiKey);
+      expect(request?.headers['anthropic-version']).toBe('2023-06-01');
+      expect(request?.headers['authorization']).toBeUndefined();
+      expect(request?.body).toMatchObject({
+        model: 'claude-sonnet-4-5',
+        max_tokens: expect.any(Number),
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'image',
+                source: {
+                  type: 'base64',
+                  media_type: 'image/png',
+                  data: base64Image,
+                },
+              },
+              { type: 'text', text: expect.stringContaining('zh-CN') },
+            ],
+          },
+        ],
+      });
+
+      expect(result.textAreas).toHaveLength(1);
+      expect(result.textAreas[0]?.translatedText).toBe('你好');
+      expect(result.usage).toEqual({
+        promptTokens: 1200,
+        completionTokens: 80,
+        totalTokens: 1280,
+      });
+    });
+
+    it('counts prompt-cache tokens towards prompt usage', async () => {
+      reply = () => ({
+        status: 200,
+        body: {
+          content: [{ type: 'text', text: '{"textAreas":[]}' }],
+          usage: {
+            input_tokens: 100,
+            output_tokens: 20,
+            cache_creation_input_tokens: 50,
+            cache_read_input_tokens: 30,
+          },
+        },
+      });
+
+      const provider = new AnthropicProvider();
+      await provider.initialize({ apiKey, baseUrl });
+      const result = await provider.analyzeAndTranslate(base64Image, 'zh-CN');
+
+      expect(result.textAreas).toEqual([]);
+      expect(result.usage).toEqual({
+        promptTokens: 180,
+        completionTokens: 20,
+        totalTokens: 200,
+      });
+    });
+
+    it('surfaces the Anthropic error message with an Unauthorized marker on 401', async () => {
+      reply = () => ({
+        status: 401,
+        body: {
+          type: 'error',
+          error: { type: 'authentication_error', message: 'invalid x-api-key' },
+        },
+      });
+
+      const provider = new AnthropicProvider();
+      await provider.initialize({ apiKey, baseUrl });
+
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow(/Unauthorized invalid x-api-key/);
+    });
+
+    it('throws on an empty content array', async () => {
+      reply = () => ({ status: 200, body: { content: [] } });
+
+      const provider = new AnthropicProvider();
+      await provider.initialize({ apiKey, baseUrl });
+
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow('empty response');
+    });
+
+    it('throws without calling the API when the key is missing', async () => {
+      const provider = new AnthropicProvider();
+      await provider.initialize({ baseUrl });
+
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow('API 密钥');
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('returns invalid when apiKey is missing', async () => {
+      const provider = new AnthropicProvider();
+      await provider.initialize({ baseUrl });
+
+      const result = await provider.validateConfig();
+
+      expect(result.valid).toBe(false);
+      expect(result.message).toContain('API 密钥');
+      expect(requests).toHaveLength(0);
+    });
+
+    it('checks the key against the models endpoint', async () => {
+      reply = () => ({
+        status: 200,
+        body: { data: [{ id: 'claude-sonnet-4-5' }], has_more: true },
+      });
+
+      const provider = new AnthropicProvider();
+      await provider.initialize({ apiKey, baseUrl });
+      const result = await provider.validateConfig();
+
+      expect(result.valid).toBe(true);
+      expect(requests[0]?.method).toBe('GET');
+      expect(requests[0]?.url).toBe('/v1/models?limit=1');
+      expect(requests[0]?.headers['x-api-key']).toBe(apiKey);
+    });
+
+    it('reports a revoked key as invalid', async () => {
+      reply = () => ({
+        status: 401,
+        body: {
+          type: 'error',
+          error: { type: 'authentication_error', message: 'invalid x-api-key' },
+        },
+      });
+
+      const provider = new AnthropicProvider();
+      await provider.initialize({ apiKey, baseUrl });
+      const result = await provider.validateConfig();
+
+      expect(result.valid).toBe(false);
+      expect(result.message).toContain('密钥无效');
+    });
+  });
+});
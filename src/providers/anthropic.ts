@@ -0,0 +1,230 @@
+/**
+ * Anthropic Messages API Vision Provider
+ *
+ * 直接调用 Anthropic 原生 `/v1/messages` 接口（x-api-key 鉴权 + image content block），
+ * 不再借道 OpenAI-compatible 的 `/chat/completions` 形态。
+ */
+
+import {
+  VisionProvider,
+  VisionResponse,
+  ValidationResult,
+  TokenUsageInfo,
+  parseImageData,
+  getMangaTranslationPrompt,
+  parseVisionResponse,
+  BaseVisionProvider,
+} from './base';
+import { API_URLS, DEFAULT_MODELS, REQUEST_LIMITS } from './constants';
+import { httpRequest } from '@/utils/http-client';
+import type { TranslationStylePreset } from '@/utils/translation-style';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicContentBlock {
+  type: 'text' | 'image';
+  text?: string;
+  source?: {
+    type: 'base64';
+    media_type: string;
+    data: string;
+  };
+}
+
+interface AnthropicMessagesResponse {
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string | null;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number | null;
+    cache_read_input_tokens?: number | null;
+  };
+}
+
+interface AnthropicErrorResponse {
+  type: 'error';
+  error: {
+    type: string;
+    message: string;
+  };
+}
+
+export class AnthropicProvider
+  extends BaseVisionProvider
+  implements VisionProvider
+{
+  readonly name = 'Anthropic';
+  readonly type = 'anthropic' as const;
+
+  override async analyzeAndTranslate(
+    imageBase64: string,
+    targetLanguage: string,
+    translationStylePreset?: TranslationStylePreset,
+    signal?: AbortSignal
+  ): Promise<VisionResponse> {
+    this.ensureConfigured();
+
+    const prompt = getMangaTranslationPrompt(targetLanguage, translationStylePreset);
+    const imageData = parseImageData(imageBase64);
+
+    // Anthropic 推荐图片放在文本之前
+    const content: AnthropicContentBlock[] = [
+      {
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: imageData.mediaType,
+          data: imageData.base64,
+        },
+      },
+      { type: 'text', text: prompt },
+    ];
+
+    const httpResponse = await httpRequest<AnthropicMessagesResponse>(
+      `${this.config.baseUrl}/messages`,
+      {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: {
+          model: this.config.model,
+          max_tokens: REQUEST_LIMITS.MAX_TOKENS,
+          temperature: REQUEST_LIMITS.TEMPERATURE,
+          messages: [{ role: 'user', content }],
+        },
+        signal,
+      }
+    );
+
+    if (!httpResponse.ok) {
+      throw this.createHttpError(httpResponse.status, httpResponse.error);
+    }
+
+    const data = httpResponse.data;
+    if (!data) {
+      throw new Error(`${this.name} API returned no data`);
+    }
+
+    const text = (data.content ?? [])
+      .filter(block => block.type === 'text' && typeof block.text === 'string')
+      .map(block => block.text)
+      .join('');
+    if (!text) {
+      throw new Error(`${this.name} API returned empty response`);
+    }
+
+    const result = parseVisionResponse(text);
+    const usage = toTokenUsage(data.usage);
+    return usage ? { ...result, usage } : result;
+  }
+
+  /**
+   * 先做本地格式检查，再调用 `GET /models` 验证密钥（不消耗 Token）
+   */
+  override async validateConfig(): Promise<ValidationResult> {
+    if (!this.config.apiKey) {
+      return { valid: false, message: `请配置 ${this.name} API 密钥` };
+    }
+    if (this.config.apiKey.length < 20) {
+      return { valid: false, message: `${this.name} API 密钥格式无效` };
+    }
+
+    const httpResponse = await httpRequest<{ data?: Array<{ id: string }> }>(
+      `${this.config.baseUrl}/models?limit=1`,
+      {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        timeout: 10000,
+      }
+    );
+
+    if (httpResponse.ok) {
+      return { valid: true, message: `${this.name} 配置有效，使用模型: ${this.config.model}` };
+    }
+    if (httpResponse.status === 401) {
+      return { valid: false, message: `${this.name} API 密钥无效或已撤销` };
+    }
+    if (httpResponse.status === 0 || httpResponse.status === 408) {
+      return {
+        valid: false,
+        message: `无法连接到 ${this.name} API: ${httpResponse.error || httpResponse.statusText}`,
+      };
+    }
+    return {
+      valid: false,
+      message: this.createHttpError(httpResponse.status, httpResponse.error).message,
+    };
+  }
+
+  protected getDefaultModel(): string {
+    return DEFAULT_MODELS.ANTHROPIC;
+  }
+
+  protected getDefaultBaseUrl(): string {
+    return API_URLS.ANTHROPIC;
+  }
+
+  private ensureConfigured(): void {
+    if (!this.config.apiKey) {
+      throw new Error(`请配置 ${this.name} API 密钥`);
+    }
+    if (this.config.apiKey.length < 20) {
+      throw new Error(`${this.name} API 密钥格式无效`);
+    }
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.config.apiKey ?? '',
+      'anthropic-version': ANTHROPIC_VERSION,
+      // 扩展页面/Service Worker 对 Anthropic 来说属于浏览器环境，必须显式声明
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  /**
+   * Anthropic 错误体形如 `{"type":"error","error":{"type":"...","message":"..."}}`；
+   * 401 统一带上 "Unauthorized" 以便 TranslationErrorHandler 归类为鉴权错误
+   */
+  private createHttpError(status: number, body: string | undefined): Error {
+    const detail = parseAnthropicErrorMessage(body);
+    if (status === 401) {
+      return new Error(`${this.name} API error: 401 Unauthorized ${detail ?? ''}`.trim());
+    }
+    if (status === 429) {
+      return new Error(`${this.name} API error: 429 rate limit ${detail ?? ''}`.trim());
+    }
+    return new Error(`${this.name} API error: ${status} ${detail ?? body ?? ''}`.trim());
+  }
+}
+
+function parseAnthropicErrorMessage(body: string | undefined): string | null {
+  if (!body) return null;
+  try {
+    const parsed = JSON.parse(body) as Partial<AnthropicErrorResponse>;
+    return typeof parsed.error?.message === 'string' ? parsed.error.message : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 缓存写入/读取的输入 Token 也计入 prompt，保证与账单口径一致
+ */
+function toTokenUsage(
+  usage: AnthropicMessagesResponse['usage']
+): TokenUsageInfo | undefined {
+  if (!usage) return undefined;
+
+  const promptTokens =
+    (usage.input_tokens ?? 0) +
+    (usage.cache_creation_input_tokens ?? 0) +
+    (usage.cache_read_input_tokens ?? 0);
+  const completionTokens = usage.output_tokens ?? 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
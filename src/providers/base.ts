@@ -1,3 +1,4 @@
+import type { TranslationDiagnostics } from '@/shared/runtime-contracts';
 import {
   DEFAULT_TRANSLATION_STYLE_PRESET,
   getTranslationStyleInstruction,
@@ -54,6 +55,22 @@ export interface VisionResponse {
   rawResponse?: string;
   /** Token 使用量（用于统计费用） */
   usage?: TokenUsageInfo;
+  /** Pipeline that produced the result (providers other than the sidecar leave it unset) */
+  pipeline?: 'ocr-first' | 'region-fallback' | 'full-image-fallback';
+  /** Whether the provider served the result from its own cache */
+  cached?: boolean;
+  /** Per-stage diagnostics reported by the provider, if any */
+  diagnostics?: TranslationDiagnostics;
+}
+
+/**
+ * Per-request hints for providers that keep their own cache
+ */
+export interface AnalyzeRequestOptions {
+  /** Stable key of the page image across lazy-load src changes */
+  imageKey?: string;
+  /** Bypass the provider's cache, e.g. for a forced re-translate */
+  forceRefresh?: boolean;
 }
 
 /**
@@ -111,17 +128,38 @@ export interface ValidationResult {
  */
 export type ProviderType =
   | 'openai-compatible'
+  | 'anthropic'
+  | 'gemini'
   | 'ollama'
-  | 'lm-studio';
+  | 'lm-studio'
+  | 'sidecar-server';
+
+export const PROVIDER_TYPES: readonly ProviderType[] = [
+  'openai-compatible',
+  'anthropic',
+  'gemini',
+  'ollama',
+  'lm-studio',
+  'sidecar-server',
+];
+
+export function isProviderType(value: unknown): value is ProviderType {
+  return (
+    typeof value === 'string' &&
+    (PROVIDER_TYPES as readonly string[]).includes(value)
+  );
+}
 
 /**
- * Providers that run a local OpenAI-compatible server and therefore do not
- * require an API key. Use this in preference to hard-coding `=== 'ollama'`
- * checks so the list stays in one place when a new local provider lands.
+ * Providers that run a local server and therefore do not require an API
+ * key. Use this in preference to hard-coding `=== 'ollama'` checks so the
+ * list stays in one place when a new local provider lands. The sidecar
+ * server accepts an optional bearer token, but runs fine without one.
  */
 const KEYLESS_LOCAL_PROVIDERS: ReadonlySet<ProviderType> = new Set([
   'ollama',
   'lm-studio',
+  'sidecar-server',
 ]);
 
 export function providerRequiresApiKey(type: ProviderType): boolean {
@@ -157,12 +195,16 @@ export interface VisionProvider {
    *
    * @param imageBase64 Base64-encoded image data
    * @param targetLanguage Target language for translation (e.g., 'zh-CN')
+   * @param signal Aborts the in-flight API request; rejects with an `AbortError`
+   * @param options Cache hints; only providers with their own cache use them
    * @returns Promise resolving to detected text areas with translations
    */
   analyzeAndTranslate(
     imageBase64: string,
     targetLanguage: string,
-    translationStylePreset?: TranslationStylePreset
+    translationStylePreset?: TranslationStylePreset,
+    signal?: AbortSignal,
+    options?: AnalyzeRequestOptions
   ): Promise<VisionResponse>;
 
   /**
@@ -172,6 +214,13 @@ export interface VisionProvider {
   validateConfig(): Promise<ValidationResult>;
 }
 
+/**
+ * Version of the prompt template below. Bump it whenever the wording or the
+ * JSON contract changes: it is part of the translation cache key, so results
+ * produced by an older prompt stop being served.
+ */
+export const MANGA_TRANSLATION_PROMPT_VERSION = 1;
+
 /**
  * Default prompt template for manga translation
  *
@@ -333,7 +382,10 @@ export abstract class BaseVisionProvider implements VisionProvider {
 
   abstract analyzeAndTranslate(
     imageBase64: string,
-    targetLanguage: string
+    targetLanguage: string,
+    translationStylePreset?: TranslationStylePreset,
+    signal?: AbortSignal,
+    options?: AnalyzeRequestOptions
   ): Promise<VisionResponse>;
 
   /**
@@ -8,13 +8,18 @@
 
 export const API_URLS = {
   OPENAI: 'https://api.openai.com/v1',
+  ANTHROPIC: 'https://api.anthropic.com/v1',
+  GEMINI: 'https://generativelanguage.googleapis.com/v1beta',
   OLLAMA: 'http://localhost:11434',
+  SIDECAR_SERVER: 'http://127.0.0.1:8000',
 } as const;
 
 // ==================== Default Models ====================
 
 export const DEFAULT_MODELS = {
   OPENAI: 'gpt-4o',
+  ANTHROPIC: 'claude-sonnet-4-5',
+  GEMINI: 'gemini-2.5-flash',
   OLLAMA: 'llava:7b',
 } as const;
 
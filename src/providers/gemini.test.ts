@@ -0,0 +1,252 @@
+/**
+ * Gemini Provider Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GeminiProvider } from './gemini';
+
+const base64Image =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+const apiKey = 'AIza-test-key-1234567890';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => body,
+  } as Response;
+}
+
+describe('GeminiProvider', () => {
+  let provider: GeminiProvider;
+
+  beforeEach(() => {
+    provider = new GeminiProvider();
+    vi.mocked(global.fetch).mockReset();
+  });
+
+  it('should initialize with default config', async () => {
+    await provider.initialize({ apiKey });
+
+    expect(provider.name).toBe('Gemini');
+    expect(provider.type).toBe('gemini');
+  });
+
+  describe('analyzeAndTranslate', () => {
+    it('sends inlineData with a JSON response schema and the key in the query string', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(
+        jsonResponse(200, {
+          candidates: [
+            {
+              content: {
+                parts: [
+                  {
+                    text: JSON.stringify({
+                      textAreas: [
+                        {
+                          x: 0.1,
+                          y: 0.2,
+                          width: 0.3,
+                          height: 0.1,
+                          originalText: 'こんにちは',
+                          translatedText: '你好',
+                        },
+                      ],
+                    }),
+                  },
+                ],
+              },
+              finishReason: 'STOP',
+            },
+          ],
+          usageMetadata: {
+            promptTokenCount: 560,
+            candidatesTokenCount: 40,
+            totalTokenCount: 600,
+          },
+        })
+      );
+
+      await provider.initialize({ apiKey, model: 'gemini-2.5-flash' });
+      const result = await provider.analyzeAndTranslate(
+        `data:image/png;base64,${base64Image}`,
+        'zh-CN'
+      );
+
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0] ?? [];
+      expect(url).toBe(
+        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${apiKey}`
+      );
+      expect(init?.method).toBe('POST');
+
+      const body = JSON.parse(String(init?.body)) as {
+        contents: Array<{ parts: Array<Record<string, unknown>> }>;
+        generationConfig: Record<string, unknown>;
+      };
+      expect(body.contents[0]?.parts[0]).toEqual({
+        inlineData: { mimeType: 'image/png', data: base64Image },
+      });
+      expect(body.contents[0]?.parts[1]?.['text']).toContain('zh-CN');
+      expect(body.generationConfig['responseMimeType']).toBe('application/json');
+      expect(body.generationConfig['responseSchema']).toMatchObject({
+        type: 'OBJECT',
+        required: ['textAreas'],
+      });
+      // Flash 关闭思考，输出额度全部留给 JSON
+      expect(body.generationConfig['thinkingConfig']).toEqual({ thinkingBudget: 0 });
+      expect(body.generationConfig['maxOutputTokens']).toBe(2048);
+
+      expect(result.textAreas).toHaveLength(1);
+      expect(result.textAreas[0]?.translatedText).toBe('你好');
+      expect(result.usage).toEqual({
+        promptTokens: 560,
+        completionTokens: 40,
+        totalTokens: 600,
+      });
+    });
+
+    it('reserves output tokens for thinking on models that cannot turn it off', async () => {
+      const bodyFor = async (model: string) => {
+        vi.mocked(global.fetch).mockResolvedValueOnce(
+          jsonResponse(200, {
+            candidates: [{ content: { parts: [{ text: '{"textAreas":[]}' }] } }],
+          })
+        );
+        await provider.initialize({ apiKey, model });
+        await provider.analyzeAndTranslate(base64Image, 'zh-CN');
+        const init = vi.mocked(global.fetch).mock.calls.at(-1)?.[1];
+        return (JSON.parse(String(init?.body)) as { generationConfig: Record<string, unknown> })
+          .generationConfig;
+      };
+
+      expect(await bodyFor('gemini-2.5-pro')).toMatchObject({
+        maxOutputTokens: 2048 + 128,
+        thinkingConfig: { thinkingBudget: 128 },
+      });
+      const gemini3 = await bodyFor('gemini-3-pro-preview');
+      expect(gemini3['maxOutputTokens']).toBeGreaterThan(2048);
+      expect(gemini3['thinkingConfig']).toBeUndefined();
+      expect((await bodyFor('gemini-2.0-flash'))['thinkingConfig']).toBeUndefined();
+    });
+
+    it('counts thinking tokens as completion tokens and skips thought parts', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(
+        jsonResponse(200, {
+          candidates: [
+            {
+              content: {
+                parts: [
+                  { text: 'reasoning about bubbles', thought: true },
+                  { text: '{"textAreas":[]}' },
+                ],
+              },
+            },
+          ],
+          usageMetadata: {
+            promptTokenCount: 500,
+            candidatesTokenCount: 10,
+            thoughtsTokenCount: 90,
+            totalTokenCount: 600,
+          },
+        })
+      );
+
+      await provider.initialize({ apiKey });
+      const result = await provider.analyzeAndTranslate(base64Image, 'zh-CN');
+
+      expect(result.textAreas).toEqual([]);
+      expect(result.usage).toEqual({
+        promptTokens: 500,
+        completionTokens: 100,
+        totalTokens: 600,
+      });
+    });
+
+    it('maps API_KEY_INVALID to an Unauthorized error', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(
+        jsonResponse(400, {
+          error: {
+            code: 400,
+            message: 'API key not valid. Please pass a valid API key.',
+            status: 'INVALID_ARGUMENT',
+            details: [{ reason: 'API_KEY_INVALID' }],
+          },
+        })
+      );
+
+      await provider.initialize({ apiKey });
+
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow(/Unauthorized/);
+    });
+
+    it('reports safety blocks and empty candidates', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(
+        jsonResponse(200, { promptFeedback: { blockReason: 'SAFETY' } })
+      );
+      vi.mocked(global.fetch).mockResolvedValueOnce(
+        jsonResponse(200, {
+          candidates: [{ content: { parts: [] }, finishReason: 'MAX_TOKENS' }],
+        })
+      );
+
+      await provider.initialize({ apiKey });
+
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow('SAFETY');
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow('finishReason: MAX_TOKENS');
+    });
+
+    it('throws without calling the API when the key is missing', async () => {
+      await provider.initialize({});
+
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow('API 密钥');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('checks the configured model with the API key', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(
+        jsonResponse(200, { name: 'models/gemini-2.5-flash' })
+      );
+
+      await provider.initialize({ apiKey });
+      const result = await provider.validateConfig();
+
+      expect(result.valid).toBe(true);
+      expect(vi.mocked(global.fetch).mock.calls[0]?.[0]).toBe(
+        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash?key=${apiKey}`
+      );
+    });
+
+    it('returns invalid for an unknown model', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(
+        jsonResponse(404, { error: { code: 404, message: 'not found' } })
+      );
+
+      await provider.initialize({ apiKey, model: 'gemini-nope' });
+      const result = await provider.validateConfig();
+
+      expect(result.valid).toBe(false);
+      expect(result.message).toContain('gemini-nope');
+    });
+
+    it('returns invalid on network failure', async () => {
+      vi.mocked(global.fetch).mockRejectedValue(new Error('Failed to fetch'));
+
+      await provider.initialize({ apiKey });
+      const result = await provider.validateConfig();
+
+      expect(result.valid).toBe(false);
+      expect(result.message).toContain('无法连接到 Gemini API');
+    });
+  });
+});
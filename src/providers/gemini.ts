@@ -0,0 +1,287 @@
+/**
+ * Google Gemini Vision Provider
+ *
+ * Uses Gemini's native `generateContent` API for manga image analysis and
+ * translation. Unlike the OpenAI-compatible shape, Gemini expects:
+ * - the API key in the `key` query parameter
+ * - images as `inlineData` parts
+ * - structured output via `responseMimeType` + `responseSchema`
+ * - token counts reported in `usageMetadata`
+ */
+
+import {
+  VisionProvider,
+  ProviderConfig,
+  VisionResponse,
+  ValidationResult,
+  TokenUsageInfo,
+  TranslationStylePreset,
+  getMangaTranslationPrompt,
+  parseImageData,
+  parseVisionResponse,
+} from './base';
+import { API_URLS, DEFAULT_MODELS, REQUEST_LIMITS } from './constants';
+
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+interface GeminiGenerateRequest {
+  contents: Array<{ role: 'user'; parts: GeminiPart[] }>;
+  generationConfig: {
+    temperature: number;
+    maxOutputTokens: number;
+    responseMimeType: 'application/json';
+    responseSchema: Record<string, unknown>;
+    thinkingConfig?: { thinkingBudget: number };
+  };
+}
+
+// 思考模型的思考 token 计入 maxOutputTokens，会挤占 JSON 输出导致截断。
+// 2.5 Flash / Flash-Lite 可以关闭思考；2.5 Pro 无法关闭，最低预算 128
+const PRO_MIN_THINKING_BUDGET = 128;
+// 无法设置预算的更新代思考模型（Gemini 3 起），为思考留出的额外输出额度
+const THINKING_OUTPUT_HEADROOM = 8192;
+
+interface GeminiGenerateResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string; thought?: boolean }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+interface GeminiErrorResponse {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: Array<{ reason?: string }>;
+  };
+}
+
+/**
+ * OpenAPI-subset schema for `{ textAreas: TextArea[] }`, matching the JSON
+ * shape requested by `getMangaTranslationPrompt`.
+ */
+const TEXT_AREAS_RESPONSE_SCHEMA: Record<string, unknown> = {
+  type: 'OBJECT',
+  properties: {
+    textAreas: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          x: { type: 'NUMBER' },
+          y: { type: 'NUMBER' },
+          width: { type: 'NUMBER' },
+          height: { type: 'NUMBER' },
+          originalText: { type: 'STRING' },
+          translatedText: { type: 'STRING' },
+        },
+        required: ['x', 'y', 'width', 'height', 'originalText', 'translatedText'],
+        propertyOrdering: ['x', 'y', 'width', 'height', 'originalText', 'translatedText'],
+      },
+    },
+  },
+  required: ['textAreas'],
+};
+
+export class GeminiProvider implements VisionProvider {
+  readonly name = 'Gemini';
+  readonly type = 'gemini' as const;
+
+  private config: ProviderConfig = {};
+
+  async initialize(config: ProviderConfig): Promise<void> {
+    this.config = {
+      ...config,
+      model: config.model || DEFAULT_MODELS.GEMINI,
+      baseUrl: (config.baseUrl || API_URLS.GEMINI).replace(/\/+$/, ''),
+    };
+  }
+
+  async analyzeAndTranslate(
+    imageBase64: string,
+    targetLanguage: string,
+    translationStylePreset?: TranslationStylePreset,
+    signal?: AbortSignal
+  ): Promise<VisionResponse> {
+    if (!this.config.apiKey) {
+      throw new Error('请配置 Gemini API 密钥');
+    }
+
+    const prompt = getMangaTranslationPrompt(targetLanguage, translationStylePreset);
+    const imageData = parseImageData(imageBase64);
+
+    const requestBody: GeminiGenerateRequest = {
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType: imageData.mediaType, data: imageData.base64 } },
+            { text: prompt },
+          ],
+        },
+      ],
+      generationConfig: {
+        temperature: REQUEST_LIMITS.TEMPERATURE,
+        maxOutputTokens: REQUEST_LIMITS.MAX_TOKENS,
+        responseMimeType: 'application/json',
+        responseSchema: TEXT_AREAS_RESPONSE_SCHEMA,
+        ...getThinkingLimits(this.config.model ?? ''),
+      },
+    };
+
+    const response = await fetch(this.buildUrl(`models/${this.config.model}:generateContent`), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await this.createHttpError(response);
+    }
+
+    const data = (await response.json()) as GeminiGenerateResponse;
+
+    if (data.promptFeedback?.blockReason) {
+      throw new Error(`Gemini blocked the request: ${data.promptFeedback.blockReason}`);
+    }
+
+    const candidate = data.candidates?.[0];
+    const text = (candidate?.content?.parts ?? [])
+      .filter(part => !part.thought && typeof part.text === 'string')
+      .map(part => part.text)
+      .join('');
+
+    if (!text) {
+      const reason = candidate?.finishReason;
+      throw new Error(
+        reason && reason !== 'STOP'
+          ? `Gemini returned empty response (finishReason: ${reason})`
+          : 'Gemini returned empty response'
+      );
+    }
+
+    const result = parseVisionResponse(text);
+    const usage = toTokenUsage(data.usageMetadata);
+    return usage ? { ...result, usage } : result;
+  }
+
+  async validateConfig(): Promise<ValidationResult> {
+    if (!this.config.apiKey) {
+      return { valid: false, message: '请配置 Gemini API 密钥' };
+    }
+
+    try {
+      const response = await fetch(this.buildUrl(`models/${this.config.model}`), {
+        method: 'GET',
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (response.ok) {
+        return {
+          valid: true,
+          message: `Gemini 配置有效，使用模型: ${this.config.model}`,
+        };
+      }
+      if (response.status === 404) {
+        return {
+          valid: false,
+          message: `模型 ${this.config.model} 不存在或当前密钥无权访问`,
+        };
+      }
+
+      const error = await this.createHttpError(response);
+      return {
+        valid: false,
+        message: /unauthorized/i.test(error.message)
+          ? 'Gemini API 密钥无效'
+          : error.message,
+      };
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.name === 'AbortError' || error.name === 'TimeoutError')
+      ) {
+        return { valid: false, message: 'Gemini API 连接超时，请检查网络' };
+      }
+      return { valid: false, message: '无法连接到 Gemini API，请检查网络或 Base URL' };
+    }
+  }
+
+  private buildUrl(path: string): string {
+    return `${this.config.baseUrl}/${path}?key=${encodeURIComponent(this.config.apiKey ?? '')}`;
+  }
+
+  /**
+   * Gemini reports a bad key as `400 INVALID_ARGUMENT` with reason
+   * `API_KEY_INVALID`; normalise it (and 401/403) to an "Unauthorized"
+   * message so TranslationErrorHandler classifies it as an auth error.
+   */
+  private async createHttpError(response: Response): Promise<Error> {
+    const body = (await response.json().catch(() => null)) as GeminiErrorResponse | null;
+    const message = body?.error?.message || response.statusText;
+    const invalidKey =
+      body?.error?.details?.some(detail => detail.reason === 'API_KEY_INVALID') ?? false;
+
+    if (invalidKey || response.status === 401 || response.status === 403) {
+      return new Error(`Gemini API error: ${response.status} Unauthorized ${message}`);
+    }
+    if (response.status === 429) {
+      return new Error(`Gemini API error: 429 rate limit ${message}`);
+    }
+    return new Error(`Gemini API error: ${response.status} ${message}`);
+  }
+}
+
+/**
+ * Keeps thinking from eating the JSON output budget: Gemini 2.5 gets the
+ * smallest thinking budget it accepts, later thinking models that take no
+ * budget get extra output headroom. Earlier models reject `thinkingConfig`.
+ */
+function getThinkingLimits(
+  model: string
+): Partial<GeminiGenerateRequest['generationConfig']> {
+  if (/gemini-2\.5/.test(model)) {
+    const thinkingBudget = /-pro/.test(model) ? PRO_MIN_THINKING_BUDGET : 0;
+    return {
+      maxOutputTokens: REQUEST_LIMITS.MAX_TOKENS + thinkingBudget,
+      thinkingConfig: { thinkingBudget },
+    };
+  }
+  if (/gemini-([3-9]|\d{2,})/.test(model)) {
+    return { maxOutputTokens: REQUEST_LIMITS.MAX_TOKENS + THINKING_OUTPUT_HEADROOM };
+  }
+  return {};
+}
+
+/**
+ * `thoughtsTokenCount` is billed as output on thinking models, so it is
+ * folded into completion tokens.
+ */
+function toTokenUsage(
+  metadata: GeminiGenerateResponse['usageMetadata']
+): TokenUsageInfo | undefined {
+  if (!metadata) return undefined;
+
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const completionTokens =
+    (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: metadata.totalTokenCount ?? promptTokens + completionTokens,
+  };
+}
@@ -12,7 +12,10 @@ export {
   type ValidationResult,
   type TextArea,
   type ProviderType,
+  PROVIDER_TYPES,
+  isProviderType,
   getMangaTranslationPrompt,
+  MANGA_TRANSLATION_PROMPT_VERSION,
   parseVisionResponse,
   providerRequiresApiKey,
 } from './base';
@@ -20,8 +23,11 @@ export {
 // Provider implementations (static imports for Chrome extension compatibility)
 import { VisionProvider, ProviderType, ProviderConfig } from './base';
 import { OpenAIProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { GeminiProvider } from './gemini';
 import { OllamaProvider } from './ollama';
 import { LMStudioProvider } from './lm-studio';
+import { SidecarServerProvider } from './sidecar-server';
 
 /**
  * Create a Vision Provider instance by type
@@ -40,12 +46,21 @@ export async function createProvider(
     case 'openai-compatible':
       provider = new OpenAIProvider();
       break;
+    case 'anthropic':
+      provider = new AnthropicProvider();
+      break;
+    case 'gemini':
+      provider = new GeminiProvider();
+      break;
     case 'ollama':
       provider = new OllamaProvider();
       break;
     case 'lm-studio':
       provider = new LMStudioProvider();
       break;
+    case 'sidecar-server':
+      provider = new SidecarServerProvider();
+      break;
     default:
       throw new Error(`Unknown provider type: ${type}`);
   }
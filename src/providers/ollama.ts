@@ -19,6 +19,7 @@ import {
   parseVisionResponse,
   TranslationStylePreset,
 } from './base';
+import { throwIfAborted } from '@/utils/abort';
 
 const DEFAULT_MODEL = 'llava';
 const DEFAULT_BASE_URL = 'http://localhost:11434';
@@ -65,12 +66,14 @@ export class OllamaProvider implements VisionProvider {
   async analyzeAndTranslate(
     imageBase64: string,
     targetLanguage: string,
-    translationStylePreset?: TranslationStylePreset
+    translationStylePreset?: TranslationStylePreset,
+    signal?: AbortSignal
   ): Promise<VisionResponse> {
     const validation = await this.validateConfig();
     if (!validation.valid) {
       throw new Error(validation.message);
     }
+    throwIfAborted(signal);
 
     const prompt = getMangaTranslationPrompt(targetLanguage, translationStylePreset);
 
@@ -101,6 +104,7 @@ export class OllamaProvider implements VisionProvider {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(requestBody),
+      signal,
     });
 
     if (!response.ok) {
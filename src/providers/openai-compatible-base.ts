@@ -51,7 +51,8 @@ export abstract class OpenAICompatibleProvider
   override async analyzeAndTranslate(
     imageBase64: string,
     targetLanguage: string,
-    translationStylePreset?: TranslationStylePreset
+    translationStylePreset?: TranslationStylePreset,
+    signal?: AbortSignal
   ): Promise<VisionResponse> {
     this.ensureConfigured();
 
@@ -88,6 +89,7 @@ export abstract class OpenAICompatibleProvider
           max_tokens: REQUEST_LIMITS.MAX_TOKENS,
           temperature: REQUEST_LIMITS.TEMPERATURE,
         },
+        signal,
       }
     );
 
@@ -0,0 +1,259 @@
+/**
+ * Sidecar Server Provider Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SidecarServerProvider } from './sidecar-server';
+
+const base64Image =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+describe('SidecarServerProvider', () => {
+  let provider: SidecarServerProvider;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    provider = new SidecarServerProvider();
+    global.fetch = vi.fn();
+    // jsdom's atob is unreliable here; decode with Buffer instead
+    vi.stubGlobal('atob', (value: string) =>
+      Buffer.from(value, 'base64').toString('binary')
+    );
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should initialize with default config', async () => {
+    await provider.initialize({});
+    expect(provider.name).toBe('Sidecar Server');
+    expect(provider.type).toBe('sidecar-server');
+  });
+
+  describe('analyzeAndTranslate', () => {
+    it('uploads the image as multipart form data with the bearer token', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: true, textAreas: [] }),
+      } as Response);
+
+      await provider.initialize({
+        baseUrl: 'http://127.0.0.1:8000/',
+        apiKey: 'server-token',
+      });
+      await provider.analyzeAndTranslate(
+        `data:image/png;base64,${base64Image}`,
+        'zh-CN',
+        'concise-bubble'
+      );
+
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0] ?? [];
+      expect(url).toBe('http://127.0.0.1:8000/api/v1/translate-image');
+      expect(init?.method).toBe('POST');
+      expect(init?.headers).toEqual({ Authorization: 'Bearer server-token' });
+
+      const form = init?.body as FormData;
+      expect(form.get('targetLanguage')).toBe('zh-CN');
+      expect(form.get('translationStylePreset')).toBe('concise-bubble');
+      const image = form.get('image') as Blob;
+      expect(image.type).toBe('image/png');
+      expect(image.size).toBeGreaterThan(0);
+    });
+
+    it('forwards the image key and forced refresh to the sidecar cache', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: true, textAreas: [] }),
+      } as Response);
+
+      await provider.initialize({});
+      await provider.analyzeAndTranslate(base64Image, 'zh-CN', undefined, undefined, {
+        imageKey: 'chapter-7::3',
+        forceRefresh: true,
+      });
+      await provider.analyzeAndTranslate(base64Image, 'zh-CN');
+
+      const [, forced] = vi.mocked(global.fetch).mock.calls[0] ?? [];
+      const forcedForm = forced?.body as FormData;
+      expect(forcedForm.get('imageKey')).toBe('chapter-7::3');
+      expect(forcedForm.get('forceRefresh')).toBe('true');
+
+      const [, plain] = vi.mocked(global.fetch).mock.calls[1] ?? [];
+      const plainForm = plain?.body as FormData;
+      expect(plainForm.get('imageKey')).toBeNull();
+      expect(plainForm.get('forceRefresh')).toBeNull();
+    });
+
+    it('omits the Authorization header when no token is configured', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: true, textAreas: [] }),
+      } as Response);
+
+      await provider.initialize({});
+      await provider.analyzeAndTranslate(base64Image, 'zh-CN');
+
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0] ?? [];
+      expect(url).toBe('http://127.0.0.1:8000/api/v1/translate-image');
+      expect(init?.headers).toEqual({});
+    });
+
+    it('maps text areas, pipeline and diagnostics from the sidecar response', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          success: true,
+          textAreas: [
+            {
+              x: 0.1,
+              y: 0.2,
+              width: 0.3,
+              height: 0.1,
+              originalText: 'こんにちは',
+              translatedText: '你好',
+              confidence: 0.93,
+              source: 'ocr-mangaocr',
+            },
+          ],
+          pipeline: 'region-fallback',
+          cached: true,
+          diagnostics: {
+            detectedRegions: 4,
+            fallbackRegions: 1,
+            ocrMs: 120,
+            translateMs: 340,
+            totalMs: 500,
+          },
+        }),
+      } as Response);
+
+      await provider.initialize({});
+      const result = await provider.analyzeAndTranslate(base64Image, 'zh-CN');
+
+      expect(result.textAreas).toEqual([
+        {
+          x: 0.1,
+          y: 0.2,
+          width: 0.3,
+          height: 0.1,
+          originalText: 'こんにちは',
+          translatedText: '你好',
+        },
+      ]);
+      expect(result.pipeline).toBe('region-fallback');
+      expect(result.cached).toBe(true);
+      expect(result.diagnostics).toEqual({
+        detectedRegions: 4,
+        fallbackRegions: 1,
+        ocrMs: 120,
+        translateMs: 340,
+        totalMs: 500,
+      });
+    });
+
+    it('throws an unauthorized error on 401', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        json: async () => ({ detail: 'Unauthorized' }),
+      } as Response);
+
+      await provider.initialize({ apiKey: 'wrong-token' });
+
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow('Unauthorized');
+    });
+
+    it('surfaces the FastAPI error detail on other failures', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: async () => ({ detail: 'No image uploaded' }),
+      } as Response);
+
+      await provider.initialize({});
+
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow('No image uploaded');
+    });
+
+    it('throws when the sidecar reports success: false', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          success: false,
+          textAreas: [],
+          error: 'OCR engine unavailable',
+        }),
+      } as Response);
+
+      await provider.initialize({});
+
+      await expect(
+        provider.analyzeAndTranslate(base64Image, 'zh-CN')
+      ).rejects.toThrow('OCR engine unavailable');
+    });
+  });
+
+  describe('capabilities', () => {
+    it('returns the capability list from the health endpoint', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          status: 'ok',
+          capabilities: ['ocr-first', 'context-llm', 'vlm-fallback'],
+        }),
+      } as Response);
+
+      await provider.initialize({ apiKey: 'server-token' });
+      const capabilities = await provider.capabilities();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://127.0.0.1:8000/api/v1/health',
+        expect.objectContaining({
+          headers: { Authorization: 'Bearer server-token' },
+        })
+      );
+      expect(capabilities).toEqual(['ocr-first', 'context-llm', 'vlm-fallback']);
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should report capabilities when the server is healthy', async () => {
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ status: 'ok', capabilities: ['ocr-first'] }),
+      } as Response);
+
+      await provider.initialize({});
+      const result = await provider.validateConfig();
+
+      expect(result.valid).toBe(true);
+      expect(result.message).toContain('ocr-first');
+    });
+
+    it('should return invalid on network failure', async () => {
+      vi.mocked(global.fetch).mockRejectedValue(new Error('Failed to fetch'));
+
+      await provider.initialize({});
+      const result = await provider.validateConfig();
+
+      expect(result.valid).toBe(false);
+      expect(result.message).toContain('无法连接到 Sidecar 服务');
+    });
+  });
+});
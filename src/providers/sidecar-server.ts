@@ -0,0 +1,205 @@
+/**
+ * Sidecar Server Provider
+ *
+ * Talks to the bundled Python sidecar (`server/app`), which runs an
+ * OCR-first pipeline with region-level and full-image VLM fallback.
+ * The sidecar does its own detection, translation and caching, so this
+ * provider only uploads the image and maps the response back into
+ * `VisionResponse`.
+ */
+
+import {
+  AnalyzeRequestOptions,
+  VisionProvider,
+  ProviderConfig,
+  VisionResponse,
+  ValidationResult,
+  TextArea,
+  TranslationStylePreset,
+  parseImageData,
+} from './base';
+import { API_URLS } from './constants';
+
+interface SidecarTextArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  originalText: string;
+  translatedText: string;
+  confidence?: number | null;
+  source?: string;
+}
+
+interface SidecarDiagnostics {
+  detectedRegions: number;
+  fallbackRegions: number;
+  ocrMs: number;
+  translateMs: number;
+  totalMs: number;
+}
+
+interface SidecarTranslateResponse {
+  success: boolean;
+  textAreas: SidecarTextArea[];
+  pipeline?: 'ocr-first' | 'region-fallback' | 'full-image-fallback';
+  cached?: boolean;
+  diagnostics?: SidecarDiagnostics | null;
+  error?: string | null;
+}
+
+interface SidecarHealthResponse {
+  status: string;
+  capabilities: string[];
+}
+
+export class SidecarServerProvider implements VisionProvider {
+  readonly name = 'Sidecar Server';
+  readonly type = 'sidecar-server' as const;
+
+  private config: ProviderConfig = {};
+
+  async initialize(config: ProviderConfig): Promise<void> {
+    this.config = {
+      ...config,
+      baseUrl: (config.baseUrl || API_URLS.SIDECAR_SERVER).replace(/\/+$/, ''),
+    };
+  }
+
+  async analyzeAndTranslate(
+    imageBase64: string,
+    targetLanguage: string,
+    translationStylePreset?: TranslationStylePreset,
+    signal?: AbortSignal,
+    options: AnalyzeRequestOptions = {}
+  ): Promise<VisionResponse> {
+    const imageData = parseImageData(imageBase64);
+
+    const form = new FormData();
+    form.append('image', base64ToBlob(imageData.base64, imageData.mediaType), 'page');
+    form.append('targetLanguage', targetLanguage);
+    if (translationStylePreset) {
+      form.append('translationStylePreset', translationStylePreset);
+    }
+    // 强制重翻时让 sidecar 跳过自己的缓存
+    if (options.imageKey) {
+      form.append('imageKey', options.imageKey);
+    }
+    if (options.forceRefresh) {
+      form.append('forceRefresh', 'true');
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/api/v1/translate-image`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: form,
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await this.createHttpError(response);
+    }
+
+    const data = (await response.json()) as SidecarTranslateResponse;
+    if (!data.success) {
+      throw new Error(`Sidecar server error: ${data.error || 'translation failed'}`);
+    }
+
+    return {
+      textAreas: (data.textAreas || []).map(toTextArea),
+      pipeline: data.pipeline,
+      cached: data.cached ?? false,
+      diagnostics: data.diagnostics ?? undefined,
+    };
+  }
+
+  async validateConfig(): Promise<ValidationResult> {
+    try {
+      const capabilities = await this.capabilities();
+      return {
+        valid: true,
+        message: `Sidecar 服务正常，能力: ${capabilities.join(', ') || '无'}`,
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        message: error instanceof Error ? error.message : '无法连接到 Sidecar 服务',
+      };
+    }
+  }
+
+  /**
+   * Ask the sidecar which pipeline stages it has enabled
+   * (e.g. `ocr-first`, `context-llm`, `mt:deepl,google`, `vlm-fallback`).
+   */
+  async capabilities(): Promise<string[]> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/api/v1/health`, {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(5000),
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.name === 'AbortError' || error.name === 'TimeoutError')
+      ) {
+        throw new Error('Sidecar 服务连接超时，请检查服务是否启动');
+      }
+      throw new Error('无法连接到 Sidecar 服务，请先启动 server/ 下的本地服务');
+    }
+
+    if (!response.ok) {
+      throw await this.createHttpError(response);
+    }
+
+    const data = (await response.json()) as SidecarHealthResponse;
+    return Array.isArray(data.capabilities) ? data.capabilities : [];
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async createHttpError(response: Response): Promise<Error> {
+    if (response.status === 401) {
+      return new Error('Sidecar server: Unauthorized，请检查 Bearer Token 是否与 SERVER_AUTH_TOKEN 一致');
+    }
+
+    const detail = await response
+      .json()
+      .then((body: unknown) => {
+        const value = (body as Record<string, unknown> | null)?.['detail'];
+        return typeof value === 'string' ? value : null;
+      })
+      .catch(() => null);
+    return new Error(
+      `Sidecar server API error: ${response.status} ${detail || response.statusText}`
+    );
+  }
+}
+
+function toTextArea(area: SidecarTextArea): TextArea {
+  return {
+    x: area.x,
+    y: area.y,
+    width: area.width,
+    height: area.height,
+    originalText: area.originalText || '',
+    translatedText: area.translatedText,
+  };
+}
+
+function base64ToBlob(base64: string, mediaType: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mediaType });
+}
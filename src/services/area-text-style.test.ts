@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TextArea } from '@/providers/base';
+import type { FontStyle } from '@/utils/font-style-matcher';
+import { toAreaTextStyle } from './area-text-style';
+
+function matched(overrides: Partial<FontStyle>): FontStyle {
+  return {
+    fontFamily: 'sans-serif',
+    fontSize: 20,
+    fontWeight: 'normal',
+    fontColor: { r: 10, g: 10, b: 10 },
+    backgroundColor: { r: 250, g: 250, b: 250 },
+    letterSpacing: 2,
+    ...overrides,
+  };
+}
+
+function area(originalText: string): TextArea {
+  return { x: 0.1, y: 0.1, width: 0.2, height: 0.1, originalText, translatedText: '译文' };
+}
+
+describe('area-text-style', () => {
+  it('keeps inverted captions white on black', () => {
+    const style = toAreaTextStyle(
+      matched({ fontColor: { r: 240, g: 240, b: 240 }, backgroundColor: { r: 5, g: 5, b: 5 } }),
+      area('その頃、東京では'),
+      0.5
+    );
+
+    expect(style).toMatchObject({
+      textColor: 'rgb(240, 240, 240)',
+      backgroundColor: 'rgba(5, 5, 5, 0.94)',
+      fontWeight: 500,
+      letterSpacing: 1,
+      sfx: false,
+    });
+  });
+
+  it('keeps shouted lines bold and gives short bold lettering a display font', () => {
+    const shout = toAreaTextStyle(matched({ fontWeight: 'bold' }), area('ふざけるな！！'), 1);
+    expect(shout).toMatchObject({ fontWeight: 700, sfx: false, fontFamily: undefined });
+
+    const sfx = toAreaTextStyle(matched({ fontWeight: 'bold' }), area('ドーン！'), 1);
+    expect(sfx.sfx).toBe(true);
+    expect(sfx.fontWeight).toBe(900);
+    expect(sfx.fontFamily).toContain('Impact');
+  });
+
+  it('falls back to a contrasting text colour when the matched one is unreadable', () => {
+    const style = toAreaTextStyle(
+      matched({ fontColor: { r: 200, g: 200, b: 200 }, backgroundColor: { r: 230, g: 230, b: 230 } }),
+      area('うん'),
+      1
+    );
+
+    expect(style.textColor).toBe('rgb(17, 17, 17)');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Area Text Style
+ *
+ * Per-area overlay styling derived from the original lettering with
+ * `matchFontStyle`: inverted captions keep white-on-black, bold shouted
+ * lines stay bold, and short bold lettering (SFX) gets a display font.
+ */
+
+import type { TextArea } from '@/providers/base';
+import type { DrawableSource } from '@/services/image-processor';
+import { matchFontStyle, type FontStyle } from '@/utils/font-style-matcher';
+
+export interface AreaTextStyle {
+  textColor: string;
+  backgroundColor: string;
+  fontWeight: number;
+  /** Display font for sound effects; other areas keep the overlay font */
+  fontFamily?: string;
+  /** CSS pixels at the displayed size */
+  letterSpacing: number;
+  sfx: boolean;
+}
+
+// 高匹配度：粗细按原文精确判断，颜色以原文为主
+const STYLE_LEVEL = 80;
+const SFX_FONT_FAMILY =
+  '"Arial Black", Impact, "Source Han Sans SC Heavy", "PingFang SC", "Microsoft YaHei", sans-serif';
+// 拟声词通常只有几个字，且笔画粗重
+const SFX_MAX_LENGTH = 4;
+// 文字与背景亮度差低于此值时看不清，改用黑白对比色
+const MIN_LUMINANCE_CONTRAST = 96;
+const OVERLAY_BACKGROUND_ALPHA = 0.94;
+const SFX_PUNCTUATION = /[\s!?！？~～ー—…・.,、。-]/gu;
+
+type Color = FontStyle['fontColor'];
+
+function luminance({ r, g, b }: Color): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function toRgb({ r, g, b }: Color): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+function isBold(fontWeight: FontStyle['fontWeight']): boolean {
+  return fontWeight === 'bold' || (typeof fontWeight === 'number' && fontWeight >= 600);
+}
+
+/**
+ * Overlay style for one area from the matcher output. `scale` converts
+ * source pixels to displayed pixels.
+ */
+export function toAreaTextStyle(matched: FontStyle, area: TextArea, scale: number): AreaTextStyle {
+  const background = matched.backgroundColor;
+  const text =
+    Math.abs(luminance(matched.fontColor) - luminance(background)) >= MIN_LUMINANCE_CONTRAST
+      ? matched.fontColor
+      : luminance(background) >= 128
+        ? { r: 17, g: 17, b: 17 }
+        : { r: 245, g: 245, b: 245 };
+  const bold = isBold(matched.fontWeight);
+  const sfx =
+    bold && area.originalText.replace(SFX_PUNCTUATION, '').length <= SFX_MAX_LENGTH;
+
+  return {
+    textColor: toRgb(text),
+    backgroundColor: `rgba(${background.r}, ${background.g}, ${background.b}, ${OVERLAY_BACKGROUND_ALPHA})`,
+    fontWeight: sfx ? 900 : bold ? 700 : 500,
+    fontFamily: sfx ? SFX_FONT_FAMILY : undefined,
+    letterSpacing: (matched.letterSpacing ?? 0) * scale,
+    sfx,
+  };
+}
+
+/**
+ * Matches the original lettering of every area on a readable page source.
+ * Areas that cannot be analysed get null and keep the global style.
+ */
+export function deriveAreaTextStyles(
+  source: DrawableSource,
+  textAreas: TextArea[],
+  displayWidth: number
+): Array<AreaTextStyle | null> {
+  const sourceWidth = source instanceof HTMLCanvasElement ? source.width : source.naturalWidth;
+  const sourceHeight = source instanceof HTMLCanvasElement ? source.height : source.naturalHeight;
+  const scale = displayWidth > 0 && sourceWidth > 0 ? displayWidth / sourceWidth : 1;
+
+  return textAreas.map(area => {
+    const region = {
+      x: Math.round(area.x * sourceWidth),
+      y: Math.round(area.y * sourceHeight),
+      width: Math.max(1, Math.round(area.width * sourceWidth)),
+      height: Math.max(1, Math.round(area.height * sourceHeight)),
+      text: area.originalText,
+    };
+    try {
+      return toAreaTextStyle(matchFontStyle(source, region, { styleLevel: STYLE_LEVEL }), area, scale);
+    } catch {
+      return null;
+    }
+  });
+}
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { getBackgroundRect } from './background-rect';
+
+function createElement(
+  width: number,
+  height: number,
+  style: Partial<CSSStyleDeclaration>
+) {
+  const element = document.createElement('div');
+  Object.defineProperty(element, 'offsetWidth', { value: width });
+  Object.defineProperty(element, 'offsetHeight', { value: height });
+  vi.spyOn(window, 'getComputedStyle').mockReturnValue({
+    backgroundSize: 'auto',
+    backgroundPosition: '0% 0%',
+    ...style,
+  } as CSSStyleDeclaration);
+  return element;
+}
+
+describe('getBackgroundRect', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('letterboxes a contained page at the given position', () => {
+    const element = createElement(1000, 1000, {
+      backgroundSize: 'contain',
+      backgroundPosition: '50% 50%',
+    });
+
+    expect(getBackgroundRect(element, 800, 1600)).toEqual({
+      left: 250,
+      top: 0,
+      width: 500,
+      height: 1000,
+    });
+  });
+
+  it('crops a covering page around its position', () => {
+    const element = createElement(1000, 1000, {
+      backgroundSize: 'cover',
+      backgroundPosition: 'bottom',
+    });
+
+    expect(getBackgroundRect(element, 800, 1600)).toEqual({
+      left: 0,
+      top: -1000,
+      width: 1000,
+      height: 2000,
+    });
+  });
+
+  it('resolves explicit sizes and keeps the aspect ratio for auto', () => {
+    const element = createElement(1000, 1500, {
+      backgroundSize: '80% auto',
+      backgroundPosition: 'right 20px',
+    });
+
+    expect(getBackgroundRect(element, 800, 1200)).toEqual({
+      left: 200,
+      top: 20,
+      width: 800,
+      height: 1200,
+    });
+  });
+
+  it('falls back to the element box while the image size is unknown', () => {
+    const element = createElement(900, 1300, { backgroundSize: 'contain' });
+
+    expect(getBackgroundRect(element, 0, 0)).toEqual({
+      left: 0,
+      top: 0,
+      width: 900,
+      height: 1300,
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Where a CSS background image is actually drawn inside its element. Pages
+ * shown as `background-image` are rarely stretched to the element box:
+ * `cover` crops them, `contain` letterboxes them, and `background-position`
+ * moves them. Overlays of such pages are laid out in this rect.
+ */
+
+export interface BackgroundRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const HORIZONTAL_KEYWORDS: Record<string, number> = {
+  left: 0,
+  center: 50,
+  right: 100,
+};
+const VERTICAL_KEYWORDS: Record<string, number> = {
+  top: 0,
+  center: 50,
+  bottom: 100,
+};
+
+function firstLayer(value: string): string {
+  return value.split(',')[0]?.trim() ?? '';
+}
+
+/** A `px` or `%` length, or null for `auto` and anything unparsable */
+function resolveLength(value: string, reference: number): number | null {
+  const number = parseFloat(value);
+  if (!Number.isFinite(number)) {
+    return null;
+  }
+  return value.endsWith('%') ? (reference * number) / 100 : number;
+}
+
+function resolveSize(value: string, box: Size, image: Size): Size {
+  if (value === 'cover' || value === 'contain') {
+    const scaleX = box.width / image.width;
+    const scaleY = box.height / image.height;
+    const scale =
+      value === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    return { width: image.width * scale, height: image.height * scale };
+  }
+
+  const [x = 'auto', y = 'auto'] = value.split(/\s+/);
+  const width = resolveLength(x, box.width);
+  const height = resolveLength(y, box.height);
+  if (width !== null && height !== null) {
+    return { width, height };
+  }
+  if (width !== null) {
+    return { width, height: (width * image.height) / image.width };
+  }
+  if (height !== null) {
+    return { width: (height * image.width) / image.height, height };
+  }
+  return image;
+}
+
+/** Offset of one `background-position` component within the free space */
+function resolveOffset(
+  value: string,
+  free: number,
+  keywords: Record<string, number>
+): number {
+  const keyword = keywords[value];
+  if (keyword !== undefined) {
+    return (free * keyword) / 100;
+  }
+  return resolveLength(value, free) ?? 0;
+}
+
+function resolvePosition(
+  value: string,
+  box: Size,
+  size: Size
+): { left: number; top: number } {
+  let [x = '0%', y = 'center'] = value.split(/\s+/);
+  // `top left` 之类纵向关键字在前的写法
+  if (x in VERTICAL_KEYWORDS && x !== 'center') {
+    [x, y] = [y, x];
+  } else if (y in HORIZONTAL_KEYWORDS && y !== 'center') {
+    [x, y] = [y, x];
+  }
+  return {
+    left: resolveOffset(x, box.width - size.width, HORIZONTAL_KEYWORDS),
+    top: resolveOffset(y, box.height - size.height, VERTICAL_KEYWORDS),
+  };
+}
+
+/**
+ * Rect of the element's first background layer relative to its box, given
+ * the image's intrinsic size. Falls back to the whole box while either size
+ * is unknown.
+ */
+export function getBackgroundRect(
+  element: HTMLElement,
+  imageWidth: number,
+  imageHeight: number
+): BackgroundRect {
+  const box = { width: element.offsetWidth, height: element.offsetHeight };
+  if (!box.width || !box.height || !imageWidth || !imageHeight) {
+    return { left: 0, top: 0, ...box };
+  }
+
+  const style = window.getComputedStyle(element);
+  const size = resolveSize(firstLayer(style.backgroundSize) || 'auto', box, {
+    width: imageWidth,
+    height: imageHeight,
+  });
+  const position = resolvePosition(
+    firstLayer(style.backgroundPosition) || '0% 0%',
+    box,
+    size
+  );
+  return { ...position, ...size };
+}
@@ -3,10 +3,14 @@ import {
   shouldPreserveTallMangaPage,
   compressImage,
   calculateHash,
+  calculatePerceptualHash,
+  computeDifferenceHash,
+  hammingDistance,
   imageToBase64,
   loadImage,
   processImageFromUrl,
   processImage,
+  processPageElement,
   meetsMinimumSize,
   getImageDimensions,
   base64ToDataUrl,
@@ -121,6 +125,43 @@ describe('image-processor', () => {
     });
   });
 
+  // ================================================================
+  // perceptual hash
+  // ================================================================
+  describe('perceptual hash', () => {
+    /** 9x8 grayscale thumbnail: a left-to-right gradient with a per-row offset */
+    function gradient(scale: number, offset = 0): number[] {
+      return Array.from({ length: 72 }, (_, i) => {
+        const x = i % 9;
+        const y = Math.floor(i / 9);
+        return 255 - (x * 20 + y * 3) * scale + offset;
+      });
+    }
+
+    it('sets one bit per left-brighter-than-right comparison', () => {
+      expect(computeDifferenceHash(gradient(1))).toBe('ffffffffffffffff');
+      expect(computeDifferenceHash(gradient(-1, -255))).toBe('0000000000000000');
+    });
+
+    it('is stable under brightness and contrast changes', () => {
+      expect(computeDifferenceHash(gradient(0.8, -10))).toBe(
+        computeDifferenceHash(gradient(1))
+      );
+    });
+
+    it('counts differing bits between hashes', () => {
+      expect(hammingDistance('ffffffffffffffff', 'ffffffffffffffff')).toBe(0);
+      expect(hammingDistance('ffffffffffffffff', 'fffffffffffffff0')).toBe(4);
+      expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+      expect(hammingDistance('ff', 'ffff')).toBe(Number.POSITIVE_INFINITY);
+    });
+
+    it('returns null when images cannot be decoded', async () => {
+      // jsdom has no createImageBitmap
+      expect(await calculatePerceptualHash('aGVsbG8=')).toBeNull();
+    });
+  });
+
   // ================================================================
   // imageToBase64
   // ================================================================
@@ -478,6 +519,79 @@ describe('image-processor', () => {
     });
   });
 
+  // ================================================================
+  // processPageElement
+  // ================================================================
+  describe('processPageElement', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('reads an untainted reader canvas back directly', async () => {
+      const mockCtx = {
+        drawImage: vi.fn(),
+        imageSmoothingEnabled: true,
+        imageSmoothingQuality: 'high',
+      };
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+        mockCtx as unknown as CanvasRenderingContext2D
+      );
+      vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(
+        'data:image/jpeg;base64,canvas_base64',
+      );
+      const canvas = document.createElement('canvas');
+      canvas.width = 800;
+      canvas.height = 1200;
+
+      const result = await processPageElement(canvas);
+
+      expect(result.base64).toBe('canvas_base64');
+      expect(result.originalWidth).toBe(800);
+      expect(mockCtx.drawImage).toHaveBeenCalledWith(canvas, 0, 0, 800, 1200, 0, 0, 683, 1024);
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('refetches a tainted canvas from its source URL and fails without one', async () => {
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+        drawImage: vi.fn(),
+      } as unknown as CanvasRenderingContext2D);
+      vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(() => {
+        throw new DOMException('Tainted canvases may not be exported.', 'SecurityError');
+      });
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValue({
+        success: true,
+        imageBase64: 'proxy_base64',
+        mimeType: 'image/webp',
+      });
+      const canvas = document.createElement('canvas');
+      canvas.width = 800;
+      canvas.height = 1200;
+
+      const result = await processPageElement(canvas, {}, 'https://cdn.example.com/p1.webp');
+
+      expect(result.base64).toBe('proxy_base64');
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'FETCH_IMAGE_BYTES',
+        imageUrl: 'https://cdn.example.com/p1.webp',
+      });
+      await expect(processPageElement(canvas)).rejects.toThrow('Tainted canvases');
+    });
+
+    it('fetches background-image elements via the background proxy', async () => {
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValue({
+        success: true,
+        imageBase64: 'bg_base64',
+        mimeType: 'image/jpeg',
+      });
+      const page = document.createElement('div');
+
+      const result = await processPageElement(page, {}, 'https://cdn.example.com/bg.jpg');
+
+      expect(result.base64).toBe('bg_base64');
+      await expect(processPageElement(page)).rejects.toThrow('element has no image source');
+    });
+  });
+
   // ================================================================
   // loadImage
   // ================================================================
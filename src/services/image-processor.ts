@@ -4,7 +4,7 @@
  * Handles image processing operations for manga translation:
  * - Convert images to base64
  * - Compress large images
- * - Calculate image hashes for caching
+ * - Calculate image hashes for caching (exact SHA-256 and perceptual dHash)
  *
  * Requirements: 9.3
  */
@@ -73,6 +73,13 @@ export function shouldPreserveTallMangaPage(
   return width <= Math.min(maxSize, 1400) && height > maxSize && aspectRatio >= 2.4;
 }
 
+/**
+ * 漫画长图（高宽比 >= 2.4 且高度 >= 2000px）按视口裁剪后翻译。
+ */
+export function isTallMangaPage(width: number, height: number): boolean {
+  return width > 0 && height > 0 && height / width >= 2.4 && height >= 2000;
+}
+
 // ==================== Core Functions ====================
 
 /**
@@ -105,6 +112,126 @@ export async function calculateHash(data: string): Promise<string> {
   return Math.abs(hash).toString(16).padStart(8, '0');
 }
 
+/** dHash samples a (size + 1) x size grayscale thumbnail → size² bits */
+const PERCEPTUAL_HASH_SIZE = 8;
+
+/**
+ * Difference hash (dHash) of a grayscale thumbnail laid out row by row,
+ * `PERCEPTUAL_HASH_SIZE + 1` samples wide. Each bit records whether a sample
+ * is brighter than its right neighbour, which survives re-encoding, resizing
+ * and format changes far better than hashing the bytes.
+ *
+ * @param luminance Grayscale samples (0-255)
+ * @returns 16-character hexadecimal hash
+ */
+export function computeDifferenceHash(luminance: ArrayLike<number>): string {
+  const rowWidth = PERCEPTUAL_HASH_SIZE + 1;
+  let hex = '';
+  let nibble = 0;
+  let bitCount = 0;
+
+  for (let y = 0; y < PERCEPTUAL_HASH_SIZE; y++) {
+    for (let x = 0; x < PERCEPTUAL_HASH_SIZE; x++) {
+      const left = luminance[y * rowWidth + x] ?? 0;
+      const right = luminance[y * rowWidth + x + 1] ?? 0;
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      bitCount++;
+      if (bitCount % 4 === 0) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hex;
+}
+
+/**
+ * Number of differing bits between two hex hashes of equal length.
+ * Hashes of different lengths are never similar.
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a.charAt(i), 16) ^ parseInt(b.charAt(i), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Calculate a perceptual hash (dHash) of base64 image data
+ *
+ * Decodes the image with createImageBitmap and draws it onto a tiny canvas,
+ * so it also works in the service worker (OffscreenCanvas).
+ *
+ * @param base64 Base64 encoded image data (without data URL prefix)
+ * @param mimeType MIME type of the image
+ * @returns 16-character hexadecimal hash, or null when decoding is unavailable
+ */
+export async function calculatePerceptualHash(
+  base64: string,
+  mimeType: string = 'image/jpeg'
+): Promise<string | null> {
+  if (typeof createImageBitmap !== 'function') {
+    return null;
+  }
+
+  try {
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    const bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }));
+    const width = PERCEPTUAL_HASH_SIZE + 1;
+    const height = PERCEPTUAL_HASH_SIZE;
+    const canvas =
+      typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(width, height)
+        : Object.assign(document.createElement('canvas'), { width, height });
+    const ctx = canvas.getContext('2d') as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null;
+
+    if (!ctx) {
+      bitmap.close();
+      return null;
+    }
+
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const luminance: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      luminance.push(
+        0.299 * (data[i] ?? 0) + 0.587 * (data[i + 1] ?? 0) + 0.114 * (data[i + 2] ?? 0)
+      );
+    }
+    return computeDifferenceHash(luminance);
+  } catch (error) {
+    console.warn('[ImageProcessor] Perceptual hash failed:', getErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Pixel sources drawn onto the encoding canvas: page `<img>` elements and
+ * reader `<canvas>` elements.
+ */
+export type DrawableSource = HTMLImageElement | HTMLCanvasElement;
+
+function getDrawableSize(source: DrawableSource): { width: number; height: number } {
+  return source instanceof HTMLCanvasElement
+    ? { width: source.width, height: source.height }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+}
+
 /**
  * Convert an HTMLImageElement to base64
  *
@@ -144,28 +271,25 @@ export function imageToBase64(
  * @returns Object with compressed base64 and dimensions
  */
 export function compressImage(
-  image: HTMLImageElement,
+  image: DrawableSource,
   maxSize: number = DEFAULT_OPTIONS.maxSize,
   quality: number = DEFAULT_OPTIONS.quality,
   viewportCrop: boolean = false,
   format: string = 'jpeg'
 ): { base64: string; width: number; height: number; wasCompressed: boolean; cropY: number; cropHeight: number } {
+  const natural = getDrawableSize(image);
+
   // Guard against zero-dimension images (e.g. failed image loads) so we
   // don't produce NaN canvas dimensions or empty base64.
-  if (
-    !image.naturalWidth ||
-    !image.naturalHeight ||
-    image.naturalWidth <= 0 ||
-    image.naturalHeight <= 0
-  ) {
+  if (!natural.width || !natural.height || natural.width <= 0 || natural.height <= 0) {
     throw new Error(
-      `compressImage: invalid image dimensions (${image.naturalWidth}x${image.naturalHeight})`
+      `compressImage: invalid image dimensions (${natural.width}x${natural.height})`
     );
   }
 
   let sourceY = 0;
-  let sourceHeight = image.naturalHeight;
-  const sourceWidth = image.naturalWidth;
+  let sourceHeight = natural.height;
+  const sourceWidth = natural.width;
 
   // 1. 如果需要视口裁剪，计算当前视口中图片的范围
   if (viewportCrop) {
@@ -174,7 +298,7 @@ export function compressImage(
 
     // 如果图片完全不在视口中，就不裁剪了（或给一个默认行为），但通常我们只有在 hover/click 时才调用这个
     if (rect.bottom >= 0 && rect.top <= windowHeight) {
-      const scaleY = image.naturalHeight / rect.height;
+      const scaleY = natural.height / rect.height;
 
       // 在 DOM 像素下的可见顶部和底部
       const visibleTopDOM = Math.max(0, -rect.top);
@@ -192,7 +316,7 @@ export function compressImage(
 
       // 确保不越界
       sourceY = Math.max(0, sourceY);
-      sourceHeight = Math.min(image.naturalHeight - sourceY, sourceHeight);
+      sourceHeight = Math.min(natural.height - sourceY, sourceHeight);
     }
   }
 
@@ -271,13 +395,13 @@ export function compressImage(
  * @returns Processed image data
  */
 export async function processImage(
-  image: HTMLImageElement,
-  options: ImageProcessingOptions = {}
+  image: DrawableSource,
+  options: ImageProcessingOptions = {},
+  sourceUrl?: string
 ): Promise<ProcessedImage> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
 
-  const originalWidth = image.naturalWidth;
-  const originalHeight = image.naturalHeight;
+  const { width: originalWidth, height: originalHeight } = getDrawableSize(image);
 
   try {
     // Try canvas path first (same-origin or CORS-enabled images)
@@ -309,10 +433,35 @@ export async function processImage(
       '[ImageProcessor] Canvas path failed, falling back to background proxy:',
       getErrorMessage(error)
     );
-    return processImageViaBackground(image.src, originalWidth, originalHeight);
+    // 被污染的阅读器 canvas 无法回读，只能按已知的原图地址重新获取
+    const fallbackUrl = image instanceof HTMLCanvasElement ? sourceUrl : image.src;
+    if (!fallbackUrl) {
+      throw error;
+    }
+    return processImageViaBackground(fallbackUrl, originalWidth, originalHeight);
   }
 }
 
+/**
+ * Process any page element that displays a manga page: `<img>` and
+ * `<canvas>` are drawn directly; other elements (CSS `background-image`)
+ * are fetched from `sourceUrl` via the background proxy.
+ */
+export async function processPageElement(
+  element: HTMLElement,
+  options: ImageProcessingOptions = {},
+  sourceUrl?: string
+): Promise<ProcessedImage> {
+  if (element instanceof HTMLImageElement || element instanceof HTMLCanvasElement) {
+    return processImage(element, options, sourceUrl);
+  }
+
+  if (!sourceUrl) {
+    throw new Error('processPageElement: element has no image source');
+  }
+  return processImageViaBackground(sourceUrl, element.offsetWidth, element.offsetHeight);
+}
+
 /**
  * Process an image via background script to bypass CORS.
  *
@@ -369,6 +518,22 @@ export function loadImage(url: string): Promise<HTMLImageElement> {
   });
 }
 
+/**
+ * Load a cross-origin image as a readable (untainted) element: the
+ * background fetches the bytes and the image is decoded from a data URL.
+ */
+export async function loadImageViaBackground(imageUrl: string): Promise<HTMLImageElement> {
+  const response = (await chrome.runtime.sendMessage({
+    type: 'FETCH_IMAGE_BYTES',
+    imageUrl,
+  })) as { success?: boolean; imageBase64?: string; mimeType?: string; error?: string };
+
+  if (!response?.success || !response.imageBase64) {
+    throw new Error(`Failed to fetch image via background: ${response?.error || 'Unknown error'}`);
+  }
+  return loadImage(base64ToDataUrl(response.imageBase64, response.mimeType));
+}
+
 /**
  * Process an image from URL
  *
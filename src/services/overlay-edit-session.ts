@@ -0,0 +1,639 @@
+/**
+ * Overlay Edit Session
+ *
+ * Edit mode of a rendered page (double-click an overlay): fix the translated
+ * text in place, drag or resize boxes, split, merge and delete areas. At most
+ * one page is in edit mode at a time. The renderer owns the page and its
+ * overlays and reaches this module only through a few hooks; every edit is
+ * handed back to it as a new area list (geometry in overlay-edit.ts).
+ */
+
+import type { TextArea } from '@/providers/base';
+import { fitAreaToBox, mergeAreasAt, moveArea, splitArea } from '@/services/overlay-edit';
+
+// ==================== Type Definitions ====================
+
+/** Called with the page's full area list after each in-place edit */
+export type OverlayEditListener = (anchor: HTMLElement, textAreas: TextArea[]) => void;
+
+/** Toolbar notice for a page in edit mode, e.g. that its edits are not saved */
+export type OverlayEditNotice = (anchor: HTMLElement) => string | null;
+
+/** The parts of a rendered page edit mode works on */
+export interface EditablePage {
+  wrapper: HTMLElement;
+  overlayContainer: HTMLElement;
+  overlays: HTMLElement[];
+  textAreas: TextArea[];
+}
+
+/** Hooks the renderer provides to the edit session */
+export interface OverlayEditHost {
+  getPage(anchor: HTMLElement): EditablePage | undefined;
+  /** Size of the box the page's overlays are laid out in */
+  getOverlayBox(anchor: HTMLElement): { width: number; height: number };
+  isVertical(overlay: HTMLElement): boolean;
+  /** Rebuilds the page's overlays from its current areas */
+  redraw(anchor: HTMLElement): void;
+  /** Replaces the page's areas with an edited list and re-renders them */
+  commit(anchor: HTMLElement, textAreas: TextArea[]): void;
+  /** Brings back the page's regular rendering once edit mode ends */
+  restore(anchor: HTMLElement): void;
+}
+
+interface TextEdit {
+  index: number;
+  overlay: HTMLElement;
+  /** Detaches the editing handlers without applying the text */
+  end: () => void;
+}
+
+interface EditSession {
+  anchor: HTMLElement;
+  /** Indices of the selected areas */
+  selected: number[];
+  toolbar: HTMLElement;
+  resizeHandle: HTMLElement;
+  textEdit: TextEdit | null;
+  onKeyDown: (event: KeyboardEvent) => void;
+}
+
+type EditAction = 'split' | 'merge' | 'delete' | 'done';
+
+// ==================== Constants ====================
+
+// Wrapper modifier, selected overlays, resize handle and toolbar
+const EDITING_CLASS = 'manga-translator-editing';
+const SELECTED_CLASS = 'manga-translator-selected';
+const RESIZE_HANDLE_CLASS = 'manga-translator-resize-handle';
+export const EDIT_TOOLBAR_CLASS = 'manga-translator-edit-toolbar';
+const EDIT_NOTICE_CLASS = 'manga-translator-edit-notice';
+
+// Pointer travel (px) below which a press on an overlay only selects it
+const DRAG_THRESHOLD = 3;
+const MIN_OVERLAY_SIZE = 16;
+
+const EDIT_ACTIONS: Array<{ action: EditAction; label: string; title: string }> = [
+  { action: 'split', label: '✂', title: '拆分气泡（编辑文字时从光标处拆分）' },
+  { action: 'merge', label: '⧉', title: '合并选中的气泡（Shift+点击多选）' },
+  { action: 'delete', label: '🗑', title: '删除选中的气泡' },
+  { action: 'done', label: '✓', title: '完成编辑' },
+];
+
+// ==================== Utility Functions ====================
+
+function getStyledRect(element: HTMLElement): DOMRect {
+  const left = parseFloat(element.style.left || '0');
+  const top = parseFloat(element.style.top || '0');
+  const width = parseFloat(element.style.width || '0');
+  const height = parseFloat(element.style.height || '0');
+
+  return new DOMRect(left, top, width, height);
+}
+
+/** Length of the text before the caret when the caret is inside `element` */
+function getCaretOffset(element: HTMLElement): number | undefined {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || !selection.anchorNode ||
+    !element.contains(selection.anchorNode)) {
+    return undefined;
+  }
+  const range = document.createRange();
+  range.selectNodeContents(element);
+  range.setEnd(selection.anchorNode, selection.anchorOffset);
+  return range.toString().length;
+}
+
+/**
+ * Follows the pointer until the button is released, reporting the offset
+ * from where the press started
+ */
+function trackPointer(
+  start: MouseEvent,
+  onMove: (dx: number, dy: number) => void,
+  onEnd: (dx: number, dy: number) => void
+): void {
+  const offset = (event: MouseEvent) =>
+    [event.clientX - start.clientX, event.clientY - start.clientY] as const;
+  const handleMove = (event: MouseEvent) => onMove(...offset(event));
+  const handleUp = (event: MouseEvent) => {
+    document.removeEventListener('mousemove', handleMove);
+    document.removeEventListener('mouseup', handleUp);
+    onEnd(...offset(event));
+  };
+  document.addEventListener('mousemove', handleMove);
+  document.addEventListener('mouseup', handleUp);
+}
+
+/**
+ * Edit-mode CSS, scoped by the renderer's wrapper, container and overlay
+ * classes
+ */
+export function createEditStyles(classes: {
+  wrapper: string;
+  container: string;
+  overlay: string;
+}): string {
+  const { wrapper, container, overlay } = classes;
+  return `
+    .${wrapper}.${EDITING_CLASS} .${container} {
+      opacity: 1;
+    }
+
+    .${wrapper}.${EDITING_CLASS} .${overlay} {
+      pointer-events: auto;
+      cursor: move;
+      outline: 1px dashed rgba(37, 99, 235, 0.8);
+      animation: none;
+    }
+
+    .${wrapper}.${EDITING_CLASS} .${overlay}:hover {
+      opacity: 1 !important;
+    }
+
+    .${wrapper}.${EDITING_CLASS} .${overlay}.${SELECTED_CLASS} {
+      outline: 2px solid #2563eb;
+    }
+
+    .${wrapper}.${EDITING_CLASS} .${overlay}[contenteditable] {
+      cursor: text;
+      user-select: text;
+      overflow: auto;
+    }
+
+    .${RESIZE_HANDLE_CLASS} {
+      position: absolute;
+      width: 12px;
+      height: 12px;
+      margin: -8px 0 0 -8px;
+      box-sizing: border-box;
+      border: 2px solid #fff;
+      border-radius: 2px;
+      background: #2563eb;
+      cursor: nwse-resize;
+      pointer-events: auto;
+      z-index: 1;
+    }
+
+    .${EDIT_TOOLBAR_CLASS} {
+      position: absolute;
+      top: 4px;
+      left: 4px;
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      z-index: 1001;
+    }
+
+    .${EDIT_NOTICE_CLASS} {
+      padding: 4px 8px;
+      border-radius: 4px;
+      background: rgba(180, 83, 9, 0.9);
+      color: white;
+      font-size: 12px;
+      line-height: 20px;
+      white-space: nowrap;
+    }
+  `;
+}
+
+// ==================== OverlayEditor Class ====================
+
+export class OverlayEditor {
+  private session: EditSession | null = null;
+  private notice: OverlayEditNotice | null = null;
+
+  constructor(private readonly host: OverlayEditHost) {}
+
+  setNotice(notice: OverlayEditNotice | null): void {
+    this.notice = notice;
+  }
+
+  isEditing(anchor: HTMLElement): boolean {
+    return this.session?.anchor === anchor;
+  }
+
+  /**
+   * Puts a rendered page into edit mode, leaving edit mode on any other page
+   */
+  start(anchor: HTMLElement, selected: number[] = []): boolean {
+    const page = this.host.getPage(anchor);
+    if (!page) {
+      return false;
+    }
+
+    if (this.session?.anchor !== anchor) {
+      this.stop();
+
+      const resizeHandle = document.createElement('div');
+      resizeHandle.className = RESIZE_HANDLE_CLASS;
+      resizeHandle.title = '拖动调整大小';
+      resizeHandle.addEventListener('mousedown', e => this.handleResizeMouseDown(anchor, e));
+      const onKeyDown = (event: KeyboardEvent) => this.handleKeyDown(event);
+      this.session = {
+        anchor,
+        selected,
+        toolbar: this.createToolbar(this.notice?.(anchor) ?? null),
+        resizeHandle,
+        textEdit: null,
+        onKeyDown,
+      };
+
+      page.wrapper.classList.add(EDITING_CLASS);
+      page.wrapper.appendChild(this.session.toolbar);
+      page.overlayContainer.appendChild(resizeHandle);
+      document.addEventListener('keydown', onKeyDown);
+      this.host.redraw(anchor);
+    } else {
+      this.session.selected = selected;
+    }
+
+    this.syncSelection();
+    return true;
+  }
+
+  /**
+   * Leaves edit mode, applying text still being typed
+   */
+  stop(): void {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    this.finishTextEdit(true);
+    this.session = null;
+
+    document.removeEventListener('keydown', session.onKeyDown);
+    session.toolbar.remove();
+    session.resizeHandle.remove();
+    const page = this.host.getPage(session.anchor);
+    if (page) {
+      page.wrapper.classList.remove(EDITING_CLASS);
+      page.overlays.forEach(overlay => overlay.classList.remove(SELECTED_CLASS));
+      this.host.restore(session.anchor);
+    }
+  }
+
+  /**
+   * Marks the selected overlays and moves the resize handle to the corner
+   * of a single selected overlay. Called again whenever the page's overlays
+   * are rebuilt.
+   */
+  syncSelection(): void {
+    const session = this.session;
+    const page = session && this.host.getPage(session.anchor);
+    if (!session || !page) {
+      return;
+    }
+
+    session.selected = session.selected.filter(index => index < page.overlays.length);
+    page.overlays.forEach((overlay, index) =>
+      overlay.classList.toggle(SELECTED_CLASS, session.selected.includes(index))
+    );
+
+    const only = session.selected.length === 1 ? session.selected[0] : undefined;
+    const overlay = only === undefined ? undefined : page.overlays[only];
+    this.placeResizeHandle(overlay);
+
+    const enabled: Record<EditAction, boolean> = {
+      split: session.selected.length === 1,
+      merge: session.selected.length > 1,
+      delete: session.selected.length > 0,
+      done: true,
+    };
+    session.toolbar.querySelectorAll('button').forEach(button => {
+      const action = button.getAttribute('data-action') as EditAction;
+      button.disabled = !enabled[action];
+    });
+  }
+
+  handleDoubleClick(anchor: HTMLElement, event: MouseEvent): void {
+    const index = this.findOverlayIndex(anchor, event.target);
+    if (index < 0 || this.session?.textEdit?.index === index) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    this.start(anchor, [index]);
+    this.beginTextEdit(anchor, index);
+  }
+
+  /**
+   * In edit mode a press on an overlay selects it (Shift toggles it in the
+   * selection) and dragging moves it
+   */
+  handleMouseDown(anchor: HTMLElement, event: MouseEvent): void {
+    const session = this.session;
+    if (session?.anchor !== anchor || event.button !== 0) {
+      return;
+    }
+    const index = this.findOverlayIndex(anchor, event.target);
+    const overlay = this.host.getPage(anchor)?.overlays[index];
+    if (!overlay || session.textEdit?.index === index) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    this.finishTextEdit(true);
+
+    if (event.shiftKey) {
+      session.selected = session.selected.includes(index)
+        ? session.selected.filter(selected => selected !== index)
+        : [...session.selected, index];
+      this.syncSelection();
+      return;
+    }
+    if (!session.selected.includes(index)) {
+      session.selected = [index];
+    }
+    this.syncSelection();
+
+    // 选择后覆盖层可能已重建，按索引取当前元素
+    const dragged = this.host.getPage(anchor)?.overlays[index];
+    if (!dragged) {
+      return;
+    }
+    const start = getStyledRect(dragged);
+    trackPointer(
+      event,
+      (dx, dy) => {
+        dragged.style.left = `${start.left + dx}px`;
+        dragged.style.top = `${start.top + dy}px`;
+        this.placeResizeHandle(session.selected.length === 1 ? dragged : undefined);
+      },
+      (dx, dy) => {
+        if (Math.abs(dx) + Math.abs(dy) < DRAG_THRESHOLD) {
+          return;
+        }
+        const { width, height } = this.host.getOverlayBox(anchor);
+        this.applyEdit(anchor, areas =>
+          areas.map((area, i) => (i === index ? moveArea(area, dx / width, dy / height) : area))
+        );
+      }
+    );
+  }
+
+  // ==================== Private Methods ====================
+
+  private createToolbar(notice: string | null): HTMLElement {
+    const toolbar = document.createElement('div');
+    toolbar.className = EDIT_TOOLBAR_CLASS;
+    for (const { action, label, title } of EDIT_ACTIONS) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = label;
+      button.title = title;
+      button.setAttribute('data-action', action);
+      // 保持正在编辑的文字焦点，拆分时才能读到光标位置
+      button.addEventListener('mousedown', e => e.preventDefault());
+      button.addEventListener('click', e => {
+        e.stopPropagation();
+        this.runAction(action);
+      });
+      toolbar.appendChild(button);
+    }
+    if (notice) {
+      const label = document.createElement('span');
+      label.className = EDIT_NOTICE_CLASS;
+      label.textContent = notice;
+      toolbar.appendChild(label);
+    }
+    return toolbar;
+  }
+
+  private runAction(action: EditAction): void {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    const { anchor, selected } = session;
+    switch (action) {
+      case 'split':
+        this.splitSelected();
+        return;
+      case 'merge':
+        this.finishTextEdit(true);
+        this.applyEdit(anchor, areas => mergeAreasAt(areas, selected), [Math.min(...selected)]);
+        return;
+      case 'delete':
+        this.finishTextEdit(false);
+        this.applyEdit(anchor, areas => areas.filter((_, index) => !selected.includes(index)), []);
+        return;
+      case 'done':
+        this.stop();
+    }
+  }
+
+  /**
+   * Splits the selected area at the caret when its text is being edited,
+   * otherwise at the break closest to the middle of the text
+   */
+  private splitSelected(): void {
+    const session = this.session;
+    const page = session && this.host.getPage(session.anchor);
+    const index = session?.selected.length === 1 ? session.selected[0] : undefined;
+    const area = index === undefined ? undefined : page?.textAreas[index];
+    const overlay = index === undefined ? undefined : page?.overlays[index];
+    if (!session || index === undefined || !area || !overlay) {
+      return;
+    }
+
+    let edited = area;
+    let offset: number | undefined;
+    if (session.textEdit?.index === index) {
+      edited = { ...area, translatedText: overlay.textContent ?? '' };
+      offset = getCaretOffset(overlay);
+      session.textEdit.end();
+      session.textEdit = null;
+    }
+    const vertical = this.host.isVertical(overlay);
+    const parts =
+      (offset !== undefined ? splitArea(edited, vertical, offset) : null) ??
+      splitArea(edited, vertical);
+    if (!parts) {
+      this.applyEdit(session.anchor, areas => areas.map((current, i) => (i === index ? edited : current)));
+      return;
+    }
+    this.applyEdit(
+      session.anchor,
+      areas => areas.flatMap((current, i) => (i === index ? parts : [current])),
+      [index, index + 1]
+    );
+  }
+
+  /**
+   * Hands the edited area list to the renderer. `selected` replaces the
+   * selection when given.
+   */
+  private applyEdit(
+    anchor: HTMLElement,
+    update: (textAreas: TextArea[]) => TextArea[],
+    selected?: number[]
+  ): void {
+    const page = this.host.getPage(anchor);
+    if (!page) {
+      return;
+    }
+    if (selected && this.session?.anchor === anchor) {
+      this.session.selected = selected;
+    }
+    this.host.commit(anchor, update(page.textAreas));
+  }
+
+  private placeResizeHandle(overlay: HTMLElement | undefined): void {
+    const handle = this.session?.resizeHandle;
+    if (!handle) {
+      return;
+    }
+    if (!overlay || this.session?.textEdit) {
+      handle.style.display = 'none';
+      return;
+    }
+    const rect = getStyledRect(overlay);
+    Object.assign(handle.style, {
+      display: 'block',
+      left: `${rect.right}px`,
+      top: `${rect.bottom}px`,
+    });
+  }
+
+  private findOverlayIndex(anchor: HTMLElement, target: EventTarget | null): number {
+    const overlays = this.host.getPage(anchor)?.overlays ?? [];
+    return target instanceof Node ? overlays.findIndex(overlay => overlay.contains(target)) : -1;
+  }
+
+  private handleResizeMouseDown(anchor: HTMLElement, event: MouseEvent): void {
+    const session = this.session;
+    const index = session?.selected.length === 1 ? session.selected[0] : undefined;
+    const overlay = index === undefined ? undefined : this.host.getPage(anchor)?.overlays[index];
+    if (!session || index === undefined || !overlay || event.button !== 0) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+
+    const start = getStyledRect(overlay);
+    const resize = (dx: number, dy: number) => {
+      overlay.style.width = `${Math.max(start.width + dx, MIN_OVERLAY_SIZE)}px`;
+      overlay.style.height = `${Math.max(start.height + dy, MIN_OVERLAY_SIZE)}px`;
+      this.placeResizeHandle(overlay);
+    };
+    trackPointer(event, resize, (dx, dy) => {
+      if (Math.abs(dx) + Math.abs(dy) < DRAG_THRESHOLD) {
+        return;
+      }
+      resize(dx, dy);
+      const { width, height } = this.host.getOverlayBox(anchor);
+      const box = getStyledRect(overlay);
+      this.applyEdit(anchor, areas =>
+        areas.map((area, i) => (i === index ? fitAreaToBox(area, box, width, height) : area))
+      );
+    });
+  }
+
+  /**
+   * Edit-mode keys outside of text editing: Delete removes the selected
+   * areas, Enter edits the selected text, Escape leaves edit mode
+   */
+  private handleKeyDown(event: KeyboardEvent): void {
+    const session = this.session;
+    const target = event.target;
+    if (
+      !session ||
+      session.textEdit ||
+      (target instanceof HTMLElement &&
+        (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName)))
+    ) {
+      return;
+    }
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.stop();
+    } else if ((event.key === 'Delete' || event.key === 'Backspace') && session.selected.length > 0) {
+      event.preventDefault();
+      this.runAction('delete');
+    } else if (event.key === 'Enter' && session.selected.length === 1) {
+      event.preventDefault();
+      this.beginTextEdit(session.anchor, session.selected[0] ?? 0);
+    }
+  }
+
+  /**
+   * Makes the translated text of one overlay editable. Enter or leaving the
+   * overlay applies the text (Shift+Enter adds a line break), Escape
+   * restores it.
+   */
+  private beginTextEdit(anchor: HTMLElement, index: number): void {
+    const session = this.session;
+    const page = this.host.getPage(anchor);
+    const overlay = page?.overlays[index];
+    const area = page?.textAreas[index];
+    if (session?.anchor !== anchor || !overlay || !area) {
+      return;
+    }
+    this.finishTextEdit(true);
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      // 阻止阅读器的翻页等快捷键
+      event.stopPropagation();
+      if (event.key === 'Enter' && !event.shiftKey && !event.isComposing) {
+        event.preventDefault();
+        this.finishTextEdit(true);
+      } else if (event.key === 'Escape') {
+        event.preventDefault();
+        this.finishTextEdit(false);
+      }
+    };
+    const onBlur = () => this.finishTextEdit(true);
+    session.textEdit = {
+      index,
+      overlay,
+      end: () => {
+        overlay.removeEventListener('keydown', onKeyDown);
+        overlay.removeEventListener('blur', onBlur);
+        overlay.removeAttribute('contenteditable');
+      },
+    };
+
+    overlay.textContent = area.translatedText;
+    overlay.setAttribute('contenteditable', 'plaintext-only');
+    overlay.spellcheck = false;
+    overlay.addEventListener('keydown', onKeyDown);
+    overlay.addEventListener('blur', onBlur);
+    session.selected = [index];
+    this.syncSelection();
+    overlay.focus();
+    const selection = window.getSelection();
+    if (selection) {
+      selection.selectAllChildren(overlay);
+      selection.collapseToEnd();
+    }
+  }
+
+  /**
+   * Ends text editing. With `apply`, changed non-empty text replaces the
+   * area's translation; otherwise the overlay is rendered as before.
+   */
+  private finishTextEdit(apply: boolean): void {
+    const session = this.session;
+    const textEdit = session?.textEdit;
+    if (!session || !textEdit) {
+      return;
+    }
+    session.textEdit = null;
+    textEdit.end();
+
+    const area = this.host.getPage(session.anchor)?.textAreas[textEdit.index];
+    if (!area) {
+      return;
+    }
+    const text = (textEdit.overlay.textContent ?? '').trim();
+    if (apply && text && text !== area.translatedText) {
+      this.applyEdit(session.anchor, areas =>
+        areas.map((current, i) => (i === textEdit.index ? { ...current, translatedText: text } : current))
+      );
+    } else {
+      this.host.redraw(session.anchor);
+    }
+  }
+}
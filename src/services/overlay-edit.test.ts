@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TextArea } from '@/providers/base';
+
+import {
+  findSplitOffset,
+  fitAreaToBox,
+  mergeAreasAt,
+  moveArea,
+  splitArea,
+} from './overlay-edit';
+
+const area: TextArea = {
+  x: 0.2,
+  y: 0.2,
+  width: 0.2,
+  height: 0.4,
+  originalText: 'まさか、本当に',
+  translatedText: '难道说，是真的',
+};
+
+describe('overlay-edit', () => {
+  it('splits at the break closest to the middle of the text', () => {
+    expect(findSplitOffset('难道说，是真的')).toBe(4);
+    expect(findSplitOffset('Wait for me')).toBe(4);
+    expect(findSplitOffset('啊啊啊啊')).toBe(2);
+  });
+
+  it('divides the box along the reading direction', () => {
+    const [top, bottom] = splitArea(area, false) ?? [];
+    expect(top).toMatchObject({ translatedText: '难道说，', y: 0.2, originalText: 'まさか、' });
+    expect(bottom?.translatedText).toBe('是真的');
+    expect((top?.height ?? 0) + (bottom?.height ?? 0)).toBeCloseTo(0.4);
+    expect(bottom?.y).toBeCloseTo(0.2 + (top?.height ?? 0));
+
+    // 竖排从右往左读：前半段在右侧
+    const [right, left] = splitArea(area, true, 4) ?? [];
+    expect(left?.x).toBe(0.2);
+    expect(right?.x).toBeCloseTo(0.2 + (left?.width ?? 0));
+    expect(splitArea(area, false, 0)).toBeNull();
+  });
+
+  it('merges selected areas into the first one and keeps the rest in order', () => {
+    const second = { ...area, x: 0.5, y: 0.5, width: 0.1, height: 0.1, translatedText: '嗯' };
+    const third = { ...area, translatedText: '第三' };
+
+    const merged = mergeAreasAt([area, third, second], [2, 0]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ x: 0.2, y: 0.2, translatedText: '难道说，是真的\n嗯' });
+    expect(merged[0]?.width).toBeCloseTo(0.4);
+    expect(merged[1]).toBe(third);
+  });
+
+  it('keeps moved and resized boxes on the page', () => {
+    expect(moveArea(area, 0.9, -0.5)).toMatchObject({ x: 0.8, y: 0 });
+    expect(fitAreaToBox(area, { left: 80, top: 100, width: 400, height: 5 }, 400, 500)).toMatchObject({
+      x: 0,
+      y: 0.2,
+      width: 1,
+      height: 0.02,
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * In-place corrections of rendered text areas: move, resize, split, merge
+ * and delete. Areas stay in the 0-1 coordinates of the page, so the edited
+ * list can be rendered again and written back to the translation cache.
+ */
+
+import type { TextArea } from '@/providers/base';
+
+// 小于约 2% 的框既看不清也点不中
+const MIN_AREA_SIZE = 0.02;
+// 拆分位置优先落在中点附近的换行、空白或句读处
+const SPLIT_BREAK_PATTERN = /[\n\s。！？!?，,、…]/u;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Keeps an area inside the page and at least the minimum size
+ */
+export function clampArea(area: TextArea): TextArea {
+  const width = clamp(area.width, MIN_AREA_SIZE, 1);
+  const height = clamp(area.height, MIN_AREA_SIZE, 1);
+  return {
+    ...area,
+    width,
+    height,
+    x: clamp(area.x, 0, 1 - width),
+    y: clamp(area.y, 0, 1 - height),
+  };
+}
+
+export function moveArea(area: TextArea, dx: number, dy: number): TextArea {
+  return clampArea({ ...area, x: area.x + dx, y: area.y + dy });
+}
+
+/**
+ * Places an area on a box drawn at the displayed size, e.g. after the user
+ * resized its overlay
+ */
+export function fitAreaToBox(
+  area: TextArea,
+  box: { left: number; top: number; width: number; height: number },
+  imageWidth: number,
+  imageHeight: number
+): TextArea {
+  if (imageWidth <= 0 || imageHeight <= 0) {
+    return area;
+  }
+  return clampArea({
+    ...area,
+    x: box.left / imageWidth,
+    y: box.top / imageHeight,
+    width: box.width / imageWidth,
+    height: box.height / imageHeight,
+  });
+}
+
+/**
+ * Where to split `text` when the caller has no caret position: the break
+ * closest to the middle, or the middle itself.
+ */
+export function findSplitOffset(text: string): number {
+  const chars = Array.from(text);
+  const middle = Math.floor(chars.length / 2);
+  for (let distance = 0; distance < middle; distance++) {
+    for (const index of [middle + distance, middle - distance]) {
+      const char = chars[index];
+      if (index > 0 && index < chars.length && char && SPLIT_BREAK_PATTERN.test(char)) {
+        // 句读留在前半段，换行与空白丢弃
+        return chars.slice(0, /\s/u.test(char) ? index : index + 1).join('').length;
+      }
+    }
+  }
+  return chars.slice(0, middle).join('').length;
+}
+
+/**
+ * Splits one area into two at `offset` of its translated text (defaults to
+ * `findSplitOffset`). The box is divided along the reading direction in
+ * proportion to the text: top then bottom for horizontal text, right then
+ * left for vertical text. The original text is divided in the same
+ * proportion. Returns null when either part would be empty.
+ */
+export function splitArea(
+  area: TextArea,
+  vertical: boolean,
+  offset: number = findSplitOffset(area.translatedText)
+): [TextArea, TextArea] | null {
+  const head = area.translatedText.slice(0, offset).trim();
+  const tail = area.translatedText.slice(offset).trim();
+  if (!head || !tail) {
+    return null;
+  }
+
+  const ratio = clamp(head.length / (head.length + tail.length), 0.2, 0.8);
+  const originalOffset = Math.round(area.originalText.length * ratio);
+  const originals = [
+    area.originalText.slice(0, originalOffset).trim(),
+    area.originalText.slice(originalOffset).trim(),
+  ] as const;
+
+  const first = { ...area, originalText: originals[0], translatedText: head };
+  const second = { ...area, originalText: originals[1], translatedText: tail };
+  if (vertical) {
+    const tailWidth = area.width * (1 - ratio);
+    return [
+      { ...first, x: area.x + tailWidth, width: area.width - tailWidth },
+      { ...second, width: tailWidth },
+    ];
+  }
+
+  const headHeight = area.height * ratio;
+  return [
+    { ...first, height: headHeight },
+    { ...second, y: area.y + headHeight, height: area.height - headHeight },
+  ];
+}
+
+/**
+ * Merges areas into one covering all of their boxes. Texts are joined in
+ * the given order, one line per area.
+ */
+export function mergeAreas(areas: TextArea[]): TextArea | null {
+  if (areas.length === 0) {
+    return null;
+  }
+  const left = Math.min(...areas.map(area => area.x));
+  const top = Math.min(...areas.map(area => area.y));
+  const right = Math.max(...areas.map(area => area.x + area.width));
+  const bottom = Math.max(...areas.map(area => area.y + area.height));
+  return {
+    x: left,
+    y: top,
+    width: right - left,
+    height: bottom - top,
+    originalText: areas.map(area => area.originalText).join('\n'),
+    translatedText: areas.map(area => area.translatedText).join('\n'),
+  };
+}
+
+/**
+ * Replaces the areas at `indices` with their merge, placed where the first
+ * of them was
+ */
+export function mergeAreasAt(textAreas: TextArea[], indices: number[]): TextArea[] {
+  const selected = [...new Set(indices)].sort((a, b) => a - b);
+  const merged = mergeAreas(selected.flatMap(index => textAreas[index] ?? []));
+  const first = selected[0];
+  if (!merged || first === undefined || selected.length < 2) {
+    return textAreas;
+  }
+  return textAreas.flatMap((area, index) =>
+    index === first ? [merged] : selected.includes(index) ? [] : [area]
+  );
+}
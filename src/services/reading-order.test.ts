@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TextArea } from '@/providers/base';
+
+import { getReadingOrder } from './reading-order';
+
+function at(x: number, y: number, translatedText: string): TextArea {
+  return { x, y, width: 0.2, height: 0.15, originalText: '', translatedText };
+}
+
+describe('reading-order', () => {
+  it('orders areas by row, right to left within a row', () => {
+    const areas = [
+      at(0.1, 0.62, 'bottom left'),
+      at(0.1, 0.12, 'top left'),
+      at(0.7, 0.1, 'top right'),
+      at(0.7, 0.6, 'bottom right'),
+      at(0.4, 0.35, 'middle'),
+    ];
+
+    expect(getReadingOrder(areas).map(index => areas[index]?.translatedText)).toEqual([
+      'top right',
+      'top left',
+      'middle',
+      'bottom right',
+      'bottom left',
+    ]);
+  });
+});
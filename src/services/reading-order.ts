@@ -0,0 +1,37 @@
+/**
+ * Manga reading order of the text areas on a page, as the transcript panel
+ * lists them. Neither the provider nor in-place merge / split keep the area
+ * list in this order.
+ */
+
+import type { TextArea } from '@/providers/base';
+
+/**
+ * Indices of `textAreas` in reading order: rows top to bottom, and right to
+ * left within a row. An area joins the current row while its vertical
+ * center is still inside the row, so bubbles at slightly different heights
+ * side by side stay together.
+ */
+export function getReadingOrder(textAreas: readonly TextArea[]): number[] {
+  const byTop = textAreas
+    .map((area, index) => ({ area, index }))
+    .sort((a, b) => a.area.y - b.area.y);
+
+  const rows: Array<{ bottom: number; items: typeof byTop }> = [];
+  for (const item of byTop) {
+    const row = rows[rows.length - 1];
+    const center = item.area.y + item.area.height / 2;
+    if (row && center <= row.bottom) {
+      row.items.push(item);
+      row.bottom = Math.max(row.bottom, item.area.y + item.area.height);
+    } else {
+      rows.push({ bottom: item.area.y + item.area.height, items: [item] });
+    }
+  }
+
+  return rows.flatMap(row =>
+    row.items
+      .sort((a, b) => b.area.x + b.area.width - (a.area.x + a.area.width))
+      .map(item => item.index)
+  );
+}
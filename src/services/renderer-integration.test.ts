@@ -224,7 +224,7 @@ describe('OverlayRenderer Integration', () => {
       expect(controls).toBeTruthy();
 
       const buttons = controls?.querySelectorAll('button');
-      expect(buttons?.length).toBe(2); // Toggle and Close
+      expect(buttons?.length).toBe(3); // Toggle, style match and Close
     });
   });
 
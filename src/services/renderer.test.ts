@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { OverlayRenderer } from './renderer';
 import type { TextArea } from '@/providers/base';
 
@@ -34,3 +34,340 @@ describe('OverlayRenderer adaptive layout', () => {
     expect(overlay.style.whiteSpace).toBe('pre-wrap');
   });
 });
+
+describe('OverlayRenderer anchors', () => {
+  it('anchors overlays on a background-image element with a block wrapper', () => {
+    document.body.innerHTML = `
+      <div id="reader"><div id="page" style="background-image: url('/page.jpg')"></div></div>
+    `;
+    const page = document.getElementById('page') as HTMLElement;
+    Object.defineProperty(page, 'offsetWidth', { configurable: true, value: 800 });
+    Object.defineProperty(page, 'offsetHeight', { configurable: true, value: 1200 });
+
+    const renderer = new OverlayRenderer();
+    const wrapper = renderer.render(page, [
+      { x: 0.1, y: 0.1, width: 0.3, height: 0.1, originalText: 'HEY', translatedText: '喂' },
+    ]);
+
+    expect(wrapper.classList.contains('manga-translator-wrapper-block')).toBe(true);
+    expect(wrapper.firstElementChild).toBe(page);
+    expect(renderer.hasOverlays(page)).toBe(true);
+
+    renderer.remove(wrapper);
+
+    expect(page.parentElement?.id).toBe('reader');
+    expect(document.querySelector('.manga-translator-wrapper')).toBeNull();
+  });
+
+  it('lays overlays out on the drawn background once its size is known', () => {
+    document.body.innerHTML = `
+      <div id="page" style="background: url('/page.jpg') center / contain no-repeat"></div>
+    `;
+    const page = document.getElementById('page') as HTMLElement;
+    Object.defineProperty(page, 'offsetWidth', { configurable: true, value: 1000 });
+    Object.defineProperty(page, 'offsetHeight', { configurable: true, value: 1000 });
+    vi.spyOn(window, 'getComputedStyle').mockReturnValue({
+      backgroundSize: 'contain',
+      backgroundPosition: '50% 50%',
+    } as CSSStyleDeclaration);
+    // jsdom 不加载图片，手动派发 load
+    const images: HTMLImageElement[] = [];
+    const NativeImage = window.Image;
+    vi.stubGlobal(
+      'Image',
+      class extends NativeImage {
+        constructor() {
+          super();
+          images.push(this);
+        }
+      }
+    );
+
+    const renderer = new OverlayRenderer();
+    const textAreas = [
+      { x: 0.5, y: 0.5, width: 0.2, height: 0.1, originalText: 'HEY', translatedText: '喂' },
+    ];
+    renderer.render(page, textAreas, true, 'https://example.org/page.jpg');
+    const container = document.querySelector(
+      '.manga-translator-overlay-container'
+    ) as HTMLElement;
+    expect(container.style.width).toBe('1000px');
+
+    const image = images[0] as HTMLImageElement;
+    expect(image.src).toBe('https://example.org/page.jpg');
+    Object.defineProperty(image, 'naturalWidth', { value: 500 });
+    Object.defineProperty(image, 'naturalHeight', { value: 1000 });
+    image.dispatchEvent(new Event('load'));
+
+    expect(container.style.left).toBe('250px');
+    expect(container.style.width).toBe('500px');
+    expect(container.style.height).toBe('1000px');
+    expect(renderer.getTranscript()[0]?.entries[0]?.area).toEqual(textAreas[0]);
+
+    renderer.remove(page);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('OverlayRenderer pinning', () => {
+  it('toggles every page between translated and original', () => {
+    document.body.innerHTML = `
+      <img id="page-1" src="/page-1.jpg" />
+      <img id="page-2" src="/page-2.jpg" />
+    `;
+    const renderer = new OverlayRenderer();
+    const area: TextArea = {
+      x: 0.1,
+      y: 0.1,
+      width: 0.3,
+      height: 0.1,
+      originalText: 'HEY',
+      translatedText: '喂',
+    };
+    const first = renderer.render(document.getElementById('page-1') as HTMLElement, [area], true);
+    const second = renderer.render(document.getElementById('page-2') as HTMLElement, [area]);
+
+    expect(renderer.toggleAllPinned()).toBe(true);
+    expect(first.classList.contains('manga-translator-pinned')).toBe(true);
+    expect(second.classList.contains('manga-translator-pinned')).toBe(true);
+
+    expect(renderer.toggleAllPinned()).toBe(false);
+    expect(document.querySelectorAll('.manga-translator-pinned')).toHaveLength(0);
+  });
+});
+
+describe('OverlayRenderer style matching', () => {
+  it('lets one image override the global style matching setting', () => {
+    document.body.innerHTML = `
+      <img id="page-1" src="/page-1.jpg" />
+      <img id="page-2" src="/page-2.jpg" />
+    `;
+    const first = document.getElementById('page-1') as HTMLElement;
+    const second = document.getElementById('page-2') as HTMLElement;
+    const renderer = new OverlayRenderer();
+    renderer.setFontStyleMatching(true);
+    const area: TextArea = {
+      x: 0.1,
+      y: 0.1,
+      width: 0.3,
+      height: 0.1,
+      originalText: 'HEY',
+      translatedText: '喂',
+    };
+    const wrapper = renderer.render(first, [area]);
+    renderer.render(second, [area]);
+
+    const styleButton = wrapper.querySelector('button[title^="匹配原文样式"]') as HTMLButtonElement;
+    expect(styleButton.getAttribute('aria-pressed')).toBe('true');
+
+    styleButton.click();
+
+    expect(styleButton.getAttribute('aria-pressed')).toBe('false');
+    expect(renderer.isStyleMatched(first)).toBe(false);
+    expect(renderer.isStyleMatched(second)).toBe(true);
+    // 读不到像素时保留普通覆盖层
+    expect(wrapper.querySelectorAll('.manga-translator-overlay')).toHaveLength(1);
+  });
+});
+
+describe('OverlayRenderer vertical layout', () => {
+  const tallArea: TextArea = {
+    x: 0.4,
+    y: 0.1,
+    width: 0.08,
+    height: 0.3,
+    originalText: 'まさか',
+    translatedText: 'まさか12回も',
+  };
+
+  function renderTallArea(renderer: OverlayRenderer): HTMLElement {
+    document.body.innerHTML = `<img id="page" src="/page.jpg" />`;
+    const img = document.getElementById('page') as HTMLImageElement;
+    Object.defineProperty(img, 'offsetWidth', { configurable: true, value: 800 });
+    Object.defineProperty(img, 'offsetHeight', { configurable: true, value: 1200 });
+    renderer.render(img, [tallArea]);
+    return document.querySelector('.manga-translator-overlay') as HTMLElement;
+  }
+
+  it('lays out tall bubbles vertically for vertically lettered targets', () => {
+    const renderer = new OverlayRenderer();
+    renderer.setTargetLanguage('ja');
+
+    const overlay = renderTallArea(renderer);
+
+    expect(overlay.classList.contains('manga-translator-vertical')).toBe(true);
+    expect(overlay.querySelector('.manga-translator-tcy')?.textContent).toBe('12');
+    expect(parseFloat(overlay.style.height)).toBeGreaterThan(parseFloat(overlay.style.width));
+  });
+
+  it('keeps horizontal layout unless the target or the override asks for vertical', () => {
+    const renderer = new OverlayRenderer();
+    renderer.setTargetLanguage('zh-CN');
+    expect(renderTallArea(renderer).classList.contains('manga-translator-vertical')).toBe(false);
+
+    renderer.setTargetLanguage('ja');
+    renderer.setAutoVerticalText(false);
+    expect(renderTallArea(renderer).classList.contains('manga-translator-vertical')).toBe(false);
+
+    renderer.updateStyle({ verticalText: true });
+    expect(renderTallArea(renderer).classList.contains('manga-translator-vertical')).toBe(true);
+  });
+});
+
+describe('OverlayRenderer editing', () => {
+  const areas: TextArea[] = [
+    { x: 0.1, y: 0.1, width: 0.3, height: 0.1, originalText: 'おはよう', translatedText: '早上好' },
+    { x: 0.5, y: 0.6, width: 0.3, height: 0.1, originalText: 'ドン', translatedText: '咚' },
+  ];
+
+  function renderPage(renderer: OverlayRenderer): HTMLImageElement {
+    document.body.innerHTML = `<img id="page" src="/page.jpg" />`;
+    const img = document.getElementById('page') as HTMLImageElement;
+    Object.defineProperty(img, 'offsetWidth', { configurable: true, value: 800 });
+    Object.defineProperty(img, 'offsetHeight', { configurable: true, value: 1200 });
+    renderer.render(img, areas, true);
+    return img;
+  }
+
+  function overlayAt(index: number): HTMLElement {
+    return document.querySelectorAll<HTMLElement>('.manga-translator-overlay')[index] as HTMLElement;
+  }
+
+  it('edits the translated text in place on double-click', () => {
+    const renderer = new OverlayRenderer();
+    const edits: TextArea[][] = [];
+    renderer.setEditListener((_anchor, textAreas) => edits.push(textAreas));
+    const img = renderPage(renderer);
+
+    overlayAt(0).dispatchEvent(new MouseEvent('dblclick', { bubbles: true }));
+    const editing = overlayAt(0);
+    expect(renderer.isEditing(img)).toBe(true);
+    expect(editing.getAttribute('contenteditable')).toBe('plaintext-only');
+
+    editing.textContent = '早安';
+    editing.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+
+    expect(overlayAt(0).textContent).toBe('早安');
+    expect(overlayAt(0).hasAttribute('contenteditable')).toBe(false);
+    expect(edits).toHaveLength(1);
+    expect(edits[0]?.[0]).toMatchObject({ translatedText: '早安', originalText: 'おはよう' });
+    expect(edits[0]?.[1]).toEqual(areas[1]);
+  });
+
+  it('moves, merges and deletes areas from edit mode', () => {
+    const renderer = new OverlayRenderer();
+    const edits: TextArea[][] = [];
+    renderer.setEditListener((_anchor, textAreas) => edits.push(textAreas));
+    const img = renderPage(renderer);
+    renderer.startEditing(img);
+
+    overlayAt(1).dispatchEvent(new MouseEvent('mousedown', { bubbles: true, clientX: 0, clientY: 0 }));
+    document.dispatchEvent(new MouseEvent('mouseup', { clientX: 80, clientY: -120 }));
+    expect(edits[0]?.[1]).toMatchObject({ x: 0.6, y: 0.5 });
+
+    overlayAt(0).dispatchEvent(new MouseEvent('mousedown', { bubbles: true, shiftKey: true }));
+    const toolbar = document.querySelector('.manga-translator-edit-toolbar') as HTMLElement;
+    const button = (action: string) =>
+      toolbar.querySelector(`[data-action="${action}"]`) as HTMLButtonElement;
+    expect(button('merge').disabled).toBe(false);
+    button('merge').click();
+    expect(edits[1]).toHaveLength(1);
+    expect(edits[1]?.[0]?.translatedText).toBe('早上好\n咚');
+
+    button('delete').click();
+    expect(edits[2]).toEqual([]);
+    expect(document.querySelectorAll('.manga-translator-overlay')).toHaveLength(0);
+
+    button('done').click();
+    expect(renderer.isEditing(img)).toBe(false);
+    expect(document.querySelector('.manga-translator-edit-toolbar')).toBeNull();
+  });
+
+  it('shows the edit notice of the page in the toolbar', () => {
+    const renderer = new OverlayRenderer();
+    const img = renderPage(renderer);
+    renderer.setEditNotice(anchor => (anchor === img ? '此页的修改不会保存' : null));
+    renderer.startEditing(img);
+
+    expect(
+      document.querySelector('.manga-translator-edit-toolbar .manga-translator-edit-notice')?.textContent
+    ).toBe('此页的修改不会保存');
+
+    renderer.stopEditing();
+    renderer.setEditNotice(null);
+    renderer.startEditing(img);
+    expect(document.querySelector('.manga-translator-edit-notice')).toBeNull();
+  });
+});
+
+describe('OverlayRenderer transcript', () => {
+  const areas: TextArea[] = [
+    { x: 0.1, y: 0.1, width: 0.3, height: 0.1, originalText: 'おはよう', translatedText: '早上好' },
+  ];
+
+  function createPage(id: string): HTMLImageElement {
+    const img = document.createElement('img');
+    img.id = id;
+    Object.defineProperty(img, 'offsetWidth', { configurable: true, value: 800 });
+    Object.defineProperty(img, 'offsetHeight', { configurable: true, value: 1200 });
+    document.body.appendChild(img);
+    return img;
+  }
+
+  it('lists rendered pages in document order and reports changes', () => {
+    document.body.innerHTML = '';
+    const first = createPage('first');
+    const second = createPage('second');
+    const renderer = new OverlayRenderer();
+    const onChange = vi.fn();
+    renderer.setChangeListener(onChange);
+
+    renderer.render(second, areas, true);
+    renderer.render(first, areas, true);
+    expect(renderer.getTranscript().map(page => page.anchor)).toEqual([first, second]);
+    expect(renderer.getTranscript()[1]?.entries).toEqual([{ index: 0, area: areas[0] }]);
+
+    onChange.mockClear();
+    renderer.remove(first);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(renderer.getTranscript().map(page => page.anchor)).toEqual([second]);
+  });
+
+  it('lists areas in reading order with their rendered index', () => {
+    document.body.innerHTML = '';
+    const img = createPage('page');
+    const renderer = new OverlayRenderer();
+    const pageAreas: TextArea[] = [
+      { x: 0.6, y: 0.6, width: 0.3, height: 0.1, originalText: 'ドン', translatedText: '咚' },
+      { x: 0.1, y: 0.1, width: 0.3, height: 0.1, originalText: 'よし', translatedText: '好' },
+      { x: 0.6, y: 0.12, width: 0.3, height: 0.1, originalText: 'おはよう', translatedText: '早上好' },
+    ];
+    renderer.render(img, pageAreas, true);
+
+    const [page] = renderer.getTranscript();
+    expect(page?.entries.map(entry => [entry.index, entry.area.translatedText])).toEqual([
+      [2, '早上好'],
+      [1, '好'],
+      [0, '咚'],
+    ]);
+  });
+
+  it('outlines a bubble for a moment when highlighted', () => {
+    vi.useFakeTimers();
+    document.body.innerHTML = '';
+    const img = createPage('page');
+    const renderer = new OverlayRenderer();
+    renderer.render(img, areas, true);
+
+    expect(renderer.highlightArea(img, 3)).toBe(false);
+    expect(renderer.highlightArea(img, 0)).toBe(true);
+    const highlight = document.querySelector('.manga-translator-highlight') as HTMLElement;
+    expect(highlight.style.left).toBe('10%');
+    expect(highlight.style.width).toBe('30%');
+
+    vi.advanceTimersByTime(2000);
+    expect(document.querySelector('.manga-translator-highlight')).toBeNull();
+    vi.useRealTimers();
+  });
+});
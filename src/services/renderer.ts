@@ -7,11 +7,40 @@
  * - Hover toggle: show translation on hover, original on leave
  * - Control buttons: toggle and close
  * - Manages overlay lifecycle (create, remove, removeAll)
+ * - `typeset` render mode: erases the original text and draws the
+ *   translation on canvas patches (see typesetter.ts)
+ * - Optional per-area styling matched from the original lettering, with a
+ *   per-image override button
+ * - Vertical (tategaki) layout for tall bubbles when the target language is
+ *   lettered vertically, or always when `verticalText` is set
+ * - Edit mode (double-click an overlay): fix the translated text in place,
+ *   drag or resize boxes, split, merge and delete areas; every edit is
+ *   reported to the edit listener (see overlay-edit-session.ts)
+ * - Transcript access for the side panel: rendered pages in document order,
+ *   change notifications and bubble highlighting
  *
  * Requirements: 3.1, 3.2, 3.3, 3.4
  */
 
 import type { TextArea } from '@/providers/base';
+import type { RenderMode } from '@/shared/app-config';
+import type { DrawableSource } from '@/services/image-processor';
+import { createTypesetPatch, isReadableSource, loadReadableSource } from '@/services/typesetter';
+import { deriveAreaTextStyles, type AreaTextStyle } from '@/services/area-text-style';
+import {
+  VERTICAL_TARGET_LANGUAGES,
+  computeVerticalLayout,
+  renderVerticalText,
+} from '@/services/vertical-layout';
+import {
+  EDIT_TOOLBAR_CLASS,
+  OverlayEditor,
+  createEditStyles,
+  type OverlayEditListener,
+  type OverlayEditNotice,
+} from '@/services/overlay-edit-session';
+import { getReadingOrder } from '@/services/reading-order';
+import { getBackgroundRect, type BackgroundRect } from '@/services/background-rect';
 
 // ==================== Type Definitions ====================
 
@@ -38,21 +67,37 @@ export interface OverlayStyle {
   minFontSize: number;
   /** Maximum font size in pixels */
   maxFontSize: number;
-  /** Vertical text mode for Japanese manga */
+  /** Always lay out vertically, regardless of bubble shape and language */
   verticalText: boolean;
 }
 
 export interface RenderedOverlay {
   /** The wrapper element containing the image and overlays */
   wrapper: HTMLElement;
-  /** The original image element */
-  image: HTMLImageElement;
+  /** The element the overlays are anchored to: `<img>`, `<canvas>` or a background-image element */
+  anchor: HTMLElement;
   /** Array of overlay elements */
   overlays: HTMLElement[];
   /** The overlay container for hover toggle */
   overlayContainer: HTMLElement;
   /** Whether translation is pinned (manually toggled on) */
   pinned: boolean;
+  /** Areas the overlays were built from, kept to rebuild them in place */
+  textAreas: TextArea[];
+  /** URL the page pixels can be refetched from when the anchor is cross-origin */
+  sourceUrl?: string;
+}
+
+/** A rendered area and its position in the page's area list */
+export interface TranscriptEntry {
+  index: number;
+  area: TextArea;
+}
+
+/** A rendered page and its areas in reading order, as listed by the transcript panel */
+export interface TranscriptPage {
+  anchor: HTMLElement;
+  entries: TranscriptEntry[];
 }
 
 // ==================== Constants ====================
@@ -61,7 +106,17 @@ const WRAPPER_CLASS = 'manga-translator-wrapper';
 const OVERLAY_CLASS = 'manga-translator-overlay';
 const OVERLAY_CONTAINER_CLASS = 'manga-translator-overlay-container';
 const CONTROLS_CLASS = 'manga-translator-controls';
+// Overlay modifier for canvas patches drawn in the typeset render mode
+const TYPESET_CLASS = 'manga-translator-typeset';
+// Overlay modifier for vertical-rl text, and its tate-chu-yoko cells
+const VERTICAL_CLASS = 'manga-translator-vertical';
+const TCY_CLASS = 'manga-translator-tcy';
+// Flashing outline over a bubble picked in the transcript panel
+const HIGHLIGHT_CLASS = 'manga-translator-highlight';
+const HIGHLIGHT_DURATION = 2000;
 const DATA_ATTR = 'data-manga-translator';
+// Wrapper modifier for anchors sized by their container (background-image blocks)
+const BLOCK_WRAPPER_CLASS = 'manga-translator-wrapper-block';
 
 // Hover debounce delay (ms) - prevents flicker when mouse quickly enters/leaves
 const HOVER_HIDE_DELAY = 120; // delay hide on mouseleave to prevent rapid toggle flicker
@@ -210,6 +265,71 @@ function wrapTextToWidth(
   return lines;
 }
 
+/**
+ * How far an overlay may outgrow its text area when the translation is
+ * longer than the original: `along` the text direction, and `across` it.
+ */
+function getExpansionFactors(area: TextArea): { along: number; across: number } {
+  const originalTextLength = Math.max(area.originalText.trim().length, 1);
+  const translatedTextLength = Math.max(area.translatedText.trim().length, 1);
+  const textGrowthRatio = translatedTextLength / originalTextLength;
+  if (textGrowthRatio <= 1) {
+    return { along: 1, across: 1 };
+  }
+  return {
+    along: 1 + Math.min(0.9, Math.sqrt(textGrowthRatio) * 0.4),
+    across: 1 + Math.min(0.8, Math.sqrt(textGrowthRatio) * 0.3),
+  };
+}
+
+/**
+ * Vertical counterpart of computeAdaptiveOverlayLayout: the box grows
+ * downwards first, and columns are fitted instead of lines.
+ */
+function computeVerticalOverlayLayout(
+  area: TextArea,
+  imageWidth: number,
+  imageHeight: number,
+  style: OverlayStyle
+): OverlayLayout {
+  const areaLeft = area.x * imageWidth;
+  const areaTop = area.y * imageHeight;
+  const areaWidth = area.width * imageWidth;
+  const areaHeight = area.height * imageHeight;
+  const expansion = getExpansionFactors(area);
+
+  const layout = computeVerticalLayout(area.translatedText, {
+    padding: style.padding,
+    minFontSize: style.minFontSize,
+    maxFontSize: style.maxFontSize,
+    maxWidth: Math.min(
+      imageWidth * 0.58,
+      Math.max(areaWidth * expansion.across, Math.min(areaWidth, 54))
+    ),
+    maxHeight: Math.min(
+      imageHeight * 0.78,
+      Math.max(areaHeight * expansion.along, Math.min(areaHeight, 120))
+    ),
+  });
+  const width = Math.max(layout.width, style.padding * 2 + layout.fontSize);
+  const height = layout.height;
+
+  return {
+    fontSize: layout.fontSize,
+    lines: layout.columns,
+    width,
+    height,
+    left: Math.min(
+      Math.max(0, areaLeft + (areaWidth - width) / 2),
+      Math.max(0, imageWidth - width)
+    ),
+    top: Math.min(
+      Math.max(0, areaTop + (areaHeight - height) / 2),
+      Math.max(0, imageHeight - height)
+    ),
+  };
+}
+
 function computeAdaptiveOverlayLayout(
   area: TextArea,
   imageWidth: number,
@@ -221,17 +341,9 @@ function computeAdaptiveOverlayLayout(
   const areaWidth = area.width * imageWidth;
   const areaHeight = area.height * imageHeight;
 
-  const originalTextLength = Math.max(area.originalText.trim().length, 1);
-  const translatedTextLength = Math.max(area.translatedText.trim().length, 1);
-  const textGrowthRatio = translatedTextLength / originalTextLength;
-  const widthExpansionFactor =
-    textGrowthRatio > 1
-      ? 1 + Math.min(0.9, Math.sqrt(textGrowthRatio) * 0.4)
-      : 1;
-  const heightExpansionFactor =
-    textGrowthRatio > 1
-      ? 1 + Math.min(0.8, Math.sqrt(textGrowthRatio) * 0.3)
-      : 1;
+  const expansion = getExpansionFactors(area);
+  const widthExpansionFactor = expansion.along;
+  const heightExpansionFactor = expansion.across;
   const maxWidth = Math.min(
     imageWidth * 0.78,
     Math.max(areaWidth * widthExpansionFactor, Math.min(areaWidth, 120))
@@ -370,6 +482,61 @@ function getStyledRect(element: HTMLElement): DOMRect {
 /**
  * Create CSS styles for overlay elements
  */
+/**
+ * Displayed size of an overlay anchor, falling back to its intrinsic size
+ * when it is not laid out yet.
+ */
+function getAnchorSize(anchor: HTMLElement): { width: number; height: number } {
+  if (anchor instanceof HTMLImageElement) {
+    return {
+      width: anchor.offsetWidth || anchor.naturalWidth,
+      height: anchor.offsetHeight || anchor.naturalHeight,
+    };
+  }
+  if (anchor instanceof HTMLCanvasElement) {
+    return {
+      width: anchor.offsetWidth || anchor.width,
+      height: anchor.offsetHeight || anchor.height,
+    };
+  }
+  return { width: anchor.offsetWidth, height: anchor.offsetHeight };
+}
+
+/**
+ * Wraps `anchor` in a positioned wrapper. `<img>` and `<canvas>` keep their
+ * intrinsic size inside an inline-block wrapper; other elements take their
+ * width from the container, so their wrapper is a block.
+ */
+function wrapAnchor(anchor: HTMLElement): HTMLElement {
+  const wrapper = document.createElement('div');
+  wrapper.className = WRAPPER_CLASS;
+  wrapper.setAttribute(DATA_ATTR, 'true');
+  if (!(anchor instanceof HTMLImageElement) && !(anchor instanceof HTMLCanvasElement)) {
+    wrapper.classList.add(BLOCK_WRAPPER_CLASS);
+  }
+
+  const parent = anchor.parentElement;
+  if (parent) {
+    parent.insertBefore(wrapper, anchor);
+  }
+  wrapper.appendChild(anchor);
+  return wrapper;
+}
+
+/** `<img>` or `<canvas>` anchor whose pixels can be read back right away */
+function getReadableAnchor(anchor: HTMLElement): DrawableSource | null {
+  return (anchor instanceof HTMLImageElement || anchor instanceof HTMLCanvasElement) &&
+    isReadableSource(anchor)
+    ? anchor
+    : null;
+}
+
+/** The anchor is always the wrapper's first child */
+function getWrappedAnchor(wrapper: Element): HTMLElement | null {
+  const anchor = wrapper.firstElementChild;
+  return anchor instanceof HTMLElement ? anchor : null;
+}
+
 function createOverlayStyles(): string {
   return `
     .${WRAPPER_CLASS} {
@@ -377,6 +544,11 @@ function createOverlayStyles(): string {
       display: inline-block;
     }
 
+    .${WRAPPER_CLASS}.${BLOCK_WRAPPER_CLASS} {
+      display: block;
+      overflow: hidden;
+    }
+
     .${OVERLAY_CONTAINER_CLASS} {
       position: absolute;
       top: 0;
@@ -416,6 +588,29 @@ function createOverlayStyles(): string {
       opacity: 0.15 !important;
     }
 
+    .${OVERLAY_CLASS}.${VERTICAL_CLASS} {
+      writing-mode: vertical-rl;
+      text-orientation: mixed;
+    }
+
+    .${TCY_CLASS} {
+      text-combine-upright: all;
+      -webkit-text-combine: horizontal;
+    }
+
+    .${OVERLAY_CLASS}.manga-translator-sfx {
+      -webkit-text-stroke: 0.6px currentColor;
+      text-shadow: none;
+    }
+
+    .${OVERLAY_CLASS}.${TYPESET_CLASS} {
+      display: block;
+      padding: 0;
+      border-radius: 0;
+      box-shadow: none;
+      text-shadow: none;
+    }
+
     .${WRAPPER_CLASS}:hover .${OVERLAY_CLASS} {
       pointer-events: auto;
       user-select: text;
@@ -438,7 +633,14 @@ function createOverlayStyles(): string {
       pointer-events: auto;
     }
 
-    .${CONTROLS_CLASS} button {
+    ${createEditStyles({
+      wrapper: WRAPPER_CLASS,
+      container: OVERLAY_CONTAINER_CLASS,
+      overlay: OVERLAY_CLASS,
+    })}
+
+    .${CONTROLS_CLASS} button,
+    .${EDIT_TOOLBAR_CLASS} button {
       width: 28px;
       height: 28px;
       border: none;
@@ -455,10 +657,32 @@ function createOverlayStyles(): string {
       transition: background 0.15s;
     }
 
-    .${CONTROLS_CLASS} button:hover {
+    .${CONTROLS_CLASS} button:hover,
+    .${EDIT_TOOLBAR_CLASS} button:hover:enabled {
       background: rgba(0, 0, 0, 0.85);
     }
 
+    .${HIGHLIGHT_CLASS} {
+      position: absolute;
+      box-sizing: border-box;
+      border: 3px solid #f59e0b;
+      border-radius: 6px;
+      box-shadow: 0 0 0 4px rgba(245, 158, 11, 0.35);
+      pointer-events: none;
+      z-index: 1002;
+      animation: manga-highlight-pulse 0.5s ease-in-out 4 alternate;
+    }
+
+    @keyframes manga-highlight-pulse {
+      from { opacity: 1; }
+      to { opacity: 0.35; }
+    }
+
+    .${EDIT_TOOLBAR_CLASS} button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+
     .manga-translator-loading {
       position: absolute;
       top: 0; left: 0; width: 100%; height: 100%;
@@ -526,13 +750,34 @@ function ensureStylesInjected(): void {
 /**
  * Overlay Renderer
  *
- * Manages the rendering of translation overlays on manga images.
+ * Manages the rendering of translation overlays on manga pages: `<img>`,
+ * `<canvas>` or elements showing the page as a CSS background image.
  */
 export class OverlayRenderer {
   private style: OverlayStyle;
-  private renderedOverlays: Map<HTMLImageElement, RenderedOverlay> = new Map();
-  // Hover debounce timers - keyed by image element
-  private hoverTimers: Map<HTMLImageElement, ReturnType<typeof setTimeout> | null> = new Map();
+  private renderMode: RenderMode = 'strong-overlay-compat';
+  private fontStyleMatching = false;
+  private autoVerticalText = true;
+  private targetLanguage = 'zh-CN';
+  // Per-image override of fontStyleMatching, set from the overlay controls
+  private styleMatchingOverrides = new WeakMap<HTMLElement, boolean>();
+  // Readable pixels of each page, refetched once for cross-origin pages
+  private pixelSources = new WeakMap<HTMLElement, DrawableSource>();
+  // Intrinsic size of background-image pages, loaded once from their URL
+  private backgroundSizes = new WeakMap<HTMLElement, { width: number; height: number }>();
+  private renderedOverlays: Map<HTMLElement, RenderedOverlay> = new Map();
+  private editor = new OverlayEditor({
+    getPage: anchor => this.renderedOverlays.get(anchor),
+    getOverlayBox: anchor => this.getOverlayBox(anchor),
+    isVertical: overlay => overlay.classList.contains(VERTICAL_CLASS),
+    redraw: anchor => this.redrawOverlays(anchor),
+    commit: (anchor, textAreas) => this.commitEdit(anchor, textAreas),
+    restore: anchor => void this.rebuildOverlays(anchor),
+  });
+  private editListener: OverlayEditListener | null = null;
+  private changeListener: (() => void) | null = null;
+  // Hover debounce timers - keyed by anchor element
+  private hoverTimers: Map<HTMLElement, ReturnType<typeof setTimeout> | null> = new Map();
 
   constructor(style: Partial<OverlayStyle> = {}) {
     this.style = { ...DEFAULT_STYLE, ...style };
@@ -540,46 +785,49 @@ export class OverlayRenderer {
   }
 
   /**
-   * Render translation overlays on an image
+   * Render translation overlays on a page element. In the typeset mode
+   * `sourceUrl` lets cross-origin pages be refetched for their pixels.
    */
-  render(image: HTMLImageElement, textAreas: TextArea[], autoPinned = false): HTMLElement {
-    // Remove existing overlays for this image
-    this.remove(image);
+  render(
+    anchor: HTMLElement,
+    textAreas: TextArea[],
+    autoPinned = false,
+    sourceUrl?: string
+  ): HTMLElement {
+    // Remove existing overlays for this element
+    this.remove(anchor);
 
     if (textAreas.length === 0) {
-      return image.parentElement || image;
+      return anchor.parentElement || anchor;
     }
 
-    // Create wrapper element
-    const wrapper = document.createElement('div');
-    wrapper.className = WRAPPER_CLASS;
-    wrapper.setAttribute(DATA_ATTR, 'true');
-
-    // Get image dimensions
-    const imageWidth = image.offsetWidth || image.naturalWidth;
-    const imageHeight = image.offsetHeight || image.naturalHeight;
-
-    // Insert wrapper and move image into it
-    const parent = image.parentElement;
-    if (parent) {
-      parent.insertBefore(wrapper, image);
-    }
-    wrapper.appendChild(image);
+    // Insert wrapper and move the anchor into it
+    const wrapper = wrapAnchor(anchor);
 
     // Create overlay container (for hover toggle)
     const overlayContainer = document.createElement('div');
     overlayContainer.className = OVERLAY_CONTAINER_CLASS;
     wrapper.appendChild(overlayContainer);
+    this.placeOverlayContainer(anchor, overlayContainer);
+    overlayContainer.addEventListener('dblclick', e => this.editor.handleDoubleClick(anchor, e));
+    overlayContainer.addEventListener('mousedown', e => this.editor.handleMouseDown(anchor, e));
+    overlayContainer.addEventListener('click', e => {
+      // 编辑时的点击不应传到阅读器（很多阅读器点击即翻页）
+      if (this.editor.isEditing(anchor)) {
+        e.stopPropagation();
+      }
+    });
 
-    // Create overlay elements inside container
-    const overlays: HTMLElement[] = [];
-    for (const area of textAreas) {
-      const overlay = this.createOverlayElement(area, imageWidth, imageHeight);
-      overlayContainer.appendChild(overlay);
-      overlays.push(overlay);
+    // Create overlay elements inside container. Typeset patches and matched
+    // styles need the page pixels; until they are readable the regular
+    // overlays are shown.
+    const needsPixels = this.needsPagePixels(anchor);
+    const readableSource = needsPixels ? getReadableAnchor(anchor) : null;
+    if (readableSource) {
+      this.pixelSources.set(anchor, readableSource);
     }
-
-    this.resolveOverlayCollisions(overlays, imageWidth, imageHeight);
+    const overlays = this.createOverlays(anchor, textAreas, readableSource);
+    overlayContainer.append(...overlays);
 
     // Create control buttons
     const controls = document.createElement('div');
@@ -591,49 +839,63 @@ export class OverlayRenderer {
     toggleBtn.textContent = '📌';
     toggleBtn.addEventListener('click', e => {
       e.stopPropagation();
-      const rendered = this.renderedOverlays.get(image);
+      const rendered = this.renderedOverlays.get(anchor);
       if (rendered) {
-        rendered.pinned = !rendered.pinned;
-        wrapper.classList.toggle('manga-translator-pinned', rendered.pinned);
-        toggleBtn.textContent = rendered.pinned ? '👁' : '📌';
+        this.setPinned(rendered, !rendered.pinned);
       }
     });
     controls.appendChild(toggleBtn);
 
+    // Style button (per-image override of original style matching)
+    const styleBtn = document.createElement('button');
+    styleBtn.title = '匹配原文样式（仅本图）';
+    styleBtn.textContent = 'Aa';
+    styleBtn.setAttribute('aria-pressed', String(this.isStyleMatched(anchor)));
+    styleBtn.addEventListener('click', e => {
+      e.stopPropagation();
+      const matched = !this.isStyleMatched(anchor);
+      this.styleMatchingOverrides.set(anchor, matched);
+      styleBtn.setAttribute('aria-pressed', String(matched));
+      void this.rebuildOverlays(anchor);
+    });
+    controls.appendChild(styleBtn);
+
     // Close button (remove overlay)
     const closeBtn = document.createElement('button');
     closeBtn.title = '移除翻译';
     closeBtn.textContent = '✕';
     closeBtn.addEventListener('click', e => {
       e.stopPropagation();
-      this.remove(image);
+      this.remove(anchor);
     });
     controls.appendChild(closeBtn);
 
     wrapper.appendChild(controls);
 
     // Store reference for later removal
-    this.renderedOverlays.set(image, {
+    this.renderedOverlays.set(anchor, {
       wrapper,
-      image,
+      anchor,
       overlays,
       overlayContainer,
       pinned: autoPinned,
+      textAreas,
+      sourceUrl,
     });
 
     // Setup hover debounce handlers (CSS :hover alone causes flicker on fast mouse movement)
     const showOverlay = () => {
-      this.clearHoverTimer(image);
+      this.clearHoverTimer(anchor);
       wrapper.classList.add('manga-translator-hover-active');
     };
     const hideOverlay = () => {
       // Only hide if not pinned
-      const rendered = this.renderedOverlays.get(image);
+      const rendered = this.renderedOverlays.get(anchor);
       if (rendered && !rendered.pinned) {
         const timer = setTimeout(() => {
           wrapper.classList.remove('manga-translator-hover-active');
         }, HOVER_HIDE_DELAY);
-        this.hoverTimers.set(image, timer);
+        this.hoverTimers.set(anchor, timer);
       }
     };
     wrapper.addEventListener('mouseenter', showOverlay);
@@ -645,39 +907,285 @@ export class OverlayRenderer {
       toggleBtn.textContent = '👁';
     }
 
+    if (needsPixels && !readableSource) {
+      void this.rebuildOverlays(anchor);
+    }
+    this.loadBackgroundSize(anchor, sourceUrl);
+
+    this.changeListener?.();
     return wrapper;
   }
 
   /**
-   * Clear hover timer for an image
+   * Box the overlays are laid out in, relative to the anchor: the whole
+   * `<img>` / `<canvas>`, or where a background-image page is drawn once
+   * its intrinsic size is known.
    */
-  private clearHoverTimer(image: HTMLImageElement): void {
-    const existing = this.hoverTimers.get(image);
+  private getOverlayBox(anchor: HTMLElement): BackgroundRect {
+    if (anchor instanceof HTMLImageElement || anchor instanceof HTMLCanvasElement) {
+      return { left: 0, top: 0, ...getAnchorSize(anchor) };
+    }
+    const size = this.backgroundSizes.get(anchor);
+    return getBackgroundRect(anchor, size?.width ?? 0, size?.height ?? 0);
+  }
+
+  private placeOverlayContainer(anchor: HTMLElement, container: HTMLElement): void {
+    if (anchor instanceof HTMLImageElement || anchor instanceof HTMLCanvasElement) {
+      return;
+    }
+    const { left, top, width, height } = this.getOverlayBox(anchor);
+    Object.assign(container.style, {
+      left: `${left}px`,
+      top: `${top}px`,
+      width: `${width}px`,
+      height: `${height}px`,
+    });
+  }
+
+  /**
+   * Loads the intrinsic size of a background-image page, then moves its
+   * overlays from the element box onto the drawn background.
+   */
+  private loadBackgroundSize(anchor: HTMLElement, sourceUrl?: string): void {
+    if (
+      anchor instanceof HTMLImageElement ||
+      anchor instanceof HTMLCanvasElement ||
+      !sourceUrl ||
+      this.backgroundSizes.has(anchor)
+    ) {
+      return;
+    }
+
+    const image = new Image();
+    image.addEventListener('load', () => {
+      this.backgroundSizes.set(anchor, { width: image.naturalWidth, height: image.naturalHeight });
+      const rendered = this.renderedOverlays.get(anchor);
+      if (rendered) {
+        this.placeOverlayContainer(anchor, rendered.overlayContainer);
+        void this.rebuildOverlays(anchor);
+      }
+    });
+    image.src = sourceUrl;
+  }
+
+  private needsPagePixels(anchor: HTMLElement): boolean {
+    return this.renderMode === 'typeset' || this.isStyleMatched(anchor);
+  }
+
+  /**
+   * Whether overlays on `anchor` use styles matched from the original
+   * lettering: the image's override, or the global setting.
+   */
+  isStyleMatched(anchor: HTMLElement): boolean {
+    return this.styleMatchingOverrides.get(anchor) ?? this.fontStyleMatching;
+  }
+
+  /**
+   * Overlay elements for the current render mode. Without a readable
+   * `source` typeset patches and matched styles are skipped.
+   */
+  private createOverlays(
+    anchor: HTMLElement,
+    textAreas: TextArea[],
+    source: DrawableSource | null
+  ): HTMLElement[] {
+    const { width: imageWidth, height: imageHeight } = this.getOverlayBox(anchor);
+    const areaStyles =
+      source && this.isStyleMatched(anchor)
+        ? deriveAreaTextStyles(source, textAreas, imageWidth)
+        : [];
+
+    // 编辑时以普通覆盖层显示，嵌字画布无法就地改字
+    if (this.renderMode === 'typeset' && source && !this.editor.isEditing(anchor)) {
+      const patches = this.createTypesetPatches(source, textAreas, imageWidth, areaStyles);
+      if (patches) {
+        return patches;
+      }
+    }
+
+    const overlays = textAreas.map((area, index) =>
+      this.createOverlayElement(area, imageWidth, imageHeight, areaStyles[index] ?? null)
+    );
+    this.resolveOverlayCollisions(overlays, imageWidth, imageHeight);
+    return overlays;
+  }
+
+  /**
+   * One canvas patch per text area, or null when any of them cannot be drawn
+   */
+  private createTypesetPatches(
+    source: DrawableSource,
+    textAreas: TextArea[],
+    displayWidth: number,
+    areaStyles: Array<AreaTextStyle | null>
+  ): HTMLElement[] | null {
+    const patches: HTMLElement[] = [];
+    for (const [index, area] of textAreas.entries()) {
+      const areaStyle = areaStyles[index];
+      const patch = createTypesetPatch(source, area, displayWidth, {
+        ...this.style,
+        fontFamily: areaStyle?.fontFamily ?? this.style.fontFamily,
+        fontWeight: areaStyle?.fontWeight,
+      });
+      if (!patch) {
+        return null;
+      }
+      patch.className = `${OVERLAY_CLASS} ${TYPESET_CLASS}`;
+      patch.setAttribute(DATA_ATTR, 'overlay');
+      patch.setAttribute('data-original', area.originalText);
+      patch.setAttribute('aria-label', area.translatedText);
+      patches.push(patch);
+    }
+    return patches;
+  }
+
+  /**
+   * Rebuilds the overlays of a rendered page for the current render mode and
+   * style matching, fetching a readable copy of cross-origin pages first.
+   * Keeps the current overlays when the pixels stay unreadable or the page
+   * was re-rendered or removed meanwhile.
+   */
+  private async rebuildOverlays(anchor: HTMLElement): Promise<void> {
+    const rendered = this.renderedOverlays.get(anchor);
+    if (!rendered) {
+      return;
+    }
+
+    let source: DrawableSource | null = null;
+    if (this.needsPagePixels(anchor)) {
+      source =
+        this.pixelSources.get(anchor) ??
+        (await loadReadableSource(anchor, rendered.sourceUrl).catch(() => null));
+      if (!source) {
+        return;
+      }
+      this.pixelSources.set(anchor, source);
+    }
+    if (this.renderedOverlays.get(anchor) !== rendered) {
+      return;
+    }
+
+    this.replaceOverlays(rendered, this.createOverlays(anchor, rendered.textAreas, source));
+  }
+
+  private replaceOverlays(rendered: RenderedOverlay, overlays: HTMLElement[]): void {
+    rendered.overlays.forEach(overlay => overlay.remove());
+    rendered.overlayContainer.append(...overlays);
+    rendered.overlays = overlays;
+    if (this.editor.isEditing(rendered.anchor)) {
+      this.editor.syncSelection();
+    }
+  }
+
+  private redrawOverlays(anchor: HTMLElement): void {
+    const rendered = this.renderedOverlays.get(anchor);
+    if (rendered) {
+      this.replaceOverlays(
+        rendered,
+        this.createOverlays(anchor, rendered.textAreas, this.pixelSources.get(anchor) ?? null)
+      );
+    }
+  }
+
+  /**
+   * Replaces the page's areas after an edit, re-renders them and notifies
+   * the edit listener
+   */
+  private commitEdit(anchor: HTMLElement, textAreas: TextArea[]): void {
+    const rendered = this.renderedOverlays.get(anchor);
+    if (!rendered) {
+      return;
+    }
+    rendered.textAreas = textAreas;
+    this.redrawOverlays(anchor);
+    this.editListener?.(anchor, textAreas);
+    this.changeListener?.();
+  }
+
+  /**
+   * Receive every in-place edit, e.g. to save it to the translation cache
+   */
+  setEditListener(listener: OverlayEditListener | null): void {
+    this.editListener = listener;
+  }
+
+  /**
+   * Show a notice in the edit toolbar of some pages, e.g. that their edits
+   * are not saved
+   */
+  setEditNotice(notice: OverlayEditNotice | null): void {
+    this.editor.setNotice(notice);
+  }
+
+  isEditing(anchor: HTMLElement): boolean {
+    return this.editor.isEditing(anchor);
+  }
+
+  /**
+   * Puts a rendered page into edit mode, leaving edit mode on any other
+   * page. Typeset pages show regular overlays while they are edited.
+   */
+  startEditing(anchor: HTMLElement, selected: number[] = []): boolean {
+    return this.editor.start(anchor, selected);
+  }
+
+  /**
+   * Leaves edit mode, applying text still being typed, and restores the
+   * page's regular rendering
+   */
+  stopEditing(): void {
+    this.editor.stop();
+  }
+
+  private setPinned(rendered: RenderedOverlay, pinned: boolean): void {
+    rendered.pinned = pinned;
+    rendered.wrapper.classList.toggle('manga-translator-pinned', pinned);
+    const toggleBtn = rendered.wrapper.querySelector(`.${CONTROLS_CLASS} button`);
+    if (toggleBtn) {
+      toggleBtn.textContent = pinned ? '👁' : '📌';
+    }
+  }
+
+  /**
+   * Switches every page between translated and original: pins all overlays
+   * unless all of them are pinned already, in which case unpins them.
+   * Returns whether translations are now shown.
+   */
+  toggleAllPinned(): boolean {
+    const overlays = Array.from(this.renderedOverlays.values());
+    const pinned = !overlays.every(rendered => rendered.pinned);
+    for (const rendered of overlays) {
+      this.setPinned(rendered, pinned);
+      if (!pinned) {
+        this.clearHoverTimer(rendered.anchor);
+        rendered.wrapper.classList.remove('manga-translator-hover-active');
+      }
+    }
+    return pinned;
+  }
+
+  /**
+   * Clear hover timer for an anchor element
+   */
+  private clearHoverTimer(anchor: HTMLElement): void {
+    const existing = this.hoverTimers.get(anchor);
     if (existing) {
       clearTimeout(existing);
-      this.hoverTimers.set(image, null);
+      this.hoverTimers.set(anchor, null);
     }
   }
 
   /**
-   * Render a loading overlay over an image
+   * Render a loading overlay over a page element
    */
-  renderLoading(image: HTMLImageElement): void {
-    let wrapper = image.parentElement;
+  renderLoading(anchor: HTMLElement): void {
+    let wrapper = anchor.parentElement;
     if (!wrapper || !wrapper.classList.contains(WRAPPER_CLASS)) {
-      wrapper = document.createElement('div');
-      wrapper.className = WRAPPER_CLASS;
-      wrapper.setAttribute(DATA_ATTR, 'true');
-
-      const parent = image.parentElement;
-      if (parent) {
-        parent.insertBefore(wrapper, image);
-      }
-      wrapper.appendChild(image);
+      wrapper = wrapAnchor(anchor);
     }
 
     // Ensure no existing loading indicator
-    this.removeLoading(image);
+    this.removeLoading(anchor);
 
     const loading = document.createElement('div');
     loading.className = 'manga-translator-loading';
@@ -691,10 +1199,10 @@ export class OverlayRenderer {
   }
 
   /**
-   * Remove loading overlay from an image
+   * Remove loading overlay from a page element
    */
-  removeLoading(image: HTMLImageElement): void {
-    const wrapper = image.parentElement;
+  removeLoading(anchor: HTMLElement): void {
+    const wrapper = anchor.parentElement;
     if (wrapper && wrapper.classList.contains(WRAPPER_CLASS)) {
       const loading = wrapper.querySelector('.manga-translator-loading');
       if (loading) {
@@ -709,13 +1217,15 @@ export class OverlayRenderer {
   private createOverlayElement(
     area: TextArea,
     imageWidth: number,
-    imageHeight: number
+    imageHeight: number,
+    areaStyle: AreaTextStyle | null = null
   ): HTMLElement {
     const overlay = document.createElement('div');
     overlay.className = OVERLAY_CLASS;
     overlay.setAttribute(DATA_ATTR, 'overlay');
 
-    const layout = computeAdaptiveOverlayLayout(
+    const vertical = this.isVerticalArea(area, imageWidth, imageHeight);
+    const layout = (vertical ? computeVerticalOverlayLayout : computeAdaptiveOverlayLayout)(
       area,
       imageWidth,
       imageHeight,
@@ -736,7 +1246,23 @@ export class OverlayRenderer {
       whiteSpace: 'pre-wrap',
     });
 
-    overlay.textContent = area.translatedText;
+    if (areaStyle) {
+      Object.assign(overlay.style, {
+        backgroundColor: areaStyle.backgroundColor,
+        color: areaStyle.textColor,
+        fontWeight: String(areaStyle.fontWeight),
+        letterSpacing: `${areaStyle.letterSpacing}px`,
+        ...(areaStyle.fontFamily ? { fontFamily: areaStyle.fontFamily } : {}),
+      });
+      overlay.classList.toggle('manga-translator-sfx', areaStyle.sfx);
+    }
+
+    if (vertical) {
+      overlay.classList.add(VERTICAL_CLASS);
+      renderVerticalText(overlay, area.translatedText, TCY_CLASS);
+    } else {
+      overlay.textContent = area.translatedText;
+    }
     overlay.setAttribute('data-original', area.originalText);
 
     return overlay;
@@ -821,51 +1347,112 @@ export class OverlayRenderer {
   }
 
   /**
-   * Remove overlays from a specific image
+   * Remove overlays from a specific page element
    */
-  remove(image: HTMLImageElement | HTMLElement): void {
-    if (image.classList?.contains(WRAPPER_CLASS)) {
-      const img = image.querySelector('img') as HTMLImageElement | null;
-      if (img) {
-        image = img;
+  remove(anchor: HTMLElement): void {
+    if (anchor.classList?.contains(WRAPPER_CLASS)) {
+      const wrapped = getWrappedAnchor(anchor);
+      if (wrapped) {
+        anchor = wrapped;
       }
     }
 
-    const rendered = this.renderedOverlays.get(image as HTMLImageElement);
+    const rendered = this.renderedOverlays.get(anchor);
     if (!rendered) {
       return;
     }
+    if (this.editor.isEditing(anchor)) {
+      this.stopEditing();
+    }
 
     // Clean up hover timer
-    this.clearHoverTimer(image as HTMLImageElement);
-    this.hoverTimers.delete(image as HTMLImageElement);
+    this.clearHoverTimer(anchor);
+    this.hoverTimers.delete(anchor);
+    this.pixelSources.delete(anchor);
 
-    const { wrapper, image: originalImage } = rendered;
+    const { wrapper, anchor: originalAnchor } = rendered;
 
     const parent = wrapper.parentElement;
     if (parent) {
-      parent.insertBefore(originalImage, wrapper);
+      parent.insertBefore(originalAnchor, wrapper);
       wrapper.remove();
     }
 
-    this.renderedOverlays.delete(originalImage);
+    this.renderedOverlays.delete(originalAnchor);
+    this.changeListener?.();
   }
 
   /**
    * Remove all rendered overlays
    */
   removeAll(): void {
-    const images = Array.from(this.renderedOverlays.keys());
-    for (const image of images) {
-      this.remove(image);
+    const anchors = Array.from(this.renderedOverlays.keys());
+    for (const anchor of anchors) {
+      this.remove(anchor);
+    }
+  }
+
+  /**
+   * Be notified whenever pages are rendered or removed, or their areas are
+   * edited
+   */
+  setChangeListener(listener: (() => void) | null): void {
+    this.changeListener = listener;
+  }
+
+  /**
+   * Rendered pages in document order with their areas in reading order.
+   * Each entry keeps the index `highlightArea` expects.
+   */
+  getTranscript(): TranscriptPage[] {
+    return Array.from(this.renderedOverlays.values())
+      .filter(rendered => rendered.wrapper.isConnected)
+      .sort((a, b) =>
+        a.wrapper.compareDocumentPosition(b.wrapper) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+      )
+      .map(({ anchor, textAreas }) => ({
+        anchor,
+        entries: getReadingOrder(textAreas).flatMap(index => {
+          const area = textAreas[index];
+          return area ? [{ index, area }] : [];
+        }),
+      }));
+  }
+
+  /**
+   * Scrolls a bubble into view and outlines it for a moment
+   */
+  highlightArea(anchor: HTMLElement, index: number): boolean {
+    const rendered = this.renderedOverlays.get(anchor);
+    const area = rendered?.textAreas[index];
+    if (!rendered || !area) {
+      return false;
+    }
+
+    rendered.wrapper.querySelectorAll(`.${HIGHLIGHT_CLASS}`).forEach(element => element.remove());
+    const highlight = document.createElement('div');
+    highlight.className = HIGHLIGHT_CLASS;
+    Object.assign(highlight.style, {
+      left: `${area.x * 100}%`,
+      top: `${area.y * 100}%`,
+      width: `${area.width * 100}%`,
+      height: `${area.height * 100}%`,
+    });
+    rendered.wrapper.appendChild(highlight);
+    setTimeout(() => highlight.remove(), HIGHLIGHT_DURATION);
+
+    // jsdom 等环境没有 scrollIntoView
+    if (typeof highlight.scrollIntoView === 'function') {
+      highlight.scrollIntoView({ block: 'center', behavior: 'smooth' });
     }
+    return true;
   }
 
   /**
-   * Check if an image has overlays rendered
+   * Check if an element has overlays rendered
    */
-  hasOverlays(image: HTMLImageElement): boolean {
-    return this.renderedOverlays.has(image);
+  hasOverlays(anchor: HTMLElement): boolean {
+    return this.renderedOverlays.has(anchor);
   }
 
   /**
@@ -889,6 +1476,51 @@ export class OverlayRenderer {
     };
   }
 
+  /**
+   * Switch how later renders present translations
+   */
+  setRenderMode(mode: RenderMode): void {
+    this.renderMode = mode;
+  }
+
+  /**
+   * Whether an area is laid out vertically: always with `verticalText`,
+   * otherwise for bubbles taller than wide when the target language is
+   * lettered vertically
+   */
+  private isVerticalArea(area: TextArea, imageWidth: number, imageHeight: number): boolean {
+    if (this.style.verticalText) {
+      return true;
+    }
+    return (
+      this.autoVerticalText &&
+      VERTICAL_TARGET_LANGUAGES.has(this.targetLanguage) &&
+      area.height * imageHeight > area.width * imageWidth
+    );
+  }
+
+  /**
+   * Pick vertical layout automatically for tall bubbles in later renders
+   */
+  setAutoVerticalText(enabled: boolean): void {
+    this.autoVerticalText = enabled;
+  }
+
+  /**
+   * Target language of later renders, used for the automatic vertical layout
+   */
+  setTargetLanguage(language: string): void {
+    this.targetLanguage = language;
+  }
+
+  /**
+   * Style later renders after the original lettering; pages with a
+   * per-image override keep it
+   */
+  setFontStyleMatching(enabled: boolean): void {
+    this.fontStyleMatching = enabled;
+  }
+
   /**
    * Update overlay style
    */
@@ -946,6 +1578,14 @@ export function findAllOverlays(): HTMLElement[] {
   return Array.from(document.querySelectorAll(`.${OVERLAY_CLASS}`));
 }
 
+/**
+ * Page element an overlay (or any element inside a wrapper) belongs to
+ */
+export function findOverlayAnchor(element: Element): HTMLElement | null {
+  const wrapper = element.closest(`.${WRAPPER_CLASS}`);
+  return wrapper ? getWrappedAnchor(wrapper) : null;
+}
+
 /**
  * Remove all manga translator elements from the document
  */
@@ -953,9 +1593,9 @@ export function removeAllOverlaysFromDOM(): void {
   const wrappers = findAllWrappers();
 
   for (const wrapper of wrappers) {
-    const image = wrapper.querySelector('img');
-    if (image && wrapper.parentElement) {
-      wrapper.parentElement.insertBefore(image, wrapper);
+    const anchor = getWrappedAnchor(wrapper);
+    if (anchor && wrapper.parentElement) {
+      wrapper.parentElement.insertBefore(anchor, wrapper);
       wrapper.remove();
     }
   }
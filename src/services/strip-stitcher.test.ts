@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildStripLayout,
+  dedupeStripAreas,
+  planStripWindows,
+  splitStripAreas,
+  toStripAreas,
+  type StripTextArea,
+} from './strip-stitcher';
+
+function stripArea(
+  y: number,
+  height: number,
+  windowIndex: number,
+  text = 'bubble'
+): StripTextArea {
+  return {
+    x: 100,
+    y,
+    width: 300,
+    height,
+    originalText: text,
+    translatedText: text,
+    windowIndex,
+  };
+}
+
+describe('strip-stitcher', () => {
+  it('stacks slices at a common width', () => {
+    const layout = buildStripLayout(
+      [
+        { width: 800, height: 1280 },
+        { width: 0, height: 0 },
+        { width: 400, height: 640 },
+      ],
+      800
+    );
+
+    expect(layout.width).toBe(800);
+    expect(layout.height).toBe(2560);
+    expect(layout.slices.map(slice => [slice.index, slice.top, slice.height])).toEqual([
+      [0, 0, 1280],
+      [2, 1280, 1280],
+    ]);
+  });
+
+  it('plans overlapping windows with the last one aligned to the bottom', () => {
+    const layout = buildStripLayout([{ width: 500, height: 2600 }], 500);
+
+    const windows = planStripWindows(layout, 2, 0.25);
+
+    expect(windows.map(w => [w.top, w.height])).toEqual([
+      [0, 1000],
+      [750, 1000],
+      [1500, 1000],
+      [1600, 1000],
+    ]);
+    expect(planStripWindows(buildStripLayout([{ width: 500, height: 600 }], 500))).toEqual([
+      { index: 0, top: 0, height: 600 },
+    ]);
+  });
+
+  it('converts window-normalized areas into strip pixels', () => {
+    const layout = buildStripLayout([{ width: 500, height: 2600 }], 500);
+    const [area] = toStripAreas(
+      [{ x: 0.2, y: 0.5, width: 0.4, height: 0.1, originalText: 'a', translatedText: 'b' }],
+      { index: 1, top: 750, height: 1000 },
+      layout
+    );
+
+    expect(area).toMatchObject({ x: 100, y: 1250, width: 200, height: 100, windowIndex: 1 });
+  });
+
+  it('keeps the whole bubble when a neighbouring window cut it', () => {
+    const whole = stripArea(900, 200, 1, 'whole');
+    const cut = stripArea(900, 100, 0, 'cut');
+    const sameWindow = stripArea(950, 100, 1, 'next-line');
+
+    const deduped = dedupeStripAreas([cut, whole, sameWindow]);
+
+    expect(deduped.map(area => area.originalText)).toEqual(['whole', 'next-line']);
+  });
+
+  it('maps a seam-straddling bubble to the slice holding most of it', () => {
+    const layout = buildStripLayout(
+      [
+        { width: 800, height: 1000 },
+        { width: 800, height: 1000 },
+      ],
+      800
+    );
+
+    const bySlice = splitStripAreas(
+      [
+        { x: 0, y: 950, width: 160, height: 200, originalText: 'a', translatedText: 'a' },
+        { x: 0, y: 100, width: 800, height: 100, originalText: 'b', translatedText: 'b' },
+      ],
+      layout
+    );
+
+    expect(bySlice.get(0)).toEqual([
+      { x: 0, y: 0.1, width: 1, height: 0.1, originalText: 'b', translatedText: 'b' },
+    ]);
+    expect(bySlice.get(1)).toEqual([
+      { x: 0, y: 0, width: 0.2, height: 0.15, originalText: 'a', translatedText: 'a' },
+    ]);
+  });
+});
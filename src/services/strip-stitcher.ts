@@ -0,0 +1,254 @@
+/**
+ * Strip Stitcher
+ *
+ * Webtoon 式竖条漫画把一页切成多张连续的 <img>，一个气泡经常被切在两张
+ * 图片之间。这里把连续的切片视为一张虚拟长图（strip）：
+ * 1. 按统一宽度排布切片（`buildStripLayout`）
+ * 2. 切成相互重叠的窗口分别送给 Provider（`planStripWindows` / `renderStripWindow`）
+ * 3. 合并重叠区域里重复识别的文字（`dedupeStripAreas`）
+ * 4. 再映射回每张切片的归一化 `TextArea` 坐标（`splitStripAreas`）
+ *
+ * strip 坐标均为排布后的像素值。
+ */
+
+import type { TextArea } from '@/providers/base';
+
+// ==================== Type Definitions ====================
+
+export interface StripSlice {
+  /** Position of the slice in the source image list */
+  index: number;
+  top: number;
+  height: number;
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+export interface StripLayout {
+  width: number;
+  height: number;
+  slices: StripSlice[];
+}
+
+export interface StripWindow {
+  index: number;
+  top: number;
+  height: number;
+}
+
+/** A text area in strip pixels, tagged with the window that produced it */
+export interface StripTextArea extends TextArea {
+  windowIndex: number;
+}
+
+// ==================== Constants ====================
+
+/** Strip width sent to the provider; wider slices are scaled down */
+export const STRIP_MAX_WIDTH = 1024;
+/** Window height as a multiple of the strip width */
+export const STRIP_WINDOW_ASPECT = 2;
+/** Fraction of each window shared with the next one */
+export const STRIP_WINDOW_OVERLAP = 0.25;
+/** Areas from different windows overlapping this much are the same bubble */
+const DUPLICATE_OVERLAP_RATIO = 0.6;
+
+// ==================== Layout ====================
+
+export function buildStripLayout(
+  sizes: Array<{ width: number; height: number }>,
+  maxWidth: number = STRIP_MAX_WIDTH
+): StripLayout {
+  const valid = sizes.filter(size => size.width > 0 && size.height > 0);
+  const widest = valid.reduce((max, size) => Math.max(max, size.width), 0);
+  const width = Math.min(widest, maxWidth);
+
+  let top = 0;
+  const slices: StripSlice[] = [];
+  sizes.forEach((size, index) => {
+    if (size.width <= 0 || size.height <= 0) return;
+    const height = Math.round((size.height * width) / size.width);
+    slices.push({
+      index,
+      top,
+      height,
+      naturalWidth: size.width,
+      naturalHeight: size.height,
+    });
+    top += height;
+  });
+
+  return { width, height: top, slices };
+}
+
+export function planStripWindows(
+  layout: StripLayout,
+  aspect: number = STRIP_WINDOW_ASPECT,
+  overlap: number = STRIP_WINDOW_OVERLAP
+): StripWindow[] {
+  if (layout.height <= 0) {
+    return [];
+  }
+
+  const windowHeight = Math.max(1, Math.round(layout.width * aspect));
+  if (layout.height <= windowHeight) {
+    return [{ index: 0, top: 0, height: layout.height }];
+  }
+
+  const step = Math.max(1, Math.round(windowHeight * (1 - overlap)));
+  const windows: StripWindow[] = [];
+  for (let top = 0; ; top += step) {
+    // 最后一个窗口贴齐底部，保证高度一致
+    const clampedTop = Math.min(top, layout.height - windowHeight);
+    windows.push({ index: windows.length, top: clampedTop, height: windowHeight });
+    if (clampedTop + windowHeight >= layout.height) break;
+  }
+  return windows;
+}
+
+// ==================== Rendering ====================
+
+/**
+ * Draws the slices that intersect `stripWindow` onto one canvas and returns it
+ * as base64 JPEG. Throws a `SecurityError` when a source taints the canvas.
+ */
+export function renderStripWindow(
+  sources: CanvasImageSource[],
+  layout: StripLayout,
+  stripWindow: StripWindow,
+  quality: number = 0.85
+): string {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas 2D context');
+  }
+
+  canvas.width = layout.width;
+  canvas.height = stripWindow.height;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  const windowBottom = stripWindow.top + stripWindow.height;
+  for (const slice of layout.slices) {
+    const source = sources[slice.index];
+    const visibleTop = Math.max(stripWindow.top, slice.top);
+    const visibleBottom = Math.min(windowBottom, slice.top + slice.height);
+    if (!source || visibleBottom <= visibleTop) continue;
+
+    const scale = slice.naturalHeight / slice.height;
+    ctx.drawImage(
+      source,
+      0,
+      (visibleTop - slice.top) * scale,
+      slice.naturalWidth,
+      (visibleBottom - visibleTop) * scale,
+      0,
+      visibleTop - stripWindow.top,
+      layout.width,
+      visibleBottom - visibleTop
+    );
+  }
+
+  return canvas
+    .toDataURL('image/jpeg', quality)
+    .replace(/^data:image\/\w+;base64,/, '');
+}
+
+// ==================== Text Area Mapping ====================
+
+/** Converts a window's normalized text areas into strip pixels */
+export function toStripAreas(
+  areas: TextArea[],
+  stripWindow: StripWindow,
+  layout: StripLayout
+): StripTextArea[] {
+  return areas.map(area => ({
+    ...area,
+    x: area.x * layout.width,
+    y: stripWindow.top + area.y * stripWindow.height,
+    width: area.width * layout.width,
+    height: area.height * stripWindow.height,
+    windowIndex: stripWindow.index,
+  }));
+}
+
+function intersectionArea(a: TextArea, b: TextArea): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Drops bubbles read twice from overlapping windows. The larger box wins:
+ * a bubble cut by a window edge comes back smaller than the copy read
+ * whole by the neighbouring window. Areas from the same window are never
+ * merged.
+ */
+export function dedupeStripAreas(areas: StripTextArea[]): StripTextArea[] {
+  const kept: StripTextArea[] = [];
+  const bySize = [...areas].sort((a, b) => b.width * b.height - a.width * a.height);
+
+  for (const area of bySize) {
+    const size = area.width * area.height;
+    const duplicate = kept.some(
+      other =>
+        other.windowIndex !== area.windowIndex &&
+        intersectionArea(area, other) >=
+          DUPLICATE_OVERLAP_RATIO * Math.min(size, other.width * other.height)
+    );
+    if (!duplicate) {
+      kept.push(area);
+    }
+  }
+
+  return kept.sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Maps strip areas back to per-slice normalized coordinates. Each area goes
+ * to the slice holding most of its height and is clipped to that slice, so
+ * a bubble straddling a seam is rendered once.
+ */
+export function splitStripAreas(
+  areas: TextArea[],
+  layout: StripLayout
+): Map<number, TextArea[]> {
+  const result = new Map<number, TextArea[]>();
+
+  for (const area of areas) {
+    let best: StripSlice | undefined;
+    let bestOverlap = 0;
+    for (const slice of layout.slices) {
+      const overlap =
+        Math.min(area.y + area.height, slice.top + slice.height) -
+        Math.max(area.y, slice.top);
+      if (overlap > bestOverlap) {
+        best = slice;
+        bestOverlap = overlap;
+      }
+    }
+    if (!best) continue;
+
+    const top = clamp01((area.y - best.top) / best.height);
+    const bottom = clamp01((area.y + area.height - best.top) / best.height);
+    const left = clamp01(area.x / layout.width);
+    const right = clamp01((area.x + area.width) / layout.width);
+
+    const sliceAreas = result.get(best.index) ?? [];
+    sliceAreas.push({
+      x: left,
+      y: top,
+      width: right - left,
+      height: bottom - top,
+      originalText: area.originalText,
+      translatedText: area.translatedText,
+    });
+    result.set(best.index, sliceAreas);
+  }
+
+  return result;
+}
@@ -282,4 +282,86 @@ describe('ChromeRuntimeTranslationTransport', () => {
       expect.objectContaining({ pageKey: 'inline-image' })
     );
   });
+
+  it('re-submits the job once when the service worker stops before responding', async () => {
+    vi.mocked(chromeMock.runtime.sendMessage)
+      .mockRejectedValueOnce(
+        new Error('The message port closed before a response was received.')
+      )
+      .mockResolvedValueOnce({
+        success: true,
+        job: {
+          jobId: 'job-7',
+          pageKey: 'page-7',
+          priorityClass: 'deferred-failure',
+          requestedPath: 'plugin-direct',
+          scope: 'page',
+          state: 'succeeded',
+        },
+        textAreas: [],
+      });
+
+    const response = await transport.translateImage({
+      jobId: 'job-7',
+      imageBase64: 'base64-data',
+      mimeType: 'image/png',
+      targetLanguage: 'zh-CN',
+      provider: 'openai-compatible',
+      translationStylePreset: 'natural-zh',
+    });
+
+    expect(response.success).toBe(true);
+    const calls = vi.mocked(chromeMock.runtime.sendMessage).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(calls[1]?.[0]).toMatchObject({
+      jobId: 'job-7',
+      priorityClass: 'deferred-failure',
+    });
+  });
+
+  it('sends JOB_CANCEL and rejects when the signal aborts', async () => {
+    vi.mocked(chromeMock.runtime.sendMessage).mockImplementation(
+      (message: { type: string }) =>
+        message.type === 'JOB_CANCEL'
+          ? Promise.resolve({ success: true, cancelledJobIds: ['job-8'] })
+          : new Promise(() => undefined)
+    );
+    const controller = new AbortController();
+
+    const pending = transport.translateImage(
+      {
+        jobId: 'job-8',
+        imageBase64: 'base64-data',
+        mimeType: 'image/png',
+        targetLanguage: 'zh-CN',
+        provider: 'openai-compatible',
+        translationStylePreset: 'natural-zh',
+      },
+      controller.signal
+    );
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(chromeMock.runtime.sendMessage).toHaveBeenLastCalledWith({
+      type: 'JOB_CANCEL',
+      jobId: 'job-8',
+    });
+  });
+
+  it('does not retry other runtime errors', async () => {
+    vi.mocked(chromeMock.runtime.sendMessage).mockRejectedValue(
+      new Error('Extension context invalidated.')
+    );
+
+    await expect(
+      transport.translateImage({
+        imageBase64: 'base64-data',
+        mimeType: 'image/png',
+        targetLanguage: 'zh-CN',
+        provider: 'openai-compatible',
+        translationStylePreset: 'natural-zh',
+      })
+    ).rejects.toThrow('Extension context invalidated');
+    expect(chromeMock.runtime.sendMessage).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1,27 +1,35 @@
 import type { TextArea } from '@/providers/base';
-import type {
-  JobPriorityClass,
-  RequestedExecutionPath,
-  TranslateImageJobRequest,
-  TranslateImageJobResponse,
+import {
+  deriveRequestedPath,
+  type CancelJobRequest,
+  type JobPriorityClass,
+  type RequestedExecutionPath,
+  type TranslateImageJobRequest,
+  type TranslationCacheKeyPayload,
+  type TranslateImageJobResponse,
 } from '@/shared/runtime-contracts';
+import type { RenderMode } from '@/shared/app-config';
+import { createAbortError, throwIfAborted } from '@/utils/abort';
 import type { TranslationStylePreset } from '@/utils/translation-style';
 
 export interface TranslationTransportRequest {
   imageBase64: string;
   mimeType: string;
+  imageHash?: string;
   imageKey?: string;
   pageUrl?: string;
   imageUrl?: string;
+  chapterId?: string;
   targetLanguage: string;
   provider: string;
   apiKey?: string;
   baseUrl?: string;
   model?: string;
   requestedPath?: RequestedExecutionPath;
-  renderMode?: 'anchors-only' | 'strong-overlay-compat';
+  renderMode?: RenderMode;
   translationStylePreset: TranslationStylePreset;
   forceRefresh?: boolean;
+  discardCorrections?: boolean;
   jobId?: string;
   pageKey?: string;
   priorityClass?: JobPriorityClass;
@@ -34,6 +42,9 @@ export interface TranslationTransportResponse {
   textAreas?: TextArea[];
   pipeline?: 'ocr-first' | 'region-fallback' | 'full-image-fallback';
   cached?: boolean;
+  /** The areas are the user's corrections rather than a machine translation */
+  corrected?: boolean;
+  cacheKey?: TranslationCacheKeyPayload;
   diagnostics?: {
     detectedRegions: number;
     fallbackRegions: number;
@@ -46,17 +57,75 @@ export interface TranslationTransportResponse {
     completionTokens: number;
     totalTokens: number;
   } | null;
+  /** Provider that actually served the request; differs from the requested one after fallback */
+  provider?: string;
 }
 
 export interface TranslationTransport {
+  /** Aborting `signal` cancels the job and rejects with an `AbortError` */
   translateImage(
-    request: TranslationTransportRequest
+    request: TranslationTransportRequest,
+    signal?: AbortSignal
   ): Promise<TranslationTransportResponse>;
 }
 
+/**
+ * Chrome rejects a pending sendMessage with this when the service worker is
+ * stopped before it responds; the job died with the worker.
+ */
+function isWorkerRestartError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /message (port|channel) closed/i.test(message);
+}
+
 export class ChromeRuntimeTranslationTransport implements TranslationTransport {
   async translateImage(
-    request: TranslationTransportRequest
+    request: TranslationTransportRequest,
+    signal?: AbortSignal
+  ): Promise<TranslationTransportResponse> {
+    throwIfAborted(signal);
+    const jobId = request.jobId || crypto.randomUUID();
+    const submit = async () => {
+      try {
+        return await this.sendJob(request, jobId, request.priorityClass || 'visible-now');
+      } catch (error) {
+        if (!isWorkerRestartError(error) || signal?.aborted) {
+          throw error;
+        }
+        // 后台 worker 中途被回收：同一 jobId 以 deferred-failure 优先级重新入队一次
+        return this.sendJob(request, jobId, 'deferred-failure');
+      }
+    };
+
+    if (!signal) {
+      return submit();
+    }
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        // 不等后台回包：通知后台取消后立即以 AbortError 结束
+        void chrome.runtime
+          .sendMessage({ type: 'JOB_CANCEL', jobId } satisfies CancelJobRequest)
+          .catch(() => undefined);
+        reject(createAbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([submit(), aborted]);
+    } finally {
+      if (onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  private async sendJob(
+    request: TranslationTransportRequest,
+    jobId: string,
+    priorityClass: JobPriorityClass
   ): Promise<TranslationTransportResponse> {
     const requestedPath = this.resolveRequestedPath(request);
     const pageKey = request.pageKey || request.imageUrl || request.imageKey || 'inline-image';
@@ -64,15 +133,17 @@ export class ChromeRuntimeTranslationTransport implements TranslationTransport {
     const response = this.normalizeJobResponse(
       (await chrome.runtime.sendMessage({
         type: 'JOB_TRANSLATE_IMAGE',
-        jobId: request.jobId || crypto.randomUUID(),
+        jobId,
         pageKey,
         scope: request.scope || 'page',
-        priorityClass: request.priorityClass || 'visible-now',
+        priorityClass,
         requestedPath,
         imageBase64: request.imageBase64,
         mimeType: request.mimeType,
+        imageHash: request.imageHash,
         imageUrl: request.imageUrl,
         sourcePageUrl: request.pageUrl,
+        chapterId: request.chapterId,
         targetLanguage: request.targetLanguage,
         translationStylePreset: request.translationStylePreset,
         provider: request.provider,
@@ -80,6 +151,7 @@ export class ChromeRuntimeTranslationTransport implements TranslationTransport {
         baseUrl: request.baseUrl,
         model: request.model,
         forceRefresh: request.forceRefresh,
+        discardCorrections: request.discardCorrections,
       } satisfies TranslateImageJobRequest)) as
         | TranslateImageJobResponse
         | undefined
@@ -99,14 +171,9 @@ export class ChromeRuntimeTranslationTransport implements TranslationTransport {
       return request.requestedPath;
     }
 
-    // Both Ollama and LM Studio are local OpenAI-compatible servers, so
-    // route them to ollama-direct. Must match runtime-contracts.ts
-    // `deriveRequestedPath` so the cache key agrees across the transport
-    // and the background handler.
-    if (request.provider === 'ollama' || request.provider === 'lm-studio') {
-      return 'ollama-direct';
-    }
-    return 'plugin-direct';
+    // Delegate to runtime-contracts.ts `deriveRequestedPath` so the cache
+    // key agrees across the transport and the background handler.
+    return deriveRequestedPath(request.provider);
   }
 
   private normalizeJobResponse(
@@ -122,8 +189,11 @@ export class ChromeRuntimeTranslationTransport implements TranslationTransport {
       textAreas: response.textAreas,
       pipeline: response.pipeline,
       cached: response.cached,
+      corrected: response.corrected,
+      cacheKey: response.cacheKey,
       diagnostics: response.job.diagnostics ?? undefined,
       usage: response.usage ?? null,
+      provider: response.job.actualProvider,
     };
   }
 }
@@ -13,20 +13,22 @@
 import {
   type ProviderType,
   type TextArea,
+  isProviderType,
   providerRequiresApiKey,
 } from '@/providers';
-import type {
-  JobPriorityClass,
-  RequestedExecutionPath,
-} from '@/shared/runtime-contracts';
 import {
-  useTranslationCacheStore,
-  type TranslationResult,
-} from '@/stores/cache-v2';
+  deriveRequestedPath,
+  type JobPriorityClass,
+  type TranslationCacheKeyPayload,
+} from '@/shared/runtime-contracts';
+import type { TranslationResult } from '@/stores/cache-v2';
+import type { RenderMode } from '@/shared/app-config';
 import { useAppConfigStore } from '@/stores/config-v2';
 import { useUsageStore } from '@/stores/usage-store';
 import {
+  isTallMangaPage,
   processImage,
+  processPageElement,
   type ImageProcessingOptions,
   DEFAULT_OPTIONS,
 } from '@/services/image-processor';
@@ -73,7 +75,7 @@ export interface TranslatorConfig {
   /** Prompt style preset */
   translationStylePreset: TranslationStylePreset;
   /** Render mode for translated content */
-  renderMode?: 'anchors-only' | 'strong-overlay-compat';
+  renderMode?: RenderMode;
   /** Image processing options */
   imageOptions?: ImageProcessingOptions;
   /** Transport implementation */
@@ -104,14 +106,11 @@ export type ProgressCallback = (progress: TranslationProgress) => void;
 interface TransportTextAreasResponse {
   textAreas: TextArea[];
   cached?: boolean;
+  corrected?: boolean;
+  cacheKey?: TranslationCacheKeyPayload;
   pipeline?: 'ocr-first' | 'region-fallback' | 'full-image-fallback';
   usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
-}
-
-function deriveRequestedPath(
-  provider: ProviderType
-): RequestedExecutionPath {
-  return provider === 'ollama' ? 'ollama-direct' : 'plugin-direct';
+  provider?: ProviderType;
 }
 
 // ==================== Translator Service Class ====================
@@ -174,115 +173,193 @@ export class TranslatorService {
    *
    * 翻译流程：
    * 1. 图像处理（压缩 + base64 + hash）
-   * 2. 检查缓存（hash 命中则跳过 API 调用）
-   * 3. 通过 background script 代理调用 AI API（解决 CORS）
-   * 4. 写入缓存
+   * 2. 通过 background script 代理调用 AI API（解决 CORS）
+   * 3. background 负责查询/写入跨标签页共享的 IndexedDB 缓存，命中时不消耗 Token
    *
-   * @param image Image element to translate
+   * @param image Page element to translate: `<img>`, `<canvas>` or an element
+   *   with a CSS background image (its URL must be passed as `imageUrl`)
    * @returns Translation result
    */
   async translateImage(
-    image: HTMLImageElement,
+    image: HTMLElement,
     viewportCrop: boolean = false,
     imageKeyOverride?: string,
-    forceRefresh: boolean = false
+    forceRefresh: boolean = false,
+    options: {
+      chapterId?: string;
+      /** 站点适配器解析出的原图地址，优先于 `image.src`；canvas 被污染时据此重新获取 */
+      imageUrl?: string;
+      scope?: 'viewport' | 'page' | 'chapter' | 'manual';
+      priorityClass?: JobPriorityClass;
+      /** 由调用方指定的后台任务 ID，之后可据此调整排队优先级 */
+      jobId?: string;
+      /** 与 forceRefresh 同用：连同用户修正过的译文一起重翻 */
+      discardCorrections?: boolean;
+      signal?: AbortSignal;
+    } = {}
   ): Promise<TranslationResult> {
     if (isDevelopment) {
       _log('开始翻译图片');
     }
 
     try {
-      const processOptions: ImageProcessingOptions = {
-        maxSize: DEFAULT_OPTIONS.maxSize,
-        quality: DEFAULT_OPTIONS.quality,
-        viewportCrop: false,
-        ...this.config.imageOptions,
-      };
-
-      if (viewportCrop) {
-        processOptions.maxSize = 1600;
-        processOptions.quality = 0.80;
-        processOptions.format = 'webp';
-        processOptions.viewportCrop = true;
-      }
-
-      const processed = await processImage(image, processOptions);
+      const processOptions = this.getProcessOptions(viewportCrop);
+      const processed = await processPageElement(image, processOptions, options.imageUrl);
       if (isDevelopment) {
         _log('图片处理完成, hash:', processed.hash.substring(0, 16));
       }
 
-      const imageKey = imageKeyOverride || processed.hash;
-      const cacheKey = this.buildCacheKey(processed.hash);
-
-      if (this.config.cacheEnabled && !forceRefresh) {
-        const cached = useTranslationCacheStore.getState().get(cacheKey);
-        if (cached) {
-          if (isDevelopment) {
-            _log('使用缓存结果, 文字区域数:', cached.textAreas.length);
-          }
-          useUsageStore.getState().addRecord({
-            provider: this.config.provider,
-            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-            cached: true,
-          });
-          return cached;
-        }
-      }
+      return await this.translateEncodedImage(processed, {
+        ...options,
+        imageKey: imageKeyOverride || processed.hash,
+        imageUrl:
+          options.imageUrl ||
+          (image instanceof HTMLImageElement ? image.currentSrc || image.src : undefined),
+        forceRefresh,
+      });
+    } catch (error) {
+      return this.toFailureResult(error);
+    }
+  }
+
+  /**
+   * 预翻译尚未显示在页面上的图片（例如预取的下一章）。编码参数与
+   * `translateImage` 处理同一页且该页不在视口内时一致，打开该页时可命中缓存。
+   */
+  async translateDetachedImage(
+    image: HTMLImageElement,
+    options: {
+      imageKey?: string;
+      imageUrl?: string;
+      chapterId?: string;
+      pageUrl?: string;
+      priorityClass?: JobPriorityClass;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<TranslationResult> {
+    try {
+      const tallPage = isTallMangaPage(image.naturalWidth, image.naturalHeight);
+      // 游离图片没有视口位置，不能裁剪；视口外的长图同样不裁剪
+      const processed = await processImage(image, {
+        ...this.getProcessOptions(tallPage),
+        viewportCrop: false,
+      });
+
+      return await this.translateEncodedImage(processed, {
+        ...options,
+        imageKey: options.imageKey || processed.hash,
+        scope: 'chapter',
+      });
+    } catch (error) {
+      return this.toFailureResult(error);
+    }
+  }
 
+  private getProcessOptions(viewportCrop: boolean): ImageProcessingOptions {
+    const processOptions: ImageProcessingOptions = {
+      maxSize: DEFAULT_OPTIONS.maxSize,
+      quality: DEFAULT_OPTIONS.quality,
+      viewportCrop: false,
+      ...this.config.imageOptions,
+    };
+
+    if (viewportCrop) {
+      processOptions.maxSize = 1600;
+      processOptions.quality = 0.80;
+      processOptions.format = 'webp';
+      processOptions.viewportCrop = true;
+    }
+
+    return processOptions;
+  }
+
+  /**
+   * 翻译已编码的图片数据（例如竖条漫画拼接出的窗口），跳过 DOM 图片处理。
+   */
+  async translateEncodedImage(
+    encoded: { base64: string; mimeType: string; hash?: string },
+    options: {
+      imageKey?: string;
+      imageUrl?: string;
+      chapterId?: string;
+      /** 任务归属的页面，默认当前页面 */
+      pageUrl?: string;
+      scope?: 'viewport' | 'page' | 'chapter' | 'manual';
+      priorityClass?: JobPriorityClass;
+      jobId?: string;
+      forceRefresh?: boolean;
+      discardCorrections?: boolean;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<TranslationResult> {
+    try {
       const response = await retryWithBackoff(
         () =>
           this.callTranslationTransport(
-            processed.base64,
-            processed.mimeType,
+            encoded.base64,
+            encoded.mimeType,
             this.config.targetLanguage,
-            forceRefresh,
+            options.forceRefresh || !this.config.cacheEnabled,
             {
-              imageKey,
-              imageUrl: image.currentSrc || image.src,
-              pageUrl: window.location.href,
+              imageHash: encoded.hash,
+              imageKey: options.imageKey,
+              imageUrl: options.imageUrl,
+              pageUrl: options.pageUrl || window.location.href,
+              chapterId: options.chapterId,
+              scope: options.scope,
+              priorityClass: options.priorityClass,
+              jobId: options.jobId,
+              discardCorrections: options.discardCorrections,
+              signal: options.signal,
             }
           ),
         2,
         1000
       );
 
-      if (response.usage) {
+      if (response.cached) {
+        if (isDevelopment) {
+          _log('使用缓存结果, 文字区域数:', response.textAreas.length);
+        }
+        useUsageStore.getState().addRecord({
+          provider: response.provider ?? this.config.provider,
+          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          cached: true,
+        });
+      } else if (response.usage) {
         useUsageStore.getState().addRecord({
-          provider: this.config.provider,
+          provider: response.provider ?? this.config.provider,
           usage: response.usage,
           cached: false,
         });
       }
 
-      const result: TranslationResult = {
+      return {
         success: true,
         textAreas: response.textAreas,
+        cached: response.cached ?? false,
+        corrected: response.corrected ?? false,
+        cacheKey: response.cacheKey,
+        totalTokens: response.cached ? 0 : response.usage?.totalTokens ?? 0,
       };
-
-      if (this.config.cacheEnabled) {
-        if (isDevelopment) {
-          _log('存入缓存');
-        }
-        useTranslationCacheStore
-          .getState()
-          .set(cacheKey, result, this.config.provider);
-      }
-
-      return result;
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      console.warn('[Translator] 翻译失败:', errorMessage);
-      if (isDevelopment && error instanceof Error && error.stack) {
-        _logError('错误堆栈:', error.stack);
-      }
-      return {
-        success: false,
-        textAreas: [],
-        error: errorMessage,
-      };
+      return this.toFailureResult(error);
     }
   }
 
+  private toFailureResult(error: unknown): TranslationResult {
+    const errorMessage = getErrorMessage(error);
+    console.warn('[Translator] 翻译失败:', errorMessage);
+    if (isDevelopment && error instanceof Error && error.stack) {
+      _logError('错误堆栈:', error.stack);
+    }
+    return {
+      success: false,
+      textAreas: [],
+      error: errorMessage,
+    };
+  }
+
   /**
    * 通过 background script 代理调用 AI API
    *
@@ -295,11 +372,16 @@ export class TranslatorService {
     targetLanguage: string,
     forceRefresh: boolean,
     metadata?: {
+      imageHash?: string;
       imageKey?: string;
       imageUrl?: string;
       pageUrl?: string;
+      chapterId?: string;
       priorityClass?: JobPriorityClass;
+      jobId?: string;
       scope?: 'viewport' | 'page' | 'chapter' | 'manual';
+      discardCorrections?: boolean;
+      signal?: AbortSignal;
     }
   ): Promise<TransportTextAreasResponse> {
     // pageKey is used by BackgroundJobQueue for PAGE-LEVEL dedup, so it must
@@ -315,9 +397,11 @@ export class TranslatorService {
     const response = await this.transport.translateImage({
       imageBase64,
       mimeType,
+      imageHash: metadata?.imageHash,
       imageKey: metadata?.imageKey,
       pageUrl: metadata?.pageUrl,
       imageUrl: metadata?.imageUrl,
+      chapterId: metadata?.chapterId,
       targetLanguage,
       provider: this.config.provider,
       apiKey: this.config.apiKey,
@@ -327,10 +411,12 @@ export class TranslatorService {
       renderMode: this.config.renderMode,
       translationStylePreset: this.config.translationStylePreset,
       forceRefresh,
+      discardCorrections: metadata?.discardCorrections,
+      jobId: metadata?.jobId,
       pageKey,
       priorityClass: metadata?.priorityClass,
       scope: metadata?.scope,
-    });
+    }, metadata?.signal);
 
     if (!response.success) {
       throw new Error(response.error || '翻译请求失败');
@@ -339,23 +425,14 @@ export class TranslatorService {
     return {
       textAreas: (response.textAreas as TextArea[]) || [],
       cached: response.cached,
+      corrected: response.corrected,
+      cacheKey: response.cacheKey,
       pipeline: response.pipeline,
       usage: response.usage as { promptTokens: number; completionTokens: number; totalTokens: number } | undefined,
+      provider: isProviderType(response.provider) ? response.provider : undefined,
     };
   }
 
-  private buildCacheKey(imageHash: string): string {
-    const requestedPath = deriveRequestedPath(this.config.provider);
-    const executionScope = `provider::${requestedPath}::${this.config.provider}::${this.config.model || 'default'}`;
-    return [
-      imageHash,
-      executionScope,
-      this.config.targetLanguage,
-      this.config.translationStylePreset,
-      this.config.renderMode || 'strong-overlay-compat',
-    ].join('::');
-  }
-
   /**
    * Translate multiple images
    *
@@ -399,7 +476,9 @@ export class TranslatorService {
         phase: 'processing',
       });
 
-      const result = await this.translateImage(image);
+      const result = await this.translateImage(image, false, undefined, false, {
+        signal: this.abortController.signal,
+      });
       results.push(result);
     }
 
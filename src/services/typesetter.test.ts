@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  analyzeBubbleBackground,
+  eraseTextRegion,
+  fitTypesetText,
+  pickTextColor,
+  type PixelRegion,
+  type RegionBox,
+} from './typesetter';
+
+function createRegion(
+  width: number,
+  height: number,
+  colorAt: (x: number, y: number) => [number, number, number]
+): PixelRegion {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data.set([...colorAt(x, y), 255], offset);
+    }
+  }
+  return { data, width, height };
+}
+
+function redAt(region: PixelRegion, x: number, y: number): number {
+  return region.data[(y * region.width + x) * 4] ?? -1;
+}
+
+// 10×10 区域，外圈 3 像素为采样环
+const INNER: RegionBox = { left: 3, top: 3, right: 7, bottom: 7 };
+const isText = (x: number, y: number) =>
+  x >= INNER.left && x < INNER.right && y >= INNER.top && y < INNER.bottom;
+
+describe('typesetter', () => {
+  it('fills a plain bubble with its colour even when the outline crosses the ring', () => {
+    const region = createRegion(10, 10, (x, y) => {
+      if (isText(x, y)) return [0, 0, 0];
+      if (x === 0) return [20, 20, 20];
+      return [250, 250, 245];
+    });
+
+    const background = analyzeBubbleBackground(region, INNER);
+    expect(background).toEqual({ mode: 'flat', color: [250, 250, 245] });
+
+    eraseTextRegion(region, INNER, background);
+    expect(redAt(region, 4, 4)).toBe(250);
+    expect(redAt(region, 0, 4)).toBe(20);
+  });
+
+  it('continues a gradient background into the erased box', () => {
+    const region = createRegion(10, 10, (x, y) =>
+      isText(x, y) ? [0, 0, 0] : [x * 25, x * 25, x * 25]
+    );
+
+    const background = analyzeBubbleBackground(region, INNER);
+    expect(background.mode).toBe('inpaint');
+
+    eraseTextRegion(region, INNER, background);
+    const row = [3, 4, 5, 6].map(x => redAt(region, x, 5));
+    expect(row[0]).toBeLessThan(row[3] ?? 0);
+    expect(row.every(value => value > 25 && value < 225)).toBe(true);
+  });
+
+  it('shrinks the font until the wrapped lines fit the box', () => {
+    const measure = (text: string, fontSize: number) => text.length * fontSize;
+
+    expect(fitTypesetText('你好', 100, 40, { min: 8, max: 30 }, measure)).toEqual({
+      fontSize: 30,
+      lines: ['你好'],
+    });
+
+    const fitted = fitTypesetText('我们走吧快点', 60, 60, { min: 8, max: 30 }, measure);
+    expect(fitted.lines.length).toBeGreaterThan(1);
+    expect(fitted.lines.length * fitted.fontSize * 1.2).toBeLessThanOrEqual(60);
+    expect(fitted.lines.every(line => measure(line, fitted.fontSize) <= 60)).toBe(true);
+  });
+
+  it('picks text colour by contrast with the background', () => {
+    expect(pickTextColor([250, 250, 245])).toBe('#111111');
+    expect(pickTextColor([20, 20, 30])).toBe('#f5f5f5');
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Typesetter Service
+ *
+ * Backs the `typeset` render mode: instead of stacking boxes over the art,
+ * each text area is erased on a canvas patch cut from the page and the
+ * translation is drawn in its place, like a scanlation.
+ * - Flat fill with the bubble colour when the surrounding pixels are uniform
+ * - Border interpolation (a cheap local inpainting) for textured backgrounds
+ * - Text wrapped and shrunk to fit the erased box (horizontal only; the
+ *   vertical layout applies to the overlay modes)
+ */
+
+import type { TextArea } from '@/providers/base';
+import { loadImageViaBackground, type DrawableSource } from '@/services/image-processor';
+
+// ==================== Type Definitions ====================
+
+/** RGBA pixels in row-major order, compatible with `ImageData` */
+export interface PixelRegion {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Box inside a region; `right` and `bottom` are exclusive */
+export interface RegionBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export type Rgb = [number, number, number];
+
+export interface BubbleBackground {
+  /** `flat` for plain bubbles, `inpaint` for screentone or art behind the text */
+  mode: 'flat' | 'inpaint';
+  /** Dominant colour around the text, used for the flat fill and text contrast */
+  color: Rgb;
+}
+
+export interface TypesetTextStyle {
+  fontFamily: string;
+  /** CSS font weight, e.g. from the matched original style */
+  fontWeight?: number | string;
+  /** CSS pixels at the displayed size */
+  minFontSize: number;
+  maxFontSize: number;
+}
+
+// ==================== Constants ====================
+
+// 采样环宽度（原图像素）：文字框外的这一圈像素代表气泡背景
+const SAMPLE_RING = 3;
+// 环上像素与中位色的亮度差在此范围内视为同色
+const FLAT_LUMINANCE_TOLERANCE = 24;
+// 同色像素占比达到该值时按纯色气泡处理
+const FLAT_FILL_MIN_SHARE = 0.85;
+const LINE_HEIGHT = 1.2;
+
+// ==================== Pixel Analysis ====================
+
+function luminance(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+function pixelAt(region: PixelRegion, x: number, y: number): Rgb {
+  const offset = (y * region.width + x) * 4;
+  return [region.data[offset] ?? 0, region.data[offset + 1] ?? 0, region.data[offset + 2] ?? 0];
+}
+
+function isInside(box: RegionBox, x: number, y: number): boolean {
+  return x >= box.left && x < box.right && y >= box.top && y < box.bottom;
+}
+
+/**
+ * Classifies the background around `inner` from the ring of pixels between
+ * `inner` and the region edge. A bubble outline crossing the ring only
+ * shifts the share of matching pixels, not the median colour.
+ */
+export function analyzeBubbleBackground(region: PixelRegion, inner: RegionBox): BubbleBackground {
+  const reds: number[] = [];
+  const greens: number[] = [];
+  const blues: number[] = [];
+
+  for (let y = 0; y < region.height; y++) {
+    for (let x = 0; x < region.width; x++) {
+      if (isInside(inner, x, y)) {
+        continue;
+      }
+      const [r, g, b] = pixelAt(region, x, y);
+      reds.push(r);
+      greens.push(g);
+      blues.push(b);
+    }
+  }
+
+  if (reds.length === 0) {
+    return { mode: 'flat', color: [255, 255, 255] };
+  }
+
+  const color: Rgb = [median(reds), median(greens), median(blues)];
+  const target = luminance(...color);
+  const matching = reds.filter(
+    (r, index) =>
+      Math.abs(luminance(r, greens[index] ?? 0, blues[index] ?? 0) - target) <=
+      FLAT_LUMINANCE_TOLERANCE
+  ).length;
+
+  return {
+    mode: matching / reds.length >= FLAT_FILL_MIN_SHARE ? 'flat' : 'inpaint',
+    color,
+  };
+}
+
+function averageColor(region: PixelRegion, points: Array<[number, number]>): Rgb | null {
+  if (points.length === 0) {
+    return null;
+  }
+  const sum: Rgb = [0, 0, 0];
+  for (const [x, y] of points) {
+    const [r, g, b] = pixelAt(region, x, y);
+    sum[0] += r;
+    sum[1] += g;
+    sum[2] += b;
+  }
+  return [sum[0] / points.length, sum[1] / points.length, sum[2] / points.length];
+}
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: Math.max(0, end - start) }, (_, index) => start + index);
+}
+
+/**
+ * Erases `inner` in place. Flat backgrounds get the bubble colour; textured
+ * ones blend the ring pixels on the same row and column, weighted by
+ * inverse distance, so gradients and tones continue into the box.
+ */
+export function eraseTextRegion(
+  region: PixelRegion,
+  inner: RegionBox,
+  background: BubbleBackground
+): void {
+  const leftCols = range(0, inner.left);
+  const rightCols = range(inner.right, region.width);
+  const topRows = range(0, inner.top);
+  const bottomRows = range(inner.bottom, region.height);
+
+  const rowSides = range(inner.top, inner.bottom).map(y => ({
+    left: averageColor(region, leftCols.map(x => [x, y])),
+    right: averageColor(region, rightCols.map(x => [x, y])),
+  }));
+  const columnSides = range(inner.left, inner.right).map(x => ({
+    top: averageColor(region, topRows.map(y => [x, y])),
+    bottom: averageColor(region, bottomRows.map(y => [x, y])),
+  }));
+
+  for (let y = inner.top; y < inner.bottom; y++) {
+    for (let x = inner.left; x < inner.right; x++) {
+      let fill = background.color;
+
+      if (background.mode === 'inpaint') {
+        const row = rowSides[y - inner.top];
+        const column = columnSides[x - inner.left];
+        const samples: Array<[Rgb | null | undefined, number]> = [
+          [row?.left, x - inner.left + 1],
+          [row?.right, inner.right - x],
+          [column?.top, y - inner.top + 1],
+          [column?.bottom, inner.bottom - y],
+        ];
+        const blended: Rgb = [0, 0, 0];
+        let totalWeight = 0;
+        for (const [sample, distance] of samples) {
+          if (!sample) continue;
+          const weight = 1 / distance;
+          blended[0] += sample[0] * weight;
+          blended[1] += sample[1] * weight;
+          blended[2] += sample[2] * weight;
+          totalWeight += weight;
+        }
+        if (totalWeight > 0) {
+          fill = [blended[0] / totalWeight, blended[1] / totalWeight, blended[2] / totalWeight];
+        }
+      }
+
+      const offset = (y * region.width + x) * 4;
+      region.data[offset] = fill[0];
+      region.data[offset + 1] = fill[1];
+      region.data[offset + 2] = fill[2];
+      region.data[offset + 3] = 255;
+    }
+  }
+}
+
+/** Dark text on light bubbles, light text on dark panels */
+export function pickTextColor(background: Rgb): string {
+  return luminance(...background) >= 128 ? '#111111' : '#f5f5f5';
+}
+
+// ==================== Text Fitting ====================
+
+function wrapLines(text: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+    for (const char of paragraph) {
+      const candidate = current + char;
+      if (current && measure(candidate) > maxWidth) {
+        lines.push(current.trimEnd());
+        current = char.trimStart();
+      } else {
+        current = candidate;
+      }
+    }
+    lines.push(current.trimEnd());
+  }
+  return lines;
+}
+
+/**
+ * Largest font size (in the measuring context's pixels) whose wrapped lines
+ * fit `width` × `height`; the smallest allowed size when none does.
+ */
+export function fitTypesetText(
+  text: string,
+  width: number,
+  height: number,
+  sizeRange: { min: number; max: number },
+  measure: (text: string, fontSize: number) => number
+): { fontSize: number; lines: string[] } {
+  const min = Math.max(1, Math.floor(sizeRange.min));
+  for (let fontSize = Math.floor(sizeRange.max); fontSize > min; fontSize--) {
+    const lines = wrapLines(text, width, line => measure(line, fontSize));
+    const fits =
+      lines.length * fontSize * LINE_HEIGHT <= height &&
+      lines.every(line => measure(line, fontSize) <= width);
+    if (fits) {
+      return { fontSize, lines };
+    }
+  }
+  return { fontSize: min, lines: wrapLines(text, width, line => measure(line, min)) };
+}
+
+// ==================== Canvas Patches ====================
+
+function getSourceSize(source: DrawableSource): { width: number; height: number } {
+  return source instanceof HTMLCanvasElement
+    ? { width: source.width, height: source.height }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+}
+
+/**
+ * Whether the page pixels can be read back. Cross-origin images without
+ * CORS taint the canvas and `getImageData` throws.
+ */
+export function isReadableSource(source: DrawableSource): boolean {
+  const { width, height } = getSourceSize(source);
+  if (width === 0 || height === 0) {
+    return false;
+  }
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return false;
+    }
+    ctx.drawImage(source, 0, 0, 1, 1, 0, 0, 1, 1);
+    ctx.getImageData(0, 0, 1, 1);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A readable copy of the page pixels: the element itself when untainted,
+ * otherwise the image refetched through the background from `sourceUrl`.
+ * Resolves to null when neither is possible.
+ */
+export async function loadReadableSource(
+  anchor: HTMLElement,
+  sourceUrl?: string
+): Promise<DrawableSource | null> {
+  if (
+    (anchor instanceof HTMLImageElement || anchor instanceof HTMLCanvasElement) &&
+    isReadableSource(anchor)
+  ) {
+    return anchor;
+  }
+  const url = sourceUrl ?? (anchor instanceof HTMLImageElement ? anchor.currentSrc || anchor.src : '');
+  if (!url) {
+    return null;
+  }
+  const image = await loadImageViaBackground(url);
+  return isReadableSource(image) ? image : null;
+}
+
+/**
+ * Erases one text area and typesets its translation on a canvas cut from
+ * the page at source resolution. The canvas covers the area plus the
+ * sampling ring and is positioned in percentages of the page, so it
+ * follows the page when the reader resizes it. Returns null when the
+ * source cannot be read.
+ */
+export function createTypesetPatch(
+  source: DrawableSource,
+  area: TextArea,
+  displayWidth: number,
+  style: TypesetTextStyle
+): HTMLCanvasElement | null {
+  const { width: sourceWidth, height: sourceHeight } = getSourceSize(source);
+  const boxLeft = Math.max(0, Math.floor(area.x * sourceWidth));
+  const boxTop = Math.max(0, Math.floor(area.y * sourceHeight));
+  const boxRight = Math.min(sourceWidth, Math.ceil((area.x + area.width) * sourceWidth));
+  const boxBottom = Math.min(sourceHeight, Math.ceil((area.y + area.height) * sourceHeight));
+  if (boxRight <= boxLeft || boxBottom <= boxTop) {
+    return null;
+  }
+
+  const left = Math.max(0, boxLeft - SAMPLE_RING);
+  const top = Math.max(0, boxTop - SAMPLE_RING);
+  const width = Math.min(sourceWidth, boxRight + SAMPLE_RING) - left;
+  const height = Math.min(sourceHeight, boxBottom + SAMPLE_RING) - top;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return null;
+  }
+
+  let pixels: ImageData;
+  try {
+    ctx.drawImage(source, left, top, width, height, 0, 0, width, height);
+    pixels = ctx.getImageData(0, 0, width, height);
+  } catch {
+    return null;
+  }
+
+  const inner: RegionBox = {
+    left: boxLeft - left,
+    top: boxTop - top,
+    right: boxRight - left,
+    bottom: boxBottom - top,
+  };
+  const background = analyzeBubbleBackground(pixels, inner);
+  eraseTextRegion(pixels, inner, background);
+  ctx.putImageData(pixels, 0, 0);
+
+  // 字号配置按显示尺寸给出，换算到原图像素
+  const scale = displayWidth > 0 ? sourceWidth / displayWidth : 1;
+  const padding = Math.max(1, Math.round(Math.min(inner.right - inner.left, inner.bottom - inner.top) * 0.06));
+  const textWidth = Math.max(1, inner.right - inner.left - padding * 2);
+  const textHeight = Math.max(1, inner.bottom - inner.top - padding * 2);
+  const fontWeight = style.fontWeight ?? 'normal';
+  const measure = (text: string, fontSize: number): number => {
+    ctx.font = `${fontWeight} ${fontSize}px ${style.fontFamily}`;
+    return ctx.measureText(text).width;
+  };
+  const { fontSize, lines } = fitTypesetText(
+    area.translatedText,
+    textWidth,
+    textHeight,
+    { min: style.minFontSize * scale, max: style.maxFontSize * scale },
+    measure
+  );
+
+  ctx.font = `${fontWeight} ${fontSize}px ${style.fontFamily}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = pickTextColor(background.color);
+  if (background.mode === 'inpaint') {
+    // 纹理背景上描一圈底色，保证可读
+    ctx.strokeStyle = `rgb(${background.color.map(Math.round).join(', ')})`;
+    ctx.lineWidth = Math.max(1, fontSize * 0.18);
+    ctx.lineJoin = 'round';
+  }
+
+  const centerX = (inner.left + inner.right) / 2;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const firstLineY = (inner.top + inner.bottom) / 2 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, index) => {
+    const y = firstLineY + index * lineHeight;
+    if (background.mode === 'inpaint') {
+      ctx.strokeText(line, centerX, y);
+    }
+    ctx.fillText(line, centerX, y);
+  });
+
+  Object.assign(canvas.style, {
+    left: `${(left / sourceWidth) * 100}%`,
+    top: `${(top / sourceHeight) * 100}%`,
+    width: `${(width / sourceWidth) * 100}%`,
+    height: `${(height / sourceHeight) * 100}%`,
+  });
+  return canvas;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  breakIntoColumns,
+  computeVerticalLayout,
+  renderVerticalText,
+  tokenizeVerticalText,
+} from './vertical-layout';
+
+describe('vertical-layout', () => {
+  it('sets short digit runs and paired marks upright in one cell', () => {
+    expect(tokenizeVerticalText('第12話!?')).toEqual([
+      { text: '第', kind: 'text', advance: 1 },
+      { text: '12', kind: 'tcy', advance: 1 },
+      { text: '話', kind: 'text', advance: 1 },
+      { text: '!?', kind: 'tcy', advance: 1 },
+    ]);
+    expect(tokenizeVerticalText('２０２４')).toEqual([
+      { text: '2024', kind: 'text', advance: 2.2 },
+    ]);
+  });
+
+  it('replaces half-width punctuation with forms that have vertical glyphs', () => {
+    const text = tokenizeVerticalText('(嘘)~?...')
+      .map(token => token.text)
+      .join('');
+
+    expect(text).toBe('（嘘）〜？…');
+  });
+
+  it('fills columns up to their capacity and breaks on newlines', () => {
+    const columns = breakIntoColumns(tokenizeVerticalText('あいうえお\nか'), 3);
+
+    expect(columns.map(column => column.map(token => token.text).join(''))).toEqual([
+      'あいう',
+      'えお',
+      'か',
+    ]);
+  });
+
+  it('shrinks the font until the columns fit the box', () => {
+    const layout = computeVerticalLayout('これは長い台詞です', {
+      padding: 4,
+      minFontSize: 10,
+      maxFontSize: 24,
+      maxWidth: 80,
+      maxHeight: 120,
+    });
+
+    expect(layout.fontSize).toBeLessThan(24);
+    expect(layout.width).toBeLessThanOrEqual(80);
+    expect(layout.height).toBeLessThanOrEqual(120);
+    expect(layout.columns.join('')).toBe('これは長い台詞です');
+  });
+
+  it('renders tate-chu-yoko cells as spans', () => {
+    const element = document.createElement('div');
+    renderVerticalText(element, '残り3日', 'tcy');
+
+    expect(element.innerHTML).toBe('残り<span class="tcy">3</span>日');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Vertical (tategaki) text layout for overlays rendered with
+ * `writing-mode: vertical-rl`:
+ * - Column-based fitting: text flows top to bottom, columns right to left
+ * - Half-width punctuation is replaced by full-width forms, whose vertical
+ *   glyphs are rotated / repositioned by CJK fonts
+ * - Tate-chu-yoko: short digit runs and `!!` / `!?` sit upright in one cell
+ */
+
+export interface VerticalToken {
+  text: string;
+  /** `tcy` tokens are set horizontally inside a single cell */
+  kind: 'text' | 'tcy' | 'break';
+  /** Advance along the column, in em */
+  advance: number;
+}
+
+export interface VerticalLayoutLimits {
+  padding: number;
+  minFontSize: number;
+  maxFontSize: number;
+  maxWidth: number;
+  maxHeight: number;
+}
+
+export interface VerticalLayout {
+  fontSize: number;
+  columns: string[];
+  width: number;
+  height: number;
+}
+
+/** Target languages whose manga are lettered vertically */
+export const VERTICAL_TARGET_LANGUAGES: ReadonlySet<string> = new Set(['ja', 'zh-TW']);
+
+// 竖排时需要换成全角的半角标点（全角字形由字体提供竖排变体）
+const FULL_WIDTH_PUNCTUATION: Record<string, string> = {
+  '!': '！',
+  '?': '？',
+  '(': '（',
+  ')': '）',
+  '[': '「',
+  ']': '」',
+  '~': '〜',
+  ':': '：',
+  ';': '；',
+};
+
+// 纵中横：两位以内的数字、成对的感叹/问号
+const TCY_MAX_DIGITS = 2;
+const TOKEN_PATTERN = /\r?\n|\.{3}|[!?！？]{2}|[0-9０-９]+|[A-Za-z]|\s|./gsu;
+const COLUMN_LINE_HEIGHT = 1.3;
+// 横躺的拉丁字母与数字约占半个字宽
+const SIDEWAYS_ADVANCE = 0.55;
+
+function toHalfWidthDigits(text: string): string {
+  return text.replace(/[０-９]/g, digit => String.fromCharCode(digit.charCodeAt(0) - 0xfee0));
+}
+
+/**
+ * Splits text into column cells. Digit runs longer than two stay sideways,
+ * as in printed manga.
+ */
+export function tokenizeVerticalText(text: string): VerticalToken[] {
+  const tokens: VerticalToken[] = [];
+  for (const [match] of text.matchAll(TOKEN_PATTERN)) {
+    if (match === '\n' || match === '\r\n') {
+      tokens.push({ text: '\n', kind: 'break', advance: 0 });
+    } else if (match === '...') {
+      tokens.push({ text: '…', kind: 'text', advance: 1 });
+    } else if (/^[!?！？]{2}$/.test(match)) {
+      tokens.push({
+        text: match.replace(/！/g, '!').replace(/？/g, '?'),
+        kind: 'tcy',
+        advance: 1,
+      });
+    } else if (/^[0-9０-９]+$/.test(match)) {
+      const digits = toHalfWidthDigits(match);
+      if (digits.length <= TCY_MAX_DIGITS) {
+        tokens.push({ text: digits, kind: 'tcy', advance: 1 });
+      } else {
+        tokens.push({ text: digits, kind: 'text', advance: digits.length * SIDEWAYS_ADVANCE });
+      }
+    } else if (/^[A-Za-z]$/.test(match)) {
+      tokens.push({ text: match, kind: 'text', advance: SIDEWAYS_ADVANCE });
+    } else if (/^\s$/.test(match)) {
+      tokens.push({ text: match, kind: 'text', advance: 0.5 });
+    } else {
+      tokens.push({ text: FULL_WIDTH_PUNCTUATION[match] ?? match, kind: 'text', advance: 1 });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Greedy column filling: a column holds `capacity` em; explicit line breaks
+ * start a new column.
+ */
+export function breakIntoColumns(tokens: VerticalToken[], capacity: number): VerticalToken[][] {
+  const columns: VerticalToken[][] = [[]];
+  let used = 0;
+  for (const token of tokens) {
+    const current = columns[columns.length - 1] ?? [];
+    if (token.kind === 'break') {
+      columns.push([]);
+      used = 0;
+      continue;
+    }
+    if (current.length > 0 && used + token.advance > capacity) {
+      columns.push([token]);
+      used = token.advance;
+    } else {
+      current.push(token);
+      used += token.advance;
+    }
+  }
+  return columns;
+}
+
+function columnAdvance(column: VerticalToken[]): number {
+  return column.reduce((sum, token) => sum + token.advance, 0);
+}
+
+/**
+ * Largest font size whose columns fit the limits; the minimum size when
+ * none does. Width grows with the number of columns, height with the
+ * longest column.
+ */
+export function computeVerticalLayout(text: string, limits: VerticalLayoutLimits): VerticalLayout {
+  const tokens = tokenizeVerticalText(text.trim());
+  const innerHeight = Math.max(limits.maxHeight - limits.padding * 2, 1);
+
+  const measure = (fontSize: number) => {
+    const columns = breakIntoColumns(tokens, innerHeight / fontSize);
+    const longest = Math.max(...columns.map(columnAdvance), 1);
+    return {
+      fontSize,
+      columns: columns.map(column => column.map(token => token.text).join('')),
+      width: columns.length * fontSize * COLUMN_LINE_HEIGHT + limits.padding * 2,
+      height: longest * fontSize + limits.padding * 2,
+    };
+  };
+
+  for (let fontSize = limits.maxFontSize; fontSize > limits.minFontSize; fontSize--) {
+    const layout = measure(fontSize);
+    if (layout.width <= limits.maxWidth && layout.height <= limits.maxHeight) {
+      return layout;
+    }
+  }
+  const fallback = measure(limits.minFontSize);
+  return {
+    ...fallback,
+    width: Math.min(fallback.width, limits.maxWidth),
+    height: Math.min(fallback.height, limits.maxHeight),
+  };
+}
+
+/**
+ * Fills `element` with the vertical text, wrapping tate-chu-yoko cells in
+ * spans styled with `text-combine-upright`.
+ */
+export function renderVerticalText(element: HTMLElement, text: string, tcyClass: string): void {
+  element.textContent = '';
+  let run = '';
+  const flush = () => {
+    if (run) {
+      element.append(document.createTextNode(run));
+      run = '';
+    }
+  };
+  for (const token of tokenizeVerticalText(text)) {
+    if (token.kind === 'tcy') {
+      flush();
+      const cell = document.createElement('span');
+      cell.className = tcyClass;
+      cell.textContent = token.text;
+      element.append(cell);
+    } else {
+      run += token.text;
+    }
+  }
+  flush();
+}
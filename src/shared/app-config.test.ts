@@ -2,6 +2,12 @@ import { describe, expect, it } from 'vitest';
 
 import {
   DEFAULT_OLLAMA_CONFIG,
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  DEFAULT_SIDECAR_SERVER_CONFIG,
+  isProviderSettingsComplete,
+  MAX_PERCEPTUAL_HASH_THRESHOLD,
+  normalizeCustomSiteAdapters,
+  normalizePerceptualHashThreshold,
   normalizeRuntimeAppConfig,
 } from './app-config';
 
@@ -26,6 +32,27 @@ describe('normalizeRuntimeAppConfig', () => {
     });
   });
 
+  it('maps the legacy claude provider onto native anthropic settings', () => {
+    const normalized = normalizeRuntimeAppConfig({
+      provider: 'claude',
+      providers: {
+        claude: {
+          apiKey: 'sk-ant-legacy',
+          baseUrl: 'https://api.anthropic.com/v1',
+          model: 'claude-3-5-sonnet-latest',
+        },
+      },
+    });
+
+    expect(normalized.provider).toBe('anthropic');
+    expect(normalized.anthropic).toEqual({
+      apiKey: 'sk-ant-legacy',
+      baseUrl: 'https://api.anthropic.com/v1',
+      model: 'claude-3-5-sonnet-latest',
+    });
+    expect(normalized.openaiCompatible).toEqual(DEFAULT_OPENAI_COMPATIBLE_CONFIG);
+  });
+
   it('keeps explicit openai-compatible settings when already migrated', () => {
     const normalized = normalizeRuntimeAppConfig({
       provider: 'openai-compatible',
@@ -70,4 +97,84 @@ describe('normalizeRuntimeAppConfig', () => {
     });
     expect(normalized.ollama.apiKey).toBe(DEFAULT_OLLAMA_CONFIG.apiKey);
   });
+
+  it('keeps the sidecar-server selection and its bearer token', () => {
+    const normalized = normalizeRuntimeAppConfig({
+      provider: 'sidecar-server',
+      providers: {
+        'sidecar-server': {
+          apiKey: 'server-token',
+          baseUrl: 'http://192.168.1.20:8000',
+          model: '',
+        },
+      },
+    });
+
+    expect(normalized.provider).toBe('sidecar-server');
+    expect(normalized.sidecarServer).toEqual({
+      apiKey: 'server-token',
+      baseUrl: 'http://192.168.1.20:8000',
+      model: DEFAULT_SIDECAR_SERVER_CONFIG.model,
+    });
+    expect(
+      isProviderSettingsComplete('sidecar-server', normalized.sidecarServer)
+    ).toBe(true);
+  });
+
+  it('drops unknown, duplicate and active entries from the fallback chain', () => {
+    const normalized = normalizeRuntimeAppConfig({
+      provider: 'lm-studio',
+      fallbackProviders: [
+        'lm-studio',
+        'openai-compatible',
+        'claude',
+        'gemini',
+        'openai-compatible',
+      ],
+    });
+
+    expect(normalized.fallbackProviders).toEqual(['openai-compatible', 'gemini']);
+    expect(normalizeRuntimeAppConfig({}).fallbackProviders).toEqual([]);
+  });
+});
+
+describe('normalizePerceptualHashThreshold', () => {
+  it('rounds and clamps the Hamming distance threshold', () => {
+    expect(normalizePerceptualHashThreshold(4.6)).toBe(5);
+    expect(normalizePerceptualHashThreshold(-3)).toBe(0);
+    expect(normalizePerceptualHashThreshold(64)).toBe(MAX_PERCEPTUAL_HASH_THRESHOLD);
+    expect(normalizePerceptualHashThreshold('8')).toBe(5);
+  });
+});
+
+describe('normalizeCustomSiteAdapters', () => {
+  it('trims fields and drops incomplete or duplicate definitions', () => {
+    const normalized = normalizeCustomSiteAdapters([
+      {
+        id: ' reader ',
+        urlPattern: ' ^https://example\\.com/read/ ',
+        pageImageSelector: '#pages img',
+        lazySrcAttributes: ['data-src', '', 3],
+        enabled: false,
+      },
+      { id: 'reader', urlPattern: 'x', pageImageSelector: 'img' },
+      { id: 'no-selector', urlPattern: 'x' },
+      'invalid',
+    ]);
+
+    expect(normalized).toEqual([
+      {
+        id: 'reader',
+        name: 'reader',
+        enabled: false,
+        urlPattern: '^https://example\\.com/read/',
+        chapterIdPattern: '',
+        pageImageSelector: '#pages img',
+        lazySrcAttributes: ['data-src'],
+        excludeSelectors: [],
+        nextChapterSelector: '',
+      },
+    ]);
+    expect(normalizeCustomSiteAdapters(undefined)).toEqual([]);
+  });
 });
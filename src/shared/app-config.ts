@@ -1,3 +1,4 @@
+import { isProviderType, type ProviderType } from '@/providers/base';
 import {
   DEFAULT_TRANSLATION_STYLE_PRESET,
   type TranslationStylePreset,
@@ -20,29 +21,46 @@ export interface ProviderSettings {
  * has actually set things up".
  *
  * Rules:
- * - openai-compatible: needs apiKey, baseUrl, and model.
+ * - openai-compatible / anthropic / gemini: needs apiKey, baseUrl, and model.
  * - ollama / lm-studio: needs baseUrl and model.
+ * - sidecar-server: needs baseUrl only (the bearer token is optional and
+ *   the sidecar picks its own models).
  */
 export function isProviderSettingsComplete(
-  provider: 'openai-compatible' | 'ollama' | 'lm-studio',
+  provider: ProviderType,
   settings: ProviderSettings
 ): boolean {
-  if (provider === 'openai-compatible') {
+  if (
+    provider === 'openai-compatible' ||
+    provider === 'anthropic' ||
+    provider === 'gemini'
+  ) {
     return Boolean(
       settings.apiKey?.trim() &&
         settings.baseUrl?.trim() &&
         settings.model?.trim()
     );
   }
+  if (provider === 'sidecar-server') {
+    return Boolean(settings.baseUrl?.trim());
+  }
   return Boolean(settings.baseUrl?.trim() && settings.model?.trim());
 }
 
 export interface RuntimeAppConfig {
   enabled: boolean;
-  provider: 'openai-compatible' | 'ollama' | 'lm-studio';
+  provider: ProviderType;
   openaiCompatible: ProviderSettings;
+  anthropic: ProviderSettings;
+  gemini: ProviderSettings;
   ollama: ProviderSettings;
   lmStudio: ProviderSettings;
+  sidecarServer: ProviderSettings;
+  /**
+   * Providers tried in order when the active provider fails with a
+   * retryable / connection error. Never contains `provider` itself.
+   */
+  fallbackProviders: ProviderType[];
   targetLanguage: string;
   translationStylePreset: TranslationStylePreset;
   autoContinueEnabled: boolean;
@@ -54,6 +72,18 @@ export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: ProviderSettings = {
   model: 'gpt-4o',
 };
 
+export const DEFAULT_ANTHROPIC_CONFIG: ProviderSettings = {
+  apiKey: '',
+  baseUrl: 'https://api.anthropic.com/v1',
+  model: 'claude-sonnet-4-5',
+};
+
+export const DEFAULT_GEMINI_CONFIG: ProviderSettings = {
+  apiKey: '',
+  baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  model: 'gemini-2.5-flash',
+};
+
 export const DEFAULT_OLLAMA_CONFIG: ProviderSettings = {
   apiKey: '',
   baseUrl: 'http://localhost:11434',
@@ -66,12 +96,89 @@ export const DEFAULT_LM_STUDIO_CONFIG: ProviderSettings = {
   model: '',
 };
 
+/**
+ * `apiKey` carries the sidecar's optional SERVER_AUTH_TOKEN; `model` is
+ * unused because the sidecar configures its own OCR / MT / VLM models.
+ */
+export const DEFAULT_SIDECAR_SERVER_CONFIG: ProviderSettings = {
+  apiKey: '',
+  baseUrl: 'http://127.0.0.1:8000',
+  model: '',
+};
+
+/**
+ * 缓存命中方式：
+ * - exact: 图片字节完全一致才命中
+ * - perceptual: 精确未命中时，按感知哈希（dHash）的汉明距离匹配重新编码/缩放过的同一张图
+ */
+export type CacheMatchMode = 'exact' | 'perceptual';
+
+/**
+ * 译文呈现方式：
+ * - strong-overlay-compat / anchors-only: 在原图上叠加译文框
+ * - typeset: 擦除原文并在 canvas 上排版译文，效果接近汉化组嵌字
+ */
+export type RenderMode = 'strong-overlay-compat' | 'anchors-only' | 'typeset';
+
+/**
+ * 阅读方式：
+ * - overlay: 译文只以覆盖层显示在原图上
+ * - panel: 另在页面右侧停靠译文对照面板，按阅读顺序列出原文与译文
+ */
+export type ReadingMode = 'overlay' | 'panel';
+
+/** dHash 为 64 位，超过该距离的匹配很可能是另一页 */
+export const MAX_PERCEPTUAL_HASH_THRESHOLD = 16;
+
+/** Upper bound for pages pre-translated per chapter */
+export const MAX_PREFETCH_PAGE_BUDGET = 50;
+
+/**
+ * 阅读第 N 章时预取并预翻译第 N+1 章，打开下一章时直接命中缓存。
+ * 预算按实际调用 Provider 的页数与 Token 计，缓存命中不占预算。
+ */
+export interface NextChapterPrefetchConfig {
+  enabled: boolean;
+  /** 每章最多预翻译的页数 */
+  pageBudget: number;
+  /** 每章最多消耗的 Token，0 表示不限 */
+  tokenBudget: number;
+  /** 适配器未提供下一章链接时使用的选择器 */
+  linkSelector: string;
+}
+
+/**
+ * 用户在设置页定义的站点适配器，由 content script 中的通用 SiteAdapter 解释执行。
+ * 正则均以字符串保存（RegExp 无法序列化）。
+ */
+export interface CustomSiteAdapterDefinition {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** 匹配章节页完整 URL 的正则 */
+  urlPattern: string;
+  /** 从 URL 提取章节 ID 的正则，取第一个捕获组；为空时使用 pathname */
+  chapterIdPattern: string;
+  /** 章节图片的 CSS 选择器，按文档顺序即页码顺序 */
+  pageImageSelector: string;
+  /** 懒加载真实地址所在的属性，按顺序尝试，最后退回 src */
+  lazySrcAttributes: string[];
+  /** 命中这些选择器（或位于其内部）的图片不翻译 */
+  excludeSelectors: string[];
+  /** 下一章链接的 CSS 选择器 */
+  nextChapterSelector: string;
+}
+
 export const DEFAULT_RUNTIME_APP_CONFIG: RuntimeAppConfig = {
   enabled: true,
   provider: 'openai-compatible',
   openaiCompatible: DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  anthropic: DEFAULT_ANTHROPIC_CONFIG,
+  gemini: DEFAULT_GEMINI_CONFIG,
   ollama: DEFAULT_OLLAMA_CONFIG,
   lmStudio: DEFAULT_LM_STUDIO_CONFIG,
+  sidecarServer: DEFAULT_SIDECAR_SERVER_CONFIG,
+  fallbackProviders: [],
   targetLanguage: 'zh-CN',
   translationStylePreset: DEFAULT_TRANSLATION_STYLE_PRESET,
   autoContinueEnabled: true,
@@ -83,23 +190,38 @@ export const DEFAULT_RUNTIME_APP_CONFIG: RuntimeAppConfig = {
  */
 export const DEFAULT_CONFIG: Readonly<{
   enabled: boolean;
-  provider: 'openai-compatible' | 'ollama' | 'lm-studio';
+  provider: ProviderType;
   openaiCompatible: ProviderSettings;
+  anthropic: ProviderSettings;
+  gemini: ProviderSettings;
   ollama: ProviderSettings;
   lmStudio: ProviderSettings;
+  sidecarServer: ProviderSettings;
   providers: {
     'openai-compatible': ProviderSettings;
+    anthropic: ProviderSettings;
+    gemini: ProviderSettings;
     ollama: ProviderSettings;
     'lm-studio': ProviderSettings;
+    'sidecar-server': ProviderSettings;
   };
+  fallbackProviders: readonly ProviderType[];
   targetLanguage: string;
   translationStylePreset: TranslationStylePreset;
   autoContinueEnabled: boolean;
   maxImageSize: number;
   parallelLimit: number;
   cacheEnabled: boolean;
-  readingMode: 'panel';
-  renderMode: 'strong-overlay-compat' | 'anchors-only';
+  cacheMatchMode: CacheMatchMode;
+  perceptualHashThreshold: number;
+  customSiteAdapters: readonly CustomSiteAdapterDefinition[];
+  nextChapterPrefetch: Readonly<NextChapterPrefetchConfig>;
+  readingMode: ReadingMode;
+  renderMode: RenderMode;
+  /** 按原文的颜色、粗细为每个文字区域单独设置覆盖层样式 */
+  fontStyleMatching: boolean;
+  /** 目标语言为日文 / 繁体中文时，竖长的文字区域自动竖排 */
+  autoVerticalText: boolean;
   overlayStyle: {
     backgroundColor: string;
     textColor: string;
@@ -112,15 +234,29 @@ export const DEFAULT_CONFIG: Readonly<{
   ...DEFAULT_RUNTIME_APP_CONFIG,
   providers: {
     'openai-compatible': { ...DEFAULT_OPENAI_COMPATIBLE_CONFIG },
+    anthropic: { ...DEFAULT_ANTHROPIC_CONFIG },
+    gemini: { ...DEFAULT_GEMINI_CONFIG },
     ollama: { ...DEFAULT_OLLAMA_CONFIG },
     'lm-studio': { ...DEFAULT_LM_STUDIO_CONFIG },
+    'sidecar-server': { ...DEFAULT_SIDECAR_SERVER_CONFIG },
   },
   // UI/behavior fields (from background.ts DEFAULT_CONFIG)
   maxImageSize: 1024,
   parallelLimit: 3,
   cacheEnabled: true,
-  readingMode: 'panel',
+  cacheMatchMode: 'exact',
+  perceptualHashThreshold: 5,
+  customSiteAdapters: [],
+  nextChapterPrefetch: {
+    enabled: false,
+    pageBudget: 10,
+    tokenBudget: 60000,
+    linkSelector: 'a[rel="next"]',
+  },
+  readingMode: 'overlay',
   renderMode: 'strong-overlay-compat',
+  fontStyleMatching: false,
+  autoVerticalText: true,
   // UI fields (from config-v2.ts overlayStyle)
   overlayStyle: {
     backgroundColor: 'rgba(240, 240, 235, 0.94)',
@@ -141,10 +277,15 @@ const LEGACY_OPENAI_COMPATIBLE_PROVIDER_KEYS = [
   'openai',
   'siliconflow',
   'dashscope',
-  'claude',
   'deepseek',
 ] as const;
 
+/**
+ * Pre-v0.3.2 builds stored Anthropic settings under `claude`. They used to be
+ * folded into openai-compatible; they now seed the native Anthropic provider.
+ */
+const LEGACY_ANTHROPIC_PROVIDER_KEYS = ['anthropic', 'claude'] as const;
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
@@ -160,6 +301,111 @@ function isTranslationStylePreset(
   );
 }
 
+/**
+ * Drops unknown entries, duplicates and the active provider so the chain can
+ * be walked without further checks.
+ */
+export function normalizeFallbackProviders(
+  value: unknown,
+  activeProvider: ProviderType
+): ProviderType[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.reduce<ProviderType[]>((chain, candidate) => {
+    if (
+      isProviderType(candidate) &&
+      candidate !== activeProvider &&
+      !chain.includes(candidate)
+    ) {
+      chain.push(candidate);
+    }
+    return chain;
+  }, []);
+}
+
+export function normalizePerceptualHashThreshold(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return DEFAULT_CONFIG.perceptualHashThreshold;
+  }
+  return Math.min(MAX_PERCEPTUAL_HASH_THRESHOLD, Math.max(0, Math.round(value)));
+}
+
+function normalizeBudget(value: unknown, fallback: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(0, Math.round(value)));
+}
+
+export function normalizeNextChapterPrefetch(value: unknown): NextChapterPrefetchConfig {
+  const defaults = DEFAULT_CONFIG.nextChapterPrefetch;
+  if (!isRecord(value)) {
+    return { ...defaults };
+  }
+
+  const linkSelector = value['linkSelector'];
+  return {
+    enabled: value['enabled'] === true,
+    pageBudget: normalizeBudget(value['pageBudget'], defaults.pageBudget, MAX_PREFETCH_PAGE_BUDGET),
+    tokenBudget: normalizeBudget(value['tokenBudget'], defaults.tokenBudget, Number.MAX_SAFE_INTEGER),
+    // 不在此处 trim：设置页逐字输入，带空格的后代选择器会被截断
+    linkSelector: typeof linkSelector === 'string' ? linkSelector : defaults.linkSelector,
+  };
+}
+
+function normalizeStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function normalizeTrimmedString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Drops definitions without an id, URL pattern or page selector, and
+ * duplicate ids. Regex validity is checked where the adapter is built.
+ */
+export function normalizeCustomSiteAdapters(
+  value: unknown
+): CustomSiteAdapterDefinition[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return value.reduce<CustomSiteAdapterDefinition[]>((definitions, candidate) => {
+    if (!isRecord(candidate)) {
+      return definitions;
+    }
+    const id = normalizeTrimmedString(candidate['id']);
+    const urlPattern = normalizeTrimmedString(candidate['urlPattern']);
+    const pageImageSelector = normalizeTrimmedString(candidate['pageImageSelector']);
+    if (!id || !urlPattern || !pageImageSelector || seen.has(id)) {
+      return definitions;
+    }
+    seen.add(id);
+    definitions.push({
+      id,
+      name: normalizeTrimmedString(candidate['name']) || id,
+      enabled: candidate['enabled'] !== false,
+      urlPattern,
+      chapterIdPattern: normalizeTrimmedString(candidate['chapterIdPattern']),
+      pageImageSelector,
+      lazySrcAttributes: normalizeStringList(candidate['lazySrcAttributes']),
+      excludeSelectors: normalizeStringList(candidate['excludeSelectors']),
+      nextChapterSelector: normalizeTrimmedString(candidate['nextChapterSelector']),
+    });
+    return definitions;
+  }, []);
+}
+
 function getRecordEntry(
   container: Record<string, unknown>,
   key: string
@@ -201,17 +447,23 @@ export function normalizeRuntimeAppConfig(value: unknown): RuntimeAppConfig {
 
   const legacyProvider =
     typeof state.provider === 'string' ? state.provider : undefined;
-  const provider =
+  const provider: ProviderType =
     legacyProvider === 'ollama'
       ? 'ollama'
       : legacyProvider === 'lm-studio'
         ? 'lm-studio'
-        : 'openai-compatible';
+        : legacyProvider === 'sidecar-server'
+          ? 'sidecar-server'
+          : LEGACY_ANTHROPIC_PROVIDER_KEYS.includes(
+                legacyProvider as (typeof LEGACY_ANTHROPIC_PROVIDER_KEYS)[number]
+              )
+            ? 'anthropic'
+            : legacyProvider === 'gemini'
+              ? 'gemini'
+              : 'openai-compatible';
 
   const selectedLegacyProvider =
     legacyProvider &&
-    legacyProvider !== 'ollama' &&
-    legacyProvider !== 'lm-studio' &&
     LEGACY_OPENAI_COMPATIBLE_PROVIDER_KEYS.includes(
       legacyProvider as (typeof LEGACY_OPENAI_COMPATIBLE_PROVIDER_KEYS)[number]
     )
@@ -239,6 +491,20 @@ export function normalizeRuntimeAppConfig(value: unknown): RuntimeAppConfig {
       .map(candidate => getRecordEntry(providersRecord, candidate))
       .find((candidate): candidate is Record<string, unknown> => candidate !== null);
 
+  const anthropicSource =
+    (isRecord(state.anthropic)
+      ? (state.anthropic as Partial<ProviderSettings>)
+      : null) ??
+    LEGACY_ANTHROPIC_PROVIDER_KEYS
+      .map(candidate => getRecordEntry(providersRecord, candidate))
+      .find((candidate): candidate is Record<string, unknown> => candidate !== null);
+
+  const geminiSource =
+    (isRecord(state.gemini)
+      ? (state.gemini as Partial<ProviderSettings>)
+      : null) ??
+    getRecordEntry(providersRecord, 'gemini');
+
   const ollamaSource =
     (isRecord(state.ollama)
       ? (state.ollama as Partial<ProviderSettings>)
@@ -251,6 +517,12 @@ export function normalizeRuntimeAppConfig(value: unknown): RuntimeAppConfig {
       : null) ??
     getRecordEntry(providersRecord, 'lm-studio');
 
+  const sidecarServerSource =
+    (isRecord(state.sidecarServer)
+      ? (state.sidecarServer as Partial<ProviderSettings>)
+      : null) ??
+    getRecordEntry(providersRecord, 'sidecar-server');
+
   return {
     enabled:
       typeof state.enabled === 'boolean'
@@ -262,12 +534,29 @@ export function normalizeRuntimeAppConfig(value: unknown): RuntimeAppConfig {
       DEFAULT_OPENAI_COMPATIBLE_CONFIG,
       { allowApiKey: true }
     ),
+    anthropic: normalizeProviderSettings(
+      anthropicSource,
+      DEFAULT_ANTHROPIC_CONFIG,
+      { allowApiKey: true }
+    ),
+    gemini: normalizeProviderSettings(geminiSource, DEFAULT_GEMINI_CONFIG, {
+      allowApiKey: true,
+    }),
     ollama: normalizeProviderSettings(ollamaSource, DEFAULT_OLLAMA_CONFIG, {
       allowApiKey: false,
     }),
     lmStudio: normalizeProviderSettings(lmStudioSource, DEFAULT_LM_STUDIO_CONFIG, {
       allowApiKey: false,
     }),
+    sidecarServer: normalizeProviderSettings(
+      sidecarServerSource,
+      DEFAULT_SIDECAR_SERVER_CONFIG,
+      { allowApiKey: true }
+    ),
+    fallbackProviders: normalizeFallbackProviders(
+      state.fallbackProviders,
+      provider
+    ),
     targetLanguage:
       typeof state.targetLanguage === 'string'
         ? state.targetLanguage
@@ -1,7 +1,11 @@
 import type { TextArea } from '@/providers/base';
 import type { TranslationStylePreset } from '@/utils/translation-style';
 
-export type SupportedSite = 'manhwaread';
+/**
+ * 站点适配器 id。内置 `manhwaread`、`mangadex` 与 `webtoon`，其余由
+ * `registerSiteAdapter` 注册，因此这里不收窄为字面量联合。
+ */
+export type SupportedSite = string;
 
 export interface PageSupportState {
   supported: boolean;
@@ -19,16 +23,21 @@ export interface TranslationDiagnostics {
 
 export type RequestedExecutionPath =
   | 'plugin-direct'
-  | 'ollama-direct';
+  | 'ollama-direct'
+  | 'sidecar-server';
 
 /**
  * Derive the execution path based on provider type.
- * Local providers (ollama, lm-studio) use direct execution,
- * while cloud providers use plugin-mediated execution.
+ * Local providers (ollama, lm-studio) use direct execution, the sidecar
+ * server runs its own OCR-first pipeline, and cloud providers use
+ * plugin-mediated execution.
  */
 export function deriveRequestedPath(
   provider: string
 ): RequestedExecutionPath {
+  if (provider === 'sidecar-server') {
+    return 'sidecar-server';
+  }
   return (provider === 'ollama' || provider === 'lm-studio')
     ? 'ollama-direct'
     : 'plugin-direct';
@@ -61,6 +70,8 @@ export interface JobStatusPayload {
   priorityClass: JobPriorityClass;
   requestedPath: RequestedExecutionPath;
   actualCapabilityUsed?: RequestedExecutionPath;
+  /** Provider that served (or last attempted) the job after fallback */
+  actualProvider?: string;
   scope: JobScope;
   state:
     | 'queued'
@@ -72,10 +83,23 @@ export interface JobStatusPayload {
   fallbackReason?: string;
   diagnostics?: (TranslationDiagnostics & {
     retryCount?: number;
-    cacheStatus?: 'hit' | 'miss' | 'bypass';
+    /** `similar`: served from a record matched by perceptual hash */
+    cacheStatus?: 'hit' | 'similar' | 'miss' | 'bypass';
   }) | null;
 }
 
+/**
+ * Identifies the background cache record a translation was stored under, so
+ * the content script can write in-place corrections back to it.
+ */
+export interface TranslationCacheKeyPayload {
+  imageHash: string;
+  provider: string;
+  model?: string;
+  targetLanguage: string;
+  translationStylePreset: TranslationStylePreset;
+}
+
 export interface TranslateImageJobRequest {
   type: 'JOB_TRANSLATE_IMAGE';
   jobId: string;
@@ -85,15 +109,22 @@ export interface TranslateImageJobRequest {
   requestedPath: RequestedExecutionPath;
   imageBase64: string;
   mimeType: string;
+  /** Content hash of `imageBase64`; the background computes it when absent */
+  imageHash?: string;
   imageUrl?: string;
   sourcePageUrl?: string;
+  /** `ChapterBootstrap.chapterId`, stored with the cache record for pack export */
+  chapterId?: string;
   targetLanguage: string;
   translationStylePreset: TranslationStylePreset;
   provider: string;
   apiKey?: string;
   baseUrl?: string;
   model?: string;
+  /** Skips cached machine translations; user-corrected ones are still served */
   forceRefresh?: boolean;
+  /** With `forceRefresh`: re-translate even over the user's corrections */
+  discardCorrections?: boolean;
 }
 
 export interface TranslateImageJobResponse {
@@ -102,6 +133,10 @@ export interface TranslateImageJobResponse {
   textAreas: TextArea[];
   pipeline?: 'ocr-first' | 'region-fallback' | 'full-image-fallback';
   cached?: boolean;
+  /** The areas are the user's corrections rather than a machine translation */
+  corrected?: boolean;
+  /** Cache record of this image; absent when the cache is disabled */
+  cacheKey?: TranslationCacheKeyPayload;
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -110,6 +145,15 @@ export interface TranslateImageJobResponse {
   error?: string;
 }
 
+/**
+ * background → content：service worker 重启时这些任务随旧 worker 中断，
+ * 状态已记为失败（deferred-failure）。
+ */
+export interface JobInterruptedMessage {
+  type: 'JOB_INTERRUPTED';
+  jobIds: string[];
+}
+
 export interface QueryJobStatusRequest {
   type: 'JOB_QUERY_STATUS';
   jobId: string;
@@ -121,12 +165,154 @@ export interface QueryJobStatusResponse {
   error?: string;
 }
 
+/**
+ * 取消排队中或正在执行的任务；`jobId` 与 `pageKey` 至少提供一个，
+ * 按 `pageKey` 取消会命中该页面的全部任务。
+ */
+export interface CancelJobRequest {
+  type: 'JOB_CANCEL';
+  jobId?: string;
+  pageKey?: string;
+}
+
+export interface CancelJobResponse {
+  success: boolean;
+  cancelledJobIds: string[];
+  error?: string;
+}
+
+/**
+ * content → background：滚动后按页面与视口的距离调整排队任务的优先级。
+ * 只影响仍在排队的任务，运行中或已结束的任务保持不变。
+ */
+export interface ReprioritizeJobsRequest {
+  type: 'JOB_REPRIORITIZE';
+  jobs: Array<{ jobId: string; priorityClass: JobPriorityClass }>;
+}
+
+export interface ReprioritizeJobsResponse {
+  success: boolean;
+  updatedJobIds: string[];
+  error?: string;
+}
+
+/** 页面内翻译状态，由 content script 维护并同步给 popup 与 HUD */
+export type ContentState =
+  | { status: 'idle' }
+  | { status: 'scanning' }
+  | { status: 'translating'; current: number; total: number; currentImageIndex?: number }
+  | { status: 'complete'; count: number; failedCount?: number; cachedCount?: number }
+  | { status: 'error'; message: string; suggestion?: string }
+  | { status: 'onboarding' };
+
+/**
+ * popup → background：把消息发给标签页内每个注入了 content script 的
+ * frame（阅读器可能嵌在 iframe 里），`GET_STATE` 的结果按 frame 聚合。
+ */
+export interface TabFramesDispatchRequest {
+  type: 'TAB_FRAMES_DISPATCH';
+  tabId: number;
+  message: { type: string };
+}
+
+export interface TabFramesDispatchResponse {
+  success: boolean;
+  /** Aggregated state of every frame that answered */
+  state?: ContentState;
+  /** Frames that received the message */
+  frameIds: number[];
+  error?: string;
+}
+
+export type ContextMenuAction =
+  | 'translate-image'
+  | 'retranslate-image'
+  | 'discard-corrections'
+  | 'remove-translation';
+
+/**
+ * background → 被右键的 frame：对右键命中的单张页面元素执行操作。
+ * `srcUrl` 仅在右键 `<img>` 时由浏览器提供。
+ */
+export interface ContextMenuActionMessage {
+  type: 'CONTEXT_MENU_ACTION';
+  action: ContextMenuAction;
+  srcUrl?: string;
+}
+
+/** background → 顶层 frame：整个标签页聚合后的状态，供 HUD 展示 */
+export interface TabStateUpdateMessage {
+  type: 'TAB_STATE_UPDATE';
+  state: ContentState;
+}
+
+export interface ExportTranslationPackRequest {
+  type: 'CACHE_EXPORT_PACK';
+  filter?: {
+    chapterId?: string;
+    site?: string;
+  };
+}
+
+export interface ExportTranslationPackResponse {
+  success: boolean;
+  /** Serialisable `TranslationPack`; written to disk as-is by the options page */
+  pack?: unknown;
+  recordCount?: number;
+  error?: string;
+}
+
+export interface ImportTranslationPackRequest {
+  type: 'CACHE_IMPORT_PACK';
+  pack: unknown;
+  strategy: 'newer' | 'keep-existing' | 'overwrite';
+  /** Also replace translations the user corrected locally */
+  overwriteCorrections?: boolean;
+}
+
+export interface ImportTranslationPackResponse {
+  success: boolean;
+  imported?: number;
+  skipped?: number;
+  rejected?: number;
+  error?: string;
+}
+
+/**
+ * content → background：用户在页面上直接修改译文（改字、移动/缩放、拆分、
+ * 合并、删除）后，把整张图的文字区域写回缓存，作为 `user-corrected` 版本。
+ */
+export interface SaveTranslationCorrectionRequest {
+  type: 'CACHE_SAVE_CORRECTION';
+  cacheKey: TranslationCacheKeyPayload;
+  textAreas: TextArea[];
+  pageUrl?: string;
+  chapterId?: string;
+}
+
+export interface SaveTranslationCorrectionResponse {
+  success: boolean;
+  error?: string;
+}
+
 export type BackgroundRequest =
   | FetchImageBytesRequest
   | TranslateImageJobRequest
-  | QueryJobStatusRequest;
+  | QueryJobStatusRequest
+  | CancelJobRequest
+  | ReprioritizeJobsRequest
+  | TabFramesDispatchRequest
+  | ExportTranslationPackRequest
+  | ImportTranslationPackRequest
+  | SaveTranslationCorrectionRequest;
 
 export type BackgroundResponse =
   | FetchImageBytesResponse
   | TranslateImageJobResponse
-  | QueryJobStatusResponse;
+  | QueryJobStatusResponse
+  | CancelJobResponse
+  | ReprioritizeJobsResponse
+  | TabFramesDispatchResponse
+  | ExportTranslationPackResponse
+  | ImportTranslationPackResponse
+  | SaveTranslationCorrectionResponse;
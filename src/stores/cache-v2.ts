@@ -10,6 +10,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import type { ProviderType, TextArea } from '@/providers/base';
+import type { TranslationCacheKeyPayload } from '@/shared/runtime-contracts';
 import { LRUCache } from '@/utils/lru-cache';
 
 // ==================== Type Definitions ====================
@@ -26,6 +27,12 @@ export interface TranslationResult {
   error?: string;
   /** Whether this result was retrieved from cache */
   cached?: boolean;
+  /** The areas are the user's in-place corrections */
+  corrected?: boolean;
+  /** Background cache record to save corrections to */
+  cacheKey?: TranslationCacheKeyPayload;
+  /** Provider tokens billed for this result; 0 for cache hits */
+  totalTokens?: number;
 }
 
 /**
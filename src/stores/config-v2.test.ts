@@ -17,15 +17,33 @@ describe('AppConfigStore', () => {
     expect(state.autoContinueEnabled).toBe(true);
   });
 
-  it('keeps only openai-compatible, ollama and lm-studio provider surfaces', () => {
+  it('keeps only the supported provider surfaces', () => {
     const state = useAppConfigStore.getState();
     expect(Object.keys(state.providers)).toEqual([
       'openai-compatible',
+      'anthropic',
+      'gemini',
       'ollama',
       'lm-studio',
+      'sidecar-server',
     ]);
   });
 
+  it('mirrors sidecar-server settings into the top-level runtime field', () => {
+    const store = useAppConfigStore.getState();
+    store.setProvider('sidecar-server');
+    store.updateProviderSettings('sidecar-server', {
+      baseUrl: 'http://192.168.1.20:8000',
+      apiKey: 'server-token',
+    });
+
+    const state = useAppConfigStore.getState();
+    expect(state.sidecarServer.baseUrl).toBe('http://192.168.1.20:8000');
+    expect(state.providers['sidecar-server'].apiKey).toBe('server-token');
+    expect(state.isProviderConfigured()).toBe(true);
+    expect(state.getRuntimeConfig().sidecarServer.apiKey).toBe('server-token');
+  });
+
   it('updates the active provider settings and readiness', () => {
     const store = useAppConfigStore.getState();
     store.setProvider('openai-compatible');
@@ -51,6 +69,22 @@ describe('AppConfigStore', () => {
     expect(state.autoContinueEnabled).toBe(false);
   });
 
+  it('keeps the fallback chain free of the active provider', () => {
+    const store = useAppConfigStore.getState();
+    store.setProvider('lm-studio');
+    store.setFallbackProviders(['lm-studio', 'openai-compatible', 'ollama']);
+
+    expect(useAppConfigStore.getState().fallbackProviders).toEqual([
+      'openai-compatible',
+      'ollama',
+    ]);
+
+    store.setProvider('openai-compatible');
+    const state = useAppConfigStore.getState();
+    expect(state.fallbackProviders).toEqual(['ollama']);
+    expect(state.getRuntimeConfig().fallbackProviders).toEqual(['ollama']);
+  });
+
   it('obfuscates API Key in storage and transparently restores it in store', async () => {
     const store = useAppConfigStore.getState();
     // 写入 API Key 
@@ -171,6 +205,56 @@ describe('AppConfigStore', () => {
         'https://api.siliconflow.cn/v1'
       );
     });
+
+    it('remaps the legacy `claude` provider onto native `anthropic`', async () => {
+      await chrome.storage.local.set({
+        'manga-translator-config-v2': {
+          state: {
+            enabled: true,
+            provider: 'claude',
+            providers: {
+              claude: {
+                apiKey: 'sk-ant-legacy',
+                baseUrl: 'https://api.anthropic.com/v1',
+                model: 'claude-3-5-sonnet-latest',
+              },
+            },
+            targetLanguage: 'zh-CN',
+          },
+          version: 1,
+        },
+      });
+
+      const persistApi = (useAppConfigStore as unknown as {
+        persist: { rehydrate: () => Promise<void> };
+      }).persist;
+      await persistApi.rehydrate();
+
+      const state = useAppConfigStore.getState();
+      expect(state.provider).toBe('anthropic');
+      expect(state.providers.anthropic.apiKey).toBe('sk-ant-legacy');
+      expect(state.providers.anthropic.model).toBe('claude-3-5-sonnet-latest');
+      expect(state.anthropic.apiKey).toBe('sk-ant-legacy');
+      expect(state.providers['openai-compatible'].apiKey).toBe('');
+    });
+  });
+
+  describe('v3 → v4 reading mode migration', () => {
+    it('keeps overlays for users who had the never-implemented `panel` default', async () => {
+      await chrome.storage.local.set({
+        'manga-translator-config-v2': {
+          state: { enabled: true, readingMode: 'panel', targetLanguage: 'zh-CN' },
+          version: 3,
+        },
+      });
+
+      const persistApi = (useAppConfigStore as unknown as {
+        persist: { rehydrate: () => Promise<void> };
+      }).persist;
+      await persistApi.rehydrate();
+
+      expect(useAppConfigStore.getState().readingMode).toBe('overlay');
+    });
   });
 
 });
@@ -5,9 +5,21 @@ import {
   APP_CONFIG_STORAGE_KEY,
   DEFAULT_CONFIG as SHARED_DEFAULT_CONFIG,
   DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  DEFAULT_ANTHROPIC_CONFIG,
+  DEFAULT_GEMINI_CONFIG,
   DEFAULT_OLLAMA_CONFIG,
   DEFAULT_LM_STUDIO_CONFIG,
+  DEFAULT_SIDECAR_SERVER_CONFIG,
+  normalizeCustomSiteAdapters,
+  normalizeNextChapterPrefetch,
+  normalizeFallbackProviders,
+  normalizePerceptualHashThreshold,
   normalizeRuntimeAppConfig,
+  type CacheMatchMode,
+  type CustomSiteAdapterDefinition,
+  type NextChapterPrefetchConfig,
+  type ReadingMode,
+  type RenderMode,
   type RuntimeAppConfig,
   type ProviderSettings as RuntimeProviderSettings,
 } from '@/shared/app-config';
@@ -22,10 +34,27 @@ export interface ProviderSettings extends RuntimeProviderSettings {}
 
 export interface ProvidersConfig {
   'openai-compatible': ProviderSettings;
+  anthropic: ProviderSettings;
+  gemini: ProviderSettings;
   ollama: ProviderSettings;
   'lm-studio': ProviderSettings;
+  'sidecar-server': ProviderSettings;
 }
 
+/**
+ * Each provider's settings are mirrored at the top level of the persisted
+ * state (the RuntimeAppConfig shape) as well as in `providers`. This maps a
+ * provider to its top-level field so setters can update both in one place.
+ */
+const RUNTIME_PROVIDER_SETTINGS_KEY = {
+  'openai-compatible': 'openaiCompatible',
+  anthropic: 'anthropic',
+  gemini: 'gemini',
+  ollama: 'ollama',
+  'lm-studio': 'lmStudio',
+  'sidecar-server': 'sidecarServer',
+} as const satisfies Record<ProviderType, keyof RuntimeAppConfig>;
+
 export interface OverlayStyleConfig {
   backgroundColor: string;
   textColor: string;
@@ -39,9 +68,15 @@ export interface AppConfigState extends RuntimeAppConfig {
   maxImageSize: number;
   parallelLimit: number;
   cacheEnabled: boolean;
+  cacheMatchMode: CacheMatchMode;
+  perceptualHashThreshold: number;
+  customSiteAdapters: CustomSiteAdapterDefinition[];
+  nextChapterPrefetch: NextChapterPrefetchConfig;
   autoContinueEnabled: boolean;
-  readingMode: 'panel';
-  renderMode: 'anchors-only' | 'strong-overlay-compat';
+  readingMode: ReadingMode;
+  renderMode: RenderMode;
+  fontStyleMatching: boolean;
+  autoVerticalText: boolean;
   overlayStyle: OverlayStyleConfig;
 }
 
@@ -54,14 +89,23 @@ export interface AppConfigActions {
     settings: Partial<ProviderSettings>
   ) => void;
   setProviderApiKey: (provider: ProviderType, apiKey: string) => void;
+  setFallbackProviders: (providers: ProviderType[]) => void;
   setTargetLanguage: (language: string) => void;
   setMaxImageSize: (size: number) => void;
   setParallelLimit: (limit: number) => void;
   setCacheEnabled: (enabled: boolean) => void;
+  setCacheMatchMode: (mode: CacheMatchMode) => void;
+  setPerceptualHashThreshold: (threshold: number) => void;
+  /** Adds the definition, or replaces the one with the same id */
+  saveCustomSiteAdapter: (definition: CustomSiteAdapterDefinition) => void;
+  removeCustomSiteAdapter: (id: string) => void;
+  setNextChapterPrefetch: (patch: Partial<NextChapterPrefetchConfig>) => void;
   setAutoContinueEnabled: (enabled: boolean) => void;
   setTranslationStylePreset: (preset: TranslationStylePreset) => void;
-  setReadingMode: (mode: 'panel') => void;
-  setRenderMode: (mode: 'anchors-only' | 'strong-overlay-compat') => void;
+  setReadingMode: (mode: ReadingMode) => void;
+  setRenderMode: (mode: RenderMode) => void;
+  setFontStyleMatching: (enabled: boolean) => void;
+  setAutoVerticalText: (enabled: boolean) => void;
   setOverlayStyle: (style: Partial<OverlayStyleConfig>) => void;
   setVerticalText: (enabled: boolean) => void;
   getActiveProviderSettings: () => ProviderSettings;
@@ -78,19 +122,29 @@ const LOCAL_DEFAULT_CONFIG: AppConfigState = {
   enabled: SHARED_DEFAULT_CONFIG.enabled,
   provider: SHARED_DEFAULT_CONFIG.provider,
   openaiCompatible: SHARED_DEFAULT_CONFIG.openaiCompatible,
+  anthropic: SHARED_DEFAULT_CONFIG.anthropic,
+  gemini: SHARED_DEFAULT_CONFIG.gemini,
   ollama: SHARED_DEFAULT_CONFIG.ollama,
   lmStudio: SHARED_DEFAULT_CONFIG.lmStudio,
+  sidecarServer: SHARED_DEFAULT_CONFIG.sidecarServer,
   providers: SHARED_DEFAULT_CONFIG.providers,
+  fallbackProviders: [...SHARED_DEFAULT_CONFIG.fallbackProviders],
   targetLanguage: SHARED_DEFAULT_CONFIG.targetLanguage,
   maxImageSize: SHARED_DEFAULT_CONFIG.maxImageSize,
   parallelLimit: SHARED_DEFAULT_CONFIG.parallelLimit,
   cacheEnabled: SHARED_DEFAULT_CONFIG.cacheEnabled,
+  cacheMatchMode: SHARED_DEFAULT_CONFIG.cacheMatchMode,
+  perceptualHashThreshold: SHARED_DEFAULT_CONFIG.perceptualHashThreshold,
+  customSiteAdapters: [...SHARED_DEFAULT_CONFIG.customSiteAdapters],
+  nextChapterPrefetch: { ...SHARED_DEFAULT_CONFIG.nextChapterPrefetch },
   autoContinueEnabled: SHARED_DEFAULT_CONFIG.autoContinueEnabled,
   translationStylePreset:
     SHARED_DEFAULT_CONFIG.translationStylePreset ??
     DEFAULT_TRANSLATION_STYLE_PRESET,
   readingMode: SHARED_DEFAULT_CONFIG.readingMode,
-  renderMode: SHARED_DEFAULT_CONFIG.renderMode as 'anchors-only' | 'strong-overlay-compat',
+  renderMode: SHARED_DEFAULT_CONFIG.renderMode,
+  fontStyleMatching: SHARED_DEFAULT_CONFIG.fontStyleMatching,
+  autoVerticalText: SHARED_DEFAULT_CONFIG.autoVerticalText,
   overlayStyle: SHARED_DEFAULT_CONFIG.overlayStyle,
 };
 
@@ -99,13 +153,13 @@ const LOCAL_DEFAULT_CONFIG: AppConfigState = {
  * (openai, siliconflow, dashscope, claude, deepseek, nvidia). v0.3.2 consolidates
  * to openai-compatible / ollama / lm-studio. This set is the source of truth
  * for the remap step; matches LEGACY_OPENAI_COMPATIBLE_PROVIDER_KEYS in
- * src/shared/app-config.ts.
+ * src/shared/app-config.ts. The legacy `claude` entry is not in this list: it
+ * seeds the native `anthropic` provider instead.
  */
 const LEGACY_OPENAI_COMPATIBLE_PROVIDER_KEYS: readonly string[] = [
   'openai',
   'siliconflow',
   'dashscope',
-  'claude',
   'deepseek',
 ];
 
@@ -120,7 +174,10 @@ function pickLegacyProviderEntry(
   const candidates = [
     preferredKey,
     ...LEGACY_OPENAI_COMPATIBLE_PROVIDER_KEYS,
-  ].filter((key): key is string => typeof key === 'string');
+  ].filter(
+    (key): key is string =>
+      typeof key === 'string' && LEGACY_OPENAI_COMPATIBLE_PROVIDER_KEYS.includes(key)
+  );
 
   for (const key of candidates) {
     const entry = providersRecord[key];
@@ -132,7 +189,15 @@ function pickLegacyProviderEntry(
 }
 
 /**
- * Migration for persisted config (v0 → v1 → v2 → v3).
+ * v3 → v4: `readingMode` gained the transcript panel. Until then 'panel' was
+ * its only value and only overlays were rendered, so it becomes 'overlay'.
+ */
+function migrateReadingMode(state: Record<string, unknown>): Record<string, unknown> {
+  return state['readingMode'] === 'panel' ? { ...state, readingMode: 'overlay' } : state;
+}
+
+/**
+ * Migration for persisted config (v0 → v1 → v2 → v3 → v4).
  *
  * v0.3.1 persisted state:
  *   { provider: 'openai' | 'ollama' | 'siliconflow' | ...,
@@ -143,9 +208,12 @@ function pickLegacyProviderEntry(
  *     openaiCompatible: {...}, ollama: {...}, lmStudio: {...},
  *     providers: { 'openai-compatible': {...}, ollama: {...}, 'lm-studio': {...} } }
  *
- * v0.3.5 (current) state:
+ * v0.3.5 state:
  *   v2 state minus translationPipeline / regionBatchSize / fallbackToFullImage
- *   (full-image-vlm is now the only supported pipeline).
+ *   (full-image-vlm is now the only supported pipeline). Providers added since
+ *   (anthropic, gemini, sidecar-server) are backfilled with defaults when missing.
+ *
+ * v4 (current) state: see `migrateReadingMode`.
  *
  * We rebuild providers and the top-level provider fields from the legacy
  * shape so v0.3.1 users do not get undefined on providers['openai-compatible']
@@ -159,8 +227,8 @@ function migratePersistedConfig(
     return persistedState;
   }
 
-  // Already on v3 — pass through.
-  if ((version ?? 0) >= 3) {
+  // Already on v4 — pass through.
+  if ((version ?? 0) >= 4) {
     return persistedState;
   }
 
@@ -171,6 +239,13 @@ function migratePersistedConfig(
     ? (innerStateValue as Record<string, unknown>)
     : persistedState;
 
+  if (version === 3) {
+    const upgraded = migrateReadingMode(inner);
+    return isRecord(persistedState['state'])
+      ? { ...persistedState, state: upgraded, version: 4 }
+      : { state: upgraded, version: 4 };
+  }
+
   // Use the shared normalizer to rebuild the top-level provider fields
   // (openaiCompatible, ollama, lmStudio, provider, etc.). It already handles
   // remapping legacy provider names and merging settings.
@@ -207,6 +282,15 @@ function migratePersistedConfig(
       (openaiEntry as ProviderSettings | null) ??
       normalized.openaiCompatible ??
       { ...DEFAULT_OPENAI_COMPATIBLE_CONFIG },
+    anthropic:
+      asProviderSettingsOrNull(legacyProvidersRecord['anthropic']) ??
+      asProviderSettingsOrNull(legacyProvidersRecord['claude']) ??
+      normalized.anthropic ??
+      { ...DEFAULT_ANTHROPIC_CONFIG },
+    gemini:
+      asProviderSettingsOrNull(legacyProvidersRecord['gemini']) ??
+      normalized.gemini ??
+      { ...DEFAULT_GEMINI_CONFIG },
     ollama:
       asProviderSettingsOrNull(legacyProvidersRecord['ollama']) ??
       normalized.ollama ??
@@ -215,13 +299,17 @@ function migratePersistedConfig(
       asProviderSettingsOrNull(legacyProvidersRecord['lm-studio']) ??
       normalized.lmStudio ??
       { ...DEFAULT_LM_STUDIO_CONFIG },
+    'sidecar-server':
+      asProviderSettingsOrNull(legacyProvidersRecord['sidecar-server']) ??
+      normalized.sidecarServer ??
+      { ...DEFAULT_SIDECAR_SERVER_CONFIG },
   };
 
-  const migratedState: Record<string, unknown> = {
+  const migratedState: Record<string, unknown> = migrateReadingMode({
     ...inner,
     ...normalized,
     providers: newProviders,
-  };
+  });
 
   // v2 → v3: drop legacy pipeline fields. The full-image-vlm pipeline is now
   // the only supported path; these fields were UI-only and no longer
@@ -231,14 +319,14 @@ function migratePersistedConfig(
   delete migratedState['fallbackToFullImage'];
 
   return isRecord(persistedState['state'])
-    ? { ...persistedState, state: migratedState, version: 3 }
-    : { state: migratedState, version: 3 };
+    ? { ...persistedState, state: migratedState, version: 4 }
+    : { state: migratedState, version: 4 };
 }
 
 /**
  * Defensive merge used in addition to `migrate`. If a future code path
  * writes a partial state missing some provider keys, this guarantees the
- * three new provider entries always exist.
+ * provider entries always exist.
  *
  * Generic in S so zustand can keep its S type inference for the create<>
  * call. Without the generic, S would narrow to AppConfigState and break the
@@ -268,6 +356,14 @@ function mergePersistedConfig<S extends AppConfigState>(
       (persistedProviders['openai-compatible'] as ProviderSettings | undefined) ??
       current.providers['openai-compatible'] ??
       { ...DEFAULT_OPENAI_COMPATIBLE_CONFIG },
+    anthropic:
+      (persistedProviders['anthropic'] as ProviderSettings | undefined) ??
+      current.providers.anthropic ??
+      { ...DEFAULT_ANTHROPIC_CONFIG },
+    gemini:
+      (persistedProviders['gemini'] as ProviderSettings | undefined) ??
+      current.providers.gemini ??
+      { ...DEFAULT_GEMINI_CONFIG },
     ollama:
       (persistedProviders['ollama'] as ProviderSettings | undefined) ??
       current.providers.ollama ??
@@ -276,6 +372,10 @@ function mergePersistedConfig<S extends AppConfigState>(
       (persistedProviders['lm-studio'] as ProviderSettings | undefined) ??
       current.providers['lm-studio'] ??
       { ...DEFAULT_LM_STUDIO_CONFIG },
+    'sidecar-server':
+      (persistedProviders['sidecar-server'] as ProviderSettings | undefined) ??
+      current.providers['sidecar-server'] ??
+      { ...DEFAULT_SIDECAR_SERVER_CONFIG },
   };
 
   return {
@@ -346,29 +446,20 @@ export const useAppConfigStore = create<AppConfigState & AppConfigActions>()(
       ...LOCAL_DEFAULT_CONFIG,
       setEnabled: (enabled) => set({ enabled }),
       toggleEnabled: () => set(state => ({ enabled: !state.enabled })),
-      setProvider: (provider) => set({ provider }),
+      setProvider: (provider) =>
+        set(state => ({
+          provider,
+          fallbackProviders: normalizeFallbackProviders(
+            state.fallbackProviders,
+            provider
+          ),
+        })),
       updateProviderSettings: (provider, settings) =>
         set(state => ({
-          ...(provider === 'openai-compatible'
-            ? {
-                openaiCompatible: {
-                  ...state.openaiCompatible,
-                  ...settings,
-                },
-              }
-            : provider === 'ollama'
-            ? {
-                ollama: {
-                  ...state.ollama,
-                  ...settings,
-                },
-              }
-            : {
-                lmStudio: {
-                  ...state.lmStudio,
-                  ...settings,
-                },
-              }),
+          [RUNTIME_PROVIDER_SETTINGS_KEY[provider]]: {
+            ...state[RUNTIME_PROVIDER_SETTINGS_KEY[provider]],
+            ...settings,
+          },
           providers: {
             ...state.providers,
             [provider]: {
@@ -379,26 +470,10 @@ export const useAppConfigStore = create<AppConfigState & AppConfigActions>()(
         })),
       setProviderApiKey: (provider, apiKey) =>
         set(state => ({
-          ...(provider === 'openai-compatible'
-            ? {
-                openaiCompatible: {
-                  ...state.openaiCompatible,
-                  apiKey,
-                },
-              }
-            : provider === 'ollama'
-            ? {
-                ollama: {
-                  ...state.ollama,
-                  apiKey,
-                },
-              }
-            : {
-                lmStudio: {
-                  ...state.lmStudio,
-                  apiKey,
-                },
-              }),
+          [RUNTIME_PROVIDER_SETTINGS_KEY[provider]]: {
+            ...state[RUNTIME_PROVIDER_SETTINGS_KEY[provider]],
+            apiKey,
+          },
           providers: {
             ...state.providers,
             [provider]: {
@@ -407,16 +482,54 @@ export const useAppConfigStore = create<AppConfigState & AppConfigActions>()(
             },
           },
         })),
+      setFallbackProviders: (fallbackProviders) =>
+        set(state => ({
+          fallbackProviders: normalizeFallbackProviders(
+            fallbackProviders,
+            state.provider
+          ),
+        })),
       setTargetLanguage: (targetLanguage) => set({ targetLanguage }),
       setMaxImageSize: (maxImageSize) => set({ maxImageSize }),
       setParallelLimit: (parallelLimit) => set({ parallelLimit }),
       setCacheEnabled: (cacheEnabled) => set({ cacheEnabled }),
+      setCacheMatchMode: (cacheMatchMode) => set({ cacheMatchMode }),
+      setPerceptualHashThreshold: (threshold) =>
+        set({
+          perceptualHashThreshold: normalizePerceptualHashThreshold(threshold),
+        }),
+      saveCustomSiteAdapter: definition =>
+        set(state => {
+          const exists = state.customSiteAdapters.some(item => item.id === definition.id);
+          return {
+            customSiteAdapters: normalizeCustomSiteAdapters(
+              exists
+                ? state.customSiteAdapters.map(item =>
+                    item.id === definition.id ? definition : item
+                  )
+                : [...state.customSiteAdapters, definition]
+            ),
+          };
+        }),
+      removeCustomSiteAdapter: id =>
+        set(state => ({
+          customSiteAdapters: state.customSiteAdapters.filter(item => item.id !== id),
+        })),
+      setNextChapterPrefetch: patch =>
+        set(state => ({
+          nextChapterPrefetch: normalizeNextChapterPrefetch({
+            ...state.nextChapterPrefetch,
+            ...patch,
+          }),
+        })),
       setAutoContinueEnabled: (autoContinueEnabled) =>
         set({ autoContinueEnabled }),
       setTranslationStylePreset: (translationStylePreset) =>
         set({ translationStylePreset }),
       setReadingMode: readingMode => set({ readingMode }),
       setRenderMode: renderMode => set({ renderMode }),
+      setFontStyleMatching: fontStyleMatching => set({ fontStyleMatching }),
+      setAutoVerticalText: autoVerticalText => set({ autoVerticalText }),
       setOverlayStyle: style =>
         set(state => ({
           overlayStyle: { ...state.overlayStyle, ...style },
@@ -433,7 +546,11 @@ export const useAppConfigStore = create<AppConfigState & AppConfigActions>()(
         const state = get();
         const targetProvider = provider || state.provider;
         const settings = state.providers[targetProvider];
-        if (targetProvider === 'ollama' || targetProvider === 'lm-studio') {
+        if (
+          targetProvider === 'ollama' ||
+          targetProvider === 'lm-studio' ||
+          targetProvider === 'sidecar-server'
+        ) {
           return !!settings.baseUrl;
         }
         return !!settings.apiKey;
@@ -444,8 +561,12 @@ export const useAppConfigStore = create<AppConfigState & AppConfigActions>()(
           enabled: state.enabled,
           provider: state.provider,
           openaiCompatible: state.openaiCompatible,
+          anthropic: state.anthropic,
+          gemini: state.gemini,
           ollama: state.ollama,
           lmStudio: state.lmStudio,
+          sidecarServer: state.sidecarServer,
+          fallbackProviders: state.fallbackProviders,
           targetLanguage: state.targetLanguage,
           translationStylePreset: state.translationStylePreset,
           autoContinueEnabled: state.autoContinueEnabled,
@@ -456,24 +577,34 @@ export const useAppConfigStore = create<AppConfigState & AppConfigActions>()(
     {
       name: APP_CONFIG_STORAGE_KEY,
       storage: createJSONStorage(() => chromeStorage),
-      version: 3,
+      version: 4,
       migrate: migratePersistedConfig,
       merge: mergePersistedConfig,
       partialize: state => ({
         enabled: state.enabled,
         provider: state.provider,
         openaiCompatible: state.openaiCompatible,
+        anthropic: state.anthropic,
+        gemini: state.gemini,
         ollama: state.ollama,
         lmStudio: state.lmStudio,
+        sidecarServer: state.sidecarServer,
         providers: state.providers,
+        fallbackProviders: state.fallbackProviders,
         targetLanguage: state.targetLanguage,
         maxImageSize: state.maxImageSize,
         parallelLimit: state.parallelLimit,
         cacheEnabled: state.cacheEnabled,
+        cacheMatchMode: state.cacheMatchMode,
+        perceptualHashThreshold: state.perceptualHashThreshold,
+        customSiteAdapters: state.customSiteAdapters,
+        nextChapterPrefetch: state.nextChapterPrefetch,
         autoContinueEnabled: state.autoContinueEnabled,
         translationStylePreset: state.translationStylePreset,
         readingMode: state.readingMode,
         renderMode: state.renderMode,
+        fontStyleMatching: state.fontStyleMatching,
+        autoVerticalText: state.autoVerticalText,
         overlayStyle: state.overlayStyle,
       }),
     }
@@ -79,6 +79,8 @@ export interface UsageStoreActions {
 
 const PROVIDER_PRICING: Partial<Record<ProviderType, { input: number; output: number }>> = {
     'openai-compatible': { input: 0.005, output: 0.015 },
+    anthropic: { input: 0.003, output: 0.015 },
+    gemini: { input: 0.0003, output: 0.0025 },
     ollama: { input: 0, output: 0 },
 };
 
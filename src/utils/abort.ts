@@ -0,0 +1,27 @@
+/**
+ * Cancellation helpers shared by the providers, the background job queue and
+ * the content-side transport. Cancellation is always surfaced as an error
+ * named `AbortError`, the same name `fetch` uses for an aborted request.
+ */
+
+export const CANCELLED_ERROR_MESSAGE = 'Translation cancelled';
+
+export function createAbortError(message: string = CANCELLED_ERROR_MESSAGE): Error {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { name?: unknown }).name === 'AbortError'
+  );
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
+import { createAbortError } from './abort';
+
 import {
   parseTranslationError,
   TranslationErrorCode,
@@ -16,6 +18,13 @@ describe('parseTranslationError', () => {
     expect(result.message).toContain('章节数据结构已变更');
   });
 
+  it('maps aborted requests to a non-retryable cancellation', () => {
+    const result = parseTranslationError(createAbortError());
+
+    expect(result.code).toBe(TranslationErrorCode.CANCELLED);
+    expect(result.retryable).toBe(false);
+  });
+
   it('maps chapter waiting timeout to timeout error', () => {
     const result = parseTranslationError(new Error('章节图片未在预期时间内出现'));
 
@@ -7,6 +7,8 @@
  * Requirements: 8.1, 8.2, 8.3, 4.4
  */
 
+import { isAbortError } from './abort';
+
 // ============================================================================
 // 错误码定义（符合设计文档）
 // ============================================================================
@@ -41,6 +43,9 @@ export enum TranslationErrorCode {
   // 解析错误
   PARSE_ERROR = 'PARSE_ERROR', // 翻译结果解析失败
 
+  // 用户取消
+  CANCELLED = 'CANCELLED', // 翻译被用户取消
+
   // 其他错误
   UNKNOWN_ERROR = 'UNKNOWN_ERROR', // 未知错误
 }
@@ -130,6 +135,11 @@ const ERROR_MESSAGES: Record<
     suggestion: '请稍后重试，或尝试其他 Provider',
     retryable: true,
   },
+  [TranslationErrorCode.CANCELLED]: {
+    message: '翻译已取消',
+    suggestion: '可随时重新开始翻译',
+    retryable: false,
+  },
   [TranslationErrorCode.UNKNOWN_ERROR]: {
     message: '发生未知错误',
     suggestion: '请稍后重试，如问题持续请联系支持',
@@ -158,6 +168,12 @@ export class TranslationErrorHandler {
       return error;
     }
 
+    if (isAbortError(error)) {
+      return TranslationErrorHandler.createFriendlyError(
+        TranslationErrorCode.CANCELLED
+      );
+    }
+
     const rawErrorMessage =
       error instanceof Error ? error.message : String(error);
     const errorMessage = rawErrorMessage.toLowerCase();
@@ -251,6 +267,11 @@ export class TranslationErrorHandler {
    * 根据错误消息关键词获取错误码
    */
   private static getCodeFromMessage(message: string): TranslationErrorCode {
+    // 取消（跨消息边界后只剩错误文本）
+    if (message.includes('translation cancelled') || message.includes('翻译已取消')) {
+      return TranslationErrorCode.CANCELLED;
+    }
+
     // API 密钥相关
     if (
       message.includes('api key') ||
@@ -25,13 +25,13 @@ export interface TextArea {
 
 /**
  * 分析并匹配原文字体样式
- * @param image - 图像元素
- * @param textArea - 文字区域信息
+ * @param image - 图像元素（可回读像素的 img 或 canvas）
+ * @param textArea - 文字区域信息（原图像素坐标）
  * @param options - 匹配选项
  * @returns 匹配的字体样式
  */
 export function matchFontStyle(
-  image: HTMLImageElement,
+  image: HTMLImageElement | HTMLCanvasElement,
   textArea: TextArea,
   options: {
     styleLevel?: number; // 0-100，样式匹配程度
@@ -95,7 +95,7 @@ export function matchFontStyle(
  * @returns 原始样式信息
  */
 function analyzeOriginalStyle(
-  image: HTMLImageElement,
+  image: HTMLImageElement | HTMLCanvasElement,
   textArea: TextArea
 ): {
   avgBrightness: number;
@@ -4,11 +4,15 @@
  * Provides a simple HTTP client with error handling and retry logic.
  */
 
+import { createAbortError } from './abort';
+
 export interface HttpRequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   headers?: Record<string, string>;
   body?: unknown;
   timeout?: number;
+  /** Cancels the request; an aborted request rejects with an `AbortError` */
+  signal?: AbortSignal;
 }
 
 export interface HttpResponse<T = unknown> {
@@ -26,12 +30,17 @@ export async function httpRequest<T = unknown>(
   url: string,
   options: HttpRequestOptions = {}
 ): Promise<HttpResponse<T>> {
-  const { method = 'GET', headers = {}, body, timeout = 30000 } = options;
+  const { method = 'GET', headers = {}, body, timeout = 30000, signal } = options;
 
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const abortFromCaller = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  signal?.addEventListener('abort', abortFromCaller, { once: true });
 
+  try {
     const response = await fetch(url, {
       method,
       headers: {
@@ -42,8 +51,6 @@ export async function httpRequest<T = unknown>(
       signal: controller.signal,
     });
 
-    clearTimeout(timeoutId);
-
     if (!response.ok) {
       const errorText = await response.text().catch(() => response.statusText);
       return {
@@ -62,6 +69,10 @@ export async function httpRequest<T = unknown>(
       data,
     };
   } catch (error) {
+    // 调用方取消不是超时，向上抛出以终止整个翻译任务
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
         return {
@@ -85,5 +96,8 @@ export async function httpRequest<T = unknown>(
       statusText: 'Unknown Error',
       error: 'Unknown network error',
     };
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
   }
 }
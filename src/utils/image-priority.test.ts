@@ -320,6 +320,23 @@ describe('Parallel Processing', () => {
       expect(maxConcurrent).toBeLessThanOrEqual(2);
     });
 
+    it('should start the item chosen by selectNext', async () => {
+      const started: number[] = [];
+
+      await processInParallel(
+        ['a', 'b', 'c', 'd'],
+        async (_item, index) => {
+          started.push(index);
+        },
+        {
+          maxConcurrent: 1,
+          selectNext: pending => pending[pending.length - 1] ?? 0,
+        }
+      );
+
+      expect(started).toEqual([3, 2, 1, 0]);
+    });
+
     it('should call onItemComplete callback', async () => {
       const items = [1, 2, 3];
       const onItemComplete = vi.fn();
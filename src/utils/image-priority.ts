@@ -10,9 +10,9 @@
 
 // ==================== Type Definitions ====================
 
-export interface ImageWithPriority {
-  /** The image element */
-  image: HTMLImageElement;
+export interface ImageWithPriority<T extends HTMLElement = HTMLImageElement> {
+  /** The page element (`<img>`, `<canvas>` or background-image element) */
+  image: T;
   /** Priority score (higher = process first) */
   priority: number;
   /** Whether the image is in the viewport */
@@ -32,6 +32,12 @@ export interface ParallelProcessingOptions {
   onError?: (error: Error, index: number) => void;
   /** Abort signal for cancellation */
   signal?: AbortSignal;
+  /**
+   * Picks the next item to start from the indexes still waiting (in array
+   * order). Defaults to the first one; lets callers re-rank items while the
+   * pool is running, e.g. after the user scrolls.
+   */
+  selectNext?: (pendingIndexes: readonly number[]) => number;
 }
 
 // ==================== Viewport Detection ====================
@@ -88,6 +94,20 @@ export function getDistanceFromViewportCenter(element: HTMLElement): number {
   return Math.sqrt(dx * dx + dy * dy);
 }
 
+function getIntrinsicWidth(element: HTMLElement): number {
+  if (element instanceof HTMLImageElement) {
+    return element.naturalWidth || element.width;
+  }
+  return element instanceof HTMLCanvasElement ? element.width : element.offsetWidth;
+}
+
+function getIntrinsicHeight(element: HTMLElement): number {
+  if (element instanceof HTMLImageElement) {
+    return element.naturalHeight || element.height;
+  }
+  return element instanceof HTMLCanvasElement ? element.height : element.offsetHeight;
+}
+
 /**
  * Calculate priority score for an image
  *
@@ -99,7 +119,7 @@ export function getDistanceFromViewportCenter(element: HTMLElement): number {
  * @param img Image element
  * @returns Priority score
  */
-export function calculateImagePriority(img: HTMLImageElement): number {
+export function calculateImagePriority(img: HTMLElement): number {
   let priority = 0;
 
   // Base priority for being in viewport (1000 points)
@@ -117,8 +137,7 @@ export function calculateImagePriority(img: HTMLImageElement): number {
   priority += distanceScore;
 
   // Size bonus (larger images slightly higher priority, max 100 points)
-  const area =
-    (img.naturalWidth || img.width) * (img.naturalHeight || img.height);
+  const area = getIntrinsicWidth(img) * getIntrinsicHeight(img);
   const sizeScore = Math.min(100, area / 10000);
   priority += sizeScore;
 
@@ -135,10 +154,10 @@ export function calculateImagePriority(img: HTMLImageElement): number {
  * @param images Array of image elements
  * @returns Sorted array with priority information
  */
-export function sortImagesByPriority(
-  images: HTMLImageElement[]
-): ImageWithPriority[] {
-  const imagesWithPriority: ImageWithPriority[] = images.map(img => ({
+export function sortImagesByPriority<T extends HTMLElement>(
+  images: T[]
+): ImageWithPriority<T>[] {
+  const imagesWithPriority: ImageWithPriority<T>[] = images.map(img => ({
     image: img,
     priority: calculateImagePriority(img),
     inViewport: isInViewport(img),
@@ -155,9 +174,9 @@ export function sortImagesByPriority(
  * @param images Array of image elements
  * @returns Sorted array of image elements (viewport first)
  */
-export function getViewportFirstImages(
-  images: HTMLImageElement[]
-): HTMLImageElement[] {
+export function getViewportFirstImages<T extends HTMLElement>(
+  images: T[]
+): T[] {
   return sortImagesByPriority(images).map(item => item.image);
 }
 
@@ -178,9 +197,10 @@ export async function processInParallel<T, R>(
   processor: (item: T, index: number) => Promise<R>,
   options: ParallelProcessingOptions
 ): Promise<R[]> {
-  const { maxConcurrent, onItemStart, onItemComplete, onError, signal } = options;
+  const { maxConcurrent, onItemStart, onItemComplete, onError, signal, selectNext } =
+    options;
   const results: R[] = new Array(items.length);
-  let currentIndex = 0;
+  const pendingIndexes = items.map((_, index) => index);
   let completedCount = 0;
   const total = items.length;
 
@@ -191,13 +211,15 @@ export async function processInParallel<T, R>(
   const workers: Promise<void>[] = [];
 
   const processNext = async (): Promise<void> => {
-    while (currentIndex < items.length) {
+    while (pendingIndexes.length > 0) {
       // Check for cancellation
       if (signal?.aborted) {
         return;
       }
 
-      const index = currentIndex++;
+      const selected = selectNext ? pendingIndexes.indexOf(selectNext(pendingIndexes)) : 0;
+      const [index] = pendingIndexes.splice(Math.max(0, selected), 1);
+      if (index === undefined) continue;
       const item = items[index];
 
       if (item === undefined) continue;
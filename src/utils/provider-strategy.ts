@@ -22,6 +22,26 @@ const PROVIDER_STRATEGY: Record<ProviderType, ProviderStrategy> = {
     qualityLabel: '高',
     costLabel: '高',
   },
+  anthropic: {
+    lane: 'direct-cloud',
+    recommendation: '适合已有 Anthropic API Key、看重对白语气和上下文理解的用户。',
+    tradeoff: '走原生 Messages API，译文自然度高，但按 Token 计费且需联网。',
+    suggestedModel: 'claude-sonnet-4-5',
+    fallbackAdvice: '遇到限流时可换用 Haiku 系列模型，或临时切到 OpenAI-compatible。',
+    speedLabel: '中',
+    qualityLabel: '高',
+    costLabel: '中',
+  },
+  gemini: {
+    lane: 'direct-cloud',
+    recommendation: '适合追求速度和低成本、需要大批量翻译的用户。',
+    tradeoff: 'Flash 系列响应快、价格低，JSON 结构化输出稳定，但对小字和竖排文字的识别略逊。',
+    suggestedModel: 'gemini-2.5-flash',
+    fallbackAdvice: '漏字较多时改用 gemini-2.5-pro，或切到 Anthropic / OpenAI-compatible。',
+    speedLabel: '快',
+    qualityLabel: '中高',
+    costLabel: '低',
+  },
   ollama: {
     lane: 'private',
     recommendation: '适合隐私优先或离线环境用户。',
@@ -42,13 +62,26 @@ const PROVIDER_STRATEGY: Record<ProviderType, ProviderStrategy> = {
     qualityLabel: '中高',
     costLabel: '本地',
   },
+  'sidecar-server': {
+    lane: 'private',
+    recommendation: '适合已自建 OCR 服务、希望用 OCR-first 流水线替代逐图 VLM 调用的用户。',
+    tradeoff: 'OCR + 文本翻译成本低且带服务端缓存，但需要自行部署和维护 server/ 服务。',
+    suggestedModel: 'ocr-first',
+    fallbackAdvice: 'OCR 漏字较多时可在服务端开启 VLM fallback，或切回 OpenAI-compatible 直连。',
+    speedLabel: '快',
+    qualityLabel: '中高',
+    costLabel: '本地',
+  },
 };
 
 const PROVIDER_PRICING: Record<ProviderType, { input: number; output: number }> =
   {
     'openai-compatible': { input: 0.005, output: 0.015 },
+    anthropic: { input: 0.003, output: 0.015 },
+    gemini: { input: 0.0003, output: 0.0025 },
     ollama: { input: 0, output: 0 },
     'lm-studio': { input: 0, output: 0 },
+    'sidecar-server': { input: 0, output: 0 },
   };
 
 export function getProviderStrategy(provider: ProviderType): ProviderStrategy {